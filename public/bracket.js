@@ -0,0 +1,168 @@
+const metaEl = document.getElementById("bracket-meta");
+const refreshBtn = document.getElementById("bracket-refresh");
+const bracketRoot = document.getElementById("bracket-root");
+const lastInRoot = document.getElementById("bracket-last-in");
+const firstOutRoot = document.getElementById("bracket-first-out");
+const notesRoot = document.getElementById("bracket-notes");
+
+init();
+
+function init() {
+  refreshBtn.addEventListener("click", () => {
+    loadProjection();
+  });
+
+  if (window.ncaabsbBranding?.load) {
+    window.ncaabsbBranding.load();
+  }
+  loadProjection();
+}
+
+async function loadProjection() {
+  metaEl.textContent = "Loading projection...";
+  setStateMessage(bracketRoot, "Building the field...");
+
+  try {
+    const response = await fetch(`/api/projections/bracket?_=${Date.now()}`, {
+      headers: { Accept: "application/json" },
+      cache: "no-store",
+    });
+    if (!response.ok) {
+      throw new Error(`Projection request failed (${response.status})`);
+    }
+
+    const payload = await response.json();
+    renderProjection(payload);
+  } catch (error) {
+    metaEl.textContent = "Projection unavailable.";
+    setStateMessage(bracketRoot, error instanceof Error ? error.message : String(error));
+  }
+}
+
+function renderProjection(payload) {
+  const regionals = Array.isArray(payload.regionals) ? payload.regionals : [];
+  const automaticBids = Array.isArray(payload.automaticBids) ? payload.automaticBids : [];
+  const generatedAt = payload.generatedAt ? new Date(payload.generatedAt).toLocaleString() : "now";
+  metaEl.textContent =
+    `${payload.fieldSize} teams • ${automaticBids.length} automatic bids • ` +
+    `computed RPI from ${payload.file || "latest teams export"} • ${generatedAt}`;
+
+  renderBubble(lastInRoot, payload.lastFourIn);
+  renderBubble(firstOutRoot, payload.firstFourOut);
+
+  bracketRoot.innerHTML = "";
+  if (regionals.length === 0) {
+    setStateMessage(bracketRoot, "Not enough rated teams to build a bracket yet.");
+  }
+
+  const bySuper = new Map();
+  for (const regional of regionals) {
+    const list = bySuper.get(regional.superRegional) || [];
+    list.push(regional);
+    bySuper.set(regional.superRegional, list);
+  }
+
+  for (const [superNumber, pair] of Array.from(bySuper.entries()).sort((a, b) => a[0] - b[0])) {
+    const superCard = document.createElement("article");
+    superCard.className = "bracket-super";
+
+    const title = document.createElement("p");
+    title.className = "eyebrow";
+    title.textContent = `Super Regional ${superNumber}`;
+    superCard.appendChild(title);
+
+    pair.forEach((regional) => superCard.appendChild(renderRegional(regional)));
+    bracketRoot.appendChild(superCard);
+  }
+
+  renderNotes([...(payload.constraintViolations || []), ...(payload.errors || [])]);
+}
+
+function renderRegional(regional) {
+  const card = document.createElement("section");
+  card.className = "bracket-regional";
+
+  const head = document.createElement("div");
+  head.className = "section-head";
+  const name = document.createElement("h2");
+  name.textContent = regional.name;
+  head.appendChild(name);
+  if (regional.nationalSeed) {
+    const seed = document.createElement("p");
+    seed.className = "count";
+    seed.textContent = `National seed #${regional.nationalSeed}`;
+    head.appendChild(seed);
+  }
+  card.appendChild(head);
+
+  const list = document.createElement("ol");
+  list.className = "bracket-teams";
+  for (const team of regional.teams || []) {
+    list.appendChild(renderTeamRow(team));
+  }
+  card.appendChild(list);
+  return card;
+}
+
+function renderTeamRow(team) {
+  const row = document.createElement("li");
+  row.className = "bracket-team";
+
+  const branding = resolveTeamBranding(team.teamName);
+  const safeColor = branding && window.ncaabsbBranding?.safeColor
+    ? window.ncaabsbBranding.safeColor(branding.color?.primary)
+    : null;
+  if (safeColor) {
+    row.style.setProperty("--team-color", safeColor);
+    row.classList.add("team-branded");
+  }
+
+  const seed = document.createElement("span");
+  seed.className = "bracket-seed";
+  seed.textContent = String(team.seed);
+  row.appendChild(seed);
+
+  const name = document.createElement("span");
+  name.className = "bracket-team-name";
+  name.textContent = team.teamName;
+  row.appendChild(name);
+
+  const detail = document.createElement("span");
+  detail.className = "bracket-team-meta";
+  const bid = team.bid === "automatic" ? "AQ" : "AL";
+  detail.textContent = `${team.conference || "Independent"} • ${bid} • RPI #${team.rpiRank}`;
+  row.appendChild(detail);
+  return row;
+}
+
+function renderBubble(root, teams) {
+  root.innerHTML = "";
+  for (const team of Array.isArray(teams) ? teams : []) {
+    const item = document.createElement("li");
+    item.textContent = `${team.teamName} (${team.conference || "Independent"}, RPI #${team.rpiRank})`;
+    root.appendChild(item);
+  }
+}
+
+function renderNotes(notes) {
+  notesRoot.innerHTML = "";
+  notesRoot.hidden = notes.length === 0;
+  for (const note of notes) {
+    const item = document.createElement("li");
+    item.textContent = note;
+    notesRoot.appendChild(item);
+  }
+}
+
+function resolveTeamBranding(teamName) {
+  const lookup = window.ncaabsbBranding?.lookup;
+  return lookup ? lookup(teamName || "") : null;
+}
+
+function setStateMessage(root, message) {
+  root.innerHTML = "";
+  const node = document.createElement("p");
+  node.className = "state-message";
+  node.textContent = message;
+  root.appendChild(node);
+}
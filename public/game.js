@@ -12,6 +12,8 @@ let gameId = null;
 let currentView = "all";
 let availableViews = [];
 let refreshTimer = null;
+let liveStream = null;
+let streamReloadTimer = null;
 let currentSummary = null;
 let currentEvent = null;
 
@@ -355,7 +357,66 @@ function resetAutoRefresh() {
     refreshTimer = null;
   }
 
-  if (autoRefresh.checked) {
+  closeLiveStream();
+
+  if (!autoRefresh.checked) {
+    return;
+  }
+
+  if (!openLiveStream()) {
+    startPollingFallback();
+  }
+}
+
+function openLiveStream() {
+  if (typeof window.EventSource !== "function") {
+    return false;
+  }
+
+  liveStream = new EventSource(`/api/live/${encodeURIComponent(String(gameId))}/stream`);
+  ["score", "situation", "play", "final"].forEach((type) => {
+    liveStream.addEventListener(type, scheduleStreamReload);
+  });
+  liveStream.addEventListener("final", () => {
+    liveStream?.close();
+    liveStream = null;
+  });
+  liveStream.onerror = () => {
+    if (liveStream && liveStream.readyState === EventSource.CLOSED) {
+      closeLiveStream();
+      startPollingFallback();
+    }
+  };
+
+  return true;
+}
+
+function closeLiveStream() {
+  if (streamReloadTimer) {
+    clearTimeout(streamReloadTimer);
+    streamReloadTimer = null;
+  }
+
+  if (liveStream) {
+    liveStream.close();
+    liveStream = null;
+  }
+}
+
+function scheduleStreamReload() {
+  if (streamReloadTimer) {
+    return;
+  }
+
+  // Several events usually arrive together for one pitch; reload once per burst.
+  streamReloadTimer = setTimeout(() => {
+    streamReloadTimer = null;
+    loadDashboard(currentView);
+  }, 750);
+}
+
+function startPollingFallback() {
+  if (!refreshTimer && autoRefresh.checked) {
     refreshTimer = setInterval(() => loadDashboard(currentView), 20000);
   }
 }
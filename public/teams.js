@@ -329,6 +329,7 @@ function renderTeamDetail(team) {
   }
 
   detailRoot.appendChild(renderScheduleSection(team.schedule));
+  detailRoot.appendChild(renderWorkloadSection(team));
   detailRoot.appendChild(renderStatsSection(team.statsTables));
 }
 
@@ -400,6 +401,87 @@ function renderScheduleSection(schedule) {
   return section;
 }
 
+function renderWorkloadSection(team) {
+  const section = document.createElement("section");
+  section.className = "team-block";
+
+  const heading = document.createElement("h3");
+  heading.textContent = "Pitching Workload";
+  section.appendChild(heading);
+
+  const body = document.createElement("div");
+  section.appendChild(body);
+  setStateMessage(body, "Loading pitching workload...");
+
+  const season = team.season ? `&season=${encodeURIComponent(team.season)}` : "";
+  fetch(`/api/teams/${encodeURIComponent(getTeamKey(team))}/pitching-workload?_=${Date.now()}${season}`, {
+    headers: { Accept: "application/json" },
+    cache: "no-store",
+  })
+    .then((response) => {
+      if (!response.ok) {
+        throw new Error(`Workload request failed (${response.status})`);
+      }
+      return response.json();
+    })
+    .then((payload) => renderWorkloadTable(body, payload))
+    .catch((error) => {
+      setStateMessage(body, error instanceof Error ? error.message : "Failed to load pitching workload");
+    });
+
+  return section;
+}
+
+function renderWorkloadTable(root, payload) {
+  const pitchers = Array.isArray(payload?.pitchers) ? payload.pitchers : [];
+  if (pitchers.length === 0) {
+    setStateMessage(root, "No archived box scores with pitching lines were available.");
+    return;
+  }
+
+  root.innerHTML = "";
+  const note = document.createElement("p");
+  note.className = "state-message";
+  note.textContent = payload.nextGameDate
+    ? `Availability projected for the next game on ${payload.nextGameDate}.`
+    : `Availability projected for ${payload.availabilityDate}.`;
+  root.appendChild(note);
+
+  const tableWrap = document.createElement("div");
+  tableWrap.className = "stats-table-wrap";
+  const table = document.createElement("table");
+  table.className = "stats-table";
+
+  const thead = document.createElement("thead");
+  thead.innerHTML =
+    "<tr><th>Pitcher</th><th>App</th><th>GS</th><th>IP</th><th>Last Outing</th><th>NP</th><th>3 Days</th><th>7 Days</th><th>14 Days</th><th>Status</th></tr>";
+  table.appendChild(thead);
+
+  const tbody = document.createElement("tbody");
+  pitchers.forEach((pitcher) => {
+    const tr = document.createElement("tr");
+    tr.appendChild(makeCell(pitcher.name));
+    tr.appendChild(makeCell(pitcher.appearances));
+    tr.appendChild(makeCell(pitcher.starts));
+    tr.appendChild(makeCell(pitcher.ip));
+    tr.appendChild(makeCell(pitcher.lastOutingDate));
+    tr.appendChild(makeCell(pitcher.lastOutingPitches));
+    tr.appendChild(makeCell(pitcher.pitchesLast3Days));
+    tr.appendChild(makeCell(pitcher.pitchesLast7Days));
+    tr.appendChild(makeCell(pitcher.pitchesLast14Days));
+
+    const statusCell = makeCell(pitcher.availability);
+    statusCell.className = `workload-availability ${pitcher.availability}`;
+    statusCell.title = pitcher.availabilityNote || "";
+    tr.appendChild(statusCell);
+    tbody.appendChild(tr);
+  });
+
+  table.appendChild(tbody);
+  tableWrap.appendChild(table);
+  root.appendChild(tableWrap);
+}
+
 function renderStatsSection(statsTables) {
   const section = document.createElement("section");
   section.className = "team-block";
@@ -1,10 +1,16 @@
 const REFRESH_INTERVAL_MS = 12000;
+const STREAM_FALLBACK_INTERVAL_MS = 60000;
 const EMPTY_PHOTO =
   "data:image/svg+xml,%3Csvg xmlns='http://www.w3.org/2000/svg' viewBox='0 0 220 220'%3E%3Crect width='220' height='220' fill='%23d8d8d8'/%3E%3Ccircle cx='110' cy='84' r='42' fill='%23bcbcbc'/%3E%3Crect x='48' y='140' width='124' height='58' rx='28' fill='%23bcbcbc'/%3E%3C/svg%3E";
 
 const state = {
   selectedGameId: null,
   refreshTimer: null,
+  refreshIntervalMs: null,
+  liveStream: null,
+  liveStreamGameId: null,
+  streamRefreshTimer: null,
+  finishedGameId: null,
   rosterCache: new Map(),
   timelineHistory: {
     gameId: null,
@@ -66,7 +72,83 @@ async function init() {
   }
 
   await fetchAndRender();
-  state.refreshTimer = window.setInterval(fetchAndRender, REFRESH_INTERVAL_MS);
+  connectLiveStream();
+}
+
+function connectLiveStream() {
+  const gameId = state.selectedGameId;
+  if (state.liveStream && state.liveStreamGameId === gameId) {
+    return;
+  }
+
+  disconnectLiveStream();
+  if (!gameId || gameId === state.finishedGameId || typeof window.EventSource !== "function") {
+    startRefreshPolling();
+    return;
+  }
+
+  const stream = new window.EventSource(`/api/live/${encodeURIComponent(String(gameId))}/stream`);
+  ["score", "situation", "play"].forEach((type) => {
+    stream.addEventListener(type, scheduleStreamRefresh);
+  });
+  stream.addEventListener("final", () => {
+    // Back to regular polling so the overlay moves on once the next game is selected.
+    state.finishedGameId = gameId;
+    disconnectLiveStream();
+    scheduleStreamRefresh();
+  });
+  stream.onerror = () => {
+    if (stream.readyState === window.EventSource.CLOSED) {
+      disconnectLiveStream();
+      startRefreshPolling();
+    }
+  };
+
+  // The stream only covers this game; a slow poll still notices a game switch or a stalled stream.
+  startRefreshPolling(STREAM_FALLBACK_INTERVAL_MS);
+  state.liveStream = stream;
+  state.liveStreamGameId = gameId;
+}
+
+function disconnectLiveStream() {
+  if (state.liveStream) {
+    state.liveStream.close();
+  }
+  state.liveStream = null;
+  state.liveStreamGameId = null;
+}
+
+function scheduleStreamRefresh() {
+  if (state.streamRefreshTimer) {
+    return;
+  }
+
+  state.streamRefreshTimer = window.setTimeout(async () => {
+    state.streamRefreshTimer = null;
+    await fetchAndRender();
+    connectLiveStream();
+  }, 500);
+}
+
+function startRefreshPolling(intervalMs = REFRESH_INTERVAL_MS) {
+  if (state.refreshTimer && state.refreshIntervalMs === intervalMs) {
+    return;
+  }
+
+  stopRefreshPolling();
+  state.refreshIntervalMs = intervalMs;
+  state.refreshTimer = window.setInterval(async () => {
+    await fetchAndRender();
+    connectLiveStream();
+  }, intervalMs);
+}
+
+function stopRefreshPolling() {
+  if (state.refreshTimer) {
+    window.clearInterval(state.refreshTimer);
+    state.refreshTimer = null;
+    state.refreshIntervalMs = null;
+  }
 }
 
 async function fetchAndRender() {
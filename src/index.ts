@@ -1,7 +1,55 @@
 import express from "express";
 import fs from "fs/promises";
 import path from "path";
-import { deriveLivePlayStates, extractLivePlayEvents } from "./pipelines/live-play-feed";
+import type { LiveDashboardPlay } from "./pipelines/live-play-feed";
+import { formatServerSentEvent, LiveGameStreamHub } from "./pipelines/live-game-stream";
+import { liveStatsProviders, type ResolvedLiveGame } from "./pipelines/live-stats-provider";
+import { upstreamPoller } from "./pipelines/upstream-poller";
+import { buildBaseballScorekeepingData, type BaseballScorekeepingData } from "./scorekeeping/baseball";
+import { reconcileBoxScore } from "./scorekeeping/box-score-reconciliation";
+import { buildScorecardPage, renderScorecardPdf, renderScorecardSvg } from "./scorekeeping/scorecard";
+import {
+  buildRunExpectancyMatrix,
+  DEFAULT_RUN_EXPECTANCY_MATRIX,
+  type RunExpectancyMatrix,
+} from "./scorekeeping/run-expectancy";
+import { aggregateSeasonPlayerStats } from "./scorekeeping/season-stats";
+import { computePitchAnalytics } from "./scorekeeping/pitch-analytics";
+import { buildPitchingWorkload } from "./scorekeeping/pitching-workload";
+import { buildLineupTimeline } from "./scorekeeping/lineup-timeline";
+import { computeSplits } from "./scorekeeping/splits";
+import { computeSprayChart, renderSprayChartSvg, type SprayChartPayload } from "./scorekeeping/spray-chart";
+import { buildWinProbabilityTimeline, scheduledInningsForSport } from "./scorekeeping/win-probability";
+import { projectBracket, type AutomaticBidInput } from "./projections/bracket";
+import {
+  resolveConferenceTournament,
+  toTournamentResults,
+  tournamentTeamCount,
+} from "./projections/conference-tournament";
+import { findConferenceTournamentConfig } from "./projections/conference-tournament-formats";
+import {
+  computeConferenceStandings,
+  crossCheckStandings,
+  STANDINGS_TIEBREAKERS,
+  type StandingsTiebreaker,
+} from "./scorekeeping/conference-standings";
+import { computeRpi, diffRpiRankings } from "./scorekeeping/rpi";
+import { GameArchive } from "./storage/game-archive";
+import {
+  buildConsensusRankings,
+  buildTeamRankingsHistory,
+  computeLatestMovement,
+  CONSENSUS_RANKINGS_SOURCES,
+  RANKINGS_HISTORY_SOURCES,
+  RankingsHistoryStore,
+} from "./storage/rankings-history";
+import {
+  buildD1GameObservation,
+  buildScheduleFileObservation,
+  buildTeamScheduleObservation,
+  GameIdentityService,
+  type GameObservation,
+} from "./storage/game-identity";
 import {
   getCachedD1Scores,
   getD1Rankings,
@@ -10,26 +58,25 @@ import {
   getD1ScoresFromTeamsPayload,
   getD1TeamSeasonData,
 } from "./scrapers/d1";
+import { getNcaaGameLineScore, getNcaaScoreboard } from "./scrapers/ncaa-scoreboard";
 import { getRankingsFeed } from "./scrapers/rankings";
-import { getConferenceStandingsFeed } from "./scrapers/standings";
+import { getConferenceDirectory, getConferenceStandingsFeed } from "./scrapers/standings";
 import {
   getAvailableViewsForSport,
-  getFinalGame,
-  getLiveStats,
-  getLiveSummary,
+  parseLineups,
 } from "./scrapers/statbroadcast";
 import {
   DEFAULT_BASEBALL_PRINT_XSL,
   getStatBroadcastPdfJson,
 } from "./scrapers/statbroadcast-pdf";
-import { getSidearmLiveDashboard } from "./scrapers/sidearm-live";
 import { getSouthernMissScheduleText, type SouthernMissScheduleTextGame } from "./scrapers/southern-miss-schedule-text";
 import { getSouthernMissNews } from "./scrapers/southern-miss-news";
 import { getSouthernMissStats, type SouthernMissStatsPayload } from "./scrapers/southern-miss-stats";
-import { normalizeScoreDate } from "./utils/date";
+import { listScoreDates, normalizeScoreDate, shiftScoreDate } from "./utils/date";
 import { runWithConcurrency } from "./utils/async";
 import { isRecentScoresPayload, mergePrimaryScoresIntoFallback } from "./utils/merge-primary-scores";
 import { buildScoresFallbackCandidate, chooseBestScoresFallback } from "./utils/scores-fallback";
+import { getTeamRegistry, resolveTeamId, toTeamId } from "./utils/team-registry";
 import { buildFrontendScoresFeed, normalizeLiveSummary } from "./normalize";
 import type {
   D1GameWithLive,
@@ -37,7 +84,11 @@ import type {
   D1TeamScheduleGame,
   D1TeamSeasonData,
   D1TeamsDatabasePayload,
+  RankingsFeed,
   RankingsSource,
+  StatBroadcastFinalGame,
+  StatBroadcastLiveSummary,
+  StatsSection,
 } from "./types";
 
 const app = express();
@@ -56,6 +107,29 @@ const usmScheduleCache = new Map<
   }
 >();
 const rosterFileCache = new Map<string, { mtimeMs: number; loadedAt: string; payload: RosterPayload }>();
+const liveStreamHub = new LiveGameStreamHub();
+const UNRESOLVED_LIVE_GAME_ERROR = "Pass a statbroadcastId or a liveStatsUrl from a supported live stats provider.";
+const gameArchive = new GameArchive();
+const gameIdentity = new GameIdentityService();
+const rankingsHistory = new RankingsHistoryStore();
+const TOURNAMENT_WINDOW_DAYS = 6;
+const MAX_TOURNAMENT_WINDOW_DAYS = 14;
+const RUN_EXPECTANCY_TTL_MS = 60 * 60 * 1000;
+const UNMATCHED_TEAMS_REPORT_INTERVAL_MS = 5 * 60 * 1000;
+const RANKINGS_SNAPSHOT_INTERVAL_MS = 6 * 60 * 60 * 1000;
+const SOUTHERN_MISS_TEAM_ID = resolveTeamId("Southern Miss");
+let runExpectancyState: { builtAt: number; matrix: RunExpectancyMatrix } = {
+  builtAt: 0,
+  matrix: DEFAULT_RUN_EXPECTANCY_MATRIX,
+};
+let runExpectancyRebuild: Promise<void> | null = null;
+
+upstreamPoller.onPhaseChange((change) => {
+  const match = change.key.match(/^statbroadcast:(\d+):summary$/);
+  if (change.phase === "final" && match) {
+    scheduleGameArchive(Number.parseInt(match[1], 10));
+  }
+});
 
 app.use(express.json());
 app.use(express.static(publicDir));
@@ -77,6 +151,7 @@ app.get("/api/usm/schedule", async (req, res, next) => {
     const schedule = await loadUsmSchedulePayload();
     const nowEpoch = Math.floor(Date.now() / 1000);
     const normalizedGames = normalizeUsmScheduleGames(schedule.payload.games);
+    recordUsmScheduleIdentities(schedule.path, normalizedGames);
     let textScheduleError: string | null = null;
     let textScheduleFetchedAt: string | null = null;
     let textScheduleRows: SouthernMissScheduleTextGame[] = [];
@@ -136,36 +211,24 @@ app.get("/api/usm/live", async (req, res, next) => {
 
     const selectedGame = scheduleGames.find((game) => game.gameId === selectedGameId) ?? null;
 
+    const liveGame = resolveStatBroadcastGame(selectedGameId);
     let summaryError: string | null = null;
-    let summary = null as Awaited<ReturnType<typeof getLiveSummary>> | null;
+    let summary: StatBroadcastLiveSummary | null = null;
     try {
-      summary = await getLiveSummary(selectedGameId);
+      summary = liveGame ? await liveGame.provider.getSummary(liveGame.ref) : null;
     } catch (error) {
       summaryError = error instanceof Error ? error.message : String(error);
     }
 
-    let plays = [] as Array<{
-      key: string;
-      order: number;
-      inning: number | null;
-      half: "top" | "bottom" | null;
-      text: string;
-      batter: string | null;
-      pitcher: string | null;
-      scoringDecision: string | null;
-      isSubstitution: boolean;
-      outsAfterPlay: number | null;
-      awayScore: number | null;
-      homeScore: number | null;
-    }>;
-
-    let playsSections: Awaited<ReturnType<typeof getLiveStats>>["sections"] = [];
-    let gameSections: Awaited<ReturnType<typeof getLiveStats>>["sections"] = [];
-    let lineupsSections: Awaited<ReturnType<typeof getLiveStats>>["sections"] = [];
-    let awayBoxSections: Awaited<ReturnType<typeof getLiveStats>>["sections"] = [];
-    let homeBoxSections: Awaited<ReturnType<typeof getLiveStats>>["sections"] = [];
-    let awaySeasonSections: Awaited<ReturnType<typeof getLiveStats>>["sections"] = [];
-    let homeSeasonSections: Awaited<ReturnType<typeof getLiveStats>>["sections"] = [];
+    let plays: LiveDashboardPlay[] = [];
+
+    let playsSections: StatsSection[] = [];
+    let gameSections: StatsSection[] = [];
+    let lineupsSections: StatsSection[] = [];
+    let awayBoxSections: StatsSection[] = [];
+    let homeBoxSections: StatsSection[] = [];
+    let awaySeasonSections: StatsSection[] = [];
+    let homeSeasonSections: StatsSection[] = [];
     let playsError: string | null = null;
     let gameError: string | null = null;
     let lineupsError: string | null = null;
@@ -174,83 +237,54 @@ app.get("/api/usm/live", async (req, res, next) => {
     let awaySeasonError: string | null = null;
     let homeSeasonError: string | null = null;
 
-    if (summary) {
-      const [
-        playsResult,
-        gameResult,
-        lineupsResult,
-        awayBoxResult,
-        homeBoxResult,
-        awaySeasonResult,
-        homeSeasonResult,
-      ] = await Promise.allSettled([
-        getLiveStats(selectedGameId, "plays"),
-        getLiveStats(selectedGameId, "game"),
-        getLiveStats(selectedGameId, "lineups"),
-        getLiveStats(selectedGameId, "away_box"),
-        getLiveStats(selectedGameId, "home_box"),
-        getLiveStats(selectedGameId, "away_season"),
-        getLiveStats(selectedGameId, "home_season"),
-      ]);
+    if (summary && liveGame) {
+      const { provider, ref } = liveGame;
+      const [playsResult, gameResult, lineupsResult, boxResult, awaySeasonResult, homeSeasonResult] =
+        await Promise.allSettled([
+          provider.getPlays(ref, summary),
+          provider.getView(ref, "game"),
+          provider.getLineups(ref),
+          provider.getBox(ref),
+          provider.getView(ref, "away_season"),
+          provider.getView(ref, "home_season"),
+        ]);
 
       if (playsResult.status === "fulfilled") {
         playsSections = playsResult.value.sections;
-        const events = extractLivePlayEvents(playsResult.value);
-        const states = deriveLivePlayStates(events, summary);
-        plays = events.map((play) => {
-          const state = states.get(play.key);
-          return {
-            key: play.key,
-            order: play.order,
-            inning: play.inning,
-            half: play.half,
-            text: play.text,
-            batter: play.batter,
-            pitcher: play.pitcher,
-            scoringDecision: play.scoringDecision,
-            isSubstitution: play.isSubstitution,
-            outsAfterPlay: state?.outsAfterPlay ?? play.outs ?? null,
-            awayScore: state?.awayScore ?? summary.visitorScore,
-            homeScore: state?.homeScore ?? summary.homeScore,
-          };
-        });
+        plays = playsResult.value.plays;
       } else {
         playsError = playsResult.reason instanceof Error ? playsResult.reason.message : String(playsResult.reason);
       }
 
       if (gameResult.status === "fulfilled") {
-        gameSections = gameResult.value.sections;
+        gameSections = gameResult.value?.sections ?? [];
       } else {
         gameError = gameResult.reason instanceof Error ? gameResult.reason.message : String(gameResult.reason);
       }
 
       if (lineupsResult.status === "fulfilled") {
-        lineupsSections = lineupsResult.value.sections;
+        lineupsSections = lineupsResult.value;
       } else {
         lineupsError = lineupsResult.reason instanceof Error ? lineupsResult.reason.message : String(lineupsResult.reason);
       }
 
-      if (awayBoxResult.status === "fulfilled") {
-        awayBoxSections = awayBoxResult.value.sections;
+      if (boxResult.status === "fulfilled") {
+        awayBoxSections = boxResult.value.away;
+        homeBoxSections = boxResult.value.home;
       } else {
-        awayBoxError = awayBoxResult.reason instanceof Error ? awayBoxResult.reason.message : String(awayBoxResult.reason);
-      }
-
-      if (homeBoxResult.status === "fulfilled") {
-        homeBoxSections = homeBoxResult.value.sections;
-      } else {
-        homeBoxError = homeBoxResult.reason instanceof Error ? homeBoxResult.reason.message : String(homeBoxResult.reason);
+        awayBoxError = boxResult.reason instanceof Error ? boxResult.reason.message : String(boxResult.reason);
+        homeBoxError = awayBoxError;
       }
 
       if (awaySeasonResult.status === "fulfilled") {
-        awaySeasonSections = awaySeasonResult.value.sections;
+        awaySeasonSections = awaySeasonResult.value?.sections ?? [];
       } else {
         awaySeasonError =
           awaySeasonResult.reason instanceof Error ? awaySeasonResult.reason.message : String(awaySeasonResult.reason);
       }
 
       if (homeSeasonResult.status === "fulfilled") {
-        homeSeasonSections = homeSeasonResult.value.sections;
+        homeSeasonSections = homeSeasonResult.value?.sections ?? [];
       } else {
         homeSeasonError =
           homeSeasonResult.reason instanceof Error ? homeSeasonResult.reason.message : String(homeSeasonResult.reason);
@@ -372,6 +406,10 @@ app.get("/api/usm/site", async (req, res, next) => {
     }
 
     const normalizedUsmSchedule = normalizeUsmScheduleGames(scheduleLoaded.payload.games);
+    recordUsmScheduleIdentities(scheduleLoaded.path, normalizedUsmSchedule);
+    if (usmTeam) {
+      recordTeamScheduleIdentities(usmTeam, seasonQuery ?? usmTeam.season ?? null);
+    }
     const selectedGameId = pickUsmGameId(normalizedUsmSchedule, requestedId, nowEpoch, true);
     const selectedGame = selectedGameId
       ? normalizedUsmSchedule.find((game) => game.gameId === selectedGameId) ?? null
@@ -391,11 +429,11 @@ app.get("/api/usm/site", async (req, res, next) => {
       officialStatsError = error instanceof Error ? error.message : String(error);
     }
 
-    let liveSummary = null as Awaited<ReturnType<typeof getLiveSummary>> | null;
+    let liveSummary: StatBroadcastLiveSummary | null = null;
     let liveSummaryError: string | null = null;
     if (selectedGameId) {
       try {
-        liveSummary = await getLiveSummary(selectedGameId);
+        liveSummary = await loadStatBroadcastSummary(selectedGameId);
       } catch (error) {
         liveSummaryError = error instanceof Error ? error.message : String(error);
       }
@@ -578,6 +616,26 @@ app.get("/api/teams", async (req, res, next) => {
   }
 });
 
+app.get("/api/teams/resolve", (req, res) => {
+  const name = cleanQueryString(req.query.name);
+  if (!name) {
+    res.status(400).json({ error: "Missing required query parameter: name" });
+    return;
+  }
+
+  const team = getTeamRegistry().find(name);
+  if (!team) {
+    res.status(404).json({ error: `No registry team matches "${name}".` });
+    return;
+  }
+
+  res.json(team);
+});
+
+app.get("/api/teams/unmatched", (_req, res) => {
+  res.json(getTeamRegistry().unmatchedReport());
+});
+
 app.get("/api/team-page", async (req, res, next) => {
   try {
     const teamQuery = cleanQueryString(req.query.team);
@@ -598,6 +656,7 @@ app.get("/api/team-page", async (req, res, next) => {
       }),
       loadRosterCandidates(),
     ]);
+    recordTeamScheduleIdentities(team, season ?? team.season ?? null);
 
     const rosterMatch =
       findBestRosterMatch(rosterCandidates, {
@@ -651,6 +710,7 @@ app.get("/api/scores", async (req, res, next) => {
     const rankingsPromise = view === "raw" ? Promise.resolve(null) : getD1Rankings().catch(() => null);
 
     const payload = await getScoresPayloadForDate(date);
+    recordGameIdentities(payload.games.map((game) => buildD1GameObservation(game, date)));
     const games = statbroadcastOnly
       ? payload.games.filter((game) => game.statbroadcastId !== null)
       : payload.games;
@@ -678,7 +738,7 @@ app.get("/api/scores", async (req, res, next) => {
 
     const liveResponses = await runWithConcurrency(ids, 4, async (id) => {
       try {
-        return { id, live: await getLiveSummary(id), error: null as string | null };
+        return { id, live: await loadStatBroadcastSummary(id), error: null as string | null };
       } catch (error) {
         return {
           id,
@@ -715,6 +775,26 @@ app.get("/api/scores", async (req, res, next) => {
   }
 });
 
+app.get("/api/scores/ncaa/:gameId/linescore", async (req, res, next) => {
+  try {
+    const gameId = req.params.gameId.replace(/^ncaa-/, "");
+    if (!/^\d+$/.test(gameId)) {
+      res.status(400).json({ error: "Invalid NCAA game id." });
+      return;
+    }
+
+    const lineScore = await getNcaaGameLineScore(gameId);
+    if (!lineScore) {
+      res.status(404).json({ error: `NCAA game ${gameId} has no line score yet.` });
+      return;
+    }
+
+    res.json({ gameId, lineScore });
+  } catch (error) {
+    next(error);
+  }
+});
+
 app.get("/api/rankings", async (req, res, next) => {
   try {
     const source = parseRankingsSource(req.query.source);
@@ -726,12 +806,153 @@ app.get("/api/rankings", async (req, res, next) => {
     }
 
     const feed = await getRankingsFeed(source);
+    recordRankingsSnapshot(feed);
     res.json(feed);
   } catch (error) {
     next(error);
   }
 });
 
+app.get("/api/rpi/computed", async (req, res, next) => {
+  try {
+    const season = normalizeSeason(req.query.season);
+    const file = safeFileName(req.query.file);
+    const teamKey = cleanQueryString(req.query.team);
+
+    const loaded = await loadTeamsPayload({ season, file });
+    const teams = computeRpi(loaded.payload);
+    const errors: string[] = [];
+    const official = await getRankingsFeed("rpi").catch((error: unknown) => {
+      errors.push(`Official RPI feed failed (${error instanceof Error ? error.message : String(error)}).`);
+      return null;
+    });
+    const diff = official ? diffRpiRankings(teams, official) : [];
+
+    if (teamKey) {
+      const lookupKey = resolveTeamId(teamKey);
+      const team = teams.find((entry) => entry.teamKey === lookupKey || entry.slug === teamKey) ?? null;
+      if (!team) {
+        res.status(404).json({ error: `No computed RPI for "${teamKey}".` });
+        return;
+      }
+      res.json({
+        season: loaded.payload.season,
+        file: loaded.filename,
+        computedAt: new Date().toISOString(),
+        team,
+        official: diff.find((entry) => entry.teamKey === team.teamKey) ?? null,
+        errors,
+      });
+      return;
+    }
+
+    res.json({
+      season: loaded.payload.season,
+      file: loaded.filename,
+      fetchedAt: loaded.payload.fetchedAt,
+      computedAt: new Date().toISOString(),
+      officialUpdatedAt: official?.updatedAt ?? null,
+      errors,
+      totalTeams: teams.length,
+      teams,
+      diff,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/projections/bracket", async (req, res, next) => {
+  try {
+    const season = normalizeSeason(req.query.season);
+    const file = safeFileName(req.query.file);
+
+    const loaded = await loadTeamsPayload({ season, file });
+    const ratings = computeRpi(loaded.payload);
+    const { bids, errors } = await loadStandingsAutomaticBids();
+
+    res.json({
+      season: loaded.payload.season,
+      file: loaded.filename,
+      generatedAt: new Date().toISOString(),
+      ratingsSource: "computed-rpi",
+      errors,
+      ...projectBracket(ratings, { automaticBids: bids }),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/rankings/history", async (req, res, next) => {
+  try {
+    const source = parseRankingsSource(req.query.source);
+    if (!source) {
+      res.status(400).json({
+        error: 'Invalid rankings source. Use "d1", "rpi", "baseball-america", or "usa-today".',
+      });
+      return;
+    }
+
+    const history = await rankingsHistory.readHistory(source);
+    const team = cleanQueryString(req.query.team);
+    if (team) {
+      res.json(buildTeamRankingsHistory(history, team));
+      return;
+    }
+
+    const latest = history.snapshots[history.snapshots.length - 1] ?? null;
+    res.json({
+      source,
+      totalSnapshots: history.snapshots.length,
+      snapshots: history.snapshots.map((snapshot) => ({
+        updatedAt: snapshot.updatedAt,
+        capturedAt: snapshot.capturedAt,
+        totalTeams: snapshot.entries.length,
+      })),
+      latest: latest
+        ? {
+            updatedAt: latest.updatedAt,
+            capturedAt: latest.capturedAt,
+            entries: computeLatestMovement(history.snapshots),
+          }
+        : null,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/rankings/consensus", async (_req, res, next) => {
+  try {
+    const errors: string[] = [];
+    const feeds = (
+      await Promise.all(
+        CONSENSUS_RANKINGS_SOURCES.map((source) =>
+          getRankingsFeed(source).catch((error: unknown) => {
+            errors.push(`${source}: ${error instanceof Error ? error.message : String(error)}`);
+            return null;
+          })
+        )
+      )
+    ).filter((feed): feed is RankingsFeed => feed !== null);
+    feeds.forEach(recordRankingsSnapshot);
+
+    if (feeds.length === 0) {
+      throw new Error(`No rankings polls could be loaded (${errors.join("; ")}).`);
+    }
+
+    res.json({
+      generatedAt: new Date().toISOString(),
+      sources: feeds.map((feed) => ({ source: feed.source, label: feed.sourceLabel, updatedAt: feed.updatedAt })),
+      errors,
+      entries: buildConsensusRankings(feeds),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
 app.get("/api/standings", async (req, res, next) => {
   try {
     const conference = cleanQueryString(req.query.conference);
@@ -742,56 +963,394 @@ app.get("/api/standings", async (req, res, next) => {
   }
 });
 
-app.get("/api/live/:id", async (req, res, next) => {
+app.get("/api/standings/computed", async (req, res, next) => {
+  try {
+    const conference = cleanQueryString(req.query.conference);
+    const season = normalizeSeason(req.query.season);
+    const file = safeFileName(req.query.file);
+    const tiebreakers = parseStandingsTiebreakers(cleanQueryString(req.query.tiebreakers));
+    if (!tiebreakers) {
+      res
+        .status(400)
+        .json({ error: `Tiebreakers must be a comma-separated list of ${STANDINGS_TIEBREAKERS.join(", ")}.` });
+      return;
+    }
+
+    const loaded = await loadTeamsPayload({ season, file });
+    const errors: string[] = [];
+    let scraped = await getConferenceStandingsFeed(conference).catch((error: unknown) => {
+      errors.push(`D1Baseball standings failed (${error instanceof Error ? error.message : String(error)}).`);
+      return null;
+    });
+    const requested = conference?.toLowerCase() ?? null;
+    if (
+      scraped &&
+      requested &&
+      scraped.selectedConference.id !== requested &&
+      scraped.selectedConference.name.toLowerCase() !== requested
+    ) {
+      errors.push(`D1Baseball standings do not list conference "${conference}".`);
+      scraped = null;
+    }
+
+    const conferenceKey = scraped?.selectedConference.id ?? requested ?? "";
+    const members = loaded.payload.teams.filter(
+      (team) =>
+        team.conference !== null &&
+        (team.conference.slug === conferenceKey || team.conference.name.toLowerCase() === conferenceKey)
+    );
+    if (members.length === 0) {
+      res.status(404).json({ error: `No teams found for conference "${conference ?? conferenceKey}".` });
+      return;
+    }
+
+    const tournament =
+      findConferenceTournamentConfig(conferenceKey) ??
+      findConferenceTournamentConfig(members[0].conference?.name ?? "");
+    const entries = computeConferenceStandings(members, {
+      tiebreakers,
+      // The configured start date is for one season; other seasons fall back to the schedule's own markers.
+      tournamentStartDate: tournament?.startDate.startsWith(`${loaded.payload.season}-`) ? tournament.startDate : null,
+    });
+    res.json({
+      conference: members[0].conference,
+      season: loaded.payload.season,
+      file: loaded.filename,
+      fetchedAt: loaded.payload.fetchedAt,
+      computedAt: new Date().toISOString(),
+      scrapedUpdatedAt: scraped?.updatedAt ?? null,
+      tiebreakers,
+      errors,
+      entries,
+      mismatches: scraped ? crossCheckStandings(entries, scraped.entries) : [],
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/conferences/:id/tournament", async (req, res, next) => {
+  try {
+    const config = findConferenceTournamentConfig(String(req.params.id));
+    if (!config) {
+      res.status(404).json({ error: `No tournament format is configured for "${req.params.id}".` });
+      return;
+    }
+
+    const to = normalizeScoreDate(String(req.query.to ?? ""));
+    const from = req.query.from
+      ? normalizeScoreDate(String(req.query.from))
+      : shiftScoreDate(to, -(TOURNAMENT_WINDOW_DAYS - 1));
+    const dates = listScoreDates(from, to);
+    if (dates.length === 0 || dates.length > MAX_TOURNAMENT_WINDOW_DAYS) {
+      res.status(400).json({ error: `Use a from/to window of 1 to ${MAX_TOURNAMENT_WINDOW_DAYS} days.` });
+      return;
+    }
+    const season = to.slice(0, 4);
+    const configuredStart = config.startDate.startsWith(`${season}-`) ? config.startDate : null;
+    if (!req.query.start && !configuredStart) {
+      res.status(404).json({
+        error: `No ${season} tournament start date is configured for ${config.name}; pass start=YYYY-MM-DD.`,
+      });
+      return;
+    }
+    const start = normalizeScoreDate(String(req.query.start || configuredStart));
+
+    const standings = await getConferenceStandingsFeed(config.conferenceId);
+    if (standings.selectedConference.id !== config.conferenceId) {
+      throw new Error(`D1Baseball standings do not list conference "${config.conferenceId}".`);
+    }
+    const seeds = [...standings.entries]
+      .sort((a, b) => a.position - b.position)
+      .slice(0, tournamentTeamCount(config.format))
+      .map((entry, index) => ({
+        seed: index + 1,
+        teamKey: entry.teamId ?? toTeamId(entry.teamName),
+        teamName: entry.teamName,
+      }));
+
+    const errors: string[] = [];
+    // Earlier games between two seeds are regular-season games and must not fill bracket slots.
+    const tournamentDates = dates.filter((date) => date >= start);
+    const scoreboards = await runWithConcurrency(tournamentDates, 2, async (date) => {
+      try {
+        return await getScoresPayloadForDate(date);
+      } catch (error) {
+        errors.push(`Scores for ${date} failed (${error instanceof Error ? error.message : String(error)}).`);
+        return null;
+      }
+    });
+    const results = toTournamentResults(scoreboards.flatMap((payload) => payload?.games ?? []));
+
+    res.json({
+      conference: standings.selectedConference,
+      name: config.name,
+      generatedAt: new Date().toISOString(),
+      window: { from, to, start },
+      errors,
+      ...resolveConferenceTournament(config.format, seeds, results),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/archive", async (req, res, next) => {
+  try {
+    const games = await gameArchive.search({
+      season: normalizeSeason(req.query.season),
+      team: cleanQueryString(req.query.team),
+      from: parseArchiveDateQuery(req.query.from),
+      to: parseArchiveDateQuery(req.query.to),
+      q: cleanQueryString(req.query.q),
+      limit: parsePositiveInteger(cleanQueryString(req.query.limit)),
+    });
+
+    res.json({
+      total: games.length,
+      games,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/season-stats", async (req, res, next) => {
+  try {
+    const team = cleanQueryString(req.query.team);
+    const player = cleanQueryString(req.query.player)?.toLowerCase() ?? null;
+    const archived = await gameArchive.readGames({
+      season: normalizeSeason(req.query.season),
+      team,
+    });
+    const scorekeeping = archived
+      .map((game) => game.baseballScorekeeping)
+      .filter((game): game is NonNullable<typeof game> => game !== null);
+    const stats = aggregateSeasonPlayerStats(scorekeeping, { team });
+    const players = Object.values(stats.players).filter(
+      (entry) =>
+        !player ||
+        entry.seasonPlayerId === player ||
+        entry.playerIds.includes(player) ||
+        entry.name.toLowerCase().includes(player)
+    );
+
+    res.json({
+      season: normalizeSeason(req.query.season),
+      team,
+      games: stats.games,
+      gameIds: stats.gameIds,
+      totalPlayers: players.length,
+      players: req.query.includeGameLog === undefined || toBoolean(req.query.includeGameLog)
+        ? players
+        : players.map(({ gameLog: _gameLog, ...rest }) => rest),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/splits", async (req, res, next) => {
+  try {
+    const team = cleanQueryString(req.query.team);
+    const player = cleanQueryString(req.query.player);
+    const role = cleanQueryString(req.query.role)?.toLowerCase() === "pitching" ? "pitching" : "batting";
+    const archived = await gameArchive.readGames({
+      season: normalizeSeason(req.query.season),
+      team,
+    });
+    const scorekeeping = archived
+      .map((game) => game.baseballScorekeeping)
+      .filter((game): game is NonNullable<typeof game> => game !== null);
+    const splits = computeSplits(scorekeeping, { team, player, role });
+
+    res.json({
+      season: normalizeSeason(req.query.season),
+      team,
+      player,
+      ...splits,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/pitching-analytics", async (req, res, next) => {
+  try {
+    const team = cleanQueryString(req.query.team);
+    const player = cleanQueryString(req.query.player);
+    const archived = await gameArchive.readGames({
+      season: normalizeSeason(req.query.season),
+      team,
+    });
+    const scorekeeping = archived
+      .map((game) => game.baseballScorekeeping)
+      .filter((game): game is NonNullable<typeof game> => game !== null);
+
+    res.json({
+      season: normalizeSeason(req.query.season),
+      team,
+      player,
+      ...computePitchAnalytics(scorekeeping, { team, player }),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/spray-chart", async (req, res, next) => {
+  try {
+    res.json({
+      season: normalizeSeason(req.query.season),
+      team: cleanQueryString(req.query.team),
+      batter: cleanQueryString(req.query.batter),
+      ...(await loadArchivedSprayChart(req.query)),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/spray-chart.svg", async (req, res, next) => {
+  try {
+    const spray = await loadArchivedSprayChart(req.query);
+    const subject = cleanQueryString(req.query.batter)
+      ? spray.batters.map((batter) => ({ name: `${batter.name} (${batter.team})`, chart: batter.chart }))[0]
+      : spray.teams.map((team) => ({ name: team.team, chart: team.chart }))[0];
+    if (!subject) {
+      res.status(404).json({ error: "No batted balls matched the spray chart query." });
+      return;
+    }
+
+    res.type("image/svg+xml").send(
+      renderSprayChartSvg(subject.chart, {
+        title: spray.pitcher ? `${subject.name} vs ${spray.pitcher}` : subject.name,
+      })
+    );
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/teams/:slug/pitching-workload", async (req, res, next) => {
+  try {
+    const season = normalizeSeason(req.query.season);
+    const asOf = parseArchiveDateQuery(req.query.asOf) ?? new Date().toISOString().slice(0, 10);
+    const d1Team = await loadTeamsPayload({ season, file: null })
+      .then((loaded) => findTeamByKey(loaded.payload.teams, req.params.slug))
+      .catch(() => null);
+    const teamName = d1Team?.name ?? req.params.slug.replace(/-/g, " ");
+    const nextGameDate =
+      (d1Team?.schedule ?? [])
+        .filter((game) => game.outcome === "unknown")
+        .map((game) => parseDateIsoFromD1Schedule(game, season ?? d1Team?.season ?? null))
+        .filter((date): date is string => date !== null && date >= asOf)
+        .sort()[0] ?? null;
+
+    const archived = await gameArchive.readGames({ season, team: teamName });
+    const workload = buildPitchingWorkload(
+      archived.flatMap((game) =>
+        game.baseballScorekeeping ? [{ date: game.entry.date, scorekeeping: game.baseballScorekeeping }] : []
+      ),
+      { team: teamName, asOf, availabilityDate: nextGameDate }
+    );
+
+    res.json({
+      season,
+      slug: req.params.slug,
+      nextGameDate,
+      ...workload,
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/run-expectancy", (_req, res, next) => {
+  try {
+    res.json(getRunExpectancyMatrix());
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/games/:canonicalId", async (req, res, next) => {
+  try {
+    const game = await gameIdentity.get(req.params.canonicalId);
+    if (!game) {
+      res.status(404).json({ error: `Game ${req.params.canonicalId} has not been seen by any source yet.` });
+      return;
+    }
+
+    res.json(game);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/archive/:id", async (req, res, next) => {
   try {
-    const view = parseView(req.query.view, "raw");
     const id = Number.parseInt(req.params.id, 10);
     if (!Number.isFinite(id)) {
       res.status(400).json({ error: "Invalid statbroadcast id." });
       return;
     }
 
-    const live = await getLiveSummary(id);
-    const frontend = normalizeLiveSummary(live);
-    respondByView(res, view, live, frontend);
+    const archived = await gameArchive.readGame(id);
+    if (!archived) {
+      res.status(404).json({ error: `Game ${id} is not in the archive.` });
+      return;
+    }
+
+    res.json(archived);
   } catch (error) {
     next(error);
   }
 });
 
-app.get("/api/live-game/dashboard", async (req, res, next) => {
-  try {
-    const statbroadcastId = parsePositiveInteger(req.query.statbroadcastId);
-    const liveStatsUrl = cleanQueryString(req.query.liveStatsUrl);
+app.get("/api/pollers", (_req, res) => {
+  const pollers = upstreamPoller.status();
+  res.json({
+    total: pollers.length,
+    watchedGames: upstreamPoller.watchedGameKeys(),
+    streams: liveStreamHub.activeGameKeys(),
+    pollers,
+  });
+});
 
-    if (statbroadcastId) {
-      const live = await buildStatBroadcastDashboardPayload(statbroadcastId);
-      res.json({
-        source: {
-          provider: "statbroadcast",
-          statbroadcastId,
-          liveStatsUrl: null,
-        },
-        live,
-      });
+app.get("/api/live/:id", async (req, res, next) => {
+  try {
+    const view = parseView(req.query.view, "raw");
+    const game = resolveStatBroadcastGame(Number.parseInt(req.params.id, 10));
+    if (!game) {
+      res.status(400).json({ error: "Invalid statbroadcast id." });
       return;
     }
 
-    if (liveStatsUrl && /\/sidearmstats\//i.test(liveStatsUrl)) {
-      const live = await buildSidearmDashboardPayload(liveStatsUrl);
-      res.json({
-        source: {
-          provider: "sidearm",
-          statbroadcastId: null,
-          liveStatsUrl,
-        },
-        live,
-      });
+    const live = await game.provider.getSummary(game.ref);
+    const frontend = normalizeLiveSummary(live);
+    respondByView(res, view, live, frontend);
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/live-game/dashboard", async (req, res, next) => {
+  try {
+    const game = resolveLiveGameFromQuery(req.query);
+    if (!game) {
+      res.status(400).json({ error: UNRESOLVED_LIVE_GAME_ERROR });
       return;
     }
 
-    res.status(400).json({
-      error: "Pass either statbroadcastId or a Sidearm liveStatsUrl.",
+    const live = await buildLiveDashboardPayload(game);
+    res.json({
+      source: {
+        provider: game.ref.provider,
+        statbroadcastId: game.ref.statbroadcastId,
+        liveStatsUrl: game.ref.liveStatsUrl,
+      },
+      live,
     });
   } catch (error) {
     next(error);
@@ -801,12 +1360,13 @@ app.get("/api/live-game/dashboard", async (req, res, next) => {
 app.get("/api/live/:id/dashboard", async (req, res, next) => {
   try {
     const id = Number.parseInt(req.params.id, 10);
-    if (!Number.isFinite(id)) {
+    const game = resolveStatBroadcastGame(id);
+    if (!game) {
       res.status(400).json({ error: "Invalid statbroadcast id." });
       return;
     }
 
-    const live = await buildStatBroadcastDashboardPayload(id);
+    const live = await buildLiveDashboardPayload(game);
     res.json({
       gameId: id,
       live,
@@ -816,16 +1376,40 @@ app.get("/api/live/:id/dashboard", async (req, res, next) => {
   }
 });
 
+app.get("/api/live-game/stream", (req, res) => {
+  const game = resolveLiveGameFromQuery(req.query);
+  if (!game) {
+    res.status(400).json({ error: UNRESOLVED_LIVE_GAME_ERROR });
+    return;
+  }
+
+  openLiveGameStream(req, res, game);
+});
+
+app.get("/api/live/:id/stream", (req, res) => {
+  const game = resolveStatBroadcastGame(Number.parseInt(req.params.id, 10));
+  if (!game) {
+    res.status(400).json({ error: "Invalid statbroadcast id." });
+    return;
+  }
+
+  openLiveGameStream(req, res, game);
+});
+
 app.get("/api/live/:id/stats", async (req, res, next) => {
   try {
-    const id = Number.parseInt(req.params.id, 10);
-    if (!Number.isFinite(id)) {
+    const game = resolveStatBroadcastGame(Number.parseInt(req.params.id, 10));
+    if (!game) {
       res.status(400).json({ error: "Invalid statbroadcast id." });
       return;
     }
 
     const view = String(req.query.view ?? "game");
-    const payload = await getLiveStats(id, view);
+    const payload = await game.provider.getView(game.ref, view);
+    if (!payload) {
+      res.status(404).json({ error: `Stats views are not available from ${game.ref.provider}.` });
+      return;
+    }
 
     res.json({
       ...payload,
@@ -838,13 +1422,14 @@ app.get("/api/live/:id/stats", async (req, res, next) => {
 
 app.get("/api/live/:id/final", async (req, res, next) => {
   try {
-    const id = Number.parseInt(req.params.id, 10);
-    if (!Number.isFinite(id)) {
-      res.status(400).json({ error: "Invalid statbroadcast id." });
+    const payload = await loadRouteFinalGame(res, req.params.id);
+    if (!payload) {
       return;
     }
+    if (payload.status === "final") {
+      scheduleGameArchive(payload.id);
+    }
 
-    const payload = await getFinalGame(id);
     const requireFinal = toBoolean(req.query.requireFinal);
     if (requireFinal && payload.status !== "final") {
       res.status(409).json({
@@ -861,6 +1446,86 @@ app.get("/api/live/:id/final", async (req, res, next) => {
   }
 });
 
+app.get("/api/live/:id/pitching-analytics", async (req, res, next) => {
+  try {
+    const game = await loadRouteFinalGame(res, req.params.id);
+    if (!game) {
+      return;
+    }
+
+    const team = cleanQueryString(req.query.team);
+    const player = cleanQueryString(req.query.player);
+    res.json({
+      gameId: game.id,
+      status: game.status,
+      summaryStatus: game.summary.statusText,
+      fetchedAt: game.fetchedAt,
+      team,
+      player,
+      ...computePitchAnalytics([buildBaseballScorekeepingData(game)], { team, player }),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/live/:id/reconciliation", async (req, res, next) => {
+  try {
+    const game = await loadRouteFinalGame(res, req.params.id);
+    if (!game) {
+      return;
+    }
+
+    res.json({
+      status: game.status,
+      summaryStatus: game.summary.statusText,
+      fetchedAt: game.fetchedAt,
+      reconciliation: reconcileBoxScore(buildBaseballScorekeepingData(game)),
+    });
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/live/:id/scorecard.svg", async (req, res, next) => {
+  try {
+    const side = cleanQueryString(req.query.side);
+    if (side && side !== "away" && side !== "home") {
+      res.status(400).json({ error: "side must be away or home." });
+      return;
+    }
+
+    const game = await loadRouteFinalGame(res, req.params.id);
+    if (!game) {
+      return;
+    }
+
+    const data = buildBaseballScorekeepingData(game);
+    const sides: Array<"away" | "home"> = side === "away" || side === "home" ? [side] : ["away", "home"];
+    res.type("image/svg+xml").send(renderScorecardSvg(sides.map((entry) => buildScorecardPage(data, entry))));
+  } catch (error) {
+    next(error);
+  }
+});
+
+app.get("/api/live/:id/scorecard.pdf", async (req, res, next) => {
+  try {
+    const game = await loadRouteFinalGame(res, req.params.id);
+    if (!game) {
+      return;
+    }
+
+    const data = buildBaseballScorekeepingData(game);
+    const pdf = renderScorecardPdf([buildScorecardPage(data, "away"), buildScorecardPage(data, "home")]);
+    res
+      .type("application/pdf")
+      .setHeader("Content-Disposition", `inline; filename="scorecard-${game.id}.pdf"`)
+      .send(pdf);
+  } catch (error) {
+    next(error);
+  }
+});
+
 app.get("/api/live/:id/pdf-json", async (req, res, next) => {
   try {
     const id = Number.parseInt(req.params.id, 10);
@@ -907,7 +1572,7 @@ app.get("/api/live", async (req, res, next) => {
 
     const results = await runWithConcurrency(ids, 4, async (id) => {
       try {
-        const live = await getLiveSummary(id);
+        const live = await loadStatBroadcastSummary(id);
         const frontend = normalizeLiveSummary(live);
         return { id, live, frontend, error: null as string | null };
       } catch (error) {
@@ -961,6 +1626,10 @@ app.use((error: unknown, _req: express.Request, res: express.Response, _next: ex
 app.listen(port, () => {
   // eslint-disable-next-line no-console
   console.log(`NCAA baseball API listening on http://localhost:${port}`);
+  getRunExpectancyMatrix();
+  setInterval(writeUnmatchedTeamsReport, UNMATCHED_TEAMS_REPORT_INTERVAL_MS).unref();
+  captureRankingsSnapshots();
+  setInterval(captureRankingsSnapshots, RANKINGS_SNAPSHOT_INTERVAL_MS).unref();
 });
 
 async function getScoresPayloadForDate(date: string) {
@@ -1008,13 +1677,37 @@ async function getScoresPayloadForDate(date: string) {
       fallbackErrors.push(`team directory fallback failed (${directoryMessage})`);
     }
 
+    let ncaaPayload: D1ScoresPayload | null = null;
+    try {
+      ncaaPayload = await getNcaaScoreboard(date);
+      if (ncaaPayload.games.length > 0) {
+        candidates.push(
+          buildScoresFallbackCandidate({
+            source: "ncaa",
+            payload: ncaaPayload,
+            requestedDate: date,
+          })
+        );
+      } else {
+        ncaaPayload = null;
+      }
+    } catch (ncaaError) {
+      const ncaaMessage = ncaaError instanceof Error ? ncaaError.message : String(ncaaError);
+      fallbackErrors.push(`NCAA.com scoreboard fallback failed (${ncaaMessage})`);
+    }
+
     const bestFallback = chooseBestScoresFallback(candidates);
     if (bestFallback) {
+      // Schedule-based fallbacks lag on scores, so NCAA.com status and runs take precedence over them.
+      const fallbackPayload =
+        ncaaPayload && bestFallback.source !== "ncaa"
+          ? mergePrimaryScoresIntoFallback(bestFallback.payload, ncaaPayload)
+          : bestFallback.payload;
       if (cachedPrimary && isRecentScoresPayload(cachedPrimary)) {
-        return mergePrimaryScoresIntoFallback(bestFallback.payload, cachedPrimary);
+        return mergePrimaryScoresIntoFallback(fallbackPayload, cachedPrimary);
       }
 
-      return bestFallback.payload;
+      return fallbackPayload;
     }
 
     if (cachedPrimary && isRecentScoresPayload(cachedPrimary)) {
@@ -1029,68 +1722,72 @@ async function getScoresPayloadForDate(date: string) {
   }
 }
 
-async function buildStatBroadcastDashboardPayload(id: number) {
+function resolveStatBroadcastGame(id: number): ResolvedLiveGame | null {
+  return Number.isFinite(id) ? liveStatsProviders.resolve({ provider: "statbroadcast", statbroadcastId: id }) : null;
+}
+
+async function loadStatBroadcastSummary(id: number): Promise<StatBroadcastLiveSummary> {
+  const game = resolveStatBroadcastGame(id);
+  if (!game) {
+    throw new Error(`Invalid statbroadcast id ${id}.`);
+  }
+  return game.provider.getSummary(game.ref);
+}
+
+/** Responds 400 or 404 and returns null when the id does not resolve or its provider has no final game. */
+async function loadRouteFinalGame(res: express.Response, idParam: string): Promise<StatBroadcastFinalGame | null> {
+  const game = resolveStatBroadcastGame(Number.parseInt(idParam, 10));
+  if (!game) {
+    res.status(400).json({ error: "Invalid statbroadcast id." });
+    return null;
+  }
+
+  const final = await game.provider.getFinal(game.ref);
+  if (!final) {
+    res.status(404).json({ error: `Final game data is not available from ${game.ref.provider}.` });
+  }
+  return final;
+}
+
+function resolveLiveGameFromQuery(query: express.Request["query"]): ResolvedLiveGame | null {
+  return liveStatsProviders.resolve({
+    provider: cleanQueryString(query.provider),
+    statbroadcastId: parsePositiveInteger(query.statbroadcastId),
+    liveStatsUrl: cleanQueryString(query.liveStatsUrl),
+  });
+}
+
+async function buildLiveDashboardPayload({ provider, ref }: ResolvedLiveGame) {
+  const runExpectancy = getRunExpectancyMatrix();
   let summaryError: string | null = null;
-  let summary = null as Awaited<ReturnType<typeof getLiveSummary>> | null;
+  let summary: StatBroadcastLiveSummary | null = null;
   try {
-    summary = await getLiveSummary(id);
+    summary = await provider.getSummary(ref);
   } catch (error) {
     summaryError = error instanceof Error ? error.message : String(error);
   }
 
-  let plays = [] as Array<{
-    key: string;
-    order: number;
-    inning: number | null;
-    half: "top" | "bottom" | null;
-    text: string;
-    batter: string | null;
-    pitcher: string | null;
-    scoringDecision: string | null;
-    isSubstitution: boolean;
-    outsAfterPlay: number | null;
-    awayScore: number | null;
-    homeScore: number | null;
-  }>;
-
-  let playsSections: Awaited<ReturnType<typeof getLiveStats>>["sections"] = [];
-  let lineupsSections: Awaited<ReturnType<typeof getLiveStats>>["sections"] = [];
+  let plays: LiveDashboardPlay[] = [];
+  let playsSections: StatsSection[] = [];
+  let lineupsSections: StatsSection[] = [];
   let playsError: string | null = null;
   let lineupsError: string | null = null;
 
   if (summary) {
     const [playsResult, lineupsResult] = await Promise.allSettled([
-      getLiveStats(id, "plays"),
-      getLiveStats(id, "lineups"),
+      provider.getPlays(ref, summary),
+      provider.getLineups(ref),
     ]);
 
     if (playsResult.status === "fulfilled") {
       playsSections = playsResult.value.sections;
-      const events = extractLivePlayEvents(playsResult.value);
-      const states = deriveLivePlayStates(events, summary);
-      plays = events.map((play) => {
-        const state = states.get(play.key);
-        return {
-          key: play.key,
-          order: play.order,
-          inning: play.inning,
-          half: play.half,
-          text: play.text,
-          batter: play.batter,
-          pitcher: play.pitcher,
-          scoringDecision: play.scoringDecision,
-          isSubstitution: play.isSubstitution,
-          outsAfterPlay: state?.outsAfterPlay ?? play.outs ?? null,
-          awayScore: state?.awayScore ?? summary.visitorScore,
-          homeScore: state?.homeScore ?? summary.homeScore,
-        };
-      });
+      plays = playsResult.value.plays;
     } else {
       playsError = playsResult.reason instanceof Error ? playsResult.reason.message : String(playsResult.reason);
     }
 
     if (lineupsResult.status === "fulfilled") {
-      lineupsSections = lineupsResult.value.sections;
+      lineupsSections = lineupsResult.value;
     } else {
       lineupsError = lineupsResult.reason instanceof Error ? lineupsResult.reason.message : String(lineupsResult.reason);
     }
@@ -1098,32 +1795,37 @@ async function buildStatBroadcastDashboardPayload(id: number) {
 
   return {
     summary,
-    summaryFrontend: summary ? normalizeLiveSummary(summary) : null,
+    summaryFrontend: summary ? normalizeLiveSummary(summary, { runExpectancy }) : null,
     summaryError,
     plays,
+    winProbabilityTimeline: summary ? buildLiveWinProbabilityTimeline(plays, summary, runExpectancy) : [],
     playsSections,
     playsError,
     lineupsSections,
     lineupsError,
+    lineupTimeline: summary ? buildLineupTimeline(plays, parseLineups(lineupsSections, summary)) : null,
   };
 }
 
-async function buildSidearmDashboardPayload(liveStatsUrl: string) {
-  const dashboard = await getSidearmLiveDashboard(liveStatsUrl);
-  if (!dashboard) {
-    throw new Error("Could not load Sidearm live dashboard.");
-  }
+function openLiveGameStream(req: express.Request, res: express.Response, game: ResolvedLiveGame): void {
+  res.status(200);
+  res.setHeader("Content-Type", "text/event-stream");
+  res.setHeader("Connection", "keep-alive");
+  res.setHeader("X-Accel-Buffering", "no");
+  res.flushHeaders();
+  res.write("retry: 5000\n\n");
 
-  return {
-    summary: dashboard.summary,
-    summaryFrontend: normalizeLiveSummary(dashboard.summary),
-    summaryError: null,
-    plays: dashboard.plays,
-    playsSections: dashboard.playsSections,
-    playsError: null,
-    lineupsSections: dashboard.lineupsSections,
-    lineupsError: null,
-  };
+  const unsubscribe = liveStreamHub.subscribe(game.ref, (event) => {
+    res.write(formatServerSentEvent(event));
+  });
+  const heartbeat = setInterval(() => {
+    res.write(": keep-alive\n\n");
+  }, 25_000);
+
+  req.on("close", () => {
+    clearInterval(heartbeat);
+    unsubscribe();
+  });
 }
 
 async function loadTeamsPayloadForScoreDate(date: string): Promise<LoadedTeamsPayload> {
@@ -1194,6 +1896,7 @@ async function loadTeamsPayload(options: LoadTeamsPayloadOptions): Promise<Loade
     payload: parsed,
     loadedAt,
   });
+  getTeamRegistry().registerD1Teams(parsed.teams);
 
   return {
     filename,
@@ -1305,21 +2008,12 @@ function findTeamByKey(teams: D1TeamSeasonData[], key: string): D1TeamSeasonData
     return bySlug;
   }
 
-  const keyName = normalizeLookupName(normalizedKey);
-  return teams.find((team) => normalizeLookupName(team.name) === keyName) ?? null;
-}
-
-function normalizeLookupName(value: string): string {
-  return value
-    .toLowerCase()
-    .replace(/&/g, " and ")
-    .replace(/[^\w\s]/g, " ")
-    .replace(/\s+/g, " ")
-    .trim();
+  const keyId = resolveTeamId(normalizedKey);
+  return teams.find((team) => resolveTeamId(team.name) === keyId) ?? null;
 }
 
-function toSlug(value: string): string {
-  return normalizeLookupName(value).replace(/\s+/g, "-");
+function isSouthernMiss(name: string): boolean {
+  return resolveTeamId(name) === SOUTHERN_MISS_TEAM_ID;
 }
 
 interface UsmScheduleGameRaw {
@@ -1537,17 +2231,16 @@ function findBestRosterMatch(
   candidates: LoadedRosterPayload[],
   options: FindRosterMatchOptions
 ): RankedRosterMatch | null {
-  const normalizedTeam = normalizeLookupName(options.team);
-  const normalizedSport = normalizeLookupName(options.sport);
+  const normalizedTeam = resolveTeamId(options.team);
+  const normalizedSport = options.sport.trim().toLowerCase();
   const normalizedSeason = options.season ? options.season.trim() : null;
-  const teamSlug = toSlug(options.team);
 
   let best: RankedRosterMatch | null = null;
 
   for (const candidate of candidates) {
     const fileName = path.basename(candidate.path).toLowerCase();
-    const candidateTeamName = normalizeLookupName(String(candidate.payload.teamName ?? ""));
-    const candidateSport = normalizeLookupName(String(candidate.payload.sport ?? ""));
+    const candidateTeamName = resolveTeamId(String(candidate.payload.teamName ?? ""));
+    const candidateSport = String(candidate.payload.sport ?? "").trim().toLowerCase();
     const candidateSeason = cleanQueryString(candidate.payload.season);
 
     let score = 0;
@@ -1556,7 +2249,7 @@ function findBestRosterMatch(
       score += 120;
     } else if (candidateTeamName && (candidateTeamName.includes(normalizedTeam) || normalizedTeam.includes(candidateTeamName))) {
       score += 80;
-    } else if (fileName.includes(teamSlug)) {
+    } else if (fileName.includes(normalizedTeam)) {
       score += 45;
     }
 
@@ -1564,7 +2257,7 @@ function findBestRosterMatch(
       score += 30;
     } else if (candidateSport && (candidateSport.includes(normalizedSport) || normalizedSport.includes(candidateSport))) {
       score += 18;
-    } else if (fileName.includes(toSlug(options.sport))) {
+    } else if (fileName.includes(normalizedSport.replace(/\s+/g, "-"))) {
       score += 8;
     }
 
@@ -1688,12 +2381,7 @@ function findSouthernMissTeam(teams: D1TeamSeasonData[]): D1TeamSeasonData | nul
     return bySlug;
   }
 
-  const byName = teams.find((team) => normalizeLookupName(team.name) === normalizeLookupName("Southern Miss"));
-  if (byName) {
-    return byName;
-  }
-
-  return teams.find((team) => normalizeLookupName(team.name).includes("southern miss")) ?? null;
+  return teams.find((team) => isSouthernMiss(team.name)) ?? null;
 }
 
 function buildUsmSiteScheduleRows(
@@ -1749,7 +2437,7 @@ function buildUsmSiteScheduleRowsFromUsmSchedule(
       dateIso: game.date,
       locationType,
       opponentName,
-      opponentSlug: toSlug(opponentName),
+      opponentSlug: resolveTeamId(opponentName),
       resultText: resultText ?? null,
       outcome,
       runsFor,
@@ -1763,15 +2451,7 @@ function buildUsmSiteScheduleRowsFromUsmSchedule(
 }
 
 function inferUsmLocationType(game: UsmScheduleGameNormalized): string | null {
-  const home = normalizeLookupName(game.homeTeam);
-  const away = normalizeLookupName(game.awayTeam);
-  if (home.includes("southern miss")) {
-    return null;
-  }
-  if (away.includes("southern miss")) {
-    return "@";
-  }
-  return null;
+  return !isSouthernMiss(game.homeTeam) && isSouthernMiss(game.awayTeam) ? "@" : null;
 }
 
 function parseDateIsoFromD1Schedule(game: D1TeamScheduleGame, seasonHint: string | null): string | null {
@@ -1883,13 +2563,13 @@ function matchUsmStatbroadcastId(
     return sameDateGames[0].gameId;
   }
 
-  const normalizedOpponent = normalizeLookupName(d1OpponentName ?? "");
+  const normalizedOpponent = resolveTeamId(d1OpponentName ?? "", "d1-team-schedule");
   if (!normalizedOpponent) {
     return sameDateGames[0].gameId;
   }
 
   const matched = sameDateGames.find((game) => {
-    const scheduleOpponent = normalizeLookupName(resolveUsmOpponentName(game));
+    const scheduleOpponent = resolveTeamId(resolveUsmOpponentName(game));
     return (
       scheduleOpponent === normalizedOpponent ||
       scheduleOpponent.includes(normalizedOpponent) ||
@@ -1901,15 +2581,7 @@ function matchUsmStatbroadcastId(
 }
 
 function resolveUsmOpponentName(game: UsmScheduleGameNormalized): string {
-  const home = normalizeLookupName(game.homeTeam);
-  const away = normalizeLookupName(game.awayTeam);
-  if (home.includes("southern miss")) {
-    return game.awayTeam;
-  }
-  if (away.includes("southern miss")) {
-    return game.homeTeam;
-  }
-  return game.awayTeam || game.homeTeam;
+  return resolveUsmOpponentNameFromTeams(game.awayTeam, game.homeTeam);
 }
 
 function mergeUsmScheduleResults(
@@ -1943,7 +2615,7 @@ function mergeUsmScheduleResults(
       return { ...game, resultText: mergedResult };
     }
 
-    const normalizedOpponent = normalizeUsmOpponentMatchName(resolveUsmOpponentName(game));
+    const normalizedOpponent = resolveTeamId(resolveUsmOpponentName(game));
     const preferredIndex = findBestScheduleTextMatchIndex(candidates, normalizedOpponent, true);
     const fallbackIndex = preferredIndex >= 0 ? preferredIndex : findBestScheduleTextMatchIndex(candidates, normalizedOpponent, false);
     const matchIndex = fallbackIndex;
@@ -2052,13 +2724,13 @@ function hasScheduleTextMatch(
     return false;
   }
 
-  const normalizedRowOpponent = normalizeUsmOpponentMatchName(row.opponentName ?? "");
+  const normalizedRowOpponent = resolveTeamId(row.opponentName ?? "", "southern-miss-schedule");
   if (!normalizedRowOpponent) {
     return true;
   }
 
   return sameDateGames.some((game) => {
-    const normalizedOpponent = normalizeUsmOpponentMatchName(resolveUsmOpponentName(game));
+    const normalizedOpponent = resolveTeamId(resolveUsmOpponentName(game));
     if (!normalizedOpponent) {
       return false;
     }
@@ -2075,7 +2747,7 @@ function buildUsmTeamsFromScheduleTextRow(
   row: SouthernMissScheduleTextGame,
   opponentName: string
 ): { awayTeam: string; homeTeam: string } {
-  const site = normalizeLookupName(row.siteLabel ?? "");
+  const site = (row.siteLabel ?? "").toLowerCase();
   if (site.includes("home")) {
     return {
       awayTeam: opponentName,
@@ -2097,12 +2769,10 @@ function buildUsmTeamsFromScheduleTextRow(
 }
 
 function resolveUsmOpponentNameFromTeams(awayTeam: string, homeTeam: string): string {
-  const home = normalizeLookupName(homeTeam);
-  const away = normalizeLookupName(awayTeam);
-  if (home.includes("southern miss")) {
+  if (isSouthernMiss(homeTeam)) {
     return awayTeam;
   }
-  if (away.includes("southern miss")) {
+  if (isSouthernMiss(awayTeam)) {
     return homeTeam;
   }
   return awayTeam || homeTeam;
@@ -2122,7 +2792,7 @@ function findBestScheduleTextMatchIndex(
       continue;
     }
 
-    const opponent = normalizeUsmOpponentMatchName(candidate.row.opponentName ?? "");
+    const opponent = resolveTeamId(candidate.row.opponentName ?? "", "southern-miss-schedule");
     if (!opponent || !normalizedOpponent) {
       continue;
     }
@@ -2165,26 +2835,6 @@ function normalizeResultStatusText(value: string | null): string | null {
   return text;
 }
 
-function normalizeUsmOpponentMatchName(value: string): string {
-  let normalized = normalizeLookupName(value);
-  if (!normalized) {
-    return normalized;
-  }
-
-  const aliasMap: Array<[RegExp, string]> = [
-    [/\bapp state\b/g, "appalachian state"],
-    [/\bulm\b/g, "ul monroe"],
-    [/\bla tech\b/g, "louisiana tech"],
-    [/\bolde? dom\b/g, "old dominion"],
-  ];
-
-  for (const [pattern, replacement] of aliasMap) {
-    normalized = normalized.replace(pattern, replacement);
-  }
-
-  return normalized.replace(/\s+/g, " ").trim();
-}
-
 function buildUsmSeasonSummary(scheduleRows: UsmSiteScheduleRow[]): UsmSeasonSummary {
   const completed = scheduleRows.filter((game) => game.isCompleted);
   const wins = completed.filter((game) => game.outcome === "win").length;
@@ -2292,6 +2942,183 @@ function resolveUsmSchedulePath(env: NodeJS.ProcessEnv): string {
   return path.resolve(process.cwd(), configured);
 }
 
+/** Archives a final game in the background; games already in the archive index are left alone. */
+function scheduleGameArchive(id: number): void {
+  const task = gameArchive.hasGame(id).then((archived) => (archived ? null : gameArchive.archiveGame(id)));
+  void task.catch((error: unknown) => {
+    // eslint-disable-next-line no-console
+    console.warn(`Archive failed for statbroadcast ${id}: ${error instanceof Error ? error.message : String(error)}`);
+  });
+}
+
+function parseStandingsTiebreakers(value: string | null): StandingsTiebreaker[] | null {
+  if (!value) {
+    return STANDINGS_TIEBREAKERS;
+  }
+  const rules = value.split(",").map((rule) => rule.trim());
+  return rules.every((rule): rule is StandingsTiebreaker => STANDINGS_TIEBREAKERS.includes(rule as StandingsTiebreaker))
+    ? rules
+    : null;
+}
+
+/** Projects each conference's automatic bid as its current standings leader. */
+async function loadStandingsAutomaticBids(): Promise<{ bids: AutomaticBidInput[]; errors: string[] }> {
+  const errors: string[] = [];
+  const conferences = await getConferenceDirectory().catch((error: unknown) => {
+    errors.push(`Conference directory failed (${error instanceof Error ? error.message : String(error)}).`);
+    return [];
+  });
+
+  const leaders = await runWithConcurrency(conferences, 4, async (conference) => {
+    try {
+      const feed = await getConferenceStandingsFeed(conference.id);
+      const leader = [...feed.entries].sort((a, b) => a.position - b.position)[0];
+      return leader ? { conference: conference.name, teamKey: leader.teamId ?? toTeamId(leader.teamName) } : null;
+    } catch (error) {
+      errors.push(`${conference.name} standings failed (${error instanceof Error ? error.message : String(error)}).`);
+      return null;
+    }
+  });
+
+  return { bids: leaders.filter((bid): bid is AutomaticBidInput => bid !== null), errors };
+}
+
+/** Snapshots every poll on a schedule, so history does not depend on someone opening the rankings pages. */
+function captureRankingsSnapshots(): void {
+  RANKINGS_HISTORY_SOURCES.forEach((source) => {
+    void getRankingsFeed(source)
+      .then(recordRankingsSnapshot)
+      .catch((error: unknown) => {
+        // eslint-disable-next-line no-console
+        console.warn(`Rankings capture failed for ${source}: ${error instanceof Error ? error.message : String(error)}`);
+      });
+  });
+}
+
+function recordRankingsSnapshot(feed: RankingsFeed): void {
+  void rankingsHistory.record(feed).catch((error: unknown) => {
+    // eslint-disable-next-line no-console
+    console.warn(
+      `Rankings snapshot failed for ${feed.source}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  });
+}
+
+function recordGameIdentities(observations: Array<GameObservation | null>): void {
+  const usable = observations.filter((observation): observation is GameObservation => observation !== null);
+  void gameIdentity.observe(usable).catch((error: unknown) => {
+    // eslint-disable-next-line no-console
+    console.warn(`Game identity update failed: ${error instanceof Error ? error.message : String(error)}`);
+  });
+}
+
+function recordUsmScheduleIdentities(schedulePath: string, games: UsmScheduleGameNormalized[]): void {
+  const fileName = path.basename(schedulePath);
+  recordGameIdentities(games.map((game) => buildScheduleFileObservation(fileName, game)));
+}
+
+function recordTeamScheduleIdentities(team: D1TeamSeasonData, season: string | null): void {
+  recordGameIdentities(
+    team.schedule.map((game) =>
+      buildTeamScheduleObservation(team.name, team.slug, game, parseDateIsoFromD1Schedule(game, season))
+    )
+  );
+}
+
+/**
+ * Returns the current matrix without waiting. A stale matrix is rebuilt in the background, and the
+ * default college table serves until the first build from the archive finishes.
+ */
+function getRunExpectancyMatrix(): RunExpectancyMatrix {
+  if (!runExpectancyRebuild && Date.now() - runExpectancyState.builtAt >= RUN_EXPECTANCY_TTL_MS) {
+    runExpectancyRebuild = buildArchivedRunExpectancyMatrix()
+      .then((matrix) => {
+        runExpectancyState = { builtAt: Date.now(), matrix };
+      })
+      .catch((error: unknown) => {
+        // Keep the previous matrix and wait a full TTL before trying again.
+        runExpectancyState = { ...runExpectancyState, builtAt: Date.now() };
+        // eslint-disable-next-line no-console
+        console.warn(`Run expectancy rebuild failed: ${error instanceof Error ? error.message : String(error)}`);
+      })
+      .finally(() => {
+        runExpectancyRebuild = null;
+      });
+  }
+
+  return runExpectancyState.matrix;
+}
+
+/** Mirrors the in-memory unmatched names to the report file the CLI also writes. */
+function writeUnmatchedTeamsReport(): void {
+  const registry = getTeamRegistry();
+  if (registry.unmatchedReport().total === 0) {
+    return;
+  }
+
+  void registry.writeUnmatchedReport().catch((error: unknown) => {
+    // eslint-disable-next-line no-console
+    console.warn(`Unmatched team report write failed: ${error instanceof Error ? error.message : String(error)}`);
+  });
+}
+
+/** Reads archived games one at a time and keeps only their plays, so a rebuild never holds whole games. */
+async function buildArchivedRunExpectancyMatrix(): Promise<RunExpectancyMatrix> {
+  const entries = (await gameArchive.search()).filter(
+    (entry) => entry.hasScorekeeping && /^bs|baseball/i.test(entry.sport)
+  );
+  const games: Array<Pick<BaseballScorekeepingData, "plays">> = [];
+  for (const entry of entries) {
+    const plays = (await gameArchive.readGame(entry.id))?.baseballScorekeeping?.plays;
+    if (plays) {
+      games.push({ plays });
+    }
+  }
+  return buildRunExpectancyMatrix(games);
+}
+
+async function loadArchivedSprayChart(query: express.Request["query"]): Promise<SprayChartPayload> {
+  const team = cleanQueryString(query.team);
+  const minConfidence = Number.parseFloat(String(query.minConfidence ?? ""));
+  const archived = await gameArchive.readGames({
+    season: normalizeSeason(query.season),
+    team,
+  });
+  const scorekeeping = archived
+    .map((game) => game.baseballScorekeeping)
+    .filter((game): game is NonNullable<typeof game> => game !== null);
+
+  return computeSprayChart(scorekeeping, {
+    team,
+    batter: cleanQueryString(query.batter),
+    pitcher: cleanQueryString(query.pitcher),
+    minConfidence: Number.isFinite(minConfidence) ? minConfidence : 0,
+  });
+}
+
+function buildLiveWinProbabilityTimeline(
+  plays: LiveDashboardPlay[],
+  summary: StatBroadcastLiveSummary,
+  matrix: RunExpectancyMatrix
+) {
+  const scheduledInnings = scheduledInningsForSport(summary.event.sport);
+  return scheduledInnings === null ? [] : buildWinProbabilityTimeline(plays, matrix, { scheduledInnings });
+}
+
+function parseArchiveDateQuery(value: unknown): string | null {
+  const raw = cleanQueryString(value);
+  if (!raw) {
+    return null;
+  }
+
+  try {
+    const compact = normalizeScoreDate(raw);
+    return `${compact.slice(0, 4)}-${compact.slice(4, 6)}-${compact.slice(6, 8)}`;
+  } catch {
+    return null;
+  }
+}
+
 function cleanQueryString(value: unknown): string | null {
   const normalized = String(value ?? "").trim();
   return normalized.length > 0 ? normalized : null;
@@ -9,7 +9,10 @@ import {
   type FrontendTickerItem,
   type StatBroadcastLiveSummary,
 } from "./types";
-import { getBrandingLogoUrl, normalizeBrandingTeamName } from "./utils/team-branding";
+import type { RunExpectancyMatrix } from "./scorekeeping/run-expectancy";
+import { computeLiveWinProbability, scheduledInningsForSport } from "./scorekeeping/win-probability";
+import { getBrandingLogoUrl } from "./utils/team-branding";
+import { resolveTeamId } from "./utils/team-registry";
 
 export function buildFrontendScoresFeed(
   date: string,
@@ -31,7 +34,10 @@ export function buildFrontendScoresFeed(
   };
 }
 
-export function normalizeLiveSummary(live: StatBroadcastLiveSummary): FrontendLiveSummary {
+export function normalizeLiveSummary(
+  live: StatBroadcastLiveSummary,
+  options?: { runExpectancy?: RunExpectancyMatrix }
+): FrontendLiveSummary {
   const phase = inferPhase({ isOver: live.event.completed, inProgress: true, status: live.statusText });
 
   const awayTeam = normalizeLiveTeam({
@@ -59,6 +65,7 @@ export function normalizeLiveSummary(live: StatBroadcastLiveSummary): FrontendLi
     lineScore: live.lineScore,
     situation: live.situation,
     thisInning: live.thisInning,
+    winProbability: normalizeLiveWinProbability(live, phase, options?.runExpectancy),
     fetchedAt: live.fetchedAt,
   };
 }
@@ -202,10 +209,40 @@ function normalizeLiveTeam(input: {
 }
 
 interface RankingLookup {
-  byName: Map<string, number>;
+  byTeamId: Map<string, number>;
   bySlug: Map<string, number>;
 }
 
+function normalizeLiveWinProbability(
+  live: StatBroadcastLiveSummary,
+  phase: FrontendGamePhase,
+  matrix: RunExpectancyMatrix | undefined
+): FrontendLiveSummary["winProbability"] {
+  const scheduledInnings = scheduledInningsForSport(live.event.sport);
+  if (scheduledInnings === null) {
+    return null;
+  }
+
+  if (phase === "final") {
+    if (live.homeScore === null || live.visitorScore === null) {
+      return null;
+    }
+    const home = live.homeScore > live.visitorScore ? 1 : live.homeScore < live.visitorScore ? 0 : 0.5;
+    return { home, away: 1 - home, runExpectancy: null, model: matrix?.source ?? "default" };
+  }
+
+  if (phase !== "live") {
+    return null;
+  }
+
+  return computeLiveWinProbability(
+    live.situation,
+    { awayScore: live.visitorScore, homeScore: live.homeScore },
+    matrix,
+    { scheduledInnings }
+  );
+}
+
 function inferPhase(input: {
   isOver: boolean;
   inProgress: boolean;
@@ -366,21 +403,21 @@ function buildRankLookup(rankings: D1RankingsPayload | null): RankingLookup | nu
     return null;
   }
 
-  const byName = new Map<string, number>();
+  const byTeamId = new Map<string, number>();
   const bySlug = new Map<string, number>();
   for (const team of rankings.teams) {
-    const normalizedName = normalizeBrandingTeamName(team.name);
-    if (normalizedName && !byName.has(normalizedName)) {
-      byName.set(normalizedName, team.rank);
+    const teamId = resolveTeamId(team.name, "d1-rankings");
+    if (teamId && !byTeamId.has(teamId)) {
+      byTeamId.set(teamId, team.rank);
     }
 
-    const slug = cleanTeamSlug(team.teamUrl ?? null) ?? normalizeBrandingTeamName(team.slug);
+    const slug = cleanTeamSlug(team.teamUrl ?? null) ?? resolveTeamId(team.slug);
     if (slug && !bySlug.has(slug)) {
       bySlug.set(slug, team.rank);
     }
   }
 
-  return { byName, bySlug };
+  return { byTeamId, bySlug };
 }
 
 function resolveTeamRank(
@@ -401,11 +438,11 @@ function resolveTeamRank(
     }
   }
 
-  const normalizedName = normalizeBrandingTeamName(teamName);
-  if (normalizedName) {
-    const byName = rankLookup.byName.get(normalizedName);
-    if (byName !== undefined) {
-      return byName;
+  const teamId = resolveTeamId(teamName, "d1-scores");
+  if (teamId) {
+    const rank = rankLookup.byTeamId.get(teamId);
+    if (rank !== undefined) {
+      return rank;
     }
   }
 
@@ -442,7 +479,7 @@ function cleanTeamSlug(teamUrl: string | null): string | null {
       return null;
     }
 
-    return normalizeBrandingTeamName(segments[teamIndex + 1] ?? "");
+    return resolveTeamId(segments[teamIndex + 1] ?? "");
   } catch {
     return null;
   }
@@ -0,0 +1,266 @@
+import type { LineScore, LiveSituation, StatBroadcastLiveSummary } from "../types";
+import { isFinalStatus, type LiveDashboardPlay } from "./live-play-feed";
+import {
+  liveStatsProviders,
+  type LiveGameLocator,
+  type LiveStatsProviderRegistry,
+  type ResolvedLiveGame,
+} from "./live-stats-provider";
+
+const DEFAULT_STREAM_INTERVAL_MS = 10_000;
+
+export interface LiveGameSnapshot {
+  summary: StatBroadcastLiveSummary;
+  plays: LiveDashboardPlay[];
+}
+
+export interface LiveStreamScoreData {
+  visitorTeam: string;
+  homeTeam: string;
+  visitorScore: number | null;
+  homeScore: number | null;
+  statusText: string | null;
+  lineScore: LineScore | null;
+}
+
+export interface LiveStreamSituationData {
+  statusText: string | null;
+  situation: LiveSituation | null;
+  thisInning: StatBroadcastLiveSummary["thisInning"];
+}
+
+export interface LiveStreamFinalData {
+  visitorTeam: string;
+  homeTeam: string;
+  visitorScore: number | null;
+  homeScore: number | null;
+  statusText: string | null;
+  winner: "visitor" | "home" | null;
+}
+
+export type LiveStreamEvent =
+  | { type: "score"; gameKey: string; data: LiveStreamScoreData }
+  | { type: "situation"; gameKey: string; data: LiveStreamSituationData }
+  | { type: "play"; gameKey: string; data: LiveDashboardPlay }
+  | { type: "final"; gameKey: string; data: LiveStreamFinalData };
+
+export type LiveStreamListener = (event: LiveStreamEvent) => void;
+
+export interface LiveGameStreamHubOptions {
+  loadSnapshot?: (source: LiveGameLocator) => Promise<LiveGameSnapshot>;
+  providers?: LiveStatsProviderRegistry;
+  intervalMs?: number;
+}
+
+interface StreamEntry {
+  source: LiveGameLocator;
+  listeners: Set<LiveStreamListener>;
+  snapshot: LiveGameSnapshot | null;
+  timer: NodeJS.Timeout | null;
+  polling: boolean;
+  finished: boolean;
+}
+
+export class LiveGameStreamHub {
+  private readonly entries = new Map<string, StreamEntry>();
+  private readonly loadSnapshot: (source: LiveGameLocator) => Promise<LiveGameSnapshot>;
+  private readonly providers: LiveStatsProviderRegistry;
+  private readonly intervalMs: number;
+
+  constructor(options: LiveGameStreamHubOptions = {}) {
+    this.providers = options.providers ?? liveStatsProviders;
+    this.loadSnapshot = options.loadSnapshot ?? ((source) => loadLiveGameSnapshot(source, this.providers));
+    this.intervalMs = options.intervalMs ?? DEFAULT_STREAM_INTERVAL_MS;
+  }
+
+  subscribe(source: LiveGameLocator, listener: LiveStreamListener): () => void {
+    const gameKey = buildLiveGameKey(source, this.providers);
+    let entry = this.entries.get(gameKey);
+    if (!entry) {
+      entry = {
+        source,
+        listeners: new Set(),
+        snapshot: null,
+        timer: null,
+        polling: false,
+        finished: false,
+      };
+      this.entries.set(gameKey, entry);
+    }
+
+    entry.listeners.add(listener);
+    if (entry.snapshot) {
+      buildInitialStreamEvents(gameKey, entry.snapshot).forEach((event) => listener(event));
+    }
+
+    if (!entry.timer && !entry.polling && !entry.finished) {
+      void this.poll(gameKey);
+    }
+
+    return () => {
+      const current = this.entries.get(gameKey);
+      if (!current) {
+        return;
+      }
+
+      current.listeners.delete(listener);
+      if (current.listeners.size === 0) {
+        if (current.timer) {
+          clearTimeout(current.timer);
+        }
+        this.entries.delete(gameKey);
+      }
+    };
+  }
+
+  activeGameKeys(): string[] {
+    return Array.from(this.entries.keys());
+  }
+
+  private async poll(gameKey: string): Promise<void> {
+    const entry = this.entries.get(gameKey);
+    if (!entry) {
+      return;
+    }
+
+    entry.timer = null;
+    entry.polling = true;
+    try {
+      const next = await this.loadSnapshot(entry.source);
+      const events = entry.snapshot
+        ? diffLiveGameSnapshots(gameKey, entry.snapshot, next)
+        : buildInitialStreamEvents(gameKey, next);
+      entry.snapshot = next;
+      entry.finished = isFinalStatus(next.summary);
+
+      for (const event of events) {
+        entry.listeners.forEach((listener) => listener(event));
+      }
+    } catch {
+      // Upstream failures are retried on the next tick; clients keep their last state.
+    } finally {
+      entry.polling = false;
+    }
+
+    if (this.entries.get(gameKey) === entry && !entry.finished) {
+      entry.timer = setTimeout(() => void this.poll(gameKey), this.intervalMs);
+    }
+  }
+}
+
+export async function loadLiveGameSnapshot(
+  source: LiveGameLocator,
+  providers: LiveStatsProviderRegistry = liveStatsProviders
+): Promise<LiveGameSnapshot> {
+  const { provider, ref } = requireLiveGame(source, providers);
+  const summary = await provider.getSummary(ref);
+  const { plays } = await provider.getPlays(ref, summary);
+  return { summary, plays };
+}
+
+export function buildLiveGameKey(
+  source: LiveGameLocator,
+  providers: LiveStatsProviderRegistry = liveStatsProviders
+): string {
+  return requireLiveGame(source, providers).ref.gameKey;
+}
+
+export function buildInitialStreamEvents(gameKey: string, snapshot: LiveGameSnapshot): LiveStreamEvent[] {
+  const events: LiveStreamEvent[] = [
+    { type: "score", gameKey, data: buildScoreData(snapshot.summary) },
+    { type: "situation", gameKey, data: buildSituationData(snapshot.summary) },
+  ];
+
+  if (isFinalStatus(snapshot.summary)) {
+    events.push({ type: "final", gameKey, data: buildFinalData(snapshot.summary) });
+  }
+
+  return events;
+}
+
+export function diffLiveGameSnapshots(
+  gameKey: string,
+  previous: LiveGameSnapshot,
+  next: LiveGameSnapshot
+): LiveStreamEvent[] {
+  const events: LiveStreamEvent[] = [];
+  const previousPlayKeys = new Set(previous.plays.map((play) => play.key));
+
+  next.plays
+    .filter((play) => !previousPlayKeys.has(play.key))
+    .sort((a, b) => a.order - b.order)
+    .forEach((play) => events.push({ type: "play", gameKey, data: play }));
+
+  const previousScore = buildScoreData(previous.summary);
+  const nextScore = buildScoreData(next.summary);
+  if (!isSameJson(previousScore, nextScore)) {
+    events.push({ type: "score", gameKey, data: nextScore });
+  }
+
+  const previousSituation = buildSituationData(previous.summary);
+  const nextSituation = buildSituationData(next.summary);
+  if (!isSameJson(previousSituation, nextSituation)) {
+    events.push({ type: "situation", gameKey, data: nextSituation });
+  }
+
+  if (isFinalStatus(next.summary) && !isFinalStatus(previous.summary)) {
+    events.push({ type: "final", gameKey, data: buildFinalData(next.summary) });
+  }
+
+  return events;
+}
+
+export function formatServerSentEvent(event: LiveStreamEvent): string {
+  return `event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`;
+}
+
+function buildScoreData(summary: StatBroadcastLiveSummary): LiveStreamScoreData {
+  return {
+    visitorTeam: summary.visitorTeam,
+    homeTeam: summary.homeTeam,
+    visitorScore: summary.visitorScore,
+    homeScore: summary.homeScore,
+    statusText: summary.statusText,
+    lineScore: summary.lineScore,
+  };
+}
+
+function buildSituationData(summary: StatBroadcastLiveSummary): LiveStreamSituationData {
+  return {
+    statusText: summary.statusText,
+    situation: summary.situation,
+    thisInning: summary.thisInning,
+  };
+}
+
+function buildFinalData(summary: StatBroadcastLiveSummary): LiveStreamFinalData {
+  const visitorScore = summary.visitorScore;
+  const homeScore = summary.homeScore;
+  const winner =
+    visitorScore === null || homeScore === null || visitorScore === homeScore
+      ? null
+      : visitorScore > homeScore
+        ? "visitor"
+        : "home";
+
+  return {
+    visitorTeam: summary.visitorTeam,
+    homeTeam: summary.homeTeam,
+    visitorScore,
+    homeScore,
+    statusText: summary.statusText,
+    winner,
+  };
+}
+
+function requireLiveGame(source: LiveGameLocator, providers: LiveStatsProviderRegistry): ResolvedLiveGame {
+  const resolved = providers.resolve(source);
+  if (!resolved) {
+    throw new Error("No live stats provider matches this game.");
+  }
+  return resolved;
+}
+
+function isSameJson(left: unknown, right: unknown): boolean {
+  return JSON.stringify(left) === JSON.stringify(right);
+}
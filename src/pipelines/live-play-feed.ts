@@ -47,6 +47,21 @@ export interface DerivedPlayState {
   outsAfterPlay: number | null;
 }
 
+export interface LiveDashboardPlay {
+  key: string;
+  order: number;
+  inning: number | null;
+  half: "top" | "bottom" | null;
+  text: string;
+  batter: string | null;
+  pitcher: string | null;
+  scoringDecision: string | null;
+  isSubstitution: boolean;
+  outsAfterPlay: number | null;
+  awayScore: number | null;
+  homeScore: number | null;
+}
+
 interface NamePair {
   first: string;
   last: string;
@@ -186,6 +201,31 @@ export function deriveLivePlayStates(
   return states;
 }
 
+export function buildLiveDashboardPlays(
+  plays: LivePlayEvent[],
+  summary: StatBroadcastLiveSummary
+): LiveDashboardPlay[] {
+  const states = deriveLivePlayStates(plays, summary);
+
+  return plays.map((play) => {
+    const state = states.get(play.key);
+    return {
+      key: play.key,
+      order: play.order,
+      inning: play.inning,
+      half: play.half,
+      text: play.text,
+      batter: play.batter,
+      pitcher: play.pitcher,
+      scoringDecision: play.scoringDecision,
+      isSubstitution: play.isSubstitution,
+      outsAfterPlay: state?.outsAfterPlay ?? play.outs ?? null,
+      awayScore: state?.awayScore ?? summary.visitorScore,
+      homeScore: state?.homeScore ?? summary.homeScore,
+    };
+  });
+}
+
 export function buildPlayTweetText(input: BuildPlayTweetTextInput): string {
   const maxLength = clampTweetLength(input.maxLength ?? 280);
   const outs =
@@ -257,7 +297,7 @@ export function buildFinalTweetText(input: BuildFinalTweetTextInput): string {
   return trimToTweetLength(lines.join("\n"), maxLength);
 }
 
-export function extractParticipantNamesFromLineupStats(liveStats: StatBroadcastLiveStats): string[] {
+export function extractParticipantNamesFromLineupStats(liveStats: Pick<StatBroadcastLiveStats, "sections">): string[] {
   const names = new Set<string>();
   for (const section of liveStats.sections) {
     if (!/batting order|line\s*up/i.test(section.title)) {
@@ -1165,7 +1205,7 @@ function parseRbiCount(value: string | null): number | null {
   return /\bRBI\b/i.test(text) ? 1 : null;
 }
 
-function estimateOutsRecordedOnPlay(text: string): number {
+export function estimateOutsRecordedOnPlay(text: string): number {
   const normalized = cleanText(text);
   if (!normalized) {
     return 0;
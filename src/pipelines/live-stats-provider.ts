@@ -0,0 +1,283 @@
+import { buildPrestoSportsLiveGameStatus, isPrestoSportsBoxScoreUrl } from "../scrapers/prestosports-live";
+import { getSidearmLiveGameStatus } from "../scrapers/sidearm-live";
+import { getFinalGame } from "../scrapers/statbroadcast";
+import type {
+  StatBroadcastFinalGame,
+  StatBroadcastLiveStats,
+  StatBroadcastLiveSummary,
+  StatsSection,
+} from "../types";
+import {
+  buildLiveDashboardPlays,
+  extractLivePlayEvents,
+  type LiveDashboardPlay,
+  type LivePlayEvent,
+} from "./live-play-feed";
+import {
+  pollLiveStats,
+  pollLiveSummary,
+  pollPrestoSportsDashboard,
+  pollSidearmDashboard,
+} from "./upstream-poller";
+
+/** Anything that can point at a live game: a `D1Game`, route query values, or CLI flags. */
+export interface LiveGameLocator {
+  provider?: string | null;
+  statbroadcastId?: number | null;
+  liveStatsUrl?: string | null;
+}
+
+export interface LiveGameRef {
+  provider: string;
+  /** Stable key shared by the upstream poller and the stream hub, e.g. `statbroadcast:636528`. */
+  gameKey: string;
+  statbroadcastId: number | null;
+  liveStatsUrl: string | null;
+}
+
+export interface LivePlayByPlay {
+  /** Raw play rows, as consumed by the X feed. */
+  events: LivePlayEvent[];
+  /** Rows with outs and running score resolved, as served to the dashboard. */
+  plays: LiveDashboardPlay[];
+  sections: StatsSection[];
+}
+
+export interface LiveBoxScore {
+  away: StatsSection[];
+  home: StatsSection[];
+}
+
+/** Status and score that replace a scoreboard's schedule-derived values while a game is live. */
+export interface LiveGameStatus {
+  statusText: string;
+  inProgress: boolean;
+  isOver: boolean;
+  roadScore: number | null;
+  homeScore: number | null;
+  location: string | null;
+}
+
+/**
+ * One live stats vendor. Every method returns StatBroadcast-shaped data so routes, the stream hub
+ * and the X feed stay vendor-agnostic; methods a vendor cannot serve return empty sections or null.
+ */
+export interface LiveStatsProvider {
+  readonly id: string;
+  resolve(locator: LiveGameLocator): LiveGameRef | null;
+  getSummary(ref: LiveGameRef): Promise<StatBroadcastLiveSummary>;
+  getPlays(ref: LiveGameRef, summary: StatBroadcastLiveSummary): Promise<LivePlayByPlay>;
+  getBox(ref: LiveGameRef): Promise<LiveBoxScore>;
+  getLineups(ref: LiveGameRef): Promise<StatsSection[]>;
+  /** A named StatBroadcast stats view (`game`, `away_season`, ...); null for vendors without views. */
+  getView(ref: LiveGameRef, view: string): Promise<StatBroadcastLiveStats | null>;
+  getFinal(ref: LiveGameRef): Promise<StatBroadcastFinalGame | null>;
+  /** Null for vendors whose scores already come with the scoreboard. */
+  getStatus(ref: LiveGameRef): Promise<LiveGameStatus | null>;
+}
+
+export interface ResolvedLiveGame {
+  provider: LiveStatsProvider;
+  ref: LiveGameRef;
+}
+
+export class LiveStatsProviderRegistry {
+  private readonly providers: LiveStatsProvider[] = [];
+
+  constructor(providers: LiveStatsProvider[] = []) {
+    providers.forEach((provider) => this.register(provider));
+  }
+
+  register(provider: LiveStatsProvider): void {
+    if (this.providers.some((existing) => existing.id === provider.id)) {
+      throw new Error(`Live stats provider ${provider.id} is already registered.`);
+    }
+    this.providers.push(provider);
+  }
+
+  get(id: string): LiveStatsProvider | null {
+    return this.providers.find((provider) => provider.id === id) ?? null;
+  }
+
+  list(): string[] {
+    return this.providers.map((provider) => provider.id);
+  }
+
+  /** Providers are tried in registration order unless the locator names one explicitly. */
+  resolve(locator: LiveGameLocator): ResolvedLiveGame | null {
+    const candidates = locator.provider ? [this.get(locator.provider)] : this.providers;
+    for (const provider of candidates) {
+      const ref = provider?.resolve(locator) ?? null;
+      if (provider && ref) {
+        return { provider, ref };
+      }
+    }
+    return null;
+  }
+}
+
+export const statBroadcastLiveStatsProvider: LiveStatsProvider = {
+  id: "statbroadcast",
+  resolve(locator) {
+    const url = locator.liveStatsUrl?.trim() ?? "";
+    const urlId = /statbroadcast\.com/i.test(url) ? url.match(/[?&]id=(\d+)/i)?.[1] : undefined;
+    const id = locator.statbroadcastId ?? (urlId ? Number.parseInt(urlId, 10) : null);
+    if (!id || id <= 0) {
+      return null;
+    }
+    return {
+      provider: "statbroadcast",
+      gameKey: `statbroadcast:${id}`,
+      statbroadcastId: id,
+      liveStatsUrl: locator.liveStatsUrl ?? null,
+    };
+  },
+  getSummary(ref) {
+    return pollLiveSummary(requireStatBroadcastId(ref));
+  },
+  async getPlays(ref, summary) {
+    const stats = await pollLiveStats(requireStatBroadcastId(ref), "plays");
+    const events = extractLivePlayEvents(stats);
+    return {
+      events,
+      plays: buildLiveDashboardPlays(events, summary),
+      sections: stats.sections,
+    };
+  },
+  async getBox(ref) {
+    const id = requireStatBroadcastId(ref);
+    const [away, home] = await Promise.all([pollLiveStats(id, "away_box"), pollLiveStats(id, "home_box")]);
+    return { away: away.sections, home: home.sections };
+  },
+  async getLineups(ref) {
+    return (await pollLiveStats(requireStatBroadcastId(ref), "lineups")).sections;
+  },
+  getView(ref, view) {
+    return pollLiveStats(requireStatBroadcastId(ref), view);
+  },
+  getFinal(ref) {
+    return getFinalGame(requireStatBroadcastId(ref));
+  },
+  async getStatus() {
+    return null;
+  },
+};
+
+export const sidearmLiveStatsProvider: LiveStatsProvider = {
+  id: "sidearm",
+  resolve(locator) {
+    const url = locator.liveStatsUrl?.trim() ?? "";
+    if (!/\/sidearmstats\//i.test(url)) {
+      return null;
+    }
+    return {
+      provider: "sidearm",
+      gameKey: `sidearm:${url.toLowerCase()}`,
+      statbroadcastId: null,
+      liveStatsUrl: url,
+    };
+  },
+  async getSummary(ref) {
+    return (await loadSidearmDashboard(ref)).summary;
+  },
+  async getPlays(ref) {
+    const dashboard = await loadSidearmDashboard(ref);
+    return {
+      events: dashboard.events,
+      plays: dashboard.plays,
+      sections: dashboard.playsSections,
+    };
+  },
+  async getBox() {
+    return { away: [], home: [] };
+  },
+  async getLineups(ref) {
+    return (await loadSidearmDashboard(ref)).lineupsSections;
+  },
+  async getView() {
+    return null;
+  },
+  async getFinal() {
+    return null;
+  },
+  getStatus(ref) {
+    return getSidearmLiveGameStatus(ref.liveStatsUrl ?? "");
+  },
+};
+
+export const prestoSportsLiveStatsProvider: LiveStatsProvider = {
+  id: "prestosports",
+  resolve(locator) {
+    const url = (locator.liveStatsUrl?.trim() ?? "").replace(/[?#].*$/, "");
+    if (!isPrestoSportsBoxScoreUrl(url)) {
+      return null;
+    }
+    return {
+      provider: "prestosports",
+      gameKey: `prestosports:${url.toLowerCase()}`,
+      statbroadcastId: null,
+      liveStatsUrl: url,
+    };
+  },
+  async getSummary(ref) {
+    return (await loadPrestoSportsDashboard(ref)).summary;
+  },
+  async getPlays(ref) {
+    const dashboard = await loadPrestoSportsDashboard(ref);
+    return {
+      events: dashboard.events,
+      plays: dashboard.plays,
+      sections: dashboard.playsSections,
+    };
+  },
+  async getBox(ref) {
+    const { summary, boxSections } = await loadPrestoSportsDashboard(ref);
+    // Box sections are titled "<team> Batting" / "<team> Pitching".
+    return {
+      away: boxSections.filter((section) => section.title.startsWith(`${summary.visitorTeam} `)),
+      home: boxSections.filter((section) => section.title.startsWith(`${summary.homeTeam} `)),
+    };
+  },
+  async getLineups(ref) {
+    return (await loadPrestoSportsDashboard(ref)).lineupsSections;
+  },
+  async getView() {
+    return null;
+  },
+  async getFinal() {
+    return null;
+  },
+  async getStatus(ref) {
+    const dashboard = ref.liveStatsUrl ? await pollPrestoSportsDashboard(ref.liveStatsUrl) : null;
+    return dashboard ? buildPrestoSportsLiveGameStatus(dashboard) : null;
+  },
+};
+
+export const liveStatsProviders = new LiveStatsProviderRegistry([
+  statBroadcastLiveStatsProvider,
+  sidearmLiveStatsProvider,
+  prestoSportsLiveStatsProvider,
+]);
+
+function requireStatBroadcastId(ref: LiveGameRef): number {
+  if (ref.statbroadcastId === null) {
+    throw new Error(`Game ${ref.gameKey} has no statbroadcast id.`);
+  }
+  return ref.statbroadcastId;
+}
+
+async function loadSidearmDashboard(ref: LiveGameRef) {
+  const dashboard = ref.liveStatsUrl ? await pollSidearmDashboard(ref.liveStatsUrl) : null;
+  if (!dashboard) {
+    throw new Error("Could not load Sidearm live dashboard.");
+  }
+  return dashboard;
+}
+
+async function loadPrestoSportsDashboard(ref: LiveGameRef) {
+  const dashboard = ref.liveStatsUrl ? await pollPrestoSportsDashboard(ref.liveStatsUrl) : null;
+  if (!dashboard) {
+    throw new Error("Could not load PrestoSports box score.");
+  }
+  return dashboard;
+}
@@ -0,0 +1,285 @@
+import { getPrestoSportsLiveDashboard, type PrestoSportsLiveDashboard } from "../scrapers/prestosports-live";
+import { getSidearmLiveDashboard, type SidearmLiveDashboard } from "../scrapers/sidearm-live";
+import { getLiveStats, getLiveSummary } from "../scrapers/statbroadcast";
+import type { StatBroadcastLiveStats, StatBroadcastLiveSummary } from "../types";
+import { isFinalStatus } from "./live-play-feed";
+
+export type PollPhase = "pregame" | "live" | "final";
+
+export interface PollTarget<T> {
+  key: string;
+  gameKey: string;
+  load: () => Promise<T>;
+  phaseOf: (value: T) => PollPhase;
+}
+
+export interface UpstreamPollerOptions {
+  intervals?: Partial<Record<PollPhase, number>>;
+  idleTimeoutMs?: number;
+  now?: () => number;
+}
+
+export interface UpstreamPollerStatus {
+  key: string;
+  gameKey: string;
+  phase: PollPhase | null;
+  intervalMs: number;
+  watchers: number;
+  fetchCount: number;
+  lastFetchedAt: string | null;
+  lastRequestedAt: string;
+  lastError: string | null;
+}
+
+export interface PollPhaseChange {
+  key: string;
+  gameKey: string;
+  phase: PollPhase;
+  previousPhase: PollPhase | null;
+}
+
+type PollListener<T> = (value: T) => void;
+
+interface PollEntry<T> {
+  target: PollTarget<T>;
+  value: T | null;
+  hasValue: boolean;
+  phase: PollPhase | null;
+  fetchedAt: number | null;
+  requestedAt: number;
+  inFlight: Promise<T> | null;
+  timer: NodeJS.Timeout | null;
+  listeners: Set<PollListener<T>>;
+  fetchCount: number;
+  lastError: string | null;
+}
+
+const DEFAULT_INTERVALS: Record<PollPhase, number> = {
+  pregame: 60_000,
+  live: 15_000,
+  final: 5 * 60_000,
+};
+const DEFAULT_IDLE_TIMEOUT_MS = 2 * 60_000;
+
+export class UpstreamPoller {
+  private readonly entries = new Map<string, PollEntry<unknown>>();
+  private readonly intervals: Record<PollPhase, number>;
+  private readonly idleTimeoutMs: number;
+  private readonly now: () => number;
+  private readonly phaseListeners = new Set<(change: PollPhaseChange) => void>();
+
+  constructor(options: UpstreamPollerOptions = {}) {
+    this.intervals = { ...DEFAULT_INTERVALS, ...options.intervals };
+    this.idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_IDLE_TIMEOUT_MS;
+    this.now = options.now ?? (() => Date.now());
+  }
+
+  async get<T>(target: PollTarget<T>): Promise<T> {
+    const entry = this.ensureEntry(target);
+    entry.requestedAt = this.now();
+
+    if (entry.hasValue && !this.isStale(entry)) {
+      return entry.value as T;
+    }
+
+    return this.refresh(entry);
+  }
+
+  watch<T>(target: PollTarget<T>, listener: PollListener<T>): () => void {
+    const entry = this.ensureEntry(target);
+    entry.requestedAt = this.now();
+    entry.listeners.add(listener);
+    if (entry.hasValue) {
+      listener(entry.value as T);
+    } else {
+      void this.refresh(entry).catch(() => undefined);
+    }
+
+    return () => {
+      entry.listeners.delete(listener);
+      entry.requestedAt = this.now();
+    };
+  }
+
+  onPhaseChange(listener: (change: PollPhaseChange) => void): () => void {
+    this.phaseListeners.add(listener);
+    return () => {
+      this.phaseListeners.delete(listener);
+    };
+  }
+
+  status(): UpstreamPollerStatus[] {
+    return Array.from(this.entries.values()).map((entry) => ({
+      key: entry.target.key,
+      gameKey: entry.target.gameKey,
+      phase: entry.phase,
+      intervalMs: this.intervalFor(entry),
+      watchers: entry.listeners.size,
+      fetchCount: entry.fetchCount,
+      lastFetchedAt: entry.fetchedAt === null ? null : new Date(entry.fetchedAt).toISOString(),
+      lastRequestedAt: new Date(entry.requestedAt).toISOString(),
+      lastError: entry.lastError,
+    }));
+  }
+
+  watchedGameKeys(): string[] {
+    return Array.from(new Set(Array.from(this.entries.values()).map((entry) => entry.target.gameKey)));
+  }
+
+  stop(): void {
+    for (const entry of this.entries.values()) {
+      if (entry.timer) {
+        clearTimeout(entry.timer);
+      }
+    }
+    this.entries.clear();
+  }
+
+  private ensureEntry<T>(target: PollTarget<T>): PollEntry<T> {
+    const existing = this.entries.get(target.key) as PollEntry<T> | undefined;
+    if (existing) {
+      return existing;
+    }
+
+    const entry: PollEntry<T> = {
+      target,
+      value: null,
+      hasValue: false,
+      phase: null,
+      fetchedAt: null,
+      requestedAt: this.now(),
+      inFlight: null,
+      timer: null,
+      listeners: new Set(),
+      fetchCount: 0,
+      lastError: null,
+    };
+    this.entries.set(target.key, entry as PollEntry<unknown>);
+    return entry;
+  }
+
+  private refresh<T>(entry: PollEntry<T>): Promise<T> {
+    if (entry.inFlight) {
+      return entry.inFlight;
+    }
+
+    entry.fetchCount += 1;
+    const request = entry.target
+      .load()
+      .then((value) => {
+        const previousPhase = entry.phase;
+        entry.value = value;
+        entry.hasValue = true;
+        entry.phase = entry.target.phaseOf(value);
+        entry.fetchedAt = this.now();
+        entry.lastError = null;
+        entry.listeners.forEach((listener) => listener(value));
+        if (entry.phase !== previousPhase) {
+          const change = { key: entry.target.key, gameKey: entry.target.gameKey, phase: entry.phase, previousPhase };
+          this.phaseListeners.forEach((listener) => listener(change));
+        }
+        return value;
+      })
+      .catch((error: unknown) => {
+        entry.lastError = error instanceof Error ? error.message : String(error);
+        throw error;
+      })
+      .finally(() => {
+        entry.inFlight = null;
+        this.schedule(entry);
+      });
+
+    entry.inFlight = request;
+    return request;
+  }
+
+  private schedule<T>(entry: PollEntry<T>): void {
+    if (entry.timer) {
+      clearTimeout(entry.timer);
+    }
+
+    if (this.entries.get(entry.target.key) !== entry) {
+      entry.timer = null;
+      return;
+    }
+
+    entry.timer = setTimeout(() => this.tick(entry), this.intervalFor(entry));
+    entry.timer.unref?.();
+  }
+
+  private tick<T>(entry: PollEntry<T>): void {
+    entry.timer = null;
+    if (entry.listeners.size === 0 && this.now() - entry.requestedAt > this.idleTimeoutMs) {
+      this.entries.delete(entry.target.key);
+      return;
+    }
+
+    void this.refresh(entry).catch(() => undefined);
+  }
+
+  private isStale<T>(entry: PollEntry<T>): boolean {
+    if (entry.fetchedAt === null) {
+      return true;
+    }
+
+    return this.now() - entry.fetchedAt >= this.intervalFor(entry);
+  }
+
+  private intervalFor<T>(entry: PollEntry<T>): number {
+    return this.intervals[entry.phase ?? "live"];
+  }
+}
+
+export const upstreamPoller = new UpstreamPoller();
+
+export function pollLiveSummary(id: number): Promise<StatBroadcastLiveSummary> {
+  return upstreamPoller.get({
+    key: `statbroadcast:${id}:summary`,
+    gameKey: `statbroadcast:${id}`,
+    load: () => getLiveSummary(id),
+    phaseOf: classifySummaryPhase,
+  });
+}
+
+export function pollLiveStats(id: number, view?: string): Promise<StatBroadcastLiveStats> {
+  const normalizedView = (view ?? "").trim().toLowerCase() || "game";
+  return upstreamPoller.get({
+    key: `statbroadcast:${id}:stats:${normalizedView}`,
+    gameKey: `statbroadcast:${id}`,
+    load: () => getLiveStats(id, normalizedView),
+    phaseOf: (stats) => classifySummaryPhase(stats.summary),
+  });
+}
+
+export function pollSidearmDashboard(liveStatsUrl: string): Promise<SidearmLiveDashboard | null> {
+  const gameKey = `sidearm:${liveStatsUrl.trim().toLowerCase()}`;
+  return upstreamPoller.get({
+    key: `${gameKey}:dashboard`,
+    gameKey,
+    load: () => getSidearmLiveDashboard(liveStatsUrl),
+    phaseOf: (dashboard) => (dashboard ? classifySummaryPhase(dashboard.summary) : "pregame"),
+  });
+}
+
+export function pollPrestoSportsDashboard(liveStatsUrl: string): Promise<PrestoSportsLiveDashboard | null> {
+  const gameKey = `prestosports:${liveStatsUrl.trim().toLowerCase()}`;
+  return upstreamPoller.get({
+    key: `${gameKey}:dashboard`,
+    gameKey,
+    load: () => getPrestoSportsLiveDashboard(liveStatsUrl),
+    phaseOf: (dashboard) => (dashboard ? classifySummaryPhase(dashboard.summary) : "pregame"),
+  });
+}
+
+export function classifySummaryPhase(summary: StatBroadcastLiveSummary): PollPhase {
+  if (isFinalStatus(summary)) {
+    return "final";
+  }
+
+  const inning = summary.situation?.inning ?? null;
+  if (inning !== null || /\b(top|bot|bottom|mid|middle|end)\b/i.test(summary.statusText ?? "")) {
+    return "live";
+  }
+
+  return "pregame";
+}
@@ -0,0 +1,223 @@
+import type { ComputedRpiTeam } from "../scorekeeping/rpi";
+import { distanceMiles, getConferenceLocation } from "./conference-locations";
+
+export const DEFAULT_BRACKET_FIELD_SIZE = 64;
+
+const TEAMS_PER_REGIONAL = 4;
+const NATIONAL_SEEDS = 8;
+const BUBBLE_SIZE = 4;
+
+export type ProjectedBidType = "automatic" | "at-large";
+
+/** A conference's projected champion, e.g. the regular-season standings leader. */
+export interface AutomaticBidInput {
+  conference: string;
+  teamKey: string;
+}
+
+export interface ProjectedAutomaticBid {
+  conference: string;
+  teamKey: string;
+  teamName: string;
+  /** `standings` when the bid came from the conference leader; `rating` when it fell back to the top-rated team. */
+  source: "standings" | "rating";
+}
+
+export interface ProjectedBubbleTeam {
+  teamKey: string;
+  teamName: string;
+  conference: string | null;
+  rpiRank: number;
+}
+
+export interface ProjectedTeam extends ProjectedBubbleTeam {
+  rpi: number;
+  overallSeed: number;
+  seed: number;
+  bid: ProjectedBidType;
+  /** Miles from the team's conference center to the host's; null when either conference has no location. */
+  distanceMiles: number | null;
+}
+
+export interface ProjectedRegional {
+  number: number;
+  name: string;
+  hostTeamKey: string;
+  nationalSeed: number | null;
+  superRegional: number;
+  teams: ProjectedTeam[];
+}
+
+export interface ProjectedSuperRegional {
+  number: number;
+  regionals: [number, number];
+}
+
+export interface BracketProjection {
+  fieldSize: number;
+  automaticBids: ProjectedAutomaticBid[];
+  lastFourIn: ProjectedBubbleTeam[];
+  firstFourOut: ProjectedBubbleTeam[];
+  regionals: ProjectedRegional[];
+  superRegionals: ProjectedSuperRegional[];
+  /** Same-conference pairings the placement could not avoid. */
+  constraintViolations: string[];
+}
+
+export interface ProjectBracketOptions {
+  fieldSize?: number;
+  automaticBids?: AutomaticBidInput[];
+}
+
+/**
+ * Picks the field (automatic bids plus the best-rated at-large teams), seeds the top 16 as regional
+ * hosts with the top 8 as national seeds, and places the 2-4 seed lines nearest their host without
+ * putting two teams from one conference in the same regional.
+ */
+export function projectBracket(ratings: ComputedRpiTeam[], options: ProjectBracketOptions = {}): BracketProjection {
+  const ranked = [...ratings].sort((a, b) => a.rank - b.rank);
+  const requestedSize = options.fieldSize ?? DEFAULT_BRACKET_FIELD_SIZE;
+  const fieldSize = Math.min(requestedSize, Math.floor(ranked.length / TEAMS_PER_REGIONAL) * TEAMS_PER_REGIONAL);
+  const regionalCount = fieldSize / TEAMS_PER_REGIONAL;
+
+  const automaticBids = selectAutomaticBids(ranked, options.automaticBids ?? []).slice(0, fieldSize);
+  const automaticKeys = new Set(automaticBids.map((bid) => bid.teamKey));
+  const atLargeSlots = fieldSize - automaticBids.length;
+  const atLarge = ranked.filter((team) => !automaticKeys.has(team.teamKey)).slice(0, atLargeSlots);
+  const fieldKeys = new Set([...automaticKeys, ...atLarge.map((team) => team.teamKey)]);
+  const field = ranked.filter((team) => fieldKeys.has(team.teamKey));
+
+  const regionals: ProjectedRegional[] = field.slice(0, regionalCount).map((host, index) => {
+    const number = index + 1;
+    const pairedWith = regionalCount + 1 - number;
+    return {
+      number,
+      name: `${host.teamName} Regional`,
+      hostTeamKey: host.teamKey,
+      nationalSeed: number <= Math.min(NATIONAL_SEEDS, regionalCount / 2) ? number : null,
+      superRegional: Math.min(number, pairedWith),
+      teams: [toProjectedTeam(host, number, 1, automaticKeys, 0)],
+    };
+  });
+
+  const constraintViolations: string[] = [];
+  for (let seed = 2; seed <= TEAMS_PER_REGIONAL; seed += 1) {
+    const line = field.slice((seed - 1) * regionalCount, seed * regionalCount);
+    line.forEach((team, position) => {
+      const open = regionals.filter((regional) => regional.teams.length < seed);
+      const placement = pickRegional(team, open, field, seed, position, regionalCount);
+      if (placement.conflicts > 0) {
+        constraintViolations.push(
+          `${team.teamName} shares the ${placement.regional.name} with another ${team.conference} team.`
+        );
+      }
+      placement.regional.teams.push(
+        toProjectedTeam(team, field.indexOf(team) + 1, seed, automaticKeys, placement.distance)
+      );
+    });
+  }
+
+  const superRegionals: ProjectedSuperRegional[] = [];
+  for (let number = 1; number <= regionalCount / 2; number += 1) {
+    superRegionals.push({ number, regionals: [number, regionalCount + 1 - number] });
+  }
+
+  return {
+    fieldSize,
+    automaticBids,
+    lastFourIn: atLarge.slice(-BUBBLE_SIZE).map(toBubbleTeam),
+    firstFourOut: ranked
+      .filter((team) => !fieldKeys.has(team.teamKey))
+      .slice(0, BUBBLE_SIZE)
+      .map(toBubbleTeam),
+    regionals,
+    superRegionals,
+    constraintViolations,
+  };
+}
+
+function selectAutomaticBids(ranked: ComputedRpiTeam[], inputs: AutomaticBidInput[]): ProjectedAutomaticBid[] {
+  const byKey = new Map(ranked.map((team) => [team.teamKey, team]));
+  const bids = new Map<string, ProjectedAutomaticBid>();
+
+  for (const input of inputs) {
+    const team = byKey.get(input.teamKey);
+    const conference = team?.conference ?? input.conference;
+    if (team && !bids.has(conference)) {
+      bids.set(conference, { conference, teamKey: team.teamKey, teamName: team.teamName, source: "standings" });
+    }
+  }
+
+  // Conferences without a standings leader fall back to their best-rated team.
+  for (const team of ranked) {
+    if (!team.conference || /independent/i.test(team.conference) || bids.has(team.conference)) {
+      continue;
+    }
+    bids.set(team.conference, {
+      conference: team.conference,
+      teamKey: team.teamKey,
+      teamName: team.teamName,
+      source: "rating",
+    });
+  }
+
+  const rankByKey = new Map(ranked.map((team) => [team.teamKey, team.rank]));
+  return Array.from(bids.values()).sort((a, b) => (rankByKey.get(a.teamKey) ?? 0) - (rankByKey.get(b.teamKey) ?? 0));
+}
+
+function pickRegional(
+  team: ComputedRpiTeam,
+  open: ProjectedRegional[],
+  field: ComputedRpiTeam[],
+  seed: number,
+  position: number,
+  regionalCount: number
+): { regional: ProjectedRegional; conflicts: number; distance: number | null } {
+  const conferenceByKey = new Map(field.map((entry) => [entry.teamKey, entry.conference]));
+  const location = getConferenceLocation(team.conference);
+  // Serpentine tie-break: the best 2 seed pairs with the last host, the best 3 seed with the first.
+  const balancedNumber = seed % 2 === 0 ? regionalCount - position : position + 1;
+
+  const candidates = open.map((regional) => {
+    const conflicts = team.conference
+      ? regional.teams.filter((entry) => conferenceByKey.get(entry.teamKey) === team.conference).length
+      : 0;
+    const hostLocation = getConferenceLocation(conferenceByKey.get(regional.hostTeamKey));
+    const distance = location && hostLocation ? Math.round(distanceMiles(location, hostLocation)) : null;
+    return { regional, conflicts, distance };
+  });
+
+  candidates.sort(
+    (a, b) =>
+      a.conflicts - b.conflicts ||
+      (a.distance ?? Infinity) - (b.distance ?? Infinity) ||
+      Math.abs(a.regional.number - balancedNumber) - Math.abs(b.regional.number - balancedNumber)
+  );
+  return candidates[0];
+}
+
+function toProjectedTeam(
+  team: ComputedRpiTeam,
+  overallSeed: number,
+  seed: number,
+  automaticKeys: Set<string>,
+  distance: number | null
+): ProjectedTeam {
+  return {
+    ...toBubbleTeam(team),
+    rpi: team.rpi,
+    overallSeed,
+    seed,
+    bid: automaticKeys.has(team.teamKey) ? "automatic" : "at-large",
+    distanceMiles: distance,
+  };
+}
+
+function toBubbleTeam(team: ComputedRpiTeam): ProjectedBubbleTeam {
+  return {
+    teamKey: team.teamKey,
+    teamName: team.teamName,
+    conference: team.conference,
+    rpiRank: team.rank,
+  };
+}
@@ -0,0 +1,76 @@
+export interface GeoPoint {
+  lat: number;
+  lon: number;
+}
+
+interface ConferenceLocation extends GeoPoint {
+  /** Normalized conference names and abbreviations, as used by D1Baseball and the branding file. */
+  keys: string[];
+}
+
+// Rough geographic center of each conference's membership. Team-level locations are not in the
+// data we scrape, so regional placement measures distance between conference centers.
+const CONFERENCE_LOCATIONS: ConferenceLocation[] = [
+  { keys: ["acc", "atlantic coast"], lat: 36.0, lon: -80.0 },
+  { keys: ["america east", "am east"], lat: 43.0, lon: -72.5 },
+  { keys: ["aac", "american", "american athletic"], lat: 32.5, lon: -89.0 },
+  { keys: ["a 10", "atlantic 10"], lat: 40.0, lon: -76.5 },
+  { keys: ["asun", "a sun", "atlantic sun"], lat: 32.0, lon: -84.5 },
+  { keys: ["big 12", "big twelve"], lat: 34.5, lon: -98.0 },
+  { keys: ["big east"], lat: 41.0, lon: -78.0 },
+  { keys: ["big south"], lat: 35.0, lon: -80.5 },
+  { keys: ["big ten", "big 10"], lat: 41.5, lon: -87.0 },
+  { keys: ["big west"], lat: 34.5, lon: -118.5 },
+  {
+    keys: ["caa", "coastal athletic", "coastal athletic association", "colonial athletic association"],
+    lat: 38.5,
+    lon: -76.5,
+  },
+  { keys: ["c usa", "usa"], lat: 32.5, lon: -88.0 },
+  { keys: ["horizon", "horizon league"], lat: 42.0, lon: -85.0 },
+  { keys: ["ivy", "ivy league"], lat: 41.5, lon: -73.5 },
+  { keys: ["maac", "metro atlantic athletic"], lat: 41.5, lon: -74.5 },
+  { keys: ["mac", "mid american"], lat: 41.0, lon: -83.5 },
+  { keys: ["meac", "mid eastern athletic"], lat: 36.5, lon: -77.5 },
+  { keys: ["mvc", "missouri valley"], lat: 39.0, lon: -90.0 },
+  { keys: ["mwc", "mountain west"], lat: 38.0, lon: -112.0 },
+  { keys: ["nec", "northeast"], lat: 41.0, lon: -74.5 },
+  { keys: ["ovc", "ohio valley"], lat: 36.5, lon: -87.5 },
+  { keys: ["pac 12", "pac twelve"], lat: 41.0, lon: -120.0 },
+  { keys: ["patriot", "patriot league"], lat: 41.0, lon: -75.5 },
+  { keys: ["sec", "southeastern"], lat: 33.5, lon: -88.0 },
+  { keys: ["southern", "socon"], lat: 34.5, lon: -83.0 },
+  { keys: ["southland"], lat: 30.5, lon: -93.0 },
+  { keys: ["swac", "southwestern athletic"], lat: 31.5, lon: -90.0 },
+  { keys: ["summit", "summit league"], lat: 42.5, lon: -96.0 },
+  { keys: ["sun belt", "sunbelt"], lat: 32.5, lon: -86.0 },
+  { keys: ["wac", "western athletic"], lat: 33.0, lon: -104.0 },
+  { keys: ["wcc", "west coast"], lat: 37.0, lon: -121.0 },
+];
+
+const locationsByKey = new Map(
+  CONFERENCE_LOCATIONS.flatMap((location) => location.keys.map((key) => [key, location] as const))
+);
+
+export function getConferenceLocation(conference: string | null | undefined): GeoPoint | null {
+  const key = normalizeConferenceName(conference);
+  return key ? locationsByKey.get(key) ?? null : null;
+}
+
+export function distanceMiles(a: GeoPoint, b: GeoPoint): number {
+  const toRadians = (value: number) => (value * Math.PI) / 180;
+  const dLat = toRadians(b.lat - a.lat);
+  const dLon = toRadians(b.lon - a.lon);
+  const h =
+    Math.sin(dLat / 2) ** 2 + Math.cos(toRadians(a.lat)) * Math.cos(toRadians(b.lat)) * Math.sin(dLon / 2) ** 2;
+  return 2 * 3958.8 * Math.asin(Math.sqrt(h));
+}
+
+function normalizeConferenceName(value: string | null | undefined): string {
+  return String(value ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .replace(/\b(the|conference)\b/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
@@ -0,0 +1,139 @@
+import type { ConferenceTournamentFormat } from "./conference-tournament";
+
+export interface ConferenceTournamentConfig {
+  /** D1Baseball conference id, as used by `/api/standings?conference=`. */
+  conferenceId: string;
+  name: string;
+  aliases: string[];
+  /** First day (`YYYY-MM-DD`) of the tournament; earlier games between seeds are regular-season games. */
+  startDate: string;
+  format: ConferenceTournamentFormat;
+}
+
+// Formats and start dates from each conference's most recent tournament; update an entry each season and whenever
+// a conference changes its format.
+export const CONFERENCE_TOURNAMENT_CONFIGS: ConferenceTournamentConfig[] = [
+  {
+    conferenceId: "southeastern-conference",
+    name: "SEC Tournament",
+    aliases: ["sec", "southeastern"],
+    startDate: "2026-05-19",
+    format: {
+      type: "single-elimination",
+      teams: 16,
+      entryRounds: [
+        [9, 10, 11, 12, 13, 14, 15, 16],
+        [5, 6, 7, 8],
+        [1, 2, 3, 4],
+      ],
+    },
+  },
+  {
+    conferenceId: "atlantic-coast-conference",
+    name: "ACC Tournament",
+    aliases: ["acc", "atlantic coast"],
+    startDate: "2026-05-19",
+    format: {
+      type: "single-elimination",
+      teams: 12,
+      entryRounds: [
+        [5, 6, 7, 8, 9, 10, 11, 12],
+        [1, 2, 3, 4],
+      ],
+    },
+  },
+  {
+    conferenceId: "big-12-conference",
+    name: "Big 12 Tournament",
+    aliases: ["big 12"],
+    startDate: "2026-05-20",
+    format: {
+      type: "single-elimination",
+      teams: 12,
+      entryRounds: [
+        [5, 6, 7, 8, 9, 10, 11, 12],
+        [1, 2, 3, 4],
+      ],
+    },
+  },
+  {
+    conferenceId: "big-ten-conference",
+    name: "Big Ten Tournament",
+    aliases: ["big ten", "big 10"],
+    startDate: "2026-05-19",
+    format: {
+      type: "single-elimination",
+      teams: 12,
+      entryRounds: [
+        [5, 6, 7, 8, 9, 10, 11, 12],
+        [1, 2, 3, 4],
+      ],
+    },
+  },
+  {
+    conferenceId: "sun-belt-conference",
+    name: "Sun Belt Tournament",
+    aliases: ["sun belt", "sunbelt"],
+    startDate: "2026-05-19",
+    format: { type: "double-elimination", teams: 8 },
+  },
+  {
+    conferenceId: "american-athletic-conference",
+    name: "American Athletic Tournament",
+    aliases: ["aac", "american athletic"],
+    startDate: "2026-05-19",
+    format: { type: "double-elimination", teams: 8 },
+  },
+  {
+    conferenceId: "conference-usa",
+    name: "Conference USA Tournament",
+    aliases: ["c usa", "conference usa"],
+    startDate: "2026-05-20",
+    format: { type: "double-elimination", teams: 8 },
+  },
+  {
+    conferenceId: "big-east-conference",
+    name: "Big East Tournament",
+    aliases: ["big east"],
+    startDate: "2026-05-21",
+    format: { type: "double-elimination", teams: 4 },
+  },
+  {
+    conferenceId: "mountain-west-conference",
+    name: "Mountain West Tournament",
+    aliases: ["mountain west", "mwc"],
+    startDate: "2026-05-20",
+    format: {
+      type: "pool-play",
+      pools: [
+        [1, 4, 5],
+        [2, 3, 6],
+      ],
+    },
+  },
+  {
+    conferenceId: "ivy-league",
+    name: "Ivy League Tournament",
+    aliases: ["ivy"],
+    startDate: "2026-05-16",
+    format: { type: "double-elimination", teams: 4 },
+  },
+];
+
+export function findConferenceTournamentConfig(conference: string): ConferenceTournamentConfig | null {
+  const key = normalizeKey(conference);
+  return (
+    CONFERENCE_TOURNAMENT_CONFIGS.find(
+      (config) =>
+        normalizeKey(config.conferenceId) === key ||
+        config.aliases.some((alias) => normalizeKey(alias) === key)
+    ) ?? null
+  );
+}
+
+function normalizeKey(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
@@ -0,0 +1,572 @@
+import type { D1Game } from "../types";
+import { resolveTeamId } from "../utils/team-registry";
+
+export type TournamentSlot =
+  | { type: "seed"; seed: number }
+  | { type: "winner"; gameId: string }
+  | { type: "loser"; gameId: string }
+  | { type: "pool"; pool: string; place: number };
+
+export interface TournamentGameSpec {
+  id: string;
+  round: string;
+  /** `winners`, `losers`, `final` or `pool-<name>`. */
+  bracket: string;
+  slots: [TournamentSlot, TournamentSlot];
+  /** Double-elimination reset game: played only if the second-slot team wins the named game. */
+  ifNecessaryAfter?: string;
+}
+
+export type ConferenceTournamentFormat =
+  | {
+      type: "single-elimination";
+      teams: number;
+      /** Seeds entering each round, e.g. `[[5, ..., 12], [1, 2, 3, 4]]` for a four-team bye; default all in round 1. */
+      entryRounds?: number[][];
+    }
+  | { type: "double-elimination"; teams: number }
+  | {
+      type: "pool-play";
+      /** Seeds in each pool; pool winners meet in a single-elimination bracket in pool order. */
+      pools: number[][];
+    };
+
+export interface TournamentSeedInput {
+  seed: number;
+  teamKey: string;
+  teamName: string;
+}
+
+export interface TournamentResult {
+  teamKeys: [string, string];
+  scores: [number, number];
+  startTimeEpoch: number | null;
+}
+
+export type TournamentGameStatus = "final" | "scheduled" | "pending" | "not-needed";
+
+export interface TournamentGameState {
+  id: string;
+  round: string;
+  bracket: string;
+  ifNecessary: boolean;
+  status: TournamentGameStatus;
+  /** Where each side comes from, e.g. `Seed 4`, `Winner G3`, `Pool A winner`. */
+  sources: [string, string];
+  teams: [TournamentSeedInput | null, TournamentSeedInput | null];
+  /** Teams expected if every unplayed game goes to the better seed. */
+  projected: [TournamentSeedInput | null, TournamentSeedInput | null];
+  winner: TournamentSeedInput | null;
+  score: string | null;
+}
+
+export interface TournamentTeamStatus extends TournamentSeedInput {
+  wins: number;
+  losses: number;
+  status: "alive" | "eliminated" | "champion";
+  nextGameId: string | null;
+  /** Games the team still has to win to take the title, assuming other games go to the better seed. */
+  pathToTitle: string[];
+}
+
+export interface ConferenceTournamentState {
+  format: ConferenceTournamentFormat;
+  seeds: TournamentSeedInput[];
+  games: TournamentGameState[];
+  teams: TournamentTeamStatus[];
+  champion: TournamentSeedInput | null;
+}
+
+type WinnerSlot = Extract<TournamentSlot, { type: "winner" }>;
+
+interface Entrant {
+  slot: TournamentSlot;
+  /** Best seed that can fill the slot, used for pairing. */
+  rank: number;
+}
+
+interface GameOutcome {
+  teams: [number | null, number | null];
+  status: TournamentGameStatus;
+  winner: number | null;
+  loser: number | null;
+  score: string | null;
+}
+
+export function buildTournamentGames(format: ConferenceTournamentFormat): TournamentGameSpec[] {
+  const games: TournamentGameSpec[] = [];
+  switch (format.type) {
+    case "single-elimination": {
+      const entryRounds = format.entryRounds ?? [range(1, format.teams)];
+      appendSingleElimination(
+        games,
+        entryRounds.map((seeds) => seeds.map(seedEntrant)),
+        "winners"
+      );
+      return games;
+    }
+    case "double-elimination":
+      appendDoubleElimination(games, format.teams);
+      return games;
+    case "pool-play":
+      format.pools.forEach((seeds, index) => {
+        const pool = poolName(index);
+        for (let i = 0; i < seeds.length; i += 1) {
+          for (let j = i + 1; j < seeds.length; j += 1) {
+            games.push({
+              id: nextGameId(games),
+              round: `Pool ${pool}`,
+              bracket: `pool-${pool}`,
+              slots: [
+                { type: "seed", seed: seeds[i] },
+                { type: "seed", seed: seeds[j] },
+              ],
+            });
+          }
+        }
+      });
+      appendSingleElimination(
+        games,
+        [
+          format.pools.map((_, index): Entrant => ({
+            slot: { type: "pool", pool: poolName(index), place: 1 },
+            rank: index + 1,
+          })),
+        ],
+        "winners"
+      );
+      return games;
+  }
+}
+
+export function tournamentTeamCount(format: ConferenceTournamentFormat): number {
+  return format.type === "pool-play" ? format.pools.reduce((total, pool) => total + pool.length, 0) : format.teams;
+}
+
+/** Completed games with scores, keyed the same way as standings seeds. */
+export function toTournamentResults(games: D1Game[]): TournamentResult[] {
+  return games
+    .filter((game) => game.isOver && game.roadTeam.score !== null && game.homeTeam.score !== null)
+    .map((game) => ({
+      teamKeys: [tournamentTeamKey(game.roadTeam.name), tournamentTeamKey(game.homeTeam.name)] as [string, string],
+      scores: [game.roadTeam.score ?? 0, game.homeTeam.score ?? 0] as [number, number],
+      startTimeEpoch: game.matchupTimeEpoch,
+    }))
+    .sort((a, b) => (a.startTimeEpoch ?? 0) - (b.startTimeEpoch ?? 0));
+}
+
+export function tournamentTeamKey(name: string): string {
+  return resolveTeamId(name);
+}
+
+/**
+ * Applies played games to the bracket in order. Each bracket game takes the earliest unused result
+ * between its two teams, so `results` must only hold games played since the tournament started.
+ */
+export function resolveConferenceTournament(
+  format: ConferenceTournamentFormat,
+  seeds: TournamentSeedInput[],
+  results: TournamentResult[]
+): ConferenceTournamentState {
+  const specs = buildTournamentGames(format);
+  const bySeed = new Map(seeds.map((seed) => [seed.seed, seed]));
+  const seedByKey = new Map(seeds.map((seed) => [seed.teamKey, seed.seed]));
+
+  const actual = simulate(specs, format, seedByKey, results, null);
+  const projected = simulate(specs, format, seedByKey, results, "favorite");
+  const toSeed = (seed: number | null) => (seed !== null ? bySeed.get(seed) ?? null : null);
+
+  const games: TournamentGameState[] = specs.map((spec) => {
+    const outcome = actual.get(spec.id) as GameOutcome;
+    const projection = projected.get(spec.id) as GameOutcome;
+    return {
+      id: spec.id,
+      round: spec.round,
+      bracket: spec.bracket,
+      ifNecessary: Boolean(spec.ifNecessaryAfter),
+      status: outcome.status,
+      sources: [describeSlot(spec.slots[0]), describeSlot(spec.slots[1])],
+      teams: [toSeed(outcome.teams[0]), toSeed(outcome.teams[1])],
+      projected: [toSeed(projection.teams[0]), toSeed(projection.teams[1])],
+      winner: toSeed(outcome.winner),
+      score: outcome.score,
+    };
+  });
+
+  const remaining = specs.filter((spec) => {
+    const status = actual.get(spec.id)?.status;
+    return status === "scheduled" || status === "pending";
+  });
+  const lastPlayed = [...specs].reverse().find((spec) => actual.get(spec.id)?.status === "final");
+  const championSeed = remaining.length === 0 && lastPlayed ? actual.get(lastPlayed.id)?.winner ?? null : null;
+
+  const possible = possibleParticipants(specs, format, actual);
+  const alive = new Set(remaining.flatMap((spec) => Array.from(possible(spec.id))));
+
+  const teams: TournamentTeamStatus[] = seeds.map((seed) => {
+    let wins = 0;
+    let losses = 0;
+    for (const outcome of actual.values()) {
+      if (outcome.status !== "final") {
+        continue;
+      }
+      wins += outcome.winner === seed.seed ? 1 : 0;
+      losses += outcome.loser === seed.seed ? 1 : 0;
+    }
+
+    const status = championSeed === seed.seed ? "champion" : alive.has(seed.seed) ? "alive" : "eliminated";
+    const titleRun = status === "alive" ? simulate(specs, format, seedByKey, results, seed.seed) : null;
+    const path = titleRun
+      ? specs.filter((spec) => {
+          const outcome = titleRun.get(spec.id);
+          const open = outcome?.status === "scheduled" || outcome?.status === "pending";
+          return open && outcome.teams.includes(seed.seed);
+        })
+      : [];
+    const next = remaining.find((spec) => actual.get(spec.id)?.teams.includes(seed.seed));
+
+    return {
+      ...seed,
+      wins,
+      losses,
+      status,
+      nextGameId: next?.id ?? path[0]?.id ?? null,
+      pathToTitle: path.map((spec) => spec.id),
+    };
+  });
+
+  return { format, seeds, games, teams, champion: toSeed(championSeed) };
+}
+
+function simulate(
+  specs: TournamentGameSpec[],
+  format: ConferenceTournamentFormat,
+  seedByKey: Map<string, number>,
+  results: TournamentResult[],
+  /** `null` plays only real results; `favorite` gives unplayed games to the better seed; a seed always wins. */
+  mode: null | "favorite" | number
+): Map<string, GameOutcome> {
+  const outcomes = new Map<string, GameOutcome>();
+  const used = new Set<number>();
+
+  const resolveSlot = (slot: TournamentSlot): number | null => {
+    switch (slot.type) {
+      case "seed":
+        return slot.seed;
+      case "winner":
+        return outcomes.get(slot.gameId)?.winner ?? null;
+      case "loser":
+        return outcomes.get(slot.gameId)?.loser ?? null;
+      case "pool":
+        return poolStandings(specs, format, outcomes, slot.pool)?.[slot.place - 1] ?? null;
+    }
+  };
+
+  for (const spec of specs) {
+    const teams: [number | null, number | null] = [resolveSlot(spec.slots[0]), resolveSlot(spec.slots[1])];
+    const outcome: GameOutcome = { teams, status: "pending", winner: null, loser: null, score: null };
+    outcomes.set(spec.id, outcome);
+
+    if (spec.ifNecessaryAfter) {
+      const previous = outcomes.get(spec.ifNecessaryAfter);
+      if (previous?.winner != null && previous.winner === previous.teams[0]) {
+        outcome.status = "not-needed";
+        continue;
+      }
+    }
+
+    const [first, second] = teams;
+    if (first === null || second === null) {
+      continue;
+    }
+    outcome.status = "scheduled";
+
+    const resultIndex = results.findIndex((result, index) => {
+      if (used.has(index)) {
+        return false;
+      }
+      const resultSeeds = result.teamKeys.map((key) => seedByKey.get(key));
+      return resultSeeds.includes(first) && resultSeeds.includes(second) && result.scores[0] !== result.scores[1];
+    });
+
+    if (resultIndex >= 0) {
+      used.add(resultIndex);
+      const result = results[resultIndex];
+      const winnerKey = result.scores[0] > result.scores[1] ? result.teamKeys[0] : result.teamKeys[1];
+      const winner = seedByKey.get(winnerKey) ?? null;
+      outcome.status = "final";
+      outcome.winner = winner;
+      outcome.loser = winner === first ? second : first;
+      outcome.score = `${Math.max(...result.scores)}-${Math.min(...result.scores)}`;
+    } else if (mode !== null) {
+      const winner = typeof mode === "number" && teams.includes(mode) ? mode : Math.min(first, second);
+      outcome.winner = winner;
+      outcome.loser = winner === first ? second : first;
+    }
+  }
+
+  return outcomes;
+}
+
+/** Pool order by wins, then head-to-head between two tied teams, then seed. Null until every pool game has a winner. */
+function poolStandings(
+  specs: TournamentGameSpec[],
+  format: ConferenceTournamentFormat,
+  outcomes: Map<string, GameOutcome>,
+  pool: string
+): number[] | null {
+  if (format.type !== "pool-play") {
+    return null;
+  }
+  const seeds = format.pools[poolIndex(pool)] ?? [];
+  const poolGames = specs.filter((spec) => spec.bracket === `pool-${pool}`).map((spec) => outcomes.get(spec.id));
+  if (poolGames.some((outcome) => !outcome || outcome.winner === null)) {
+    return null;
+  }
+
+  const wins = new Map(seeds.map((seed) => [seed, 0]));
+  for (const outcome of poolGames) {
+    const winner = outcome?.winner ?? null;
+    if (winner !== null) {
+      wins.set(winner, (wins.get(winner) ?? 0) + 1);
+    }
+  }
+
+  const beat = (a: number, b: number) =>
+    poolGames.some((outcome) => outcome?.winner === a && outcome.loser === b);
+  return [...seeds].sort((a, b) => {
+    const byWins = (wins.get(b) ?? 0) - (wins.get(a) ?? 0);
+    if (byWins !== 0) {
+      return byWins;
+    }
+    const tied = seeds.filter((seed) => wins.get(seed) === wins.get(a));
+    if (tied.length === 2) {
+      return beat(a, b) ? -1 : beat(b, a) ? 1 : a - b;
+    }
+    return a - b;
+  });
+}
+
+/** Seeds that can still appear in each game, given the games already played. */
+function possibleParticipants(
+  specs: TournamentGameSpec[],
+  format: ConferenceTournamentFormat,
+  actual: Map<string, GameOutcome>
+): (gameId: string) => Set<number> {
+  const byId = new Map(specs.map((spec) => [spec.id, spec]));
+
+  const fromSlot = (slot: TournamentSlot): Set<number> => {
+    switch (slot.type) {
+      case "seed":
+        return new Set([slot.seed]);
+      case "winner":
+      case "loser": {
+        const outcome = actual.get(slot.gameId);
+        if (outcome?.status === "final") {
+          const seed = slot.type === "winner" ? outcome.winner : outcome.loser;
+          return new Set(seed !== null ? [seed] : []);
+        }
+        return outcome?.status === "not-needed" ? new Set() : fromGame(slot.gameId);
+      }
+      case "pool": {
+        const standings = poolStandings(specs, format, actual, slot.pool);
+        if (standings) {
+          return new Set([standings[slot.place - 1]]);
+        }
+        return new Set(format.type === "pool-play" ? format.pools[poolIndex(slot.pool)] : []);
+      }
+    }
+  };
+
+  const fromGame = (gameId: string): Set<number> => {
+    const spec = byId.get(gameId);
+    return spec ? new Set([...fromSlot(spec.slots[0]), ...fromSlot(spec.slots[1])]) : new Set();
+  };
+
+  return fromGame;
+}
+
+/**
+ * Builds a bracket round by round. Rounds that still have seeds entering later pair best against
+ * worst; the final field is paired in standard bracket order (1v8, 4v5, 2v7, 3v6) with byes for
+ * the top entrants when it is not a power of two.
+ */
+function appendSingleElimination(games: TournamentGameSpec[], entryRounds: Entrant[][], bracket: string): Entrant[] {
+  let carried: Entrant[] = [];
+  const pending = entryRounds.map((round) => [...round]);
+  const firstId = games.length;
+
+  for (let round = 0; ; round += 1) {
+    const entrants = [...carried, ...(pending[round] ?? [])].sort((a, b) => a.rank - b.rank);
+    const laterEntries = pending.slice(round + 1).some((entries) => entries.length > 0);
+    if (entrants.length <= 1 && !laterEntries) {
+      labelRounds(games.slice(firstId));
+      return entrants;
+    }
+
+    let playing = entrants;
+    if (!laterEntries && !isPowerOfTwo(entrants.length)) {
+      const byes = nextPowerOfTwo(entrants.length) - entrants.length;
+      pending[round + 1] = [...(pending[round + 1] ?? []), ...entrants.slice(0, byes)];
+      playing = entrants.slice(byes);
+    }
+    if (playing.length % 2 !== 0) {
+      throw new Error(`Round ${round + 1} of the tournament has an odd number of teams.`);
+    }
+
+    const pairs =
+      laterEntries || pending[round + 1]?.length
+        ? playing.slice(0, playing.length / 2).map((entrant, index) => [entrant, playing[playing.length - 1 - index]])
+        : pairInBracketOrder(playing);
+
+    carried = pairs.map(([first, second]) => {
+      const id = nextGameId(games);
+      games.push({ id, round: `Round ${round + 1}`, bracket, slots: [first.slot, second.slot] });
+      return { slot: { type: "winner", gameId: id }, rank: Math.min(first.rank, second.rank) };
+    });
+  }
+}
+
+function appendDoubleElimination(games: TournamentGameSpec[], teams: number): void {
+  if (teams < 4 || !isPowerOfTwo(teams)) {
+    throw new Error("Double elimination is supported for 4, 8 or 16 teams.");
+  }
+
+  const winnersRounds: string[][] = [];
+  let entrants: Entrant[] = range(1, teams).map(seedEntrant);
+  while (entrants.length > 1) {
+    const ids: string[] = [];
+    entrants = pairInBracketOrder(entrants).map(([first, second]) => {
+      const id = nextGameId(games);
+      ids.push(id);
+      games.push({
+        id,
+        round: `Winners Round ${winnersRounds.length + 1}`,
+        bracket: "winners",
+        slots: [first.slot, second.slot],
+      });
+      return { slot: { type: "winner", gameId: id }, rank: Math.min(first.rank, second.rank) };
+    });
+    winnersRounds.push(ids);
+  }
+
+  let losersRound = 0;
+  const playLosers = (pairs: Array<[TournamentSlot, TournamentSlot]>): WinnerSlot[] => {
+    losersRound += 1;
+    return pairs.map((slots) => {
+      const id = nextGameId(games);
+      games.push({ id, round: `Losers Round ${losersRound}`, bracket: "losers", slots });
+      return { type: "winner", gameId: id };
+    });
+  };
+
+  const firstLosers: TournamentSlot[] = winnersRounds[0].map((gameId) => ({ type: "loser", gameId }));
+  let survivors = playLosers(chunkPairs(firstLosers));
+  for (const round of winnersRounds.slice(1)) {
+    // Drop-downs meet the losers bracket in reverse order to delay rematches.
+    const dropped: TournamentSlot[] = [...round].reverse().map((gameId) => ({ type: "loser", gameId }));
+    survivors = playLosers(survivors.map((slot, index) => [slot, dropped[index]]));
+    if (survivors.length > 1) {
+      survivors = playLosers(chunkPairs(survivors));
+    }
+  }
+
+  const winnersFinal = winnersRounds[winnersRounds.length - 1][0];
+  const finalId = nextGameId(games);
+  games.push({
+    id: finalId,
+    round: "Championship",
+    bracket: "final",
+    slots: [
+      { type: "winner", gameId: winnersFinal },
+      survivors[0],
+    ],
+  });
+  games.push({
+    id: nextGameId(games),
+    round: "Championship (if necessary)",
+    bracket: "final",
+    slots: [
+      { type: "winner", gameId: finalId },
+      { type: "loser", gameId: finalId },
+    ],
+    ifNecessaryAfter: finalId,
+  });
+}
+
+function labelRounds(games: TournamentGameSpec[]): void {
+  const rounds = Array.from(new Set(games.map((game) => game.round)));
+  const last = rounds[rounds.length - 1];
+  const semifinal = rounds[rounds.length - 2];
+  const hasSemifinals = games.filter((game) => game.round === semifinal).length === 2;
+  for (const game of games) {
+    if (game.round === last) {
+      game.round = "Championship";
+    } else if (game.round === semifinal && hasSemifinals) {
+      game.round = "Semifinals";
+    }
+  }
+}
+
+function pairInBracketOrder(entrants: Entrant[]): Array<[Entrant, Entrant]> {
+  let order = [1];
+  while (order.length < entrants.length) {
+    const size = order.length * 2;
+    order = order.flatMap((position) => [position, size + 1 - position]);
+  }
+  const placed = order.map((position) => entrants[position - 1]);
+  return chunkPairs(placed);
+}
+
+function chunkPairs<T>(values: T[]): Array<[T, T]> {
+  const pairs: Array<[T, T]> = [];
+  for (let index = 0; index + 1 < values.length; index += 2) {
+    pairs.push([values[index], values[index + 1]]);
+  }
+  return pairs;
+}
+
+function describeSlot(slot: TournamentSlot): string {
+  switch (slot.type) {
+    case "seed":
+      return `Seed ${slot.seed}`;
+    case "winner":
+      return `Winner ${slot.gameId}`;
+    case "loser":
+      return `Loser ${slot.gameId}`;
+    case "pool":
+      return slot.place === 1 ? `Pool ${slot.pool} winner` : `Pool ${slot.pool} #${slot.place}`;
+  }
+}
+
+function seedEntrant(seed: number): Entrant {
+  return { slot: { type: "seed", seed }, rank: seed };
+}
+
+function nextGameId(games: TournamentGameSpec[]): string {
+  return `G${games.length + 1}`;
+}
+
+function poolName(index: number): string {
+  return String.fromCharCode(65 + index);
+}
+
+function poolIndex(pool: string): number {
+  return pool.charCodeAt(0) - 65;
+}
+
+function range(start: number, end: number): number[] {
+  return Array.from({ length: Math.max(end - start + 1, 0) }, (_, index) => start + index);
+}
+
+function isPowerOfTwo(value: number): boolean {
+  return value > 0 && (value & (value - 1)) === 0;
+}
+
+function nextPowerOfTwo(value: number): number {
+  let size = 1;
+  while (size < value) {
+    size *= 2;
+  }
+  return size;
+}
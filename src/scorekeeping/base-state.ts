@@ -0,0 +1,343 @@
+import type { BaseballUnifiedPlay } from "./baseball";
+import { parsePlayDescription, type BaseballPlayOutcome } from "./play-description";
+
+export type BaseName = "first" | "second" | "third";
+
+export interface BaseOccupancy {
+  first: string | null;
+  second: string | null;
+  third: string | null;
+}
+
+export interface BaseOutState {
+  outs: number;
+  bases: BaseOccupancy;
+}
+
+export interface RunnerMovement {
+  runner: string;
+  from: BaseName | "batter";
+  to: BaseName | "home" | "out";
+}
+
+export interface PlayBaseOutTransition {
+  playId: string;
+  inning: number;
+  half: "top" | "bottom";
+  battingSide: "away" | "home" | null;
+  batter: string | null;
+  batterOutcome: BaseballPlayOutcome | null;
+  isPlateAppearance: boolean;
+  before: BaseOutState;
+  after: BaseOutState;
+  runsScored: number;
+  outsOnPlay: number;
+  movements: RunnerMovement[];
+  scoreBefore: { away: number; home: number };
+}
+
+const BASES: BaseName[] = ["first", "second", "third"];
+
+export const PLATE_APPEARANCE_OUTCOMES = new Set<BaseballPlayOutcome>([
+  "single",
+  "double",
+  "triple",
+  "home_run",
+  "walk",
+  "intentional_walk",
+  "hit_by_pitch",
+  "strikeout",
+  "ground_out",
+  "fly_out",
+  "line_out",
+  "foul_out",
+  "sacrifice",
+  "fielder_choice",
+  "reached_on_error",
+]);
+
+const BATTER_OUT_OUTCOMES = new Set<BaseballPlayOutcome>([
+  "strikeout",
+  "ground_out",
+  "fly_out",
+  "line_out",
+  "foul_out",
+  "sacrifice",
+]);
+
+/**
+ * Replays play-by-play text half-inning by half-inning to recover who was on base and how many
+ * were out before and after each play. Runner clauses ("X advanced to second", "X scored",
+ * "X out at home") are applied first, then the batter is placed and unmentioned runners are forced.
+ */
+export function trackBaseOutStates(plays: BaseballUnifiedPlay[]): PlayBaseOutTransition[] {
+  const ordered = plays
+    .filter((play) => play.source === "play_by_play" && play.inning !== null && play.half !== null)
+    .sort(
+      (a, b) =>
+        (a.inning ?? 0) - (b.inning ?? 0) ||
+        halfRank(a.half) - halfRank(b.half) ||
+        (a.order ?? 0) - (b.order ?? 0)
+    );
+
+  const transitions: PlayBaseOutTransition[] = [];
+  const score = { away: 0, home: 0 };
+  let halfKey: string | null = null;
+  let state = emptyState();
+
+  for (const play of ordered) {
+    const key = `${play.inning}-${play.half}`;
+    if (key !== halfKey) {
+      halfKey = key;
+      state = emptyState();
+    }
+
+    const transition = applyPlay(play, state, { ...score });
+    transitions.push(transition);
+    if (play.battingSide) {
+      score[play.battingSide] += transition.runsScored;
+    }
+    state = transition.after;
+  }
+
+  return transitions;
+}
+
+export function baseStateKey(bases: BaseOccupancy): string {
+  return `${bases.first ? "1" : "_"}${bases.second ? "2" : "_"}${bases.third ? "3" : "_"}`;
+}
+
+export function runnersOn(bases: BaseOccupancy): number {
+  return BASES.filter((base) => bases[base] !== null).length;
+}
+
+export function isRunnerInScoringPosition(bases: BaseOccupancy): boolean {
+  return bases.second !== null || bases.third !== null;
+}
+
+export function extractClauseSubject(clause: string): string | null {
+  const match = clause.trim().match(/^([A-Z].*?)\s+(?=[a-z])/);
+  return match ? match[1].trim() : null;
+}
+
+function applyPlay(
+  play: BaseballUnifiedPlay,
+  before: BaseOutState,
+  scoreBefore: { away: number; home: number }
+): PlayBaseOutTransition {
+  const clauses = play.text
+    .split(";")
+    .map((clause) => clause.trim())
+    .filter(Boolean);
+  const firstClause = clauses[0] ?? play.text;
+  const firstSubject = extractClauseSubject(firstClause);
+  const occupants = new Map<string, BaseName>();
+  BASES.forEach((base) => {
+    const runner = before.bases[base];
+    if (runner) {
+      occupants.set(nameKey(runner), base);
+    }
+  });
+
+  const pinchRunner = firstClause.match(/^(.+?)\s+pinch ran for\s+(.+?)\.?$/i);
+  if (pinchRunner) {
+    const replacedBase = occupants.get(nameKey(pinchRunner[2]));
+    const bases = { ...before.bases };
+    if (replacedBase) {
+      bases[replacedBase] = pinchRunner[1].trim();
+    }
+    return buildTransition(play, before, { outs: before.outs, bases }, scoreBefore, [], null, false, null);
+  }
+
+  const batterOutcome = parsePlayDescription(firstClause).outcome;
+  const firstSubjectBase = firstSubject ? occupants.get(nameKey(firstSubject)) : undefined;
+  const isRunnerOnlyPlay = firstSubjectBase !== undefined || !PLATE_APPEARANCE_OUTCOMES.has(batterOutcome);
+  const batter = isRunnerOnlyPlay ? null : firstSubject ?? play.participants.batterName;
+  const runnerClauses = isRunnerOnlyPlay ? clauses : clauses.slice(1);
+
+  const movements: RunnerMovement[] = [];
+  const moved = new Set<BaseName>();
+
+  for (const clause of runnerClauses) {
+    const subject = extractClauseSubject(clause);
+    if (!subject) {
+      continue;
+    }
+    const from = occupants.get(nameKey(subject));
+    if (!from || moved.has(from)) {
+      continue;
+    }
+    const destination = parseRunnerDestination(clause);
+    if (!destination) {
+      continue;
+    }
+    moved.add(from);
+    movements.push({ runner: before.bases[from] ?? subject, from, to: destination });
+  }
+
+  const bases: BaseOccupancy = { first: null, second: null, third: null };
+  for (const base of [...BASES].reverse()) {
+    const runner = before.bases[base];
+    if (!runner) {
+      continue;
+    }
+    const movement = movements.find((entry) => entry.from === base);
+    if (!movement) {
+      placeRunner(bases, base, runner, movements);
+      continue;
+    }
+    if (movement.to !== "home" && movement.to !== "out") {
+      placeRunner(bases, movement.to, runner, movements);
+    }
+  }
+
+  if (batter) {
+    const destination = resolveBatterDestination(firstClause, batterOutcome);
+    if (destination === "home") {
+      BASES.forEach((base) => {
+        const runner = bases[base];
+        if (runner) {
+          movements.push({ runner, from: base, to: "home" });
+          bases[base] = null;
+        }
+      });
+    }
+    movements.push({ runner: batter, from: "batter", to: destination });
+    if (destination !== "home" && destination !== "out") {
+      forceRunners(bases, destination, movements);
+      bases[destination] = batter;
+    }
+  }
+
+  const textOuts = movements.filter((movement) => movement.to === "out").length;
+  const reportedOuts = play.result.outsAfterPlay;
+  const outs =
+    reportedOuts !== null && reportedOuts >= before.outs && reportedOuts <= 3
+      ? reportedOuts
+      : Math.min(3, before.outs + textOuts);
+
+  return buildTransition(
+    play,
+    before,
+    { outs, bases },
+    scoreBefore,
+    movements,
+    isRunnerOnlyPlay ? null : batterOutcome,
+    !isRunnerOnlyPlay,
+    batter
+  );
+}
+
+function buildTransition(
+  play: BaseballUnifiedPlay,
+  before: BaseOutState,
+  after: BaseOutState,
+  scoreBefore: { away: number; home: number },
+  movements: RunnerMovement[],
+  batterOutcome: BaseballPlayOutcome | null,
+  isPlateAppearance: boolean,
+  batter: string | null
+): PlayBaseOutTransition {
+  const runsFromMovements = movements.filter((movement) => movement.to === "home").length;
+
+  return {
+    playId: play.playId,
+    inning: play.inning ?? 0,
+    half: play.half ?? "top",
+    battingSide: play.battingSide,
+    batter,
+    batterOutcome,
+    isPlateAppearance,
+    before,
+    after: after.outs >= 3 ? { outs: 3, bases: { first: null, second: null, third: null } } : after,
+    runsScored: Math.max(runsFromMovements, play.result.runsScored),
+    outsOnPlay: Math.max(0, after.outs - before.outs),
+    movements,
+    scoreBefore,
+  };
+}
+
+function resolveBatterDestination(clause: string, outcome: BaseballPlayOutcome): BaseName | "home" | "out" {
+  const lower = clause.toLowerCase();
+  const advanced = lower.match(/\badvanced to (second|third)\b/);
+  if (/\bscored\b/.test(lower) && outcome !== "home_run") {
+    return "home";
+  }
+  if (advanced) {
+    return advanced[1] as BaseName;
+  }
+  if (/\bout at (first|second|third|home)\b/.test(lower) && outcome !== "fielder_choice") {
+    return "out";
+  }
+
+  switch (outcome) {
+    case "home_run":
+      return "home";
+    case "triple":
+      return "third";
+    case "double":
+      return "second";
+    case "strikeout":
+      return /\breached first\b|\bdropped third strike\b/.test(lower) ? "first" : "out";
+    default:
+      return BATTER_OUT_OUTCOMES.has(outcome) ? "out" : "first";
+  }
+}
+
+function parseRunnerDestination(clause: string): BaseName | "home" | "out" | null {
+  const lower = clause.toLowerCase();
+  if (/\bout at (first|second|third|home)\b|\bcaught stealing\b|\bpicked off\b|\bout on the play\b|\bis out\b/.test(lower)) {
+    return "out";
+  }
+  if (/\bscored\b|\bstole home\b/.test(lower)) {
+    return "home";
+  }
+  const advanced = lower.match(/\b(?:advanced to|stole) (second|third)\b/);
+  if (advanced) {
+    return advanced[1] as BaseName;
+  }
+  return null;
+}
+
+function placeRunner(bases: BaseOccupancy, base: BaseName, runner: string, movements: RunnerMovement[]): void {
+  if (bases[base]) {
+    forceRunners(bases, base, movements);
+  }
+  bases[base] = runner;
+}
+
+function forceRunners(bases: BaseOccupancy, base: BaseName, movements: RunnerMovement[]): void {
+  const occupant = bases[base];
+  if (!occupant) {
+    return;
+  }
+
+  const index = BASES.indexOf(base);
+  const next = BASES[index + 1];
+  bases[base] = null;
+  if (!next) {
+    movements.push({ runner: occupant, from: base, to: "home" });
+    return;
+  }
+
+  forceRunners(bases, next, movements);
+  bases[next] = occupant;
+  const existing = movements.find((movement) => movement.runner === occupant && movement.to === base);
+  if (existing) {
+    existing.to = next;
+  } else {
+    movements.push({ runner: occupant, from: base, to: next });
+  }
+}
+
+function emptyState(): BaseOutState {
+  return { outs: 0, bases: { first: null, second: null, third: null } };
+}
+
+function halfRank(half: "top" | "bottom" | null): number {
+  return half === "bottom" ? 1 : 0;
+}
+
+function nameKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]/g, "");
+}
@@ -5,6 +5,14 @@ import type {
   StatsTable,
   StatsTableRow,
 } from "../types";
+import { trackBaseOutStates, type BaseOutState } from "./base-state";
+import {
+  parsePitchContextFromText,
+  parsePlayDescription,
+  type BaseballPitchContext,
+  type BaseballPlayOutcome,
+} from "./play-description";
+import { computePlayWinExpectancy, scheduledInningsForSport } from "./win-probability";
 
 type TeamSide = "away" | "home";
 
@@ -115,6 +123,39 @@ export interface BaseballUnifiedPlay {
     locationSource: "text" | "scorecard" | "none";
     locationConfidence: number;
   };
+  /** Base/out state around the play, replayed from the narrative text; null for scoring-summary-only plays. */
+  runnersBefore: BaseballBaseRunners | null;
+  runnersAfter: BaseballBaseRunners | null;
+  runnerMovements: BaseballRunnerMovement[];
+  winExpectancy: BaseballPlayWinExpectancy | null;
+}
+
+export interface BaseballRunner {
+  name: string;
+  playerId: string | null;
+}
+
+export interface BaseballBaseRunners {
+  outs: number;
+  first: BaseballRunner | null;
+  second: BaseballRunner | null;
+  third: BaseballRunner | null;
+}
+
+export interface BaseballRunnerMovement {
+  runner: BaseballRunner;
+  from: "batter" | "first" | "second" | "third";
+  to: "first" | "second" | "third" | "home" | "out";
+}
+
+/** Home win expectancy around a play; batter/pitcher WPA is from their own team's perspective. */
+export interface BaseballPlayWinExpectancy {
+  homeBefore: number;
+  homeAfter: number;
+  wpa: number;
+  batterWpa: number | null;
+  pitcherWpa: number | null;
+  leverageIndex: number;
 }
 
 interface ParsedLineScore {
@@ -199,57 +240,6 @@ export interface BaseballFieldLocation {
   name: string;
 }
 
-export interface BaseballPitchContext {
-  finalCount: {
-    balls: number;
-    strikes: number;
-  } | null;
-  rawSequence: string | null;
-  pitches: BaseballPitchToken[];
-}
-
-export interface BaseballPitchToken {
-  pitchNumber: number;
-  code: string;
-  description: BaseballPitchDescription;
-}
-
-export type BaseballPitchDescription =
-  | "ball"
-  | "called_strike"
-  | "swinging_strike"
-  | "foul"
-  | "in_play"
-  | "hit_by_pitch"
-  | "intentional_ball"
-  | "pitchout_ball"
-  | "pitchout_strike"
-  | "unknown";
-
-export type BaseballPlayOutcome =
-  | "single"
-  | "double"
-  | "triple"
-  | "home_run"
-  | "walk"
-  | "intentional_walk"
-  | "hit_by_pitch"
-  | "strikeout"
-  | "ground_out"
-  | "fly_out"
-  | "line_out"
-  | "foul_out"
-  | "sacrifice"
-  | "fielder_choice"
-  | "reached_on_error"
-  | "stolen_base"
-  | "caught_stealing"
-  | "pickoff"
-  | "wild_pitch"
-  | "passed_ball"
-  | "balk"
-  | "other";
-
 export function buildBaseballScorekeepingData(finalGame: StatBroadcastFinalGame): BaseballScorekeepingData {
   const warnings: string[] = [];
   const gameInfo = finalGame.notesDocs.gameInformation ?? {};
@@ -306,6 +296,13 @@ export function buildBaseballScorekeepingData(finalGame: StatBroadcastFinalGame)
   const scoringTimeline = finalGame.scoringPlays.map((play) => parseScoringEvent(play));
   const teamTokenLookup = buildTeamTokenLookup(awayTeam, homeTeam, finalGame);
   const plays = buildUnifiedPlays(finalGame, scoringTimeline, playerRegistry, teamTokenLookup, warnings);
+  attachRunnerStates(plays, playerRegistry.toRecord());
+  const winExpectancy = computePlayWinExpectancy(plays, {
+    scheduledInnings: scheduledInningsForSport(finalGame.event.sport) ?? 9,
+  });
+  plays.forEach((play) => {
+    play.winExpectancy = winExpectancy.get(play.playId) ?? null;
+  });
   const players = playerRegistry.toRecord();
   const playIdsByInning = buildPlayIdsByInning(plays);
   const scoringPlayIds = plays
@@ -670,6 +667,10 @@ function buildUnifiedPlays(
           locationSource,
           locationConfidence,
         },
+        runnersBefore: null,
+        runnersAfter: null,
+        runnerMovements: [],
+        winExpectancy: null,
       });
     });
   });
@@ -731,6 +732,10 @@ function buildUnifiedPlays(
         locationSource: scoringPlay.scoringDecisionContext?.locationSource ?? "none",
         locationConfidence: scoringPlay.scoringDecisionContext?.locationConfidence ?? 0,
       },
+      runnersBefore: null,
+      runnersAfter: null,
+      runnerMovements: [],
+      winExpectancy: null,
     });
   });
 
@@ -801,6 +806,48 @@ interface PlayerRegistry {
   toRecord: () => Record<string, BaseballPlayer>;
 }
 
+function attachRunnerStates(plays: BaseballUnifiedPlay[], players: Record<string, BaseballPlayer>): void {
+  const findPlayerId = createPlayerIdLookup(players);
+  const transitions = new Map(trackBaseOutStates(plays).map((transition) => [transition.playId, transition]));
+
+  plays.forEach((play) => {
+    const transition = transitions.get(play.playId);
+    if (!transition) {
+      return;
+    }
+
+    const toRunner = (name: string): BaseballRunner => ({
+      name: normalizePlayerDisplayName(name) ?? name,
+      playerId: play.battingSide ? findPlayerId(play.battingSide, name) : null,
+    });
+    const toBaseRunners = (state: BaseOutState): BaseballBaseRunners => ({
+      outs: state.outs,
+      first: state.bases.first ? toRunner(state.bases.first) : null,
+      second: state.bases.second ? toRunner(state.bases.second) : null,
+      third: state.bases.third ? toRunner(state.bases.third) : null,
+    });
+
+    play.runnersBefore = toBaseRunners(transition.before);
+    play.runnersAfter = toBaseRunners(transition.after);
+    play.runnerMovements = transition.movements.map((movement) => ({
+      runner: toRunner(movement.runner),
+      from: movement.from,
+      to: movement.to,
+    }));
+  });
+}
+
+/** Resolves a name as written in play text to the player registered on that side of the box score. */
+export function createPlayerIdLookup(
+  players: Record<string, BaseballPlayer>
+): (side: TeamSide, name: string) => string | null {
+  const playerIdsByName = new Map<string, string>();
+  Object.values(players).forEach((player) => {
+    player.sides.forEach((side) => playerIdsByName.set(`${side}|${player.normalizedName}`, player.playerId));
+  });
+  return (side, name) => playerIdsByName.get(`${side}|${normalizeName(name)}`) ?? null;
+}
+
 function createPlayerRegistry(): PlayerRegistry {
   const playersById = new Map<string, BaseballPlayer>();
   const idBySideAndName = new Map<string, string>();
@@ -960,123 +1007,6 @@ function slugForId(value: string): string {
   return slug || "unknown";
 }
 
-export function parsePlayDescription(text: string): { outcome: BaseballPlayOutcome; tags: string[] } {
-  const lower = text.toLowerCase();
-  const tags = new Set<string>();
-
-  const addTag = (value: string): void => {
-    tags.add(value);
-  };
-
-  if (/\bdouble play\b/.test(lower)) {
-    addTag("double_play");
-  }
-  if (/\btriple play\b/.test(lower)) {
-    addTag("triple_play");
-  }
-  if (/\bscored\b|\bscores\b/.test(lower)) {
-    addTag("run_scored");
-  }
-  if (/\brbi\b/.test(lower)) {
-    addTag("rbi");
-  }
-
-  const orderedMatchers: Array<[BaseballPlayOutcome, RegExp, string]> = [
-    ["home_run", /\bhomered\b|\bhome run\b/, "home_run"],
-    ["triple", /\btripled\b|\btriple(?!\s+play)\b/, "triple"],
-    ["double", /\bdoubled\b|\bdouble(?!\s+play)\b/, "double"],
-    ["single", /\bsingled\b|\bsingle\b/, "single"],
-    ["intentional_walk", /\bintentionally walked\b/, "intentional_walk"],
-    ["walk", /\bwalked\b|\bwalk\b/, "walk"],
-    ["hit_by_pitch", /\bhit by pitch\b|\bhbp\b/, "hit_by_pitch"],
-    ["caught_stealing", /\bcaught stealing\b/, "caught_stealing"],
-    ["pickoff", /\bpicked off\b|\bpickoff\b/, "pickoff"],
-    ["stolen_base", /\bstole\b|\bstolen base\b/, "stolen_base"],
-    ["strikeout", /\bstruck out\b|\bstrikeout\b/, "strikeout"],
-    ["ground_out", /\bgrounded out\b|\bground out\b|\bgroundout\b/, "ground_out"],
-    ["fly_out", /\bflied out\b|\bfly out\b|\bpopped out\b/, "fly_out"],
-    ["line_out", /\blined out\b|\bline out\b/, "line_out"],
-    ["foul_out", /\bfouled out\b|\bfoul out\b/, "foul_out"],
-    ["sacrifice", /\bsacrifice\b|\bsac fly\b|\bsac bunt\b/, "sacrifice"],
-    ["fielder_choice", /\bfielder'?s choice\b/, "fielder_choice"],
-    ["reached_on_error", /\breached on an error\b|\breached on a throwing error\b|\breached on error\b/, "error"],
-    ["wild_pitch", /\bwild pitch\b/, "wild_pitch"],
-    ["passed_ball", /\bpassed ball\b/, "passed_ball"],
-    ["balk", /\bbalk\b/, "balk"],
-  ];
-
-  for (const [outcome, pattern, tag] of orderedMatchers) {
-    if (pattern.test(lower)) {
-      addTag(tag);
-      return {
-        outcome,
-        tags: Array.from(tags),
-      };
-    }
-  }
-
-  return {
-    outcome: "other",
-    tags: Array.from(tags),
-  };
-}
-
-export function parsePitchContextFromText(text: string): BaseballPitchContext | null {
-  const matches = Array.from(text.matchAll(/\((\d)\s*-\s*(\d)(?:\s+([A-Z]+))?\)/g));
-  if (matches.length === 0) {
-    return null;
-  }
-
-  // Prefer the last (balls-strikes + pitch string) sequence in the play text.
-  const selected = matches[matches.length - 1];
-  const balls = Number.parseInt(selected[1], 10);
-  const strikes = Number.parseInt(selected[2], 10);
-  const rawSequence = selected[3] ? selected[3].trim().toUpperCase() : null;
-
-  const pitches = rawSequence
-    ? rawSequence.split("").map((code, index) => ({
-        pitchNumber: index + 1,
-        code,
-        description: mapPitchCode(code),
-      }))
-    : [];
-
-  return {
-    finalCount: Number.isFinite(balls) && Number.isFinite(strikes) ? { balls, strikes } : null,
-    rawSequence,
-    pitches,
-  };
-}
-
-function mapPitchCode(code: string): BaseballPitchDescription {
-  switch (code.toUpperCase()) {
-    case "B":
-      return "ball";
-    case "I":
-      return "intentional_ball";
-    case "P":
-      return "pitchout_ball";
-    case "Q":
-      return "pitchout_strike";
-    case "K":
-    case "C":
-      return "called_strike";
-    case "S":
-    case "M":
-      return "swinging_strike";
-    case "F":
-    case "L":
-    case "T":
-      return "foul";
-    case "X":
-      return "in_play";
-    case "H":
-      return "hit_by_pitch";
-    default:
-      return "unknown";
-  }
-}
-
 export function parseScoringDecisionContext(
   scoringDecision: string | null
 ): BaseballScoringDecisionContext | null {
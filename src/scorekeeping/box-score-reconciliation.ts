@@ -0,0 +1,315 @@
+import {
+  createPlayerIdLookup,
+  normalizePlayerDisplayName,
+  type BaseballScorekeepingData,
+  type BaseballUnifiedPlay,
+} from "./baseball";
+import { trackBaseOutStates } from "./base-state";
+import { extractPlateAppearances } from "./splits";
+
+type TeamSide = "away" | "home";
+
+export type BattingReconciliationStat = "ab" | "r" | "h" | "rbi" | "bb" | "k";
+export type PitchingReconciliationStat = "bf" | "h" | "r" | "bb" | "k" | "hbp";
+export type LineScoreReconciliationStat = "runs" | "hits";
+
+export interface BoxScoreDiscrepancy {
+  side: TeamSide;
+  team: string;
+  scope: "batting" | "pitching" | "line_score";
+  playerId: string | null;
+  player: string | null;
+  /** Set for per-inning line score checks; null for game totals and player lines. */
+  inning: number | null;
+  stat: BattingReconciliationStat | PitchingReconciliationStat | LineScoreReconciliationStat;
+  /** Value reported by the box score / line score. */
+  expected: number;
+  /** Value derived by replaying play-by-play. */
+  parsed: number;
+  /** Plays that fed the parsed value (or every play for the player when none did). */
+  playIds: string[];
+}
+
+export interface BoxScoreReconciliation {
+  gameId: number;
+  status: "ok" | "discrepancies" | "unchecked";
+  checkedPlays: number;
+  discrepancies: BoxScoreDiscrepancy[];
+  /** Runners who scored in the play text but could not be matched to a box score player. */
+  unresolvedRunners: string[];
+}
+
+interface DerivedLine<Stat extends string> {
+  counts: Record<Stat, number>;
+  playIds: Record<Stat, string[]>;
+  allPlayIds: Set<string>;
+}
+
+const BATTING_STATS: BattingReconciliationStat[] = ["ab", "r", "h", "rbi", "bb", "k"];
+const PITCHING_STATS: PitchingReconciliationStat[] = ["bf", "h", "r", "bb", "k", "hbp"];
+const HIT_OUTCOMES = new Set(["single", "double", "triple", "home_run"]);
+
+/**
+ * Replays play-by-play into per-batter and per-pitcher lines and compares them with the parsed box
+ * score and line score. Runs are charged to the pitcher who put the runner on base, so inherited
+ * runners land on the right line.
+ */
+export function reconcileBoxScore(data: BaseballScorekeepingData): BoxScoreReconciliation {
+  const checkedPlays = data.plays.filter((play) => play.source === "play_by_play").length;
+  if (checkedPlays === 0) {
+    return { gameId: data.game.id, status: "unchecked", checkedPlays, discrepancies: [], unresolvedRunners: [] };
+  }
+
+  const playsById = new Map(data.plays.map((play) => [play.playId, play]));
+  const findPlayerId = createPlayerIdLookup(data.participants.players);
+  const batting = new Map<string, DerivedLine<BattingReconciliationStat>>();
+  const pitching = new Map<string, DerivedLine<PitchingReconciliationStat>>();
+  const halfRuns = new Map<string, { runs: number; playIds: string[] }>();
+  const teamHits = { away: { count: 0, playIds: [] as string[] }, home: { count: 0, playIds: [] as string[] } };
+  const unresolvedRunners = new Set<string>();
+
+  for (const context of extractPlateAppearances(data)) {
+    const { play, outcome } = context;
+    const side = play.battingSide;
+    if (!side) {
+      continue;
+    }
+    const isHit = HIT_OUTCOMES.has(outcome);
+    const isWalk = outcome === "walk" || outcome === "intentional_walk";
+    const isAtBat = !isWalk && outcome !== "hit_by_pitch" && !context.isSacFly && !context.isSacBunt;
+    if (isHit) {
+      teamHits[side].count += 1;
+      teamHits[side].playIds.push(play.playId);
+    }
+
+    if (play.participants.batterId) {
+      const line = derivedLine(batting, play.participants.batterId, BATTING_STATS);
+      line.allPlayIds.add(play.playId);
+      addStat(line, "ab", isAtBat ? 1 : 0, play);
+      addStat(line, "h", isHit ? 1 : 0, play);
+      addStat(line, "bb", isWalk ? 1 : 0, play);
+      addStat(line, "k", outcome === "strikeout" ? 1 : 0, play);
+      addStat(line, "rbi", parseRbi(play), play);
+    }
+
+    if (play.participants.pitcherId) {
+      const line = derivedLine(pitching, play.participants.pitcherId, PITCHING_STATS);
+      line.allPlayIds.add(play.playId);
+      addStat(line, "bf", 1, play);
+      addStat(line, "h", isHit ? 1 : 0, play);
+      addStat(line, "bb", isWalk ? 1 : 0, play);
+      addStat(line, "k", outcome === "strikeout" ? 1 : 0, play);
+      addStat(line, "hbp", outcome === "hit_by_pitch" ? 1 : 0, play);
+    }
+  }
+
+  let halfKey: string | null = null;
+  let responsiblePitchers = new Map<string, string>();
+  for (const transition of trackBaseOutStates(data.plays)) {
+    const play = playsById.get(transition.playId);
+    const side = transition.battingSide;
+    if (!play || !side) {
+      continue;
+    }
+
+    const key = `${transition.inning}-${side}`;
+    if (key !== halfKey) {
+      halfKey = key;
+      responsiblePitchers = new Map();
+    }
+    if (transition.runsScored > 0) {
+      const half = halfRuns.get(key) ?? { runs: 0, playIds: [] };
+      half.runs += transition.runsScored;
+      half.playIds.push(play.playId);
+      halfRuns.set(key, half);
+    }
+
+    for (const movement of transition.movements) {
+      const runnerKey = nameKey(movement.runner);
+      if (movement.from === "batter" && movement.to !== "out" && play.participants.pitcherId) {
+        responsiblePitchers.set(runnerKey, play.participants.pitcherId);
+      }
+      if (movement.to !== "home") {
+        continue;
+      }
+
+      const runnerId = findPlayerId(side, movement.runner);
+      if (runnerId) {
+        const line = derivedLine(batting, runnerId, BATTING_STATS);
+        line.allPlayIds.add(play.playId);
+        addStat(line, "r", 1, play);
+      } else {
+        unresolvedRunners.add(movement.runner);
+      }
+
+      const chargedPitcher = responsiblePitchers.get(runnerKey) ?? play.participants.pitcherId;
+      if (chargedPitcher) {
+        const line = derivedLine(pitching, chargedPitcher, PITCHING_STATS);
+        line.allPlayIds.add(play.playId);
+        addStat(line, "r", 1, play);
+      }
+    }
+  }
+
+  const discrepancies: BoxScoreDiscrepancy[] = [];
+  for (const side of ["away", "home"] as const) {
+    const team = data.teams[side];
+    const base = { side, team: team.name };
+
+    for (const line of team.boxScore.batting) {
+      if (!line.playerId || line.isTeamTotal) {
+        continue;
+      }
+      const derived = batting.get(line.playerId) ?? derivedLine(new Map(), line.playerId, BATTING_STATS);
+      for (const stat of BATTING_STATS) {
+        const expected = line[stat];
+        if (expected !== null && expected !== derived.counts[stat]) {
+          discrepancies.push({
+            ...base,
+            scope: "batting",
+            playerId: line.playerId,
+            player: line.player,
+            inning: null,
+            stat,
+            expected,
+            parsed: derived.counts[stat],
+            playIds: contributingPlayIds(derived, stat),
+          });
+        }
+      }
+    }
+
+    for (const line of team.boxScore.pitching) {
+      if (!line.playerId || /^totals?$/i.test(line.player)) {
+        continue;
+      }
+      const derived = pitching.get(line.playerId) ?? derivedLine(new Map(), line.playerId, PITCHING_STATS);
+      for (const stat of PITCHING_STATS) {
+        const expected = stat === "bf" ? line.battersFaced : line[stat];
+        if (expected !== null && expected !== derived.counts[stat]) {
+          discrepancies.push({
+            ...base,
+            scope: "pitching",
+            playerId: line.playerId,
+            player: line.player,
+            inning: null,
+            stat,
+            expected,
+            parsed: derived.counts[stat],
+            playIds: contributingPlayIds(derived, stat),
+          });
+        }
+      }
+    }
+
+    let parsedRuns = 0;
+    team.lineScore.runsByInning.forEach((expected, index) => {
+      const inning = team.lineScore.innings[index] ?? index + 1;
+      const half = halfRuns.get(`${inning}-${side}`) ?? { runs: 0, playIds: [] };
+      parsedRuns += half.runs;
+      if (expected !== null && expected !== half.runs) {
+        discrepancies.push({
+          ...base,
+          scope: "line_score",
+          playerId: null,
+          player: null,
+          inning,
+          stat: "runs",
+          expected,
+          parsed: half.runs,
+          playIds: half.playIds,
+        });
+      }
+    });
+
+    const totals = team.lineScore.totals;
+    if (totals.runs !== null && team.lineScore.runsByInning.length > 0 && totals.runs !== parsedRuns) {
+      discrepancies.push({
+        ...base,
+        scope: "line_score",
+        playerId: null,
+        player: null,
+        inning: null,
+        stat: "runs",
+        expected: totals.runs,
+        parsed: parsedRuns,
+        playIds: Array.from(halfRuns.entries())
+          .filter(([key]) => key.endsWith(`-${side}`))
+          .flatMap(([, half]) => half.playIds),
+      });
+    }
+    if (totals.hits !== null && totals.hits !== teamHits[side].count) {
+      discrepancies.push({
+        ...base,
+        scope: "line_score",
+        playerId: null,
+        player: null,
+        inning: null,
+        stat: "hits",
+        expected: totals.hits,
+        parsed: teamHits[side].count,
+        playIds: teamHits[side].playIds,
+      });
+    }
+  }
+
+  return {
+    gameId: data.game.id,
+    status: discrepancies.length > 0 ? "discrepancies" : "ok",
+    checkedPlays,
+    discrepancies,
+    unresolvedRunners: Array.from(unresolvedRunners),
+  };
+}
+
+export function describeDiscrepancy(discrepancy: BoxScoreDiscrepancy): string {
+  const subject =
+    discrepancy.player ??
+    (discrepancy.inning !== null ? `${discrepancy.team} inning ${discrepancy.inning}` : `${discrepancy.team} total`);
+  return `${subject} ${discrepancy.stat}: box score ${discrepancy.expected}, play-by-play ${discrepancy.parsed}`;
+}
+
+function derivedLine<Stat extends string>(
+  lines: Map<string, DerivedLine<Stat>>,
+  playerId: string,
+  stats: Stat[]
+): DerivedLine<Stat> {
+  let line = lines.get(playerId);
+  if (!line) {
+    line = {
+      counts: Object.fromEntries(stats.map((stat) => [stat, 0])) as Record<Stat, number>,
+      playIds: Object.fromEntries(stats.map((stat) => [stat, []])) as unknown as Record<Stat, string[]>,
+      allPlayIds: new Set(),
+    };
+    lines.set(playerId, line);
+  }
+  return line;
+}
+
+function addStat<Stat extends string>(line: DerivedLine<Stat>, stat: Stat, value: number, play: BaseballUnifiedPlay): void {
+  if (value <= 0) {
+    return;
+  }
+  line.counts[stat] += value;
+  line.playIds[stat].push(play.playId);
+}
+
+function contributingPlayIds<Stat extends string>(line: DerivedLine<Stat>, stat: Stat): string[] {
+  return line.playIds[stat].length > 0 ? line.playIds[stat] : Array.from(line.allPlayIds);
+}
+
+function parseRbi(play: BaseballUnifiedPlay): number {
+  const fromDecision = play.scoring.decisionContext?.rbi ?? null;
+  if (fromDecision !== null) {
+    return fromDecision;
+  }
+  const counted = play.text.match(/(\d+)\s*RBI\b/i);
+  if (counted) {
+    return Number.parseInt(counted[1], 10);
+  }
+  return /\bRBI\b/i.test(play.text) ? 1 : 0;
+}
+
+function nameKey(value: string): string {
+  return (normalizePlayerDisplayName(value) ?? value).toLowerCase().replace(/[^a-z]/g, "");
+}
@@ -0,0 +1,372 @@
+import type { ConferenceStandingsEntry, D1TeamScheduleGame, D1TeamSeasonData } from "../types";
+import { resolveTeamId, toTeamId } from "../utils/team-registry";
+
+/**
+ * Rules applied in order to teams tied on conference win%:
+ * - `head-to-head`: combined record in games among the tied teams (skipped if one of them played none).
+ * - `record-vs-top`: record against the highest-placed other team all tied teams played, then the next one down.
+ * - `overall-win-pct`: overall win%.
+ * Once a rule splits a group, each smaller group restarts from the first rule.
+ */
+export type StandingsTiebreaker = "head-to-head" | "record-vs-top" | "overall-win-pct";
+
+export const STANDINGS_TIEBREAKERS: StandingsTiebreaker[] = ["head-to-head", "record-vs-top", "overall-win-pct"];
+
+const TOURNAMENT_LABEL = /\b(?:tournament|championship|regional)\b/i;
+
+export interface StandingsRecord {
+  wins: number;
+  losses: number;
+}
+
+export interface SeriesRecord {
+  won: number;
+  lost: number;
+  split: number;
+}
+
+export interface ComputedStandingsEntry {
+  position: number;
+  teamKey: string;
+  teamName: string;
+  slug: string | null;
+  conferenceRecord: StandingsRecord;
+  conferenceWinPct: number;
+  gamesBack: number;
+  overallRecord: StandingsRecord;
+  overallWinPct: number;
+  /** Overall streak such as `W3`; null before the first completed game. */
+  streak: string | null;
+  /** Consecutive conference games against one opponent count as a series. */
+  series: SeriesRecord;
+  /** Rule that placed the team within a tie; `unresolved` when no rule separated it. */
+  tiebreak: StandingsTiebreaker | "unresolved" | null;
+}
+
+export interface StandingsMismatch {
+  teamKey: string;
+  teamName: string;
+  field: "position" | "conferenceRecord" | "overallRecord" | "missing";
+  computed: string | number | null;
+  scraped: string | number | null;
+}
+
+export interface ComputeStandingsOptions {
+  tiebreakers?: StandingsTiebreaker[];
+  /** First day (`YYYY-MM-DD`) of the conference tournament; games from then on are not regular-season games. */
+  tournamentStartDate?: string | null;
+}
+
+interface ConferenceGame {
+  opponentKey: string;
+  won: boolean;
+}
+
+interface TeamResults {
+  key: string;
+  team: D1TeamSeasonData;
+  conferenceGames: ConferenceGame[];
+  overall: StandingsRecord;
+  streak: string | null;
+}
+
+/**
+ * Standings from the conference games in each member's D1 schedule; `teams` should be one conference's members.
+ * When a schedule marks conference games with `*`, only marked games count; otherwise every regular-season game
+ * against another member does. Games labelled as tournament games never count.
+ */
+export function computeConferenceStandings(
+  teams: D1TeamSeasonData[],
+  options: ComputeStandingsOptions = {}
+): ComputedStandingsEntry[] {
+  const tiebreakers = options.tiebreakers ?? STANDINGS_TIEBREAKERS;
+  const results = buildTeamResults(teams, options.tournamentStartDate?.replace(/-/g, "") ?? null);
+  const tiebreaks = new Map<string, ComputedStandingsEntry["tiebreak"]>();
+
+  const preliminary = [...results].sort(
+    (a, b) => conferenceWinPct(b) - conferenceWinPct(a) || a.team.name.localeCompare(b.team.name)
+  );
+  const ordered: TeamResults[] = [];
+  for (const group of groupBy(preliminary, conferenceWinPct)) {
+    ordered.push(...breakTie(group, tiebreakers, preliminary, tiebreaks));
+  }
+
+  const leader = ordered[0] ? conferenceRecord(ordered[0]) : { wins: 0, losses: 0 };
+  return ordered.map((result, index) => {
+    const record = conferenceRecord(result);
+    return {
+      position: index + 1,
+      teamKey: result.key,
+      teamName: result.team.name,
+      slug: result.team.slug,
+      conferenceRecord: record,
+      conferenceWinPct: round(conferenceWinPct(result)),
+      gamesBack: (leader.wins - record.wins + (record.losses - leader.losses)) / 2,
+      overallRecord: result.overall,
+      overallWinPct: round(winPct(result.overall)),
+      streak: result.streak,
+      series: seriesRecord(result.conferenceGames),
+      tiebreak: tiebreaks.get(result.key) ?? null,
+    };
+  });
+}
+
+/** Compares computed standings with the scraped D1Baseball table, matching teams by registry id. */
+export function crossCheckStandings(
+  computed: ComputedStandingsEntry[],
+  scraped: ConferenceStandingsEntry[]
+): StandingsMismatch[] {
+  type Value = StandingsMismatch["computed"];
+  const mismatches: StandingsMismatch[] = [];
+  const scrapedByKey = new Map(scraped.map((entry) => [entry.teamId ?? toTeamId(entry.teamName), entry]));
+  const computedKeys = new Set(computed.map((entry) => entry.teamKey));
+
+  for (const entry of computed) {
+    const other = scrapedByKey.get(entry.teamKey);
+    const mismatch = (field: StandingsMismatch["field"], computedValue: Value, scrapedValue: Value) =>
+      mismatches.push({
+        teamKey: entry.teamKey,
+        teamName: entry.teamName,
+        field,
+        computed: computedValue,
+        scraped: scrapedValue,
+      });
+
+    if (!other) {
+      mismatch("missing", entry.position, null);
+      continue;
+    }
+    const conference = formatRecord(entry.conferenceRecord);
+    if (normalizeRecord(other.conferenceRecord) !== conference) {
+      mismatch("conferenceRecord", conference, other.conferenceRecord);
+    }
+    const overall = formatRecord(entry.overallRecord);
+    if (other.overallRecord && normalizeRecord(other.overallRecord) !== overall) {
+      mismatch("overallRecord", overall, other.overallRecord);
+    }
+    if (other.position !== entry.position) {
+      mismatch("position", entry.position, other.position);
+    }
+  }
+
+  for (const [key, entry] of scrapedByKey) {
+    if (!computedKeys.has(key)) {
+      mismatches.push({
+        teamKey: key,
+        teamName: entry.teamName,
+        field: "missing",
+        computed: null,
+        scraped: entry.position,
+      });
+    }
+  }
+
+  return mismatches;
+}
+
+export function formatRecord(record: StandingsRecord): string {
+  return `${record.wins}-${record.losses}`;
+}
+
+function buildTeamResults(teams: D1TeamSeasonData[], tournamentStart: string | null): TeamResults[] {
+  const keysBySlug = new Map<string, string>();
+  const keys = new Set<string>();
+  const members = teams.map((team) => {
+    const key = standingsTeamKey(team.name);
+    keys.add(key);
+    if (team.slug) {
+      keysBySlug.set(team.slug, key);
+    }
+    return { key, team };
+  });
+
+  return members.map(({ key, team }) => {
+    const completed = team.schedule.filter((game) => game.outcome === "win" || game.outcome === "loss");
+    const marked = completed.some((game) => scheduleMarker(game) === "conference");
+    const conferenceGames: ConferenceGame[] = [];
+    for (const game of completed) {
+      const marker = scheduleMarker(game);
+      const date = scheduleGameDate(game);
+      if (marker === "tournament" || (marked && marker !== "conference")) {
+        continue;
+      }
+      if (tournamentStart && date && date >= tournamentStart) {
+        continue;
+      }
+
+      const opponentKey =
+        (game.opponentSlug ? keysBySlug.get(game.opponentSlug) : undefined) ??
+        standingsTeamKey(game.opponentName?.replace(/\*/g, "") ?? null);
+      if (keys.has(opponentKey) && opponentKey !== key) {
+        conferenceGames.push({ opponentKey, won: game.outcome === "win" });
+      }
+    }
+
+    const wins = completed.filter((game) => game.outcome === "win").length;
+    return {
+      key,
+      team,
+      conferenceGames,
+      overall: { wins, losses: completed.length - wins },
+      streak: buildStreak(completed.map((game) => game.outcome === "win")),
+    };
+  });
+}
+
+function breakTie(
+  group: TeamResults[],
+  tiebreakers: StandingsTiebreaker[],
+  standings: TeamResults[],
+  tiebreaks: Map<string, ComputedStandingsEntry["tiebreak"]>
+): TeamResults[] {
+  if (group.length <= 1) {
+    return group;
+  }
+
+  for (const rule of tiebreakers) {
+    const split = applyTiebreaker(rule, group, standings);
+    if (split) {
+      group.forEach((result) => tiebreaks.set(result.key, rule));
+      return split.flatMap((subgroup) => breakTie(subgroup, tiebreakers, standings, tiebreaks));
+    }
+  }
+
+  group.forEach((result) => tiebreaks.set(result.key, "unresolved"));
+  return group;
+}
+
+/** Returns the group split into ordered subgroups, or null when the rule does not separate anyone. */
+function applyTiebreaker(
+  rule: StandingsTiebreaker,
+  group: TeamResults[],
+  standings: TeamResults[]
+): TeamResults[][] | null {
+  switch (rule) {
+    case "head-to-head": {
+      const keys = new Set(group.map((result) => result.key));
+      if (group.some((result) => gamesAgainst(result, keys) === 0)) {
+        return null;
+      }
+      return splitBy(group, (result) => winPct(recordAgainst(result, keys)));
+    }
+    case "record-vs-top": {
+      const groupKeys = new Set(group.map((result) => result.key));
+      for (const opponent of standings) {
+        const opponentKeys = new Set([opponent.key]);
+        if (groupKeys.has(opponent.key) || group.some((result) => gamesAgainst(result, opponentKeys) === 0)) {
+          continue;
+        }
+        const split = splitBy(group, (result) => winPct(recordAgainst(result, opponentKeys)));
+        if (split) {
+          return split;
+        }
+      }
+      return null;
+    }
+    case "overall-win-pct":
+      return splitBy(group, (result) => winPct(result.overall));
+  }
+}
+
+function splitBy(group: TeamResults[], value: (result: TeamResults) => number): TeamResults[][] | null {
+  const sorted = [...group].sort((a, b) => value(b) - value(a));
+  const groups = groupBy(sorted, value);
+  return groups.length > 1 ? groups : null;
+}
+
+function groupBy(sorted: TeamResults[], value: (result: TeamResults) => number): TeamResults[][] {
+  const groups: TeamResults[][] = [];
+  for (const result of sorted) {
+    const last = groups[groups.length - 1];
+    if (last && value(last[0]) === value(result)) {
+      last.push(result);
+    } else {
+      groups.push([result]);
+    }
+  }
+  return groups;
+}
+
+function recordAgainst(result: TeamResults, opponents: Set<string>): StandingsRecord {
+  const games = result.conferenceGames.filter((game) => opponents.has(game.opponentKey));
+  const wins = games.filter((game) => game.won).length;
+  return { wins, losses: games.length - wins };
+}
+
+function gamesAgainst(result: TeamResults, opponents: Set<string>): number {
+  const record = recordAgainst(result, opponents);
+  return record.wins + record.losses;
+}
+
+function conferenceRecord(result: TeamResults): StandingsRecord {
+  return recordAgainst(result, new Set(result.conferenceGames.map((game) => game.opponentKey)));
+}
+
+function conferenceWinPct(result: TeamResults): number {
+  return winPct(conferenceRecord(result));
+}
+
+function seriesRecord(games: ConferenceGame[]): SeriesRecord {
+  const record: SeriesRecord = { won: 0, lost: 0, split: 0 };
+  let index = 0;
+  while (index < games.length) {
+    const opponentKey = games[index].opponentKey;
+    let wins = 0;
+    let losses = 0;
+    while (index < games.length && games[index].opponentKey === opponentKey) {
+      wins += games[index].won ? 1 : 0;
+      losses += games[index].won ? 0 : 1;
+      index += 1;
+    }
+    if (wins > losses) {
+      record.won += 1;
+    } else if (losses > wins) {
+      record.lost += 1;
+    } else {
+      record.split += 1;
+    }
+  }
+  return record;
+}
+
+function buildStreak(outcomes: boolean[]): string | null {
+  const last = outcomes[outcomes.length - 1];
+  if (last === undefined) {
+    return null;
+  }
+  let count = 0;
+  for (let index = outcomes.length - 1; index >= 0 && outcomes[index] === last; index -= 1) {
+    count += 1;
+  }
+  return `${last ? "W" : "L"}${count}`;
+}
+
+/** `conference` for a `*`-marked game, `tournament` for a conference or postseason tournament game. */
+function scheduleMarker(game: D1TeamScheduleGame): "conference" | "tournament" | null {
+  const labels = [game.opponentName, game.notes, ...Object.values(game.columns)].map((value) => value?.trim() ?? "");
+  if (labels.some((label) => TOURNAMENT_LABEL.test(label))) {
+    return "tournament";
+  }
+  return labels.some((label) => label.startsWith("*") || label.endsWith("*")) ? "conference" : null;
+}
+
+function scheduleGameDate(game: D1TeamScheduleGame): string | null {
+  return game.dateUrl?.match(/[?&]date=(\d{8})/)?.[1] ?? null;
+}
+
+function standingsTeamKey(name: string | null): string {
+  return resolveTeamId(name);
+}
+
+function normalizeRecord(value: string | null): string | null {
+  return value ? value.replace(/\s+/g, "") : null;
+}
+
+function winPct(record: StandingsRecord): number {
+  const games = record.wins + record.losses;
+  return games > 0 ? record.wins / games : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
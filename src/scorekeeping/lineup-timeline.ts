@@ -0,0 +1,277 @@
+import type { FinalLineupEntry } from "../types";
+import { normalizePlayerDisplayName } from "./baseball";
+
+type TeamSide = "away" | "home";
+
+export type FieldPosition = "p" | "c" | "1b" | "2b" | "3b" | "ss" | "lf" | "cf" | "rf" | "dh";
+export type LineupPosition = FieldPosition | "ph" | "pr";
+export type SubstitutionKind = "pinch_hitter" | "pinch_runner" | "defensive_switch" | "pitching_change";
+
+export interface ParsedSubstitution {
+  kind: SubstitutionKind;
+  entering: string;
+  /** Player leaving the game; null for a switch between positions by someone already in it. */
+  replaced: string | null;
+  position: LineupPosition;
+}
+
+export interface SubstitutionEvent extends ParsedSubstitution {
+  order: number;
+  inning: number | null;
+  half: "top" | "bottom" | null;
+  side: TeamSide;
+  /** Lineup spot the entering player took over; null for a pitcher who does not bat. */
+  spot: number | null;
+  text: string;
+}
+
+export interface LineupAlignment {
+  positions: Record<FieldPosition, string | null>;
+  lineup: Array<{ spot: number; player: string; position: LineupPosition | null }>;
+}
+
+export interface LineupTimelineSideInning {
+  /** Everyone who held each position during the inning, in order. */
+  positions: Record<FieldPosition, string[]>;
+  spots: Array<{ spot: number; players: string[] }>;
+}
+
+export interface LineupTimelineInning {
+  inning: number;
+  away: LineupTimelineSideInning;
+  home: LineupTimelineSideInning;
+}
+
+export interface LineupTimeline {
+  substitutions: SubstitutionEvent[];
+  innings: LineupTimelineInning[];
+  current: Record<TeamSide, LineupAlignment>;
+}
+
+export interface LineupTimelinePlay {
+  order: number;
+  inning: number | null;
+  half: "top" | "bottom" | null;
+  text: string;
+}
+
+const FIELD_POSITIONS: FieldPosition[] = ["p", "c", "1b", "2b", "3b", "ss", "lf", "cf", "rf", "dh"];
+const RUNNER_VERBS = /\b(?:advanced|advances|stole|scored|out|safe|caught|picked|reached|placed)\b/i;
+
+/** Parses "X pinch hit for Y", "X pinch ran for Y", "X to p for Y", and "X to 2b." narratives. */
+export function parseSubstitutionText(text: string): ParsedSubstitution | null {
+  const clean = text.trim().replace(/[.;]+$/, "");
+  const pinch = clean.match(/^(.+?)\s+pinch\s+(hit|ran)\s+for\s+(.+)$/i);
+  if (pinch) {
+    const isHitter = pinch[2].toLowerCase() === "hit";
+    return {
+      kind: isHitter ? "pinch_hitter" : "pinch_runner",
+      entering: pinch[1].trim(),
+      replaced: pinch[3].trim(),
+      position: isHitter ? "ph" : "pr",
+    };
+  }
+
+  const defensive = clean.match(/^(.+?)\s+to\s+(p|c|1b|2b|3b|ss|lf|cf|rf|dh)(?:\s+for\s+(.+))?$/i);
+  if (!defensive || RUNNER_VERBS.test(defensive[1])) {
+    return null;
+  }
+  const position = defensive[2].toLowerCase() as FieldPosition;
+  return {
+    kind: position === "p" ? "pitching_change" : "defensive_switch",
+    entering: defensive[1].trim(),
+    replaced: defensive[3]?.trim() ?? null,
+    position,
+  };
+}
+
+interface SideState {
+  spots: Map<number, { player: string; position: LineupPosition | null }>;
+  positions: Record<FieldPosition, string | null>;
+}
+
+/**
+ * Replays substitution narratives over the starting lineups to track who held each lineup spot and
+ * defensive position inning by inning. Offensive subs belong to the batting team and defensive subs
+ * to the fielding team, unless the replaced player is only found on the other roster.
+ */
+export function buildLineupTimeline(
+  plays: LineupTimelinePlay[],
+  lineups: { away: FinalLineupEntry[]; home: FinalLineupEntry[] }
+): LineupTimeline {
+  const sides: Record<TeamSide, SideState> = {
+    away: buildStartingState(lineups.away),
+    home: buildStartingState(lineups.home),
+  };
+  const substitutions: SubstitutionEvent[] = [];
+  const innings: LineupTimelineInning[] = [];
+
+  const record = (side: TeamSide): void => {
+    const currentInning = innings[innings.length - 1];
+    if (!currentInning) {
+      return;
+    }
+    const snapshot = currentInning[side];
+    FIELD_POSITIONS.forEach((position) => {
+      appendDistinct(snapshot.positions[position], sides[side].positions[position]);
+    });
+    sides[side].spots.forEach((entry, spot) => {
+      let row = snapshot.spots.find((candidate) => candidate.spot === spot);
+      if (!row) {
+        row = { spot, players: [] };
+        snapshot.spots.push(row);
+        snapshot.spots.sort((a, b) => a.spot - b.spot);
+      }
+      appendDistinct(row.players, entry.player);
+    });
+  };
+
+  for (const play of plays) {
+    if (play.inning !== null && play.inning !== innings[innings.length - 1]?.inning) {
+      innings.push({ inning: play.inning, away: emptySideInning(), home: emptySideInning() });
+      record("away");
+      record("home");
+    }
+
+    const parsed = parseSubstitutionText(play.text);
+    if (!parsed) {
+      continue;
+    }
+
+    const battingSide: TeamSide | null = play.half === "top" ? "away" : play.half === "bottom" ? "home" : null;
+    const isOffense = parsed.kind === "pinch_hitter" || parsed.kind === "pinch_runner";
+    const preferred: TeamSide =
+      battingSide === null ? "away" : isOffense ? battingSide : battingSide === "away" ? "home" : "away";
+    const other: TeamSide = preferred === "away" ? "home" : "away";
+    const lookup = parsed.replaced ?? parsed.entering;
+    const side = !isKnown(sides[preferred], lookup) && isKnown(sides[other], lookup) ? other : preferred;
+
+    const spot = applySubstitution(sides[side], parsed);
+    substitutions.push({ ...parsed, order: play.order, inning: play.inning, half: play.half, side, spot, text: play.text });
+    record(side);
+  }
+
+  return {
+    substitutions,
+    innings,
+    current: { away: toAlignment(sides.away), home: toAlignment(sides.home) },
+  };
+}
+
+function applySubstitution(state: SideState, substitution: ParsedSubstitution): number | null {
+  const leaving = findPlayer(state, substitution.replaced ?? substitution.entering);
+  // A switch keeps the name already on the card ("Price to lf." after "M. Price pinch hit ...").
+  const entering = substitution.replaced ? displayName(substitution.entering) : leaving ?? displayName(substitution.entering);
+  const spot = leaving ? findSpot(state, leaving) : null;
+
+  if (leaving) {
+    FIELD_POSITIONS.forEach((position) => {
+      if (state.positions[position] === leaving && (substitution.replaced || position !== substitution.position)) {
+        state.positions[position] = null;
+      }
+    });
+  }
+  if (spot !== null) {
+    state.spots.set(spot, { player: entering, position: substitution.position });
+  }
+  if (substitution.position !== "ph" && substitution.position !== "pr") {
+    state.positions[substitution.position] = entering;
+  }
+  return spot;
+}
+
+function buildStartingState(lineup: FinalLineupEntry[]): SideState {
+  const state: SideState = {
+    spots: new Map(),
+    positions: Object.fromEntries(FIELD_POSITIONS.map((position) => [position, null])) as SideState["positions"],
+  };
+
+  for (const entry of lineup) {
+    const player = displayName(entry.player);
+    const position = parsePosition(entry.position);
+    if (entry.spot !== null && entry.spot >= 1 && entry.spot <= 9) {
+      state.spots.set(entry.spot, { player, position });
+    }
+    if (position && position !== "ph" && position !== "pr" && !state.positions[position]) {
+      state.positions[position] = player;
+    }
+  }
+  return state;
+}
+
+function toAlignment(state: SideState): LineupAlignment {
+  return {
+    positions: { ...state.positions },
+    lineup: Array.from(state.spots.entries())
+      .sort(([a], [b]) => a - b)
+      .map(([spot, entry]) => ({ spot, player: entry.player, position: entry.position })),
+  };
+}
+
+function emptySideInning(): LineupTimelineSideInning {
+  return {
+    positions: Object.fromEntries(FIELD_POSITIONS.map((position) => [position, []])) as unknown as Record<
+      FieldPosition,
+      string[]
+    >,
+    spots: [],
+  };
+}
+
+function appendDistinct(values: string[], value: string | null): void {
+  if (value && values[values.length - 1] !== value) {
+    values.push(value);
+  }
+}
+
+function parsePosition(value: string | null): LineupPosition | null {
+  const token = (value ?? "").toLowerCase().split(/[\/\s-]/)[0];
+  return ([...FIELD_POSITIONS, "ph", "pr"] as string[]).includes(token) ? (token as LineupPosition) : null;
+}
+
+function displayName(value: string): string {
+  const withoutJersey = value.replace(/^#?\d+\s+/, "");
+  return normalizePlayerDisplayName(withoutJersey) ?? withoutJersey;
+}
+
+function isKnown(state: SideState, name: string): boolean {
+  return findPlayer(state, name) !== null;
+}
+
+function findSpot(state: SideState, player: string): number | null {
+  for (const [spot, entry] of state.spots) {
+    if (entry.player === player) {
+      return spot;
+    }
+  }
+  return null;
+}
+
+/** Matches full names first, then a unique last name (with first initial when given, e.g. "I. Warrick"). */
+function findPlayer(state: SideState, name: string): string | null {
+  const players = new Set<string>([
+    ...Array.from(state.spots.values()).map((entry) => entry.player),
+    ...FIELD_POSITIONS.map((position) => state.positions[position]).filter((player): player is string => player !== null),
+  ]);
+  const display = displayName(name);
+  const exact = Array.from(players).find((player) => nameKey(player) === nameKey(display));
+  if (exact) {
+    return exact;
+  }
+
+  const parts = display.split(/\s+/);
+  const lastName = nameKey(parts[parts.length - 1]);
+  const initial = parts.length > 1 ? nameKey(parts[0])[0] : null;
+  const candidates = Array.from(players).filter((player) => {
+    const playerParts = player.split(/\s+/);
+    return (
+      nameKey(playerParts[playerParts.length - 1]) === lastName &&
+      (!initial || nameKey(playerParts[0])[0] === initial)
+    );
+  });
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+function nameKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]/g, "");
+}
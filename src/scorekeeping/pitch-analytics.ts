@@ -0,0 +1,331 @@
+import type { BaseballScorekeepingData, BaseballUnifiedPlay } from "./baseball";
+import type { BaseballPitchDescription, BaseballPlayOutcome } from "./play-description";
+import { buildSeasonPlayerId, canonicalTeamKey } from "./season-stats";
+
+export interface PitchAnalyticsLine {
+  plateAppearances: number;
+  pitches: number;
+  balls: number;
+  strikes: number;
+  calledStrikes: number;
+  swingingStrikes: number;
+  fouls: number;
+  inPlay: number;
+  swings: number;
+  firstPitchStrikes: number;
+  reachedOhTwo: number;
+  reachedThreeOh: number;
+  strikePct: number | null;
+  firstPitchStrikePct: number | null;
+  whiffRate: number | null;
+  pitchesPerPlateAppearance: number | null;
+  ohTwoPct: number | null;
+  threeOhPct: number | null;
+}
+
+export interface PitcherPitchAnalytics {
+  seasonPlayerId: string;
+  name: string;
+  team: string;
+  teamKey: string;
+  games: number;
+  line: PitchAnalyticsLine;
+  /** Pitches reconstructed from play text, by inning; the last entry is the current workload. */
+  pitchesByInning: Record<string, number>;
+  /** Box score pitch count when the feed reports one (single game only). */
+  reportedPitches: number | null;
+}
+
+export interface BatterPitchAnalytics {
+  seasonPlayerId: string;
+  name: string;
+  team: string;
+  teamKey: string;
+  games: number;
+  line: PitchAnalyticsLine;
+}
+
+export interface PitchAnalyticsPayload {
+  games: number;
+  gameIds: number[];
+  pitchers: PitcherPitchAnalytics[];
+  batters: BatterPitchAnalytics[];
+}
+
+type PitchCounts = Omit<
+  PitchAnalyticsLine,
+  "strikePct" | "firstPitchStrikePct" | "whiffRate" | "pitchesPerPlateAppearance" | "ohTwoPct" | "threeOhPct"
+>;
+
+interface PlateAppearancePitches {
+  pitches: BaseballPitchDescription[];
+  reachedOhTwo: boolean;
+  reachedThreeOh: boolean;
+}
+
+const STRIKE_PITCHES = new Set<BaseballPitchDescription>([
+  "called_strike",
+  "swinging_strike",
+  "foul",
+  "in_play",
+  "pitchout_strike",
+]);
+
+const SWING_PITCHES = new Set<BaseballPitchDescription>(["swinging_strike", "foul", "in_play"]);
+
+const BALL_PITCHES = new Set<BaseballPitchDescription>(["ball", "intentional_ball", "pitchout_ball"]);
+
+export const IN_PLAY_OUTCOMES = new Set<BaseballPlayOutcome>([
+  "single",
+  "double",
+  "triple",
+  "home_run",
+  "ground_out",
+  "fly_out",
+  "line_out",
+  "foul_out",
+  "sacrifice",
+  "fielder_choice",
+  "reached_on_error",
+]);
+
+// Mid-at-bat events repeat the count of the plate appearance still in progress.
+const RUNNER_ONLY_OUTCOMES = new Set<BaseballPlayOutcome>([
+  "stolen_base",
+  "caught_stealing",
+  "pickoff",
+  "wild_pitch",
+  "passed_ball",
+  "balk",
+]);
+
+/**
+ * Pitch-level rates per pitcher and pitches seen per batter. Works on one game (live or final) or
+ * across archived games; players are merged across games by team and name like season stats.
+ */
+export function computePitchAnalytics(
+  games: BaseballScorekeepingData[],
+  options?: { team?: string | null; player?: string | null }
+): PitchAnalyticsPayload {
+  const teamFilter = canonicalTeamKey(options?.team ?? null);
+  const playerFilter = String(options?.player ?? "").trim().toLowerCase();
+  const pitchers = new Map<
+    string,
+    { name: string; team: string; teamKey: string; gameIds: Set<number>; counts: PitchCounts; byInning: Map<string, number> }
+  >();
+  const batters = new Map<string, { name: string; team: string; teamKey: string; gameIds: Set<number>; counts: PitchCounts }>();
+
+  for (const game of games) {
+    for (const play of game.plays) {
+      if (play.source !== "play_by_play" || !play.battingSide || !play.pitchContext) {
+        continue;
+      }
+      const plateAppearance = reconstructPlateAppearancePitches(play);
+      if (!plateAppearance) {
+        continue;
+      }
+
+      const pitchingSide = play.battingSide === "away" ? "home" : "away";
+      const pitchingTeam = game.teams[pitchingSide].name;
+      const pitchingTeamKey = canonicalTeamKey(pitchingTeam);
+      if (play.participants.pitcherId && (!teamFilter || pitchingTeamKey === teamFilter)) {
+        const seasonPlayerId = buildSeasonPlayerId(pitchingTeamKey, play.participants.pitcherId);
+        let pitcher = pitchers.get(seasonPlayerId);
+        if (!pitcher) {
+          pitcher = {
+            name: play.participants.pitcherName ?? play.participants.pitcherId,
+            team: pitchingTeam,
+            teamKey: pitchingTeamKey,
+            gameIds: new Set(),
+            counts: emptyCounts(),
+            byInning: new Map(),
+          };
+          pitchers.set(seasonPlayerId, pitcher);
+        }
+        pitcher.gameIds.add(game.game.id);
+        addPlateAppearance(pitcher.counts, plateAppearance);
+        if (play.inning !== null) {
+          const inning = String(play.inning);
+          pitcher.byInning.set(inning, (pitcher.byInning.get(inning) ?? 0) + plateAppearance.pitches.length);
+        }
+      }
+
+      const battingTeam = game.teams[play.battingSide].name;
+      const battingTeamKey = canonicalTeamKey(battingTeam);
+      if (play.participants.batterId && (!teamFilter || battingTeamKey === teamFilter)) {
+        const seasonPlayerId = buildSeasonPlayerId(battingTeamKey, play.participants.batterId);
+        let batter = batters.get(seasonPlayerId);
+        if (!batter) {
+          batter = {
+            name: play.participants.batterName ?? play.participants.batterId,
+            team: battingTeam,
+            teamKey: battingTeamKey,
+            gameIds: new Set(),
+            counts: emptyCounts(),
+          };
+          batters.set(seasonPlayerId, batter);
+        }
+        batter.gameIds.add(game.game.id);
+        addPlateAppearance(batter.counts, plateAppearance);
+      }
+    }
+  }
+
+  const matchesPlayer = (seasonPlayerId: string, name: string) =>
+    !playerFilter || seasonPlayerId === playerFilter || name.toLowerCase().includes(playerFilter);
+
+  return {
+    games: games.length,
+    gameIds: games.map((game) => game.game.id).sort((a, b) => a - b),
+    pitchers: Array.from(pitchers.entries())
+      .filter(([seasonPlayerId, pitcher]) => matchesPlayer(seasonPlayerId, pitcher.name))
+      .map(([seasonPlayerId, pitcher]) => ({
+        seasonPlayerId,
+        name: pitcher.name,
+        team: pitcher.team,
+        teamKey: pitcher.teamKey,
+        games: pitcher.gameIds.size,
+        line: finalizePitchLine(pitcher.counts),
+        pitchesByInning: Object.fromEntries(
+          Array.from(pitcher.byInning.entries()).sort(([a], [b]) => Number(a) - Number(b))
+        ),
+        reportedPitches: games.length === 1 ? findReportedPitches(games[0], seasonPlayerId) : null,
+      }))
+      .sort((a, b) => b.line.pitches - a.line.pitches || a.name.localeCompare(b.name)),
+    batters: Array.from(batters.entries())
+      .filter(([seasonPlayerId, batter]) => matchesPlayer(seasonPlayerId, batter.name))
+      .map(([seasonPlayerId, batter]) => ({
+        seasonPlayerId,
+        name: batter.name,
+        team: batter.team,
+        teamKey: batter.teamKey,
+        games: batter.gameIds.size,
+        line: finalizePitchLine(batter.counts),
+      }))
+      .sort((a, b) => b.line.pitches - a.line.pitches || a.name.localeCompare(b.name)),
+  };
+}
+
+/**
+ * StatCrew lists every pitch except a ball put in play, so the in-play pitch is appended when the
+ * listed sequence did not already end the plate appearance (ball four, strike three, hit by pitch).
+ */
+export function reconstructPlateAppearancePitches(play: BaseballUnifiedPlay): PlateAppearancePitches | null {
+  const context = play.pitchContext;
+  if (!context || RUNNER_ONLY_OUTCOMES.has(play.result.outcome)) {
+    return null;
+  }
+
+  const pitches = context.pitches.map((pitch) => pitch.description);
+  let balls = 0;
+  let strikes = 0;
+  let ended = false;
+  let reachedOhTwo = false;
+  let reachedThreeOh = false;
+
+  for (const pitch of pitches) {
+    if (BALL_PITCHES.has(pitch)) {
+      balls += 1;
+    } else if (pitch === "foul") {
+      strikes = Math.min(2, strikes + 1);
+    } else if (pitch === "called_strike" || pitch === "swinging_strike" || pitch === "pitchout_strike") {
+      strikes += 1;
+    } else if (pitch === "hit_by_pitch" || pitch === "in_play") {
+      ended = true;
+    }
+    reachedOhTwo ||= balls === 0 && strikes === 2;
+    reachedThreeOh ||= balls === 3 && strikes === 0;
+    ended ||= balls >= 4 || strikes >= 3;
+  }
+
+  if (!ended && IN_PLAY_OUTCOMES.has(play.result.outcome)) {
+    pitches.push("in_play");
+  }
+
+  if (pitches.length === 0) {
+    return null;
+  }
+
+  return { pitches, reachedOhTwo, reachedThreeOh };
+}
+
+export function finalizePitchLine(counts: PitchCounts): PitchAnalyticsLine {
+  return {
+    ...counts,
+    strikePct: ratio(counts.strikes, counts.pitches),
+    firstPitchStrikePct: ratio(counts.firstPitchStrikes, counts.plateAppearances),
+    whiffRate: ratio(counts.swingingStrikes, counts.swings),
+    pitchesPerPlateAppearance:
+      counts.plateAppearances > 0 ? Math.round((counts.pitches / counts.plateAppearances) * 100) / 100 : null,
+    ohTwoPct: ratio(counts.reachedOhTwo, counts.plateAppearances),
+    threeOhPct: ratio(counts.reachedThreeOh, counts.plateAppearances),
+  };
+}
+
+function addPlateAppearance(counts: PitchCounts, plateAppearance: PlateAppearancePitches): void {
+  counts.plateAppearances += 1;
+  counts.pitches += plateAppearance.pitches.length;
+  if (STRIKE_PITCHES.has(plateAppearance.pitches[0])) {
+    counts.firstPitchStrikes += 1;
+  }
+  if (plateAppearance.reachedOhTwo) {
+    counts.reachedOhTwo += 1;
+  }
+  if (plateAppearance.reachedThreeOh) {
+    counts.reachedThreeOh += 1;
+  }
+
+  for (const pitch of plateAppearance.pitches) {
+    if (STRIKE_PITCHES.has(pitch)) {
+      counts.strikes += 1;
+    } else if (pitch !== "unknown") {
+      counts.balls += 1;
+    }
+    if (SWING_PITCHES.has(pitch)) {
+      counts.swings += 1;
+    }
+    if (pitch === "called_strike") {
+      counts.calledStrikes += 1;
+    } else if (pitch === "swinging_strike") {
+      counts.swingingStrikes += 1;
+    } else if (pitch === "foul") {
+      counts.fouls += 1;
+    } else if (pitch === "in_play") {
+      counts.inPlay += 1;
+    }
+  }
+}
+
+function findReportedPitches(game: BaseballScorekeepingData, seasonPlayerId: string): number | null {
+  for (const side of ["away", "home"] as const) {
+    const teamKey = canonicalTeamKey(game.teams[side].name);
+    const line = game.teams[side].boxScore.pitching.find(
+      (entry) => entry.playerId !== null && buildSeasonPlayerId(teamKey, entry.playerId) === seasonPlayerId
+    );
+    if (line) {
+      return line.pitches;
+    }
+  }
+  return null;
+}
+
+function emptyCounts(): PitchCounts {
+  return {
+    plateAppearances: 0,
+    pitches: 0,
+    balls: 0,
+    strikes: 0,
+    calledStrikes: 0,
+    swingingStrikes: 0,
+    fouls: 0,
+    inPlay: 0,
+    swings: 0,
+    firstPitchStrikes: 0,
+    reachedOhTwo: 0,
+    reachedThreeOh: 0,
+  };
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
@@ -0,0 +1,230 @@
+import type { BaseballPitchingLine, BaseballScorekeepingData } from "./baseball";
+import {
+  buildSeasonPlayerId,
+  canonicalTeamKey,
+  formatOutsAsInnings,
+  inningsToOuts,
+} from "./season-stats";
+
+export type PitcherAvailability = "available" | "limited" | "unavailable";
+
+export interface WorkloadGame {
+  /** ISO date (`YYYY-MM-DD`) of the game; games without one are skipped. */
+  date: string | null;
+  scorekeeping: BaseballScorekeepingData;
+}
+
+export interface PitchingAppearance {
+  gameId: number;
+  date: string;
+  opponent: string;
+  started: boolean;
+  ip: string;
+  pitches: number | null;
+  battersFaced: number | null;
+  /** True when `pitches` was estimated from batters faced because the box score had no count. */
+  pitchesEstimated: boolean;
+  decision: "W" | "L" | "S" | null;
+}
+
+export interface PitcherWorkload {
+  seasonPlayerId: string;
+  name: string;
+  jerseyNumbers: number[];
+  appearances: number;
+  starts: number;
+  ip: string;
+  pitches: number;
+  pitchesLast3Days: number;
+  pitchesLast7Days: number;
+  pitchesLast14Days: number;
+  lastOutingDate: string | null;
+  lastOutingPitches: number | null;
+  daysSinceLastOuting: number | null;
+  availability: PitcherAvailability;
+  availabilityNote: string;
+  log: PitchingAppearance[];
+}
+
+export interface PitchingWorkloadPayload {
+  team: string;
+  teamKey: string;
+  asOf: string;
+  availabilityDate: string;
+  games: number;
+  pitchers: PitcherWorkload[];
+}
+
+// Full days off required after an outing, by pitch count (NCAA staffs commonly adapt Pitch Smart).
+const REST_DAYS_BY_PITCHES: Array<{ minPitches: number; restDays: number }> = [
+  { minPitches: 105, restDays: 4 },
+  { minPitches: 76, restDays: 3 },
+  { minPitches: 51, restDays: 2 },
+  { minPitches: 31, restDays: 1 },
+  { minPitches: 0, restDays: 0 },
+];
+
+const HEAVY_WEEK_PITCHES = 120;
+const ESTIMATED_PITCHES_PER_BATTER = 4;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Per-pitcher appearances, rolling pitch totals, and a projected availability for one team.
+ * Rolling windows count back from `asOf` (inclusive); availability is projected for
+ * `availabilityDate` (usually the next scheduled game), defaulting to `asOf`.
+ */
+export function buildPitchingWorkload(
+  games: WorkloadGame[],
+  options: { team: string; asOf: string; availabilityDate?: string | null }
+): PitchingWorkloadPayload {
+  const teamKey = canonicalTeamKey(options.team);
+  const asOf = options.asOf;
+  const availabilityDate = options.availabilityDate ?? asOf;
+  const pitchers = new Map<string, { name: string; jerseyNumbers: number[]; log: PitchingAppearance[]; outs: number }>();
+  let teamGames = 0;
+
+  const datedGames = games
+    .filter((entry): entry is WorkloadGame & { date: string } => entry.date !== null && entry.date <= asOf)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.scorekeeping.game.id - b.scorekeeping.game.id);
+
+  for (const { date, scorekeeping } of datedGames) {
+    const side = (["away", "home"] as const).find((candidate) =>
+      canonicalTeamKey(scorekeeping.teams[candidate].name) === teamKey
+    );
+    if (!side) {
+      continue;
+    }
+    teamGames += 1;
+
+    const team = scorekeeping.teams[side];
+    const opponent = scorekeeping.teams[side === "away" ? "home" : "away"];
+    team.boxScore.pitching.forEach((line, index) => {
+      if (!line.playerId || /^totals?$/i.test(line.player)) {
+        return;
+      }
+
+      const seasonPlayerId = buildSeasonPlayerId(teamKey, line.playerId);
+      let pitcher = pitchers.get(seasonPlayerId);
+      if (!pitcher) {
+        pitcher = { name: line.player, jerseyNumbers: [], log: [], outs: 0 };
+        pitchers.set(seasonPlayerId, pitcher);
+      }
+      if (line.jersey !== null && !pitcher.jerseyNumbers.includes(line.jersey)) {
+        pitcher.jerseyNumbers.push(line.jersey);
+      }
+
+      const outs = inningsToOuts(line.ip);
+      pitcher.outs += outs;
+      pitcher.log.push({
+        gameId: scorekeeping.game.id,
+        date,
+        opponent: opponent.name,
+        started: index === 0,
+        ip: formatOutsAsInnings(outs),
+        ...resolvePitchCount(line),
+        battersFaced: line.battersFaced,
+        decision: line.decisionCode,
+      });
+    });
+  }
+
+  const workloads = Array.from(pitchers.entries()).map(([seasonPlayerId, pitcher]): PitcherWorkload => {
+    const last = pitcher.log[pitcher.log.length - 1] ?? null;
+    const daysSinceLastOuting = last ? daysBetween(last.date, asOf) : null;
+    const availability = projectAvailability(pitcher.log, availabilityDate);
+
+    return {
+      seasonPlayerId,
+      name: pitcher.name,
+      jerseyNumbers: pitcher.jerseyNumbers,
+      appearances: pitcher.log.length,
+      starts: pitcher.log.filter((entry) => entry.started).length,
+      ip: formatOutsAsInnings(pitcher.outs),
+      pitches: sumPitches(pitcher.log),
+      pitchesLast3Days: sumPitches(pitcher.log.filter((entry) => daysBetween(entry.date, asOf) < 3)),
+      pitchesLast7Days: sumPitches(pitcher.log.filter((entry) => daysBetween(entry.date, asOf) < 7)),
+      pitchesLast14Days: sumPitches(pitcher.log.filter((entry) => daysBetween(entry.date, asOf) < 14)),
+      lastOutingDate: last?.date ?? null,
+      lastOutingPitches: last?.pitches ?? null,
+      daysSinceLastOuting,
+      ...availability,
+      log: pitcher.log,
+    };
+  });
+
+  return {
+    team: options.team,
+    teamKey,
+    asOf,
+    availabilityDate,
+    games: teamGames,
+    pitchers: workloads.sort(
+      (a, b) =>
+        (b.lastOutingDate ?? "").localeCompare(a.lastOutingDate ?? "") ||
+        b.pitchesLast7Days - a.pitchesLast7Days ||
+        a.name.localeCompare(b.name)
+    ),
+  };
+}
+
+export function requiredRestDays(pitches: number): number {
+  return REST_DAYS_BY_PITCHES.find((entry) => pitches >= entry.minPitches)?.restDays ?? 0;
+}
+
+function projectAvailability(
+  log: PitchingAppearance[],
+  date: string
+): { availability: PitcherAvailability; availabilityNote: string } {
+  const prior = log.filter((entry) => entry.date < date);
+  const last = prior[prior.length - 1];
+  if (!last) {
+    return { availability: "available", availabilityNote: "No prior outings." };
+  }
+
+  const pitchesOnLastDate = sumPitches(prior.filter((entry) => entry.date === last.date));
+  const restNeeded = requiredRestDays(pitchesOnLastDate);
+  const daysOff = daysBetween(last.date, date) - 1;
+  if (daysOff < restNeeded) {
+    return {
+      availability: "unavailable",
+      availabilityNote: `${pitchesOnLastDate} pitches on ${last.date} needs ${restNeeded} day${restNeeded === 1 ? "" : "s"} of rest.`,
+    };
+  }
+
+  const outingDates = new Set(prior.map((entry) => entry.date));
+  if (daysOff === 0 && outingDates.has(shiftDate(last.date, -1))) {
+    return { availability: "unavailable", availabilityNote: "Pitched the previous two days." };
+  }
+
+  const weekPitches = sumPitches(prior.filter((entry) => daysBetween(entry.date, date) <= 7));
+  if (weekPitches >= HEAVY_WEEK_PITCHES) {
+    return { availability: "limited", availabilityNote: `${weekPitches} pitches over the last 7 days.` };
+  }
+  if (daysOff === 0) {
+    return { availability: "limited", availabilityNote: "Pitched the previous day." };
+  }
+
+  return { availability: "available", availabilityNote: `${daysOff} day${daysOff === 1 ? "" : "s"} of rest.` };
+}
+
+function resolvePitchCount(line: BaseballPitchingLine): { pitches: number | null; pitchesEstimated: boolean } {
+  if (line.pitches !== null) {
+    return { pitches: line.pitches, pitchesEstimated: false };
+  }
+  if (line.battersFaced !== null) {
+    return { pitches: line.battersFaced * ESTIMATED_PITCHES_PER_BATTER, pitchesEstimated: true };
+  }
+  return { pitches: null, pitchesEstimated: false };
+}
+
+function sumPitches(entries: PitchingAppearance[]): number {
+  return entries.reduce((sum, entry) => sum + (entry.pitches ?? 0), 0);
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS);
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
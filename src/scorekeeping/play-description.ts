@@ -0,0 +1,167 @@
+export interface BaseballPitchContext {
+  finalCount: {
+    balls: number;
+    strikes: number;
+  } | null;
+  rawSequence: string | null;
+  pitches: BaseballPitchToken[];
+}
+
+export interface BaseballPitchToken {
+  pitchNumber: number;
+  code: string;
+  description: BaseballPitchDescription;
+}
+
+export type BaseballPitchDescription =
+  | "ball"
+  | "called_strike"
+  | "swinging_strike"
+  | "foul"
+  | "in_play"
+  | "hit_by_pitch"
+  | "intentional_ball"
+  | "pitchout_ball"
+  | "pitchout_strike"
+  | "unknown";
+
+export type BaseballPlayOutcome =
+  | "single"
+  | "double"
+  | "triple"
+  | "home_run"
+  | "walk"
+  | "intentional_walk"
+  | "hit_by_pitch"
+  | "strikeout"
+  | "ground_out"
+  | "fly_out"
+  | "line_out"
+  | "foul_out"
+  | "sacrifice"
+  | "fielder_choice"
+  | "reached_on_error"
+  | "stolen_base"
+  | "caught_stealing"
+  | "pickoff"
+  | "wild_pitch"
+  | "passed_ball"
+  | "balk"
+  | "other";
+
+export function parsePlayDescription(text: string): { outcome: BaseballPlayOutcome; tags: string[] } {
+  const lower = text.toLowerCase();
+  const tags = new Set<string>();
+
+  const addTag = (value: string): void => {
+    tags.add(value);
+  };
+
+  if (/\bdouble play\b/.test(lower)) {
+    addTag("double_play");
+  }
+  if (/\btriple play\b/.test(lower)) {
+    addTag("triple_play");
+  }
+  if (/\bscored\b|\bscores\b/.test(lower)) {
+    addTag("run_scored");
+  }
+  if (/\brbi\b/.test(lower)) {
+    addTag("rbi");
+  }
+
+  const orderedMatchers: Array<[BaseballPlayOutcome, RegExp, string]> = [
+    ["home_run", /\bhomered\b|\bhome run\b/, "home_run"],
+    ["triple", /\btripled\b|\btriple(?!\s+play)\b/, "triple"],
+    ["double", /\bdoubled\b|\bdouble(?!\s+play)\b/, "double"],
+    ["single", /\bsingled\b|\bsingle\b/, "single"],
+    ["intentional_walk", /\bintentionally walked\b/, "intentional_walk"],
+    ["walk", /\bwalked\b|\bwalk\b/, "walk"],
+    ["hit_by_pitch", /\bhit by pitch\b|\bhbp\b/, "hit_by_pitch"],
+    ["caught_stealing", /\bcaught stealing\b/, "caught_stealing"],
+    ["pickoff", /\bpicked off\b|\bpickoff\b/, "pickoff"],
+    ["stolen_base", /\bstole\b|\bstolen base\b/, "stolen_base"],
+    ["strikeout", /\bstruck out\b|\bstrikeout\b/, "strikeout"],
+    ["ground_out", /\bgrounded out\b|\bground out\b|\bgroundout\b|\bgrounded into (?:a )?(?:double|triple) play\b/, "ground_out"],
+    ["fly_out", /\bflied out\b|\bfly out\b|\bpopped out\b|\b(?:flied|popped) into (?:a )?double play\b/, "fly_out"],
+    ["line_out", /\blined out\b|\bline out\b|\blined into (?:a )?(?:double|triple) play\b/, "line_out"],
+    ["foul_out", /\bfouled out\b|\bfoul out\b/, "foul_out"],
+    ["sacrifice", /\bsacrifice\b|\bsac fly\b|\bsac bunt\b/, "sacrifice"],
+    ["fielder_choice", /\bfielder'?s choice\b/, "fielder_choice"],
+    ["reached_on_error", /\breached on an error\b|\breached on a throwing error\b|\breached on error\b/, "error"],
+    ["wild_pitch", /\bwild pitch\b/, "wild_pitch"],
+    ["passed_ball", /\bpassed ball\b/, "passed_ball"],
+    ["balk", /\bbalk\b/, "balk"],
+  ];
+
+  for (const [outcome, pattern, tag] of orderedMatchers) {
+    if (pattern.test(lower)) {
+      addTag(tag);
+      return {
+        outcome,
+        tags: Array.from(tags),
+      };
+    }
+  }
+
+  return {
+    outcome: "other",
+    tags: Array.from(tags),
+  };
+}
+
+export function parsePitchContextFromText(text: string): BaseballPitchContext | null {
+  const matches = Array.from(text.matchAll(/\((\d)\s*-\s*(\d)(?:\s+([A-Z]+))?\)/g));
+  if (matches.length === 0) {
+    return null;
+  }
+
+  // Prefer the last (balls-strikes + pitch string) sequence in the play text.
+  const selected = matches[matches.length - 1];
+  const balls = Number.parseInt(selected[1], 10);
+  const strikes = Number.parseInt(selected[2], 10);
+  const rawSequence = selected[3] ? selected[3].trim().toUpperCase() : null;
+
+  const pitches = rawSequence
+    ? rawSequence.split("").map((code, index) => ({
+        pitchNumber: index + 1,
+        code,
+        description: mapPitchCode(code),
+      }))
+    : [];
+
+  return {
+    finalCount: Number.isFinite(balls) && Number.isFinite(strikes) ? { balls, strikes } : null,
+    rawSequence,
+    pitches,
+  };
+}
+
+function mapPitchCode(code: string): BaseballPitchDescription {
+  switch (code.toUpperCase()) {
+    case "B":
+      return "ball";
+    case "I":
+      return "intentional_ball";
+    case "P":
+      return "pitchout_ball";
+    case "Q":
+      return "pitchout_strike";
+    case "K":
+    case "C":
+      return "called_strike";
+    case "S":
+    case "M":
+      return "swinging_strike";
+    case "F":
+    case "L":
+    case "T":
+      return "foul";
+    case "X":
+      return "in_play";
+    case "H":
+      return "hit_by_pitch";
+    default:
+      return "unknown";
+  }
+}
@@ -0,0 +1,540 @@
+import type { FinalLineupEntry } from "../types";
+import { normalizePlayerDisplayName, type BaseballScorekeepingData, type BaseballUnifiedPlay } from "./baseball";
+import { PLATE_APPEARANCE_OUTCOMES } from "./base-state";
+import { parseSubstitutionText, type ParsedSubstitution } from "./lineup-timeline";
+import type { BaseballPlayOutcome } from "./play-description";
+
+type TeamSide = "away" | "home";
+
+export interface RetrosheetExportOptions {
+  /** ISO date (YYYY-MM-DD); falls back to parsing `data.game.date`. */
+  date?: string | null;
+  /** 0 for a single game, 1/2 for the games of a doubleheader. */
+  gameNumber?: number;
+  visitorTeamCode?: string | null;
+  homeTeamCode?: string | null;
+  /** Starting lineups from `StatBroadcastFinalGame.lineups`; the first batters to bat are used when missing. */
+  lineups?: { away: FinalLineupEntry[]; home: FinalLineupEntry[] } | null;
+}
+
+export interface RetrosheetUnmappedPlay {
+  playId: string;
+  inning: number | null;
+  half: "top" | "bottom" | null;
+  text: string;
+  reason: string;
+}
+
+export interface RetrosheetGameExport {
+  gameId: string;
+  visitorTeamCode: string;
+  homeTeamCode: string;
+  records: string[];
+  /** Plays written as unknown (`99`) or left out, with the reason; nothing is dropped silently. */
+  unmappedPlays: RetrosheetUnmappedPlay[];
+  players: Array<{ retroId: string; name: string; side: TeamSide }>;
+}
+
+interface LineupSlot {
+  retroId: string;
+  name: string;
+  position: number;
+}
+
+interface SideState {
+  /** Batting order 1-9, plus 0 for a pitcher who does not bat. */
+  slots: Map<number, LineupSlot>;
+  usesDh: boolean;
+  lastBatterId: string | null;
+}
+
+const POSITION_CODES: Record<string, number> = {
+  p: 1,
+  c: 2,
+  "1b": 3,
+  "2b": 4,
+  "3b": 5,
+  ss: 6,
+  lf: 7,
+  cf: 8,
+  rf: 9,
+  dh: 10,
+  ph: 11,
+  pr: 12,
+};
+
+const BATTER_DEFAULT_BASE: Partial<Record<BaseballPlayOutcome, string>> = {
+  single: "first",
+  double: "second",
+  triple: "third",
+  home_run: "home",
+  walk: "first",
+  intentional_walk: "first",
+  hit_by_pitch: "first",
+  fielder_choice: "first",
+  reached_on_error: "first",
+};
+
+const BASE_CODES = { batter: "B", first: "1", second: "2", third: "3", home: "H" } as const;
+const NEXT_BASE = { batter: "1", first: "2", second: "3", third: "H" } as const;
+
+/**
+ * Serializes one game into Retrosheet event-file records (`id`, `info`, `start`, `play`, `sub`,
+ * `data`). Runner advances come from the replayed base states; player ids are generated per game in
+ * Retrosheet's `lastf001` shape.
+ */
+export function exportRetrosheetGame(
+  data: BaseballScorekeepingData,
+  options: RetrosheetExportOptions = {}
+): RetrosheetGameExport {
+  const visitorTeamCode = options.visitorTeamCode ?? retrosheetTeamCode(data.teams.away.shortName ?? data.teams.away.name);
+  const homeTeamCode = options.homeTeamCode ?? retrosheetTeamCode(data.teams.home.shortName ?? data.teams.home.name);
+  const date = options.date ?? parseGameDate(data.game.date);
+  const gameId = `${homeTeamCode}${(date ?? "00000000").replace(/-/g, "")}${options.gameNumber ?? 0}`;
+  const ids = createRetroIdRegistry(data);
+  const unmappedPlays: RetrosheetUnmappedPlay[] = [];
+  const records: string[] = [`id,${gameId}`, "version,2"];
+
+  const info = (key: string, value: string | number | null | undefined): void => {
+    if (value !== null && value !== undefined && String(value).trim() !== "") {
+      records.push(`info,${key},${quoteField(String(value))}`);
+    }
+  };
+  const decisionId = (decision: { team: TeamSide; player: string } | null): string | null =>
+    decision ? ids.resolve(decision.team, decision.player) : null;
+
+  const sides: Record<TeamSide, SideState> = {
+    away: buildStartingLineup(data, "away", options.lineups?.away ?? [], ids),
+    home: buildStartingLineup(data, "home", options.lineups?.home ?? [], ids),
+  };
+
+  info("visteam", visitorTeamCode);
+  info("hometeam", homeTeamCode);
+  info("site", data.game.venue);
+  info("date", date ? date.replace(/-/g, "/") : null);
+  info("number", options.gameNumber ?? 0);
+  info("starttime", data.game.time);
+  info("usedh", sides.away.usesDh || sides.home.usesDh ? "true" : "false");
+  info("umphome", data.game.umpires.hp);
+  info("ump1b", data.game.umpires.firstBase);
+  info("ump2b", data.game.umpires.secondBase);
+  info("ump3b", data.game.umpires.thirdBase);
+  info("timeofgame", parseDurationMinutes(data.game.duration));
+  info("attendance", data.game.attendance);
+  info("wp", decisionId(data.decisions.winningPitcher));
+  info("lp", decisionId(data.decisions.losingPitcher));
+  info("save", decisionId(data.decisions.savePitcher));
+
+  (["away", "home"] as const).forEach((side) => {
+    const team = side === "away" ? 0 : 1;
+    Array.from(sides[side].slots.entries())
+      .sort(([a], [b]) => (a === 0 ? 10 : a) - (b === 0 ? 10 : b))
+      .forEach(([order, slot]) => {
+        records.push(`start,${slot.retroId},${quoteField(slot.name, true)},${team},${order},${slot.position}`);
+      });
+  });
+
+  for (const play of data.plays) {
+    const unmapped = (reason: string): void => {
+      unmappedPlays.push({ playId: play.playId, inning: play.inning, half: play.half, text: play.text, reason });
+    };
+    if (play.source !== "play_by_play" || play.inning === null || !play.battingSide || !play.half) {
+      unmapped(play.source === "play_by_play" ? "play has no inning or half" : "scoring summary only, no play-by-play");
+      continue;
+    }
+
+    const substitution =
+      play.result.outcome === "other" && play.runnerMovements.length === 0 ? parseSubstitutionText(play.text) : null;
+    if (substitution) {
+      const sub = applySubstitution(substitution, play.battingSide, sides, ids);
+      if (sub) {
+        records.push(sub);
+      } else {
+        unmapped("could not place substitution in either lineup");
+      }
+      continue;
+    }
+
+    const side = sides[play.battingSide];
+    const batterId =
+      (play.participants.batterName ? ids.resolve(play.battingSide, play.participants.batterName) : null) ??
+      side.lastBatterId ??
+      side.slots.get(1)?.retroId ??
+      "unknown";
+    const event = buildEvent(play);
+    if (event.reason) {
+      unmapped(event.reason);
+    }
+    if (!event.isPlateAppearance && event.code === null) {
+      continue;
+    }
+    if (event.isPlateAppearance) {
+      side.lastBatterId = batterId;
+    }
+
+    const count = play.pitchContext?.finalCount
+      ? `${play.pitchContext.finalCount.balls}${play.pitchContext.finalCount.strikes}`
+      : "??";
+    const pitches = event.isPlateAppearance ? toRetrosheetPitches(play.pitchContext?.rawSequence ?? null) : "";
+    records.push(
+      `play,${play.inning},${play.half === "top" ? 0 : 1},${batterId},${count},${pitches},${event.code ?? "99"}`
+    );
+  }
+
+  (["away", "home"] as const).forEach((side) => {
+    data.teams[side].boxScore.pitching.forEach((line) => {
+      if (line.er !== null && !/^totals?$/i.test(line.player)) {
+        records.push(`data,er,${ids.resolve(side, line.player)},${line.er}`);
+      }
+    });
+  });
+
+  return { gameId, visitorTeamCode, homeTeamCode, records, unmappedPlays, players: ids.list() };
+}
+
+/** Joins exported games into one `.EVN` file body. */
+export function formatRetrosheetEventFile(games: RetrosheetGameExport[]): string {
+  return games.map((game) => game.records.join("\n")).join("\n") + (games.length > 0 ? "\n" : "");
+}
+
+/** Three-letter uppercase team code; short names such as `USM` are kept as-is. */
+export function retrosheetTeamCode(name: string): string {
+  const clean = name.replace(/[^A-Za-z0-9 ]/g, " ").trim();
+  if (/^[A-Za-z0-9]{2,4}$/.test(clean)) {
+    return clean.toUpperCase().slice(0, 3).padEnd(3, "X");
+  }
+
+  const words = clean.split(/\s+/).filter(Boolean);
+  const initials = words.length > 1 ? words.map((word) => word[0]).join("") : "";
+  const code = initials.length >= 3 ? initials : `${initials}${(words[words.length - 1] ?? "").slice(initials ? 1 : 0)}`;
+  return code.toUpperCase().slice(0, 3).padEnd(3, "X");
+}
+
+function buildEvent(play: BaseballUnifiedPlay): {
+  code: string | null;
+  isPlateAppearance: boolean;
+  reason: string | null;
+} {
+  const outcome = play.result.outcome;
+  const movements = play.runnerMovements;
+  const codes = play.battedBall.fielderCodes;
+  const first = codes[0];
+  const doublePlay = play.result.tags.includes("double_play") || play.result.tags.includes("triple_play");
+  const batterMovement = movements.find((movement) => movement.from === "batter") ?? null;
+
+  if (PLATE_APPEARANCE_OUTCOMES.has(outcome)) {
+    let base: string | null = null;
+    switch (outcome) {
+      case "single":
+        base = `S${first ?? ""}`;
+        break;
+      case "double":
+        base = `D${first ?? ""}`;
+        break;
+      case "triple":
+        base = `T${first ?? ""}`;
+        break;
+      case "home_run":
+        base = first ? `HR${first}` : "HR";
+        break;
+      case "walk":
+        base = "W";
+        break;
+      case "intentional_walk":
+        base = "IW";
+        break;
+      case "hit_by_pitch":
+        base = "HP";
+        break;
+      case "strikeout":
+        base = "K";
+        break;
+      case "ground_out":
+        base = first ? `${groundOutFielders(codes)}/G${doublePlay ? "DP" : ""}` : null;
+        break;
+      case "fly_out":
+        base = first ? `${first}/F${doublePlay ? "/DP" : ""}` : null;
+        break;
+      case "line_out":
+        base = first ? `${first}/L${doublePlay ? "/DP" : ""}` : null;
+        break;
+      case "foul_out":
+        base = first ? `${first}/FL` : null;
+        break;
+      case "sacrifice":
+        base = /\bfly\b|\bSF\b/i.test(play.text)
+          ? first
+            ? `${first}/SF`
+            : null
+          : first
+            ? `${groundOutFielders(codes)}/SH`
+            : null;
+        break;
+      case "fielder_choice":
+        base = `FC${first ?? ""}`;
+        break;
+      case "reached_on_error":
+        base = first ? `E${first}` : null;
+        break;
+    }
+
+    if (!base) {
+      return { code: null, isPlateAppearance: true, reason: `no fielder recorded for ${outcome.replace(/_/g, " ")}` };
+    }
+    const advances = formatAdvances(
+      movements.filter((movement) => movement !== batterMovement || !isDefaultBatterMovement(outcome, movement.to))
+    );
+    return { code: advances ? `${base}.${advances}` : base, isPlateAppearance: true, reason: null };
+  }
+
+  const subject = movements.find((movement) => movement.from !== "batter") ?? null;
+  const others = movements.filter((movement) => movement !== subject);
+  const withAdvances = (base: string, rest = others): string => {
+    const advances = formatAdvances(rest);
+    return advances ? `${base}.${advances}` : base;
+  };
+
+  switch (outcome) {
+    case "stolen_base":
+      return subject && subject.to !== "out"
+        ? { code: withAdvances(`SB${BASE_CODES[subject.to]}`), isPlateAppearance: false, reason: null }
+        : { code: null, isPlateAppearance: false, reason: "stolen base without a tracked runner" };
+    case "caught_stealing":
+      return subject && subject.from !== "batter"
+        ? { code: withAdvances(`CS${NEXT_BASE[subject.from]}`), isPlateAppearance: false, reason: null }
+        : { code: null, isPlateAppearance: false, reason: "caught stealing without a tracked runner" };
+    case "pickoff":
+      return subject && subject.from !== "batter"
+        ? { code: withAdvances(`PO${BASE_CODES[subject.from]}`), isPlateAppearance: false, reason: null }
+        : { code: null, isPlateAppearance: false, reason: "pickoff without a tracked runner" };
+    case "wild_pitch":
+      return { code: withAdvances("WP", movements), isPlateAppearance: false, reason: null };
+    case "passed_ball":
+      return { code: withAdvances("PB", movements), isPlateAppearance: false, reason: null };
+    case "balk":
+      return { code: withAdvances("BK", movements), isPlateAppearance: false, reason: null };
+    default:
+      return movements.length > 0 && !batterMovement
+        ? { code: withAdvances("OA", movements), isPlateAppearance: false, reason: null }
+        : { code: null, isPlateAppearance: false, reason: "unrecognized play text" };
+  }
+}
+
+function groundOutFielders(codes: number[]): string {
+  if (codes.length > 1) {
+    return codes.join("");
+  }
+  return codes[0] === 3 ? "3" : `${codes[0]}3`;
+}
+
+function isDefaultBatterMovement(outcome: BaseballPlayOutcome, to: string): boolean {
+  return (BATTER_DEFAULT_BASE[outcome] ?? "out") === to;
+}
+
+function formatAdvances(movements: BaseballUnifiedPlay["runnerMovements"]): string {
+  return movements
+    .map((movement) =>
+      movement.to === "out"
+        ? `${BASE_CODES[movement.from]}X${NEXT_BASE[movement.from]}`
+        : `${BASE_CODES[movement.from]}-${BASE_CODES[movement.to]}`
+    )
+    .join(";");
+}
+
+function toRetrosheetPitches(rawSequence: string | null): string {
+  if (!rawSequence) {
+    return "";
+  }
+  return rawSequence
+    .toUpperCase()
+    .split("")
+    .map((code) => (code === "K" ? "C" : /[BCSFXIPQHLTM]/.test(code) ? code : "U"))
+    .join("");
+}
+
+function applySubstitution(
+  substitution: ParsedSubstitution,
+  battingSide: TeamSide,
+  sides: Record<TeamSide, SideState>,
+  ids: RetroIdRegistry
+): string | null {
+  const fieldingSide: TeamSide = battingSide === "away" ? "home" : "away";
+  const isOffense = substitution.kind === "pinch_hitter" || substitution.kind === "pinch_runner";
+  const preferred = isOffense ? battingSide : fieldingSide;
+  const position = POSITION_CODES[substitution.position];
+  const lookupName = substitution.replaced ?? substitution.entering;
+  for (const side of [preferred, preferred === "away" ? "home" : "away"] as const) {
+    const state = sides[side];
+    const replacedId = ids.find(side, lookupName);
+    const order = replacedId ? findSlot(state, replacedId) : null;
+    if (order === null) {
+      continue;
+    }
+
+    const retroId = ids.resolve(side, substitution.entering);
+    const name = normalizePlayerDisplayName(substitution.entering) ?? substitution.entering;
+    state.slots.set(order, { retroId, name, position });
+    return `sub,${retroId},${quoteField(name, true)},${side === "away" ? 0 : 1},${order},${position}`;
+  }
+  return null;
+}
+
+function findSlot(state: SideState, retroId: string): number | null {
+  for (const [order, slot] of state.slots) {
+    if (slot.retroId === retroId) {
+      return order;
+    }
+  }
+  return null;
+}
+
+function buildStartingLineup(
+  data: BaseballScorekeepingData,
+  side: TeamSide,
+  lineup: FinalLineupEntry[],
+  ids: RetroIdRegistry
+): SideState {
+  const slots = new Map<number, LineupSlot>();
+  const positionFor = (value: string | null): number =>
+    POSITION_CODES[(value ?? "").toLowerCase().split(/[\/\s-]/)[0]] ?? 0;
+  const add = (order: number, player: string, position: number): void => {
+    const name = normalizePlayerDisplayName(player) ?? player;
+    slots.set(order, { retroId: ids.resolve(side, player), name, position });
+  };
+
+  for (const entry of lineup) {
+    const player = entry.player.replace(/^#?\d+\s+/, "");
+    if (entry.spot !== null && entry.spot >= 1 && entry.spot <= 9) {
+      add(entry.spot, player, positionFor(entry.position));
+    } else if (positionFor(entry.position) === 1 && !slots.has(0)) {
+      add(0, player, 1);
+    }
+  }
+
+  if (slots.size === 0) {
+    const boxPositions = new Map(
+      data.teams[side].boxScore.batting.map((line) => [line.playerId, positionFor(line.position)] as const)
+    );
+    const seen = new Set<string>();
+    for (const play of data.plays) {
+      if (play.battingSide !== side || !play.participants.batterName || !PLATE_APPEARANCE_OUTCOMES.has(play.result.outcome)) {
+        continue;
+      }
+      const key = play.participants.batterId ?? play.participants.batterName;
+      if (seen.has(key)) {
+        continue;
+      }
+      seen.add(key);
+      add(seen.size, play.participants.batterName, boxPositions.get(play.participants.batterId) ?? 0);
+      if (seen.size === 9) {
+        break;
+      }
+    }
+  }
+
+  const usesDh = Array.from(slots.values()).some((slot) => slot.position === 10);
+  const hasPitcher = Array.from(slots.values()).some((slot) => slot.position === 1);
+  if (!hasPitcher) {
+    const startingPitcher = data.plays.find((play) => play.battingSide !== side && play.battingSide && play.participants.pitcherName);
+    const pitcherLine = data.teams[side].boxScore.pitching.find((line) => !/^totals?$/i.test(line.player));
+    const pitcher = startingPitcher?.participants.pitcherName ?? pitcherLine?.player ?? null;
+    if (pitcher) {
+      add(0, pitcher, 1);
+    }
+  }
+
+  return { slots, usesDh, lastBatterId: null };
+}
+
+interface RetroIdRegistry {
+  find(side: TeamSide, name: string): string | null;
+  resolve(side: TeamSide, name: string): string;
+  list(): Array<{ retroId: string; name: string; side: TeamSide }>;
+}
+
+/** Per-game `lastf001` ids; last-name-only mentions ("Marsh") resolve to a unique known player. */
+function createRetroIdRegistry(data: BaseballScorekeepingData): RetroIdRegistry {
+  const byKey = new Map<string, { retroId: string; name: string; side: TeamSide }>();
+  const used = new Set<string>();
+
+  const register = (side: TeamSide, name: string): string => {
+    const display = normalizePlayerDisplayName(name) ?? name;
+    const key = `${side}|${nameKey(display)}`;
+    const existing = byKey.get(key);
+    if (existing) {
+      return existing.retroId;
+    }
+
+    const parts = display.toLowerCase().replace(/[^a-z ]/g, "").split(/\s+/).filter(Boolean);
+    const last = (parts[parts.length - 1] ?? "xxxx").slice(0, 4).padEnd(4, "-");
+    const initial = parts.length > 1 ? parts[0][0] : "-";
+    let sequence = 1;
+    let retroId = `${last}${initial}${String(sequence).padStart(3, "0")}`;
+    while (used.has(retroId)) {
+      sequence += 1;
+      retroId = `${last}${initial}${String(sequence).padStart(3, "0")}`;
+    }
+    used.add(retroId);
+    byKey.set(key, { retroId, name: display, side });
+    return retroId;
+  };
+
+  for (const player of Object.values(data.participants.players)) {
+    player.sides.forEach((side) => register(side, player.name));
+  }
+
+  const find = (side: TeamSide, name: string): string | null => {
+    const display = normalizePlayerDisplayName(name) ?? name;
+    const exact = byKey.get(`${side}|${nameKey(display)}`);
+    if (exact) {
+      return exact.retroId;
+    }
+
+    const lastName = nameKey(display.split(/\s+/).pop() ?? display);
+    const initial = display.includes(" ") ? nameKey(display)[0] : null;
+    const candidates = Array.from(byKey.values()).filter((entry) => {
+      if (entry.side !== side) {
+        return false;
+      }
+      const parts = entry.name.split(/\s+/);
+      return nameKey(parts[parts.length - 1]) === lastName && (!initial || nameKey(parts[0])[0] === initial);
+    });
+    return candidates.length === 1 ? candidates[0].retroId : null;
+  };
+
+  return {
+    find,
+    resolve(side, name) {
+      return find(side, name) ?? register(side, name);
+    },
+    list() {
+      return Array.from(byKey.values());
+    },
+  };
+}
+
+function nameKey(value: string): string {
+  return value.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function quoteField(value: string, always = false): string {
+  const clean = value.replace(/"/g, "'");
+  return always || /[,\s]/.test(clean) ? `"${clean}"` : clean;
+}
+
+function parseGameDate(value: string | null): string | null {
+  if (!value) {
+    return null;
+  }
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return iso[0];
+  }
+  const parsed = Date.parse(`${value} 12:00 UTC`);
+  return Number.isFinite(parsed) ? new Date(parsed).toISOString().slice(0, 10) : null;
+}
+
+function parseDurationMinutes(value: string | null): number | null {
+  const match = value?.match(/(\d+):(\d{2})/);
+  return match ? Number.parseInt(match[1], 10) * 60 + Number.parseInt(match[2], 10) : null;
+}
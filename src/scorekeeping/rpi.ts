@@ -0,0 +1,262 @@
+import type { D1TeamScheduleGame, D1TeamSeasonData, D1TeamsDatabasePayload, RankingsFeed } from "../types";
+import { resolveTeamId, toTeamId } from "../utils/team-registry";
+
+type GameLocation = "home" | "away" | "neutral";
+
+export interface RpiRecord {
+  wins: number;
+  losses: number;
+}
+
+export interface RpiQuadrantRecords {
+  quad1: RpiRecord;
+  quad2: RpiRecord;
+  quad3: RpiRecord;
+  quad4: RpiRecord;
+}
+
+export interface ComputedRpiTeam {
+  rank: number;
+  teamKey: string;
+  teamName: string;
+  slug: string | null;
+  conference: string | null;
+  /** Record against D1 opponents only; games against non-D1 opponents do not count toward RPI. */
+  record: RpiRecord;
+  /** Home/road-weighted winning percentage. */
+  winPct: number;
+  opponentWinPct: number;
+  opponentOpponentWinPct: number;
+  rpi: number;
+  sos: number;
+  sosRank: number;
+  quadrants: RpiQuadrantRecords;
+}
+
+export interface RpiDiffEntry {
+  teamKey: string;
+  teamName: string;
+  computedRank: number | null;
+  officialRank: number | null;
+  /** Positive when the computed rank is better than the official one. */
+  rankDelta: number | null;
+}
+
+interface RpiGame {
+  opponentKey: string;
+  location: GameLocation;
+  won: boolean;
+}
+
+interface RpiTeamInput {
+  key: string;
+  team: D1TeamSeasonData;
+  games: RpiGame[];
+}
+
+// NCAA baseball weighting: road wins and home losses count 1.3, home wins and road losses 0.7.
+const WIN_WEIGHTS: Record<GameLocation, number> = { home: 0.7, neutral: 1, away: 1.3 };
+const LOSS_WEIGHTS: Record<GameLocation, number> = { home: 1.3, neutral: 1, away: 0.7 };
+
+// Upper RPI rank bound of quads 1-3 by where the game was played; everything below is quad 4.
+const QUADRANT_LIMITS: Record<GameLocation, [number, number, number]> = {
+  home: [25, 50, 100],
+  neutral: [40, 80, 160],
+  away: [60, 120, 240],
+};
+
+/**
+ * Computes RPI (0.25 WP + 0.50 OWP + 0.25 OOWP) from D1 team schedules. OWP excludes the
+ * opponent's games against the team being rated; SOS is (2 OWP + OOWP) / 3.
+ */
+export function computeRpi(payload: D1TeamsDatabasePayload): ComputedRpiTeam[] {
+  const inputs = buildRpiInputs(payload.teams);
+  const byKey = new Map(inputs.map((input) => [input.key, input]));
+
+  const owp = new Map<string, number>();
+  for (const input of inputs) {
+    owp.set(input.key, average(input.games.map((game) => opponentWinPct(byKey.get(game.opponentKey), input.key))));
+  }
+
+  const rated = inputs
+    .filter((input) => input.games.length > 0)
+    .map((input) => {
+      const wp = weightedWinPct(input.games);
+      const teamOwp = owp.get(input.key) ?? 0;
+      const oowp = average(input.games.map((game) => owp.get(game.opponentKey) ?? null));
+      return {
+        input,
+        record: {
+          wins: input.games.filter((game) => game.won).length,
+          losses: input.games.filter((game) => !game.won).length,
+        },
+        winPct: wp,
+        opponentWinPct: teamOwp,
+        opponentOpponentWinPct: oowp,
+        rpi: 0.25 * wp + 0.5 * teamOwp + 0.25 * oowp,
+        sos: (2 * teamOwp + oowp) / 3,
+      };
+    });
+
+  rated.sort((a, b) => b.rpi - a.rpi || a.input.team.name.localeCompare(b.input.team.name));
+  const rpiRanks = new Map(rated.map((entry, index) => [entry.input.key, index + 1]));
+  const sosRanks = new Map(
+    [...rated].sort((a, b) => b.sos - a.sos).map((entry, index) => [entry.input.key, index + 1])
+  );
+
+  return rated.map((entry) => ({
+    rank: rpiRanks.get(entry.input.key) ?? 0,
+    teamKey: entry.input.key,
+    teamName: entry.input.team.name,
+    slug: entry.input.team.slug,
+    conference: entry.input.team.conference?.name ?? null,
+    record: entry.record,
+    winPct: round(entry.winPct),
+    opponentWinPct: round(entry.opponentWinPct),
+    opponentOpponentWinPct: round(entry.opponentOpponentWinPct),
+    rpi: round(entry.rpi),
+    sos: round(entry.sos),
+    sosRank: sosRanks.get(entry.input.key) ?? 0,
+    quadrants: buildQuadrants(entry.input.games, rpiRanks),
+  }));
+}
+
+/** Pairs computed and official ranks by registry id; teams only one side ranks are kept with a null rank. */
+export function diffRpiRankings(computed: ComputedRpiTeam[], official: RankingsFeed): RpiDiffEntry[] {
+  const entries = new Map<string, RpiDiffEntry>();
+  for (const team of computed) {
+    entries.set(team.teamKey, {
+      teamKey: team.teamKey,
+      teamName: team.teamName,
+      computedRank: team.rank,
+      officialRank: null,
+      rankDelta: null,
+    });
+  }
+
+  for (const entry of official.entries) {
+    const key = entry.teamId ?? toTeamId(entry.teamName);
+    const existing = entries.get(key);
+    if (existing) {
+      existing.officialRank = entry.rank;
+      existing.rankDelta = existing.computedRank !== null ? entry.rank - existing.computedRank : null;
+      continue;
+    }
+    entries.set(key, {
+      teamKey: key,
+      teamName: entry.teamName,
+      computedRank: null,
+      officialRank: entry.rank,
+      rankDelta: null,
+    });
+  }
+
+  return Array.from(entries.values()).sort(
+    (a, b) =>
+      (a.officialRank ?? Infinity) - (b.officialRank ?? Infinity) ||
+      (a.computedRank ?? Infinity) - (b.computedRank ?? Infinity) ||
+      0
+  );
+}
+
+function buildRpiInputs(teams: D1TeamSeasonData[]): RpiTeamInput[] {
+  const keysBySlug = new Map<string, string>();
+  const keys = new Set<string>();
+  const inputs = teams.map((team) => {
+    const key = rpiTeamKey(team.name);
+    keys.add(key);
+    if (team.slug) {
+      keysBySlug.set(team.slug, key);
+    }
+    return { key, team, games: [] as RpiGame[] };
+  });
+
+  for (const input of inputs) {
+    for (const game of input.team.schedule) {
+      if (game.outcome !== "win" && game.outcome !== "loss") {
+        continue;
+      }
+      const opponentKey =
+        (game.opponentSlug ? keysBySlug.get(game.opponentSlug) : undefined) ?? rpiTeamKey(game.opponentName);
+      if (!keys.has(opponentKey) || opponentKey === input.key) {
+        continue;
+      }
+      input.games.push({ opponentKey, location: scheduleLocation(game), won: game.outcome === "win" });
+    }
+  }
+
+  return inputs;
+}
+
+function rpiTeamKey(name: string | null): string {
+  return resolveTeamId(name);
+}
+
+function scheduleLocation(game: D1TeamScheduleGame): GameLocation {
+  if (game.locationType === "@") {
+    return "away";
+  }
+  return game.locationType === "vs" ? "neutral" : "home";
+}
+
+function weightedWinPct(games: RpiGame[]): number {
+  let wins = 0;
+  let losses = 0;
+  for (const game of games) {
+    if (game.won) {
+      wins += WIN_WEIGHTS[game.location];
+    } else {
+      losses += LOSS_WEIGHTS[game.location];
+    }
+  }
+  return wins + losses > 0 ? wins / (wins + losses) : 0;
+}
+
+function opponentWinPct(opponent: RpiTeamInput | undefined, excludedKey: string): number | null {
+  if (!opponent) {
+    return null;
+  }
+  const games = opponent.games.filter((game) => game.opponentKey !== excludedKey);
+  if (games.length === 0) {
+    return null;
+  }
+  return games.filter((game) => game.won).length / games.length;
+}
+
+function buildQuadrants(games: RpiGame[], rpiRanks: Map<string, number>): RpiQuadrantRecords {
+  const quadrants: RpiQuadrantRecords = {
+    quad1: { wins: 0, losses: 0 },
+    quad2: { wins: 0, losses: 0 },
+    quad3: { wins: 0, losses: 0 },
+    quad4: { wins: 0, losses: 0 },
+  };
+
+  for (const game of games) {
+    const opponentRank = rpiRanks.get(game.opponentKey) ?? Infinity;
+    const [quad1, quad2, quad3] = QUADRANT_LIMITS[game.location];
+    const bucket =
+      opponentRank <= quad1
+        ? quadrants.quad1
+        : opponentRank <= quad2
+          ? quadrants.quad2
+          : opponentRank <= quad3
+            ? quadrants.quad3
+            : quadrants.quad4;
+    if (game.won) {
+      bucket.wins += 1;
+    } else {
+      bucket.losses += 1;
+    }
+  }
+
+  return quadrants;
+}
+
+function average(values: Array<number | null>): number {
+  const present = values.filter((value): value is number => value !== null);
+  return present.length > 0 ? present.reduce((sum, value) => sum + value, 0) / present.length : 0;
+}
+
+function round(value: number): number {
+  return Math.round(value * 10000) / 10000;
+}
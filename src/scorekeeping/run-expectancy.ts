@@ -0,0 +1,182 @@
+import type { BaseballScorekeepingData } from "./baseball";
+import { baseStateKey, trackBaseOutStates, type BaseOccupancy, type PlayBaseOutTransition } from "./base-state";
+
+export const BASE_STATE_KEYS = ["___", "1__", "_2_", "12_", "__3", "1_3", "_23", "123"] as const;
+
+export type BaseStateKey = (typeof BASE_STATE_KEYS)[number];
+
+export interface RunExpectancyCell {
+  bases: BaseStateKey;
+  outs: number;
+  runExpectancy: number;
+  scoringProbability: number;
+  samples: number;
+}
+
+export interface RunExpectancyMatrix {
+  source: "default" | "archive";
+  games: number;
+  halfInnings: number;
+  cells: Record<string, RunExpectancyCell>;
+  /** Probability of a fresh half-inning producing 0, 1, 2, ... runs; the last bucket holds the tail. */
+  inningRunDistribution: number[];
+}
+
+// College (BBCOR) run environment: roughly 15% above the MLB RE24 table.
+const DEFAULT_RUN_EXPECTANCY: Record<BaseStateKey, [number, number, number]> = {
+  ___: [0.56, 0.3, 0.11],
+  "1__": [0.95, 0.57, 0.25],
+  _2_: [1.18, 0.72, 0.35],
+  "12_": [1.55, 0.98, 0.47],
+  __3: [1.42, 0.98, 0.39],
+  "1_3": [1.8, 1.2, 0.52],
+  _23: [2.02, 1.42, 0.6],
+  "123": [2.4, 1.65, 0.8],
+};
+
+const DEFAULT_SCORING_PROBABILITY: Record<BaseStateKey, [number, number, number]> = {
+  ___: [0.27, 0.16, 0.07],
+  "1__": [0.43, 0.28, 0.13],
+  _2_: [0.63, 0.41, 0.23],
+  "12_": [0.64, 0.43, 0.23],
+  __3: [0.85, 0.66, 0.27],
+  "1_3": [0.88, 0.65, 0.29],
+  _23: [0.87, 0.69, 0.27],
+  "123": [0.87, 0.67, 0.33],
+};
+
+const DEFAULT_INNING_RUN_DISTRIBUTION = [0.66, 0.15, 0.085, 0.05, 0.028, 0.015, 0.007, 0.005];
+
+const DEFAULT_PRIOR_WEIGHT = 40;
+
+export const DEFAULT_RUN_EXPECTANCY_MATRIX: RunExpectancyMatrix = {
+  source: "default",
+  games: 0,
+  halfInnings: 0,
+  cells: Object.fromEntries(
+    BASE_STATE_KEYS.flatMap((bases) =>
+      [0, 1, 2].map((outs) => [
+        runExpectancyKey(bases, outs),
+        {
+          bases,
+          outs,
+          runExpectancy: DEFAULT_RUN_EXPECTANCY[bases][outs],
+          scoringProbability: DEFAULT_SCORING_PROBABILITY[bases][outs],
+          samples: 0,
+        },
+      ])
+    )
+  ),
+  inningRunDistribution: DEFAULT_INNING_RUN_DISTRIBUTION,
+};
+
+/**
+ * Builds an RE24 table from archived play-by-play. Only half-innings that reach three outs are
+ * counted (walk-offs and suspended games would understate the runs that remained), and each
+ * observed cell is shrunk toward the default college table by `priorWeight` pseudo-samples.
+ */
+export function buildRunExpectancyMatrix(
+  games: Array<Pick<BaseballScorekeepingData, "plays">>,
+  options?: { priorWeight?: number }
+): RunExpectancyMatrix {
+  const priorWeight = Math.max(0, options?.priorWeight ?? DEFAULT_PRIOR_WEIGHT);
+  const observed = new Map<string, { samples: number; runs: number; scored: number }>();
+  const inningRuns: number[] = DEFAULT_INNING_RUN_DISTRIBUTION.map(() => 0);
+  let halfInnings = 0;
+
+  for (const game of games) {
+    for (const half of groupCompletedHalves(trackBaseOutStates(game.plays))) {
+      halfInnings += 1;
+      const totalRuns = half.reduce((sum, transition) => sum + transition.runsScored, 0);
+      inningRuns[Math.min(totalRuns, inningRuns.length - 1)] += 1;
+
+      let remaining = totalRuns;
+      let previousKey: string | null = null;
+      for (const transition of half) {
+        const key = runExpectancyKey(baseStateKey(transition.before.bases), transition.before.outs);
+        // Substitutions and pinch runners leave the state unchanged; count each visit once.
+        if (key !== previousKey) {
+          const cell = observed.get(key) ?? { samples: 0, runs: 0, scored: 0 };
+          cell.samples += 1;
+          cell.runs += remaining;
+          cell.scored += remaining > 0 ? 1 : 0;
+          observed.set(key, cell);
+        }
+        previousKey = key;
+        remaining -= transition.runsScored;
+        if (transition.runsScored > 0 || transition.outsOnPlay > 0) {
+          previousKey = null;
+        }
+      }
+    }
+  }
+
+  const cells = Object.fromEntries(
+    Object.entries(DEFAULT_RUN_EXPECTANCY_MATRIX.cells).map(([key, prior]) => {
+      const cell = observed.get(key);
+      const samples = cell?.samples ?? 0;
+      const weight = samples + priorWeight;
+      return [
+        key,
+        {
+          ...prior,
+          runExpectancy:
+            weight > 0 ? round(((cell?.runs ?? 0) + prior.runExpectancy * priorWeight) / weight) : prior.runExpectancy,
+          scoringProbability:
+            weight > 0
+              ? round(((cell?.scored ?? 0) + prior.scoringProbability * priorWeight) / weight)
+              : prior.scoringProbability,
+          samples,
+        },
+      ];
+    })
+  );
+
+  const distributionWeight = halfInnings + priorWeight;
+  const inningRunDistribution =
+    distributionWeight > 0
+      ? DEFAULT_INNING_RUN_DISTRIBUTION.map((prior, runs) =>
+          round((inningRuns[runs] + prior * priorWeight) / distributionWeight)
+        )
+      : DEFAULT_INNING_RUN_DISTRIBUTION;
+
+  return {
+    source: halfInnings > 0 ? "archive" : "default",
+    games: games.length,
+    halfInnings,
+    cells,
+    inningRunDistribution,
+  };
+}
+
+export function runExpectancyKey(bases: string, outs: number): string {
+  return `${bases} ${outs}`;
+}
+
+export function lookupRunExpectancy(
+  matrix: RunExpectancyMatrix,
+  bases: BaseOccupancy | { first: boolean; second: boolean; third: boolean },
+  outs: number
+): RunExpectancyCell | null {
+  if (outs < 0 || outs > 2) {
+    return null;
+  }
+  const key = `${bases.first ? "1" : "_"}${bases.second ? "2" : "_"}${bases.third ? "3" : "_"}`;
+  return matrix.cells[runExpectancyKey(key, outs)] ?? null;
+}
+
+function groupCompletedHalves(transitions: PlayBaseOutTransition[]): PlayBaseOutTransition[][] {
+  const halves = new Map<string, PlayBaseOutTransition[]>();
+  for (const transition of transitions) {
+    const key = `${transition.inning}-${transition.half}`;
+    const half = halves.get(key) ?? [];
+    half.push(transition);
+    halves.set(key, half);
+  }
+
+  return Array.from(halves.values()).filter((half) => half[half.length - 1].after.outs >= 3);
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -0,0 +1,490 @@
+import { buildPdfDocument, escapePdfText, estimateHelveticaWidth, formatPdfNumber } from "../utils/pdf-writer";
+import type { BaseballPitchingLine, BaseballScorekeepingData, BaseballUnifiedPlay } from "./baseball";
+import { reconstructPlateAppearancePitches } from "./pitch-analytics";
+
+type TeamSide = "away" | "home";
+
+export interface ScorecardPlateAppearance {
+  inning: number;
+  playId: string;
+  /** Scorebook shorthand: `1B`, `HR`, `BB`, `K`, `KL`, `6-3`, `F8`, `E5`, `FC`, ... */
+  notation: string;
+  /** Bases touched: 0 (retired at the plate) through 4 (scored). */
+  basesReached: number;
+  scored: boolean;
+  /** Which out of the inning this batter/runner made, if any. */
+  outNumber: number | null;
+  pitches: number | null;
+}
+
+export interface ScorecardRow {
+  playerId: string | null;
+  name: string;
+  jersey: number | null;
+  position: string | null;
+  appearances: ScorecardPlateAppearance[];
+}
+
+export interface ScorecardColumn {
+  inning: number;
+  /** 0 for the inning's first column; extra columns appear when the lineup bats around. */
+  slot: number;
+}
+
+export interface ScorecardInningTotals {
+  inning: number;
+  runs: number;
+  hits: number;
+  leftOnBase: number;
+}
+
+export interface ScorecardPage {
+  side: TeamSide;
+  team: string;
+  opponent: string;
+  title: string;
+  columns: ScorecardColumn[];
+  rows: ScorecardRow[];
+  totals: ScorecardInningTotals[];
+  /** Opposing pitchers, i.e. the arms this lineup faced. */
+  pitchers: BaseballPitchingLine[];
+}
+
+type ScorecardShape =
+  | { kind: "line"; x1: number; y1: number; x2: number; y2: number; stroke: string; width: number }
+  | { kind: "rect"; x: number; y: number; w: number; h: number; stroke: string | null; fill: string | null }
+  | { kind: "polygon"; points: Array<[number, number]>; stroke: string | null; fill: string | null; width: number }
+  | { kind: "text"; x: number; y: number; text: string; size: number; anchor: "start" | "middle" | "end"; bold: boolean; color: string };
+
+interface ScorecardDrawing {
+  width: number;
+  height: number;
+  shapes: ScorecardShape[];
+}
+
+const HIT_OUTCOMES = new Set(["single", "double", "triple", "home_run"]);
+const BASE_INDEX = { first: 1, second: 2, third: 3, home: 4 } as const;
+
+const MARGIN = 24;
+const NUMBER_WIDTH = 26;
+const NAME_WIDTH = 128;
+const POSITION_WIDTH = 30;
+const CELL_WIDTH = 52;
+const HEADER_HEIGHT = 22;
+const ROW_HEIGHT = 48;
+const TOTAL_ROW_HEIGHT = 18;
+const PITCHER_ROW_HEIGHT = 16;
+const INK = "#1f2225";
+const MUTED = "#5f666f";
+const GRID = "#9aa1aa";
+const PATH = "#103f88";
+const RUN = "#b6262f";
+
+/** Lays out one team's traditional scorebook page: lineup rows, inning columns, and totals. */
+export function buildScorecardPage(data: BaseballScorekeepingData, side: TeamSide): ScorecardPage {
+  const team = data.teams[side];
+  const opponent = data.teams[side === "away" ? "home" : "away"];
+  const rows: ScorecardRow[] = team.boxScore.batting
+    .filter((line) => !line.isTeamTotal)
+    .map((line) => ({
+      playerId: line.playerId,
+      name: line.player,
+      jersey: line.jersey,
+      position: line.position,
+      appearances: [],
+    }));
+  const rowsByPlayerId = new Map(rows.flatMap((row) => (row.playerId ? [[row.playerId, row] as const] : [])));
+  const totals = new Map<number, ScorecardInningTotals>();
+  const plays = data.plays.filter(
+    (play): play is BaseballUnifiedPlay & { inning: number } =>
+      play.battingSide === side && play.inning !== null && play.runnersBefore !== null
+  );
+
+  let active = new Map<string, ScorecardPlateAppearance>();
+  let currentInning: number | null = null;
+  plays.forEach((play, index) => {
+    if (play.inning !== currentInning) {
+      currentInning = play.inning;
+      active = new Map();
+    }
+    const inningTotals = totals.get(play.inning) ?? { inning: play.inning, runs: 0, hits: 0, leftOnBase: 0 };
+    totals.set(play.inning, inningTotals);
+
+    let outsRecorded = play.runnersBefore?.outs ?? 0;
+    for (const movement of play.runnerMovements) {
+      const runnerKey = movement.runner.playerId ?? movement.runner.name;
+      let appearance = active.get(runnerKey);
+      if (movement.from === "batter") {
+        appearance = {
+          inning: play.inning,
+          playId: play.playId,
+          notation: scorebookNotation(play),
+          basesReached: 0,
+          scored: false,
+          outNumber: null,
+          pitches: reconstructPlateAppearancePitches(play)?.pitches.length ?? null,
+        };
+        active.set(runnerKey, appearance);
+        findOrAddRow(rows, rowsByPlayerId, play.participants.batterId ?? movement.runner.playerId, movement.runner.name)
+          .appearances.push(appearance);
+        if (HIT_OUTCOMES.has(play.result.outcome)) {
+          inningTotals.hits += 1;
+        }
+      }
+      if (!appearance) {
+        continue;
+      }
+
+      if (movement.to === "out") {
+        outsRecorded = Math.min(3, outsRecorded + 1);
+        appearance.outNumber = outsRecorded;
+      } else {
+        appearance.basesReached = Math.max(appearance.basesReached, BASE_INDEX[movement.to]);
+        appearance.scored ||= movement.to === "home";
+        inningTotals.runs += movement.to === "home" ? 1 : 0;
+      }
+    }
+
+    const next = plays[index + 1];
+    if (!next || next.inning !== play.inning) {
+      inningTotals.leftOnBase = countLeftOnBase(play);
+    }
+  });
+
+  const columns: ScorecardColumn[] = [];
+  const innings = Array.from(
+    new Set([...team.lineScore.innings, ...Array.from(totals.keys())].filter((inning) => inning > 0))
+  ).sort((a, b) => a - b);
+  for (const inning of innings.length > 0 ? innings : [1, 2, 3, 4, 5, 6, 7, 8, 9]) {
+    const slots = Math.max(1, ...rows.map((row) => row.appearances.filter((entry) => entry.inning === inning).length));
+    for (let slot = 0; slot < slots; slot += 1) {
+      columns.push({ inning, slot });
+    }
+  }
+
+  return {
+    side,
+    team: team.name,
+    opponent: opponent.name,
+    title: `${data.teams.away.name} at ${data.teams.home.name}${data.game.date ? ` - ${data.game.date}` : ""}`,
+    columns,
+    rows,
+    totals: Array.from(totals.values()).sort((a, b) => a.inning - b.inning),
+    pitchers: opponent.boxScore.pitching.filter((line) => !/^totals?$/i.test(line.player)),
+  };
+}
+
+export function renderScorecardSvg(pages: ScorecardPage[]): string {
+  const drawings = pages.map(drawScorecardPage);
+  const width = Math.max(...drawings.map((drawing) => drawing.width));
+  const height = drawings.reduce((sum, drawing) => sum + drawing.height, 0);
+  let offset = 0;
+  const groups = drawings.map((drawing) => {
+    const group = [`<g transform="translate(0 ${offset})">`, ...drawing.shapes.map(shapeToSvg), "</g>"].join("\n");
+    offset += drawing.height;
+    return group;
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 ${width} ${height}" width="${width}" height="${height}" font-family="Helvetica, Arial, sans-serif">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    ...groups,
+    "</svg>",
+  ].join("\n");
+}
+
+/** One landscape letter page per team, scaled down to fit when the game runs long. */
+export function renderScorecardPdf(pages: ScorecardPage[]): Buffer {
+  const pageWidth = 792;
+  const pageHeight = 612;
+
+  return buildPdfDocument(
+    pages.map((page) => {
+      const drawing = drawScorecardPage(page);
+      const scale = Math.min(1, pageWidth / drawing.width, pageHeight / drawing.height);
+      const offsetY = pageHeight - drawing.height * scale;
+      const operators = [
+        "q",
+        `${formatPdfNumber(scale)} 0 0 ${formatPdfNumber(scale)} 0 ${formatPdfNumber(offsetY)} cm`,
+        ...drawing.shapes.map((shape) => shapeToPdf(shape, drawing.height)),
+        "Q",
+      ];
+      return { width: pageWidth, height: pageHeight, content: operators.join("\n") };
+    })
+  );
+}
+
+function drawScorecardPage(page: ScorecardPage): ScorecardDrawing {
+  const shapes: ScorecardShape[] = [];
+  const gridLeft = MARGIN + NUMBER_WIDTH + NAME_WIDTH + POSITION_WIDTH;
+  const gridTop = MARGIN + 28;
+  const width = gridLeft + page.columns.length * CELL_WIDTH + MARGIN;
+  const rowsBottom = gridTop + HEADER_HEIGHT + page.rows.length * ROW_HEIGHT;
+  const totalsBottom = rowsBottom + TOTAL_ROW_HEIGHT * 3;
+  const pitchersTop = totalsBottom + 18;
+  const height = pitchersTop + HEADER_HEIGHT + page.pitchers.length * PITCHER_ROW_HEIGHT + MARGIN;
+
+  shapes.push(text(MARGIN, MARGIN + 6, `${page.team} batting vs ${page.opponent}`, 15, "start", true));
+  shapes.push(text(width - MARGIN, MARGIN + 6, page.title, 10, "end", false, MUTED));
+
+  shapes.push(rect(MARGIN, gridTop, width - MARGIN * 2, HEADER_HEIGHT, GRID, "#f2efe8"));
+  shapes.push(text(MARGIN + NUMBER_WIDTH / 2, gridTop + 15, "#", 9, "middle", true));
+  shapes.push(text(MARGIN + NUMBER_WIDTH + 4, gridTop + 15, "Player", 9, "start", true));
+  shapes.push(text(MARGIN + NUMBER_WIDTH + NAME_WIDTH + POSITION_WIDTH / 2, gridTop + 15, "Pos", 9, "middle", true));
+  page.columns.forEach((column, index) => {
+    const label = column.slot === 0 ? String(column.inning) : `${column.inning}+`;
+    shapes.push(text(gridLeft + index * CELL_WIDTH + CELL_WIDTH / 2, gridTop + 15, label, 9, "middle", true));
+  });
+
+  page.rows.forEach((row, rowIndex) => {
+    const y = gridTop + HEADER_HEIGHT + rowIndex * ROW_HEIGHT;
+    shapes.push(rect(MARGIN, y, NUMBER_WIDTH + NAME_WIDTH + POSITION_WIDTH, ROW_HEIGHT, GRID, null));
+    shapes.push(text(MARGIN + NUMBER_WIDTH / 2, y + 28, row.jersey === null ? "" : String(row.jersey), 10, "middle", false));
+    shapes.push(text(MARGIN + NUMBER_WIDTH + 4, y + 28, truncate(row.name, 22), 10, "start", true));
+    shapes.push(text(MARGIN + NUMBER_WIDTH + NAME_WIDTH + POSITION_WIDTH / 2, y + 28, row.position ?? "", 9, "middle", false));
+
+    page.columns.forEach((column, columnIndex) => {
+      const x = gridLeft + columnIndex * CELL_WIDTH;
+      const appearance = row.appearances.filter((entry) => entry.inning === column.inning)[column.slot] ?? null;
+      shapes.push(...drawCell(x, y, appearance));
+    });
+  });
+
+  (["R", "H", "LOB"] as const).forEach((label, index) => {
+    const y = rowsBottom + index * TOTAL_ROW_HEIGHT;
+    shapes.push(rect(MARGIN, y, width - MARGIN * 2, TOTAL_ROW_HEIGHT, GRID, index % 2 === 0 ? "#f7f5f0" : null));
+    shapes.push(text(gridLeft - 6, y + 13, label, 9, "end", true));
+    page.columns.forEach((column, columnIndex) => {
+      const totals = page.totals.find((entry) => entry.inning === column.inning);
+      if (column.slot !== 0 || !totals) {
+        return;
+      }
+      const value = label === "R" ? totals.runs : label === "H" ? totals.hits : totals.leftOnBase;
+      shapes.push(text(gridLeft + columnIndex * CELL_WIDTH + CELL_WIDTH / 2, y + 13, String(value), 9, "middle", false));
+    });
+  });
+
+  const pitcherColumns: Array<[string, (line: BaseballPitchingLine) => string]> = [
+    ["IP", (line) => formatStat(line.ip)],
+    ["H", (line) => formatStat(line.h)],
+    ["R", (line) => formatStat(line.r)],
+    ["ER", (line) => formatStat(line.er)],
+    ["BB", (line) => formatStat(line.bb)],
+    ["K", (line) => formatStat(line.k)],
+    ["BF", (line) => formatStat(line.battersFaced)],
+    ["NP", (line) => formatStat(line.pitches)],
+  ];
+  const statLeft = MARGIN + NUMBER_WIDTH + NAME_WIDTH + POSITION_WIDTH;
+  shapes.push(text(MARGIN, pitchersTop + 15, `${page.opponent} pitching`, 10, "start", true));
+  pitcherColumns.forEach(([label], index) => {
+    shapes.push(text(statLeft + index * 34 + 17, pitchersTop + 15, label, 9, "middle", true));
+  });
+  page.pitchers.forEach((line, index) => {
+    const y = pitchersTop + HEADER_HEIGHT + index * PITCHER_ROW_HEIGHT;
+    shapes.push(line_(MARGIN, y, statLeft + pitcherColumns.length * 34, y, GRID, 0.5));
+    const decision = line.decisionCode ? ` (${line.decisionCode})` : "";
+    shapes.push(text(MARGIN + 4, y + 12, `${truncate(line.player, 26)}${decision}`, 9, "start", false));
+    pitcherColumns.forEach(([, value], column) => {
+      shapes.push(text(statLeft + column * 34 + 17, y + 12, value(line), 9, "middle", false));
+    });
+  });
+
+  return { width, height, shapes };
+}
+
+function drawCell(x: number, y: number, appearance: ScorecardPlateAppearance | null): ScorecardShape[] {
+  const shapes: ScorecardShape[] = [rect(x, y, CELL_WIDTH, ROW_HEIGHT, GRID, null)];
+  const cx = x + CELL_WIDTH / 2;
+  const cy = y + ROW_HEIGHT / 2 + 2;
+  const size = 11;
+  const diamond: Array<[number, number]> = [
+    [cx, cy + size],
+    [cx + size, cy],
+    [cx, cy - size],
+    [cx - size, cy],
+  ];
+  shapes.push({
+    kind: "polygon",
+    points: diamond,
+    stroke: "#d5d9e0",
+    fill: appearance?.scored ? RUN : null,
+    width: 0.8,
+  });
+  if (!appearance) {
+    return shapes;
+  }
+
+  const reached = Math.min(4, appearance.basesReached);
+  for (let base = 0; base < reached; base += 1) {
+    const [x1, y1] = diamond[base];
+    const [x2, y2] = diamond[(base + 1) % 4];
+    shapes.push(line_(x1, y1, x2, y2, appearance.scored ? RUN : PATH, 2));
+  }
+
+  shapes.push(text(x + 3, y + ROW_HEIGHT - 4, appearance.notation, 8, "start", true));
+  if (appearance.pitches !== null) {
+    shapes.push(text(x + CELL_WIDTH - 3, y + 10, String(appearance.pitches), 7, "end", false, MUTED));
+  }
+  if (appearance.outNumber !== null) {
+    shapes.push(rect(x + 2, y + 2, 11, 11, INK, null));
+    shapes.push(text(x + 7.5, y + 11, String(appearance.outNumber), 8, "middle", true));
+  }
+  return shapes;
+}
+
+function scorebookNotation(play: BaseballUnifiedPlay): string {
+  const codes = play.battedBall.fielderCodes;
+  const first = codes[0] ?? "";
+  const doublePlay = play.result.tags.includes("double_play") ? " DP" : "";
+
+  switch (play.result.outcome) {
+    case "single":
+      return "1B";
+    case "double":
+      return "2B";
+    case "triple":
+      return "3B";
+    case "home_run":
+      return "HR";
+    case "walk":
+      return "BB";
+    case "intentional_walk":
+      return "IBB";
+    case "hit_by_pitch":
+      return "HP";
+    case "strikeout":
+      return `${/\blooking\b/i.test(play.text) ? "KL" : "K"}${doublePlay}`;
+    case "ground_out":
+      return `${codes.length > 1 ? codes.join("-") : `G${first}`}${doublePlay}`;
+    case "fly_out":
+      return `F${first}${doublePlay}`;
+    case "line_out":
+      return `L${first}${doublePlay}`;
+    case "foul_out":
+      return `FF${first}`;
+    case "sacrifice":
+      return /\bfly\b|\bSF\b/i.test(play.text) ? `SF${first}` : "SAC";
+    case "fielder_choice":
+      return "FC";
+    case "reached_on_error":
+      return `E${first}`;
+    default:
+      return "";
+  }
+}
+
+function countLeftOnBase(play: BaseballUnifiedPlay): number {
+  const before = play.runnersBefore;
+  if (!before) {
+    return 0;
+  }
+
+  const stranded = (["first", "second", "third"] as const).filter(
+    (base) =>
+      before[base] !== null &&
+      !play.runnerMovements.some((movement) => movement.from === base && (movement.to === "home" || movement.to === "out"))
+  ).length;
+  const batterAboard = play.runnerMovements.some(
+    (movement) => movement.from === "batter" && movement.to !== "home" && movement.to !== "out"
+  );
+  return stranded + (batterAboard ? 1 : 0);
+}
+
+function findOrAddRow(
+  rows: ScorecardRow[],
+  rowsByPlayerId: Map<string, ScorecardRow>,
+  playerId: string | null,
+  name: string
+): ScorecardRow {
+  const existing = playerId ? rowsByPlayerId.get(playerId) : rows.find((row) => row.name === name);
+  if (existing) {
+    return existing;
+  }
+
+  const row: ScorecardRow = { playerId, name, jersey: null, position: null, appearances: [] };
+  rows.push(row);
+  if (playerId) {
+    rowsByPlayerId.set(playerId, row);
+  }
+  return row;
+}
+
+function shapeToSvg(shape: ScorecardShape): string {
+  switch (shape.kind) {
+    case "line":
+      return `<line x1="${shape.x1}" y1="${shape.y1}" x2="${shape.x2}" y2="${shape.y2}" stroke="${shape.stroke}" stroke-width="${shape.width}"/>`;
+    case "rect":
+      return `<rect x="${shape.x}" y="${shape.y}" width="${shape.w}" height="${shape.h}" fill="${shape.fill ?? "none"}" stroke="${shape.stroke ?? "none"}" stroke-width="0.8"/>`;
+    case "polygon":
+      return `<polygon points="${shape.points.map(([x, y]) => `${x},${y}`).join(" ")}" fill="${shape.fill ?? "none"}" stroke="${shape.stroke ?? "none"}" stroke-width="${shape.width}"/>`;
+    case "text": {
+      const anchor = shape.anchor === "start" ? "" : ` text-anchor="${shape.anchor}"`;
+      const weight = shape.bold ? ` font-weight="700"` : "";
+      return `<text x="${shape.x}" y="${shape.y}" font-size="${shape.size}"${anchor}${weight} fill="${shape.color}">${escapeXml(shape.text)}</text>`;
+    }
+  }
+}
+
+function shapeToPdf(shape: ScorecardShape, height: number): string {
+  const n = formatPdfNumber;
+  switch (shape.kind) {
+    case "line":
+      return `${pdfColor(shape.stroke, "RG")} ${n(shape.width)} w ${n(shape.x1)} ${n(height - shape.y1)} m ${n(shape.x2)} ${n(height - shape.y2)} l S`;
+    case "rect": {
+      const paint = shape.fill && shape.stroke ? "B" : shape.fill ? "f" : "S";
+      const colors = [shape.fill ? pdfColor(shape.fill, "rg") : "", shape.stroke ? pdfColor(shape.stroke, "RG") : ""];
+      return `${colors.join(" ").trim()} 0.8 w ${n(shape.x)} ${n(height - shape.y - shape.h)} ${n(shape.w)} ${n(shape.h)} re ${paint}`;
+    }
+    case "polygon": {
+      const paint = shape.fill && shape.stroke ? "b" : shape.fill ? "f" : "s";
+      const colors = [shape.fill ? pdfColor(shape.fill, "rg") : "", shape.stroke ? pdfColor(shape.stroke, "RG") : ""];
+      const path = shape.points
+        .map(([x, y], index) => `${n(x)} ${n(height - y)} ${index === 0 ? "m" : "l"}`)
+        .join(" ");
+      return `${colors.join(" ").trim()} ${n(shape.width)} w ${path} ${paint}`;
+    }
+    case "text": {
+      const textWidth = estimateHelveticaWidth(shape.text, shape.size, shape.bold);
+      const x = shape.anchor === "middle" ? shape.x - textWidth / 2 : shape.anchor === "end" ? shape.x - textWidth : shape.x;
+      return `BT ${pdfColor(shape.color, "rg")} /${shape.bold ? "F2" : "F1"} ${n(shape.size)} Tf ${n(x)} ${n(height - shape.y)} Td (${escapePdfText(shape.text)}) Tj ET`;
+    }
+  }
+}
+
+function pdfColor(hex: string, operator: "rg" | "RG"): string {
+  const value = Number.parseInt(hex.replace("#", ""), 16);
+  const channels = [(value >> 16) & 255, (value >> 8) & 255, value & 255].map((channel) => formatPdfNumber(channel / 255));
+  return `${channels.join(" ")} ${operator}`;
+}
+
+function rect(x: number, y: number, w: number, h: number, stroke: string | null, fill: string | null): ScorecardShape {
+  return { kind: "rect", x, y, w, h, stroke, fill };
+}
+
+function line_(x1: number, y1: number, x2: number, y2: number, stroke: string, width: number): ScorecardShape {
+  return { kind: "line", x1, y1, x2, y2, stroke, width };
+}
+
+function text(
+  x: number,
+  y: number,
+  value: string,
+  size: number,
+  anchor: "start" | "middle" | "end",
+  bold: boolean,
+  color = INK
+): ScorecardShape {
+  return { kind: "text", x, y, text: value, size, anchor, bold, color };
+}
+
+function formatStat(value: number | null): string {
+  return value === null ? "-" : String(value);
+}
+
+function truncate(value: string, maxLength: number): string {
+  return value.length > maxLength ? `${value.slice(0, maxLength - 1)}.` : value;
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
@@ -0,0 +1,440 @@
+import { resolveTeamId } from "../utils/team-registry";
+import type {
+  BaseballBattingLine,
+  BaseballPitchingLine,
+  BaseballScorekeepingData,
+  BaseballTeamSnapshot,
+  BaseballUnifiedPlay,
+} from "./baseball";
+import type { BaseballPlayOutcome } from "./play-description";
+
+type TeamSide = BaseballTeamSnapshot["side"];
+
+export interface SeasonBattingTotals {
+  games: number;
+  ab: number;
+  r: number;
+  h: number;
+  doubles: number;
+  triples: number;
+  hr: number;
+  rbi: number;
+  bb: number;
+  hbp: number;
+  sf: number;
+  sh: number;
+  k: number;
+  sb: number;
+  cs: number;
+  tb: number;
+  pa: number;
+  avg: number | null;
+  obp: number | null;
+  slg: number | null;
+  ops: number | null;
+}
+
+export interface SeasonPitchingTotals {
+  games: number;
+  starts: number;
+  wins: number;
+  losses: number;
+  saves: number;
+  outs: number;
+  ip: string;
+  h: number;
+  r: number;
+  er: number;
+  bb: number;
+  k: number;
+  hbp: number;
+  wp: number;
+  bk: number;
+  battersFaced: number;
+  pitches: number;
+  era: number | null;
+  whip: number | null;
+  k9: number | null;
+  bb9: number | null;
+}
+
+export interface SeasonGameLogEntry {
+  gameId: number;
+  date: string | null;
+  side: TeamSide;
+  opponent: string;
+  teamScore: number | null;
+  opponentScore: number | null;
+  result: "W" | "L" | "T" | null;
+  playerId: string;
+  batting: Omit<SeasonBattingTotals, "games" | "avg" | "obp" | "slg" | "ops"> | null;
+  pitching: Omit<SeasonPitchingTotals, "games" | "era" | "whip" | "k9" | "bb9"> | null;
+}
+
+export interface SeasonPlayerStats {
+  seasonPlayerId: string;
+  name: string;
+  team: string;
+  teamKey: string;
+  playerIds: string[];
+  jerseyNumbers: number[];
+  positions: string[];
+  batting: SeasonBattingTotals | null;
+  pitching: SeasonPitchingTotals | null;
+  gameLog: SeasonGameLogEntry[];
+}
+
+export interface SeasonStatsPayload {
+  games: number;
+  gameIds: number[];
+  players: Record<string, SeasonPlayerStats>;
+}
+
+type BattingCounts = Omit<SeasonBattingTotals, "games" | "avg" | "obp" | "slg" | "ops">;
+type PitchingCounts = Omit<SeasonPitchingTotals, "games" | "era" | "whip" | "k9" | "bb9">;
+
+interface PlayEventCounts {
+  doubles: number;
+  triples: number;
+  hr: number;
+  hbp: number;
+  sf: number;
+  sh: number;
+}
+
+/**
+ * Players are keyed by team registry id plus the side-less part of the per-game `playerId`.
+ * Box scores have no 2B/3B/HR/HBP/SF columns, so those come from the play timeline.
+ */
+export function aggregateSeasonPlayerStats(
+  games: BaseballScorekeepingData[],
+  options?: { team?: string | null }
+): SeasonStatsPayload {
+  const teamFilter = canonicalTeamKey(options?.team ?? null);
+  const players = new Map<string, SeasonPlayerStats>();
+  const battingTotals = new Map<string, BattingCounts & { games: number }>();
+  const pitchingTotals = new Map<string, PitchingCounts & { games: number }>();
+  const gameIds: number[] = [];
+
+  const sortedGames = [...games].sort(
+    (a, b) => parseGameTime(a.game.date) - parseGameTime(b.game.date) || a.game.id - b.game.id
+  );
+
+  for (const game of sortedGames) {
+    gameIds.push(game.game.id);
+    const playCounts = countPlayEvents(game.plays);
+
+    for (const team of [game.teams.away, game.teams.home]) {
+      const teamKey = teamKeyFromSnapshot(team);
+      if (teamFilter && canonicalTeamKey(team.name) !== teamFilter) {
+        continue;
+      }
+
+      const opponent = team.side === "away" ? game.teams.home : game.teams.away;
+      const entries = new Map<string, SeasonGameLogEntry>();
+      const entryFor = (playerId: string, name: string, jersey: number | null, position: string | null): SeasonGameLogEntry => {
+        const seasonPlayerId = buildSeasonPlayerId(teamKey, playerId);
+        const player = ensurePlayer(players, seasonPlayerId, name, team.name, teamKey);
+        if (!player.playerIds.includes(playerId)) {
+          player.playerIds.push(playerId);
+        }
+        if (jersey !== null && !player.jerseyNumbers.includes(jersey)) {
+          player.jerseyNumbers.push(jersey);
+        }
+        if (position && !player.positions.includes(position)) {
+          player.positions.push(position);
+        }
+
+        let entry = entries.get(seasonPlayerId);
+        if (!entry) {
+          entry = {
+            gameId: game.game.id,
+            date: game.game.date,
+            side: team.side,
+            opponent: opponent.name,
+            teamScore: team.finalScore,
+            opponentScore: opponent.finalScore,
+            result: resolveResult(team.finalScore, opponent.finalScore),
+            playerId,
+            batting: null,
+            pitching: null,
+          };
+          entries.set(seasonPlayerId, entry);
+          player.gameLog.push(entry);
+        }
+        return entry;
+      };
+
+      for (const line of team.boxScore.batting) {
+        if (line.isTeamTotal || !line.playerId) {
+          continue;
+        }
+        const entry = entryFor(line.playerId, line.player, line.jersey, line.position);
+        entry.batting = buildBattingCounts(line, playCounts.get(line.playerId));
+        addCounts(battingTotals, buildSeasonPlayerId(teamKey, line.playerId), entry.batting);
+      }
+
+      team.boxScore.pitching.forEach((line, index) => {
+        if (!line.playerId || /^totals?$/i.test(line.player)) {
+          return;
+        }
+        const entry = entryFor(line.playerId, line.player, line.jersey, null);
+        entry.pitching = buildPitchingCounts(line, index === 0);
+        addCounts(pitchingTotals, buildSeasonPlayerId(teamKey, line.playerId), entry.pitching);
+      });
+    }
+  }
+
+  const result: Record<string, SeasonPlayerStats> = {};
+  for (const [seasonPlayerId, player] of players) {
+    const batting = battingTotals.get(seasonPlayerId);
+    const pitching = pitchingTotals.get(seasonPlayerId);
+    result[seasonPlayerId] = {
+      ...player,
+      batting: batting ? finalizeBatting(batting) : null,
+      pitching: pitching ? finalizePitching(pitching) : null,
+    };
+  }
+
+  return {
+    games: gameIds.length,
+    gameIds,
+    players: result,
+  };
+}
+
+export function inningsToOuts(ip: number | string | null): number {
+  if (ip === null || ip === "") {
+    return 0;
+  }
+
+  const value = typeof ip === "number" ? ip : Number.parseFloat(ip);
+  if (!Number.isFinite(value)) {
+    return 0;
+  }
+
+  const whole = Math.trunc(value);
+  const thirds = Math.round((value - whole) * 10);
+  return whole * 3 + Math.min(Math.max(thirds, 0), 2);
+}
+
+export function formatOutsAsInnings(outs: number): string {
+  return `${Math.floor(outs / 3)}.${outs % 3}`;
+}
+
+export function buildSeasonPlayerId(teamKey: string, playerId: string): string {
+  const withoutSide = playerId.replace(/^(away|home):/, "");
+  return `${teamKey}:${withoutSide}`;
+}
+
+/** Sac flies are read from the play text; a sacrifice outcome without a fly marker is a bunt. */
+export function classifySacrifice(text: string, outcome: BaseballPlayOutcome | null): "fly" | "bunt" | null {
+  if (/\bSF\b|\bsac(?:rifice)? fly\b/i.test(text)) {
+    return "fly";
+  }
+  return outcome === "sacrifice" || /\bSAC\b|\bsac(?:rifice)? bunt\b/i.test(text) ? "bunt" : null;
+}
+
+/** Registry id for a team name or filter, so `texas` matches Texas but never Texas A&M or Texas Tech. */
+export function canonicalTeamKey(value: string | null): string {
+  return resolveTeamId(value);
+}
+
+function teamKeyFromSnapshot(team: BaseballTeamSnapshot): string {
+  return canonicalTeamKey(team.name) || team.teamId.replace(/^(away|home):/, "");
+}
+
+function ensurePlayer(
+  players: Map<string, SeasonPlayerStats>,
+  seasonPlayerId: string,
+  name: string,
+  team: string,
+  teamKey: string
+): SeasonPlayerStats {
+  const existing = players.get(seasonPlayerId);
+  if (existing) {
+    return existing;
+  }
+
+  const player: SeasonPlayerStats = {
+    seasonPlayerId,
+    name,
+    team,
+    teamKey,
+    playerIds: [],
+    jerseyNumbers: [],
+    positions: [],
+    batting: null,
+    pitching: null,
+    gameLog: [],
+  };
+  players.set(seasonPlayerId, player);
+  return player;
+}
+
+function countPlayEvents(plays: BaseballUnifiedPlay[]): Map<string, PlayEventCounts> {
+  const counts = new Map<string, PlayEventCounts>();
+
+  for (const play of plays) {
+    const batterId = play.participants.batterId;
+    if (!batterId) {
+      continue;
+    }
+
+    let entry = counts.get(batterId);
+    if (!entry) {
+      entry = { doubles: 0, triples: 0, hr: 0, hbp: 0, sf: 0, sh: 0 };
+      counts.set(batterId, entry);
+    }
+
+    switch (play.result.outcome) {
+      case "double":
+        entry.doubles += 1;
+        break;
+      case "triple":
+        entry.triples += 1;
+        break;
+      case "home_run":
+        entry.hr += 1;
+        break;
+      case "hit_by_pitch":
+        entry.hbp += 1;
+        break;
+      default:
+        break;
+    }
+
+    const sacrifice = classifySacrifice(play.text, play.result.outcome);
+    if (sacrifice === "fly") {
+      entry.sf += 1;
+    } else if (sacrifice === "bunt") {
+      entry.sh += 1;
+    }
+  }
+
+  return counts;
+}
+
+function buildBattingCounts(line: BaseballBattingLine, events: PlayEventCounts | undefined): BattingCounts {
+  const h = line.h ?? 0;
+  const doubles = events?.doubles ?? 0;
+  const triples = events?.triples ?? 0;
+  const hr = events?.hr ?? 0;
+  const ab = line.ab ?? 0;
+  const bb = line.bb ?? 0;
+  const hbp = events?.hbp ?? 0;
+  const sf = events?.sf ?? 0;
+  const sh = events?.sh ?? 0;
+
+  return {
+    ab,
+    r: line.r ?? 0,
+    h,
+    doubles,
+    triples,
+    hr,
+    rbi: line.rbi ?? 0,
+    bb,
+    hbp,
+    sf,
+    sh,
+    k: line.k ?? 0,
+    sb: line.sb ?? 0,
+    cs: line.cs ?? 0,
+    tb: h + doubles + triples * 2 + hr * 3,
+    pa: ab + bb + hbp + sf + sh,
+  };
+}
+
+function buildPitchingCounts(line: BaseballPitchingLine, isStarter: boolean): PitchingCounts {
+  const outs = inningsToOuts(line.ip);
+  return {
+    starts: isStarter ? 1 : 0,
+    wins: line.decisionCode === "W" ? 1 : 0,
+    losses: line.decisionCode === "L" ? 1 : 0,
+    saves: line.decisionCode === "S" ? 1 : 0,
+    outs,
+    ip: formatOutsAsInnings(outs),
+    h: line.h ?? 0,
+    r: line.r ?? 0,
+    er: line.er ?? 0,
+    bb: line.bb ?? 0,
+    k: line.k ?? 0,
+    hbp: line.hbp ?? 0,
+    wp: line.wp ?? 0,
+    bk: line.bk ?? 0,
+    battersFaced: line.battersFaced ?? 0,
+    pitches: line.pitches ?? 0,
+  };
+}
+
+function addCounts<T extends BattingCounts | PitchingCounts>(
+  totals: Map<string, T & { games: number }>,
+  seasonPlayerId: string,
+  counts: T
+): void {
+  const existing = totals.get(seasonPlayerId);
+  if (!existing) {
+    totals.set(seasonPlayerId, { ...counts, games: 1 });
+    return;
+  }
+
+  existing.games += 1;
+  const target = existing as unknown as Record<string, number | string>;
+  for (const [key, value] of Object.entries(counts)) {
+    if (typeof value === "number") {
+      target[key] = (target[key] as number) + value;
+    }
+  }
+}
+
+function finalizeBatting(totals: BattingCounts & { games: number }): SeasonBattingTotals {
+  const avg = ratio(totals.h, totals.ab);
+  const obp = ratio(totals.h + totals.bb + totals.hbp, totals.ab + totals.bb + totals.hbp + totals.sf);
+  const slg = ratio(totals.tb, totals.ab);
+
+  return {
+    ...totals,
+    avg,
+    obp,
+    slg,
+    ops: obp === null || slg === null ? null : round(obp + slg, 3),
+  };
+}
+
+function finalizePitching(totals: PitchingCounts & { games: number }): SeasonPitchingTotals {
+  const innings = totals.outs / 3;
+
+  return {
+    ...totals,
+    ip: formatOutsAsInnings(totals.outs),
+    era: innings > 0 ? round((totals.er * 9) / innings, 2) : null,
+    whip: innings > 0 ? round((totals.bb + totals.h) / innings, 2) : null,
+    k9: innings > 0 ? round((totals.k * 9) / innings, 2) : null,
+    bb9: innings > 0 ? round((totals.bb * 9) / innings, 2) : null,
+  };
+}
+
+function resolveResult(teamScore: number | null, opponentScore: number | null): SeasonGameLogEntry["result"] {
+  if (teamScore === null || opponentScore === null) {
+    return null;
+  }
+  if (teamScore === opponentScore) {
+    return "T";
+  }
+  return teamScore > opponentScore ? "W" : "L";
+}
+
+function parseGameTime(value: string | null): number {
+  const parsed = value ? Date.parse(value) : Number.NaN;
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? round(numerator / denominator, 3) : null;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
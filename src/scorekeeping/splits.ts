@@ -0,0 +1,329 @@
+import type { BaseballScorekeepingData, BaseballUnifiedPlay } from "./baseball";
+import {
+  isRunnerInScoringPosition,
+  runnersOn,
+  trackBaseOutStates,
+  type PlayBaseOutTransition,
+} from "./base-state";
+import type { BaseballPlayOutcome } from "./play-description";
+import { buildSeasonPlayerId, canonicalTeamKey, classifySacrifice } from "./season-stats";
+
+export type SplitRole = "batting" | "pitching";
+export type InningGroup = "1-3" | "4-6" | "7-9" | "extra";
+
+export interface SplitLine {
+  pa: number;
+  ab: number;
+  h: number;
+  doubles: number;
+  triples: number;
+  hr: number;
+  bb: number;
+  hbp: number;
+  k: number;
+  sf: number;
+  sh: number;
+  avg: number | null;
+  obp: number | null;
+  slg: number | null;
+  ops: number | null;
+}
+
+export interface SplitsBreakdown {
+  overall: SplitLine;
+  risp: SplitLine;
+  twoOuts: SplitLine;
+  lateAndClose: SplitLine;
+  firstPitchSwinging: SplitLine;
+  byCount: Record<string, SplitLine>;
+  byInning: Record<InningGroup, SplitLine>;
+}
+
+export interface PlayerSplits {
+  seasonPlayerId: string;
+  name: string;
+  team: string;
+  teamKey: string;
+  splits: SplitsBreakdown;
+}
+
+export interface TeamSplits {
+  team: string;
+  teamKey: string;
+  splits: SplitsBreakdown;
+}
+
+export interface SplitsPayload {
+  role: SplitRole;
+  games: number;
+  teams: TeamSplits[];
+  players: PlayerSplits[];
+}
+
+export interface PlateAppearanceContext {
+  play: BaseballUnifiedPlay;
+  transition: PlayBaseOutTransition;
+  outcome: BaseballPlayOutcome;
+  isSacFly: boolean;
+  isSacBunt: boolean;
+  risp: boolean;
+  twoOuts: boolean;
+  lateAndClose: boolean;
+  firstPitchSwinging: boolean;
+  count: string | null;
+  inningGroup: InningGroup;
+}
+
+type SplitCounts = Omit<SplitLine, "avg" | "obp" | "slg" | "ops">;
+
+interface SplitAccumulator {
+  overall: SplitCounts;
+  risp: SplitCounts;
+  twoOuts: SplitCounts;
+  lateAndClose: SplitCounts;
+  firstPitchSwinging: SplitCounts;
+  byCount: Map<string, SplitCounts>;
+  byInning: Record<InningGroup, SplitCounts>;
+}
+
+const SWING_PITCHES = new Set(["swinging_strike", "foul", "in_play"]);
+
+export function computeSplits(
+  games: BaseballScorekeepingData[],
+  options?: { team?: string | null; player?: string | null; role?: SplitRole }
+): SplitsPayload {
+  const role = options?.role ?? "batting";
+  const teamFilter = canonicalTeamKey(options?.team ?? null);
+  const playerFilter = String(options?.player ?? "").trim().toLowerCase();
+  const teams = new Map<string, { team: string; accumulator: SplitAccumulator }>();
+  const players = new Map<string, { name: string; team: string; teamKey: string; accumulator: SplitAccumulator }>();
+
+  for (const game of games) {
+    for (const context of extractPlateAppearances(game)) {
+      const { play } = context;
+      const battingSide = play.battingSide;
+      if (!battingSide) {
+        continue;
+      }
+
+      const side = role === "batting" ? battingSide : battingSide === "away" ? "home" : "away";
+
+      const teamName = game.teams[side].name;
+      if (teamFilter && canonicalTeamKey(teamName) !== teamFilter) {
+        continue;
+      }
+      const teamKey = canonicalTeamKey(teamName);
+
+      let team = teams.get(teamKey);
+      if (!team) {
+        team = { team: teamName, accumulator: createAccumulator() };
+        teams.set(teamKey, team);
+      }
+      addPlateAppearance(team.accumulator, context);
+
+      const playerId = role === "batting" ? play.participants.batterId : play.participants.pitcherId;
+      const playerName = role === "batting" ? play.participants.batterName : play.participants.pitcherName;
+      if (!playerId) {
+        continue;
+      }
+
+      const seasonPlayerId = buildSeasonPlayerId(teamKey, playerId);
+      let player = players.get(seasonPlayerId);
+      if (!player) {
+        player = { name: playerName ?? playerId, team: teamName, teamKey, accumulator: createAccumulator() };
+        players.set(seasonPlayerId, player);
+      }
+      addPlateAppearance(player.accumulator, context);
+    }
+  }
+
+  const playerSplits = Array.from(players.entries())
+    .filter(
+      ([seasonPlayerId, player]) =>
+        !playerFilter || seasonPlayerId === playerFilter || player.name.toLowerCase().includes(playerFilter)
+    )
+    .map(([seasonPlayerId, player]) => ({
+      seasonPlayerId,
+      name: player.name,
+      team: player.team,
+      teamKey: player.teamKey,
+      splits: finalizeAccumulator(player.accumulator),
+    }))
+    .sort((a, b) => b.splits.overall.pa - a.splits.overall.pa || a.name.localeCompare(b.name));
+
+  return {
+    role,
+    games: games.length,
+    teams: Array.from(teams.entries()).map(([teamKey, team]) => ({
+      team: team.team,
+      teamKey,
+      splits: finalizeAccumulator(team.accumulator),
+    })),
+    players: playerSplits,
+  };
+}
+
+export function extractPlateAppearances(game: BaseballScorekeepingData): PlateAppearanceContext[] {
+  const playsById = new Map(game.plays.map((play) => [play.playId, play]));
+  const contexts: PlateAppearanceContext[] = [];
+
+  for (const transition of trackBaseOutStates(game.plays)) {
+    const play = playsById.get(transition.playId);
+    if (!play || !transition.isPlateAppearance || !transition.batterOutcome || !play.battingSide) {
+      continue;
+    }
+
+    const battingScore = transition.scoreBefore[play.battingSide];
+    const fieldingScore = transition.scoreBefore[play.battingSide === "away" ? "home" : "away"];
+    const margin = battingScore - fieldingScore;
+    const inning = transition.inning;
+    const finalCount = play.pitchContext?.finalCount ?? null;
+    const firstPitch = play.pitchContext?.pitches[0]?.description ?? null;
+    const firstPitchInPlay = finalCount !== null && finalCount.balls === 0 && finalCount.strikes === 0;
+
+    const sacrifice = classifySacrifice(play.text, transition.batterOutcome);
+
+    contexts.push({
+      play,
+      transition,
+      outcome: transition.batterOutcome,
+      isSacFly: sacrifice === "fly",
+      isSacBunt: sacrifice === "bunt",
+      risp: isRunnerInScoringPosition(transition.before.bases),
+      twoOuts: transition.before.outs === 2,
+      lateAndClose: inning >= 7 && margin <= 1 && -margin <= runnersOn(transition.before.bases) + 2,
+      firstPitchSwinging: firstPitch ? SWING_PITCHES.has(firstPitch) : firstPitchInPlay,
+      count: finalCount ? `${finalCount.balls}-${finalCount.strikes}` : null,
+      inningGroup: inning <= 3 ? "1-3" : inning <= 6 ? "4-6" : inning <= 9 ? "7-9" : "extra",
+    });
+  }
+
+  return contexts;
+}
+
+export function finalizeSplitLine(counts: SplitCounts): SplitLine {
+  const avg = ratio(counts.h, counts.ab);
+  const obp = ratio(counts.h + counts.bb + counts.hbp, counts.ab + counts.bb + counts.hbp + counts.sf);
+  const slg = ratio(counts.h + counts.doubles + counts.triples * 2 + counts.hr * 3, counts.ab);
+
+  return {
+    ...counts,
+    avg,
+    obp,
+    slg,
+    ops: obp === null || slg === null ? null : Math.round((obp + slg) * 1000) / 1000,
+  };
+}
+
+function addPlateAppearance(accumulator: SplitAccumulator, context: PlateAppearanceContext): void {
+  const targets = [accumulator.overall, accumulator.byInning[context.inningGroup]];
+  if (context.risp) {
+    targets.push(accumulator.risp);
+  }
+  if (context.twoOuts) {
+    targets.push(accumulator.twoOuts);
+  }
+  if (context.lateAndClose) {
+    targets.push(accumulator.lateAndClose);
+  }
+  if (context.firstPitchSwinging) {
+    targets.push(accumulator.firstPitchSwinging);
+  }
+  if (context.count) {
+    let countLine = accumulator.byCount.get(context.count);
+    if (!countLine) {
+      countLine = emptyCounts();
+      accumulator.byCount.set(context.count, countLine);
+    }
+    targets.push(countLine);
+  }
+
+  targets.forEach((target) => addOutcome(target, context));
+}
+
+function addOutcome(counts: SplitCounts, context: PlateAppearanceContext): void {
+  counts.pa += 1;
+  const { outcome } = context;
+
+  if (outcome === "walk" || outcome === "intentional_walk") {
+    counts.bb += 1;
+    return;
+  }
+  if (outcome === "hit_by_pitch") {
+    counts.hbp += 1;
+    return;
+  }
+  if (context.isSacFly) {
+    counts.sf += 1;
+    return;
+  }
+  if (context.isSacBunt) {
+    counts.sh += 1;
+    return;
+  }
+
+  counts.ab += 1;
+  if (outcome === "strikeout") {
+    counts.k += 1;
+  }
+  if (outcome === "single" || outcome === "double" || outcome === "triple" || outcome === "home_run") {
+    counts.h += 1;
+  }
+  if (outcome === "double") {
+    counts.doubles += 1;
+  }
+  if (outcome === "triple") {
+    counts.triples += 1;
+  }
+  if (outcome === "home_run") {
+    counts.hr += 1;
+  }
+}
+
+function createAccumulator(): SplitAccumulator {
+  return {
+    overall: emptyCounts(),
+    risp: emptyCounts(),
+    twoOuts: emptyCounts(),
+    lateAndClose: emptyCounts(),
+    firstPitchSwinging: emptyCounts(),
+    byCount: new Map(),
+    byInning: {
+      "1-3": emptyCounts(),
+      "4-6": emptyCounts(),
+      "7-9": emptyCounts(),
+      extra: emptyCounts(),
+    },
+  };
+}
+
+function finalizeAccumulator(accumulator: SplitAccumulator): SplitsBreakdown {
+  const byCount = Object.fromEntries(
+    Array.from(accumulator.byCount.entries())
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([count, counts]) => [count, finalizeSplitLine(counts)])
+  );
+
+  return {
+    overall: finalizeSplitLine(accumulator.overall),
+    risp: finalizeSplitLine(accumulator.risp),
+    twoOuts: finalizeSplitLine(accumulator.twoOuts),
+    lateAndClose: finalizeSplitLine(accumulator.lateAndClose),
+    firstPitchSwinging: finalizeSplitLine(accumulator.firstPitchSwinging),
+    byCount,
+    byInning: {
+      "1-3": finalizeSplitLine(accumulator.byInning["1-3"]),
+      "4-6": finalizeSplitLine(accumulator.byInning["4-6"]),
+      "7-9": finalizeSplitLine(accumulator.byInning["7-9"]),
+      extra: finalizeSplitLine(accumulator.byInning.extra),
+    },
+  };
+}
+
+function emptyCounts(): SplitCounts {
+  return { pa: 0, ab: 0, h: 0, doubles: 0, triples: 0, hr: 0, bb: 0, hbp: 0, k: 0, sf: 0, sh: 0 };
+}
+
+function ratio(numerator: number, denominator: number): number | null {
+  return denominator > 0 ? Math.round((numerator / denominator) * 1000) / 1000 : null;
+}
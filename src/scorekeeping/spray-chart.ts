@@ -0,0 +1,240 @@
+import type { BaseballScorekeepingData } from "./baseball";
+import type { BaseballPlayOutcome } from "./play-description";
+import { IN_PLAY_OUTCOMES } from "./pitch-analytics";
+import { buildSeasonPlayerId, canonicalTeamKey } from "./season-stats";
+
+export type SprayZone = "P" | "C" | "1B" | "2B" | "3B" | "SS" | "LF" | "CF" | "RF";
+
+export interface SprayZoneCounts {
+  total: number;
+  hits: number;
+  outs: number;
+  errors: number;
+  byOutcome: Partial<Record<BaseballPlayOutcome, number>>;
+}
+
+export interface SprayBattedBall {
+  gameId: number;
+  playId: string;
+  inning: number | null;
+  zone: SprayZone | null;
+  outcome: BaseballPlayOutcome;
+  pitcher: string | null;
+  locationSource: "text" | "scorecard" | "none";
+  locationConfidence: number;
+}
+
+export interface SprayChart {
+  ballsInPlay: number;
+  /** Balls in play with no fielder location (or below `minConfidence`). */
+  unlocated: number;
+  zones: Record<SprayZone, SprayZoneCounts>;
+  byOutcome: Partial<Record<BaseballPlayOutcome, number>>;
+}
+
+export interface BatterSprayChart {
+  seasonPlayerId: string;
+  name: string;
+  team: string;
+  teamKey: string;
+  chart: SprayChart;
+  battedBalls: SprayBattedBall[];
+}
+
+export interface TeamSprayChart {
+  team: string;
+  teamKey: string;
+  chart: SprayChart;
+}
+
+export interface SprayChartPayload {
+  games: number;
+  gameIds: number[];
+  pitcher: string | null;
+  teams: TeamSprayChart[];
+  batters: BatterSprayChart[];
+}
+
+export const SPRAY_ZONES: SprayZone[] = ["LF", "CF", "RF", "3B", "SS", "2B", "1B", "P", "C"];
+
+const HIT_OUTCOMES = new Set<BaseballPlayOutcome>(["single", "double", "triple", "home_run"]);
+
+// Field positions in a 400x400 viewBox with home plate at (200, 370).
+const ZONE_POINTS: Record<SprayZone, { x: number; y: number }> = {
+  LF: { x: 100, y: 165 },
+  CF: { x: 200, y: 115 },
+  RF: { x: 300, y: 165 },
+  "3B": { x: 128, y: 272 },
+  SS: { x: 160, y: 232 },
+  "2B": { x: 240, y: 232 },
+  "1B": { x: 272, y: 272 },
+  P: { x: 200, y: 298 },
+  C: { x: 200, y: 352 },
+};
+
+/**
+ * Batted-ball locations per hitter and per batting team, zoned by the fielder who made the play.
+ * With `pitcher`, only balls put in play against that pitcher count, so team charts read as
+ * "lineup vs. pitcher".
+ */
+export function computeSprayChart(
+  games: BaseballScorekeepingData[],
+  options?: { team?: string | null; batter?: string | null; pitcher?: string | null; minConfidence?: number }
+): SprayChartPayload {
+  const teamFilter = canonicalTeamKey(options?.team ?? null);
+  const batterFilter = String(options?.batter ?? "").trim().toLowerCase();
+  const pitcherFilter = String(options?.pitcher ?? "").trim().toLowerCase();
+  const minConfidence = options?.minConfidence ?? 0;
+  const teams = new Map<string, { team: string; chart: SprayChart }>();
+  const batters = new Map<string, { name: string; team: string; teamKey: string; chart: SprayChart; balls: SprayBattedBall[] }>();
+
+  for (const game of games) {
+    for (const play of game.plays) {
+      if (!play.battingSide || !IN_PLAY_OUTCOMES.has(play.result.outcome)) {
+        continue;
+      }
+
+      const teamName = game.teams[play.battingSide].name;
+      const teamKey = canonicalTeamKey(teamName);
+      if (teamFilter && teamKey !== teamFilter) {
+        continue;
+      }
+      if (pitcherFilter && !matchesPlayer(pitcherFilter, play.participants.pitcherId, play.participants.pitcherName)) {
+        continue;
+      }
+
+      const location = play.battedBall.fieldLocations[0];
+      const zone =
+        location && play.battedBall.locationConfidence >= minConfidence && location.abbreviation in ZONE_POINTS
+          ? (location.abbreviation as SprayZone)
+          : null;
+      const ball: SprayBattedBall = {
+        gameId: game.game.id,
+        playId: play.playId,
+        inning: play.inning,
+        zone,
+        outcome: play.result.outcome,
+        pitcher: play.participants.pitcherName,
+        locationSource: play.battedBall.locationSource,
+        locationConfidence: play.battedBall.locationConfidence,
+      };
+
+      let team = teams.get(teamKey);
+      if (!team) {
+        team = { team: teamName, chart: emptyChart() };
+        teams.set(teamKey, team);
+      }
+      addBattedBall(team.chart, ball);
+
+      if (!play.participants.batterId) {
+        continue;
+      }
+      const seasonPlayerId = buildSeasonPlayerId(teamKey, play.participants.batterId);
+      let batter = batters.get(seasonPlayerId);
+      if (!batter) {
+        batter = {
+          name: play.participants.batterName ?? play.participants.batterId,
+          team: teamName,
+          teamKey,
+          chart: emptyChart(),
+          balls: [],
+        };
+        batters.set(seasonPlayerId, batter);
+      }
+      addBattedBall(batter.chart, ball);
+      batter.balls.push(ball);
+    }
+  }
+
+  return {
+    games: games.length,
+    gameIds: games.map((game) => game.game.id).sort((a, b) => a - b),
+    pitcher: options?.pitcher ?? null,
+    teams: Array.from(teams.entries())
+      .map(([teamKey, team]) => ({ team: team.team, teamKey, chart: team.chart }))
+      .sort((a, b) => b.chart.ballsInPlay - a.chart.ballsInPlay || a.team.localeCompare(b.team)),
+    batters: Array.from(batters.entries())
+      .filter(([seasonPlayerId, batter]) => !batterFilter || matchesPlayer(batterFilter, seasonPlayerId, batter.name))
+      .map(([seasonPlayerId, batter]) => ({
+        seasonPlayerId,
+        name: batter.name,
+        team: batter.team,
+        teamKey: batter.teamKey,
+        chart: batter.chart,
+        battedBalls: batter.balls,
+      }))
+      .sort((a, b) => b.chart.ballsInPlay - a.chart.ballsInPlay || a.name.localeCompare(b.name)),
+  };
+}
+
+/** Standalone SVG of a spray chart: one bubble per fielder zone, sized by volume and shaded by hit rate. */
+export function renderSprayChartSvg(chart: SprayChart, options?: { title?: string | null }): string {
+  const maxTotal = Math.max(1, ...SPRAY_ZONES.map((zone) => chart.zones[zone].total));
+  const title = options?.title ? escapeXml(options.title) : "Spray chart";
+  const bubbles = SPRAY_ZONES.filter((zone) => chart.zones[zone].total > 0).map((zone) => {
+    const counts = chart.zones[zone];
+    const { x, y } = ZONE_POINTS[zone];
+    const radius = 10 + Math.sqrt(counts.total / maxTotal) * 22;
+    const hitRate = counts.hits / counts.total;
+    const fill = `rgb(${Math.round(60 + hitRate * 162)}, ${Math.round(110 - hitRate * 60)}, ${Math.round(200 - hitRate * 150)})`;
+    return [
+      `<g class="zone" data-zone="${zone}">`,
+      `<circle cx="${x}" cy="${y}" r="${radius.toFixed(1)}" fill="${fill}" fill-opacity="0.85" stroke="#ffffff" stroke-width="2"/>`,
+      `<text x="${x}" y="${y + 5}" text-anchor="middle" font-size="15" font-weight="700" fill="#ffffff">${counts.total}</text>`,
+      `<text x="${x}" y="${(y + radius + 13).toFixed(1)}" text-anchor="middle" font-size="10" fill="#1f2225">${zone} ${counts.hits}H-${counts.outs}O</text>`,
+      "</g>",
+    ].join("");
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 400 420" width="400" height="420" font-family="sans-serif">`,
+    `<title>${title}</title>`,
+    `<rect width="400" height="420" fill="#f2efe8"/>`,
+    `<path d="M200 370 L30.3 200.3 A240 240 0 0 1 369.7 200.3 Z" fill="#cfe3c2" stroke="#8fb07c" stroke-width="2"/>`,
+    `<path d="M200 370 L104.5 274.5 A135 135 0 0 1 295.5 274.5 Z" fill="#e4cfa9"/>`,
+    `<polygon points="200,370 255,315 200,260 145,315" fill="#cfe3c2" stroke="#ffffff" stroke-width="2"/>`,
+    ...bubbles,
+    `<text x="200" y="22" text-anchor="middle" font-size="15" font-weight="700" fill="#1f2225">${title}</text>`,
+    `<text x="200" y="410" text-anchor="middle" font-size="11" fill="#5f666f">${chart.ballsInPlay} balls in play, ${chart.unlocated} unlocated</text>`,
+    "</svg>",
+  ].join("\n");
+}
+
+function addBattedBall(chart: SprayChart, ball: SprayBattedBall): void {
+  chart.ballsInPlay += 1;
+  chart.byOutcome[ball.outcome] = (chart.byOutcome[ball.outcome] ?? 0) + 1;
+  if (!ball.zone) {
+    chart.unlocated += 1;
+    return;
+  }
+
+  const counts = chart.zones[ball.zone];
+  counts.total += 1;
+  counts.byOutcome[ball.outcome] = (counts.byOutcome[ball.outcome] ?? 0) + 1;
+  if (HIT_OUTCOMES.has(ball.outcome)) {
+    counts.hits += 1;
+  } else if (ball.outcome === "reached_on_error") {
+    counts.errors += 1;
+  } else {
+    counts.outs += 1;
+  }
+}
+
+function matchesPlayer(filter: string, id: string | null, name: string | null): boolean {
+  return (id !== null && id.toLowerCase() === filter) || (name ?? "").toLowerCase().includes(filter);
+}
+
+function emptyChart(): SprayChart {
+  return {
+    ballsInPlay: 0,
+    unlocated: 0,
+    zones: Object.fromEntries(
+      SPRAY_ZONES.map((zone) => [zone, { total: 0, hits: 0, outs: 0, errors: 0, byOutcome: {} }])
+    ) as Record<SprayZone, SprayZoneCounts>,
+    byOutcome: {},
+  };
+}
+
+function escapeXml(value: string): string {
+  return value.replace(/[<>&"']/g, (char) => `&#${char.charCodeAt(0)};`);
+}
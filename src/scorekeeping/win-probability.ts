@@ -0,0 +1,454 @@
+import type { FrontendWinProbability, LiveSituation } from "../types";
+import type { BaseballPlayWinExpectancy, BaseballUnifiedPlay } from "./baseball";
+import { baseStateKey, extractClauseSubject, trackBaseOutStates } from "./base-state";
+import { parsePitchContextFromText, parsePlayDescription } from "./play-description";
+import { DEFAULT_RUN_EXPECTANCY_MATRIX, lookupRunExpectancy, type RunExpectancyMatrix } from "./run-expectancy";
+
+export interface WinProbabilityState {
+  inning: number;
+  half: "top" | "bottom";
+  outs: number;
+  bases: { first: boolean; second: boolean; third: boolean };
+  awayScore: number;
+  homeScore: number;
+}
+
+export type WinProbability = FrontendWinProbability;
+
+export interface WinProbabilityOptions {
+  scheduledInnings?: number;
+}
+
+/** Minimal play shape shared by live dashboard plays and archived play-by-play. */
+export interface WinProbabilityTimelineInput {
+  key: string;
+  order: number;
+  inning: number | null;
+  half: "top" | "bottom" | null;
+  text: string;
+  batter: string | null;
+  isSubstitution: boolean;
+  outsAfterPlay: number | null;
+  awayScore: number | null;
+  homeScore: number | null;
+}
+
+export interface WinProbabilityTimelineEntry {
+  key: string;
+  inning: number;
+  half: "top" | "bottom";
+  outs: number;
+  bases: string;
+  awayScore: number;
+  homeScore: number;
+  homeWinProbability: number;
+  delta: number;
+}
+
+const MAX_RUNS_PER_HALF = 15;
+const MAX_EXTRA_INNINGS = 11;
+const MAX_TRACKED_MARGIN = 30;
+
+// Rough D1 plate-appearance outcome mix used to price how much the next batter can swing the game.
+const PLATE_APPEARANCE_MIX: Array<{ outcome: "out" | "walk" | "single" | "double" | "triple" | "home_run"; probability: number }> = [
+  { outcome: "out", probability: 0.66 },
+  { outcome: "walk", probability: 0.12 },
+  { outcome: "single", probability: 0.155 },
+  { outcome: "double", probability: 0.045 },
+  { outcome: "triple", probability: 0.005 },
+  { outcome: "home_run", probability: 0.015 },
+];
+
+/**
+ * Home/away win probability for a game state. Runs for the rest of the current half come from the
+ * state's run expectancy and scoring probability; each later half-inning draws from the matrix's
+ * fresh-inning run distribution until the scheduled innings are played or extras are decided.
+ */
+export function computeWinProbability(
+  state: WinProbabilityState,
+  matrix: RunExpectancyMatrix = DEFAULT_RUN_EXPECTANCY_MATRIX,
+  options?: WinProbabilityOptions
+): WinProbability {
+  const scheduledInnings = Math.max(1, options?.scheduledInnings ?? 9);
+  const outs = Math.max(0, Math.min(3, state.outs));
+  const cell = outs < 3 ? lookupRunExpectancy(matrix, state.bases, outs) : null;
+  const result = (home: number): WinProbability => ({
+    home: round(home),
+    away: round(1 - home),
+    runExpectancy: cell?.runExpectancy ?? null,
+    model: matrix.source,
+  });
+
+  const margin = state.homeScore - state.awayScore;
+  if (state.half === "bottom" && state.inning >= scheduledInnings && margin > 0) {
+    return result(1);
+  }
+
+  const currentRuns = cell ? remainingRunsDistribution(cell.runExpectancy, cell.scoringProbability) : [1];
+  const table = freshHalfTable(matrix, scheduledInnings);
+  const sign = state.half === "top" ? -1 : 1;
+  const home = currentRuns.reduce(
+    (sum, probability, runs) => sum + probability * table.afterHalf(state.inning, state.half, margin + sign * runs),
+    0
+  );
+
+  return result(home);
+}
+
+interface FreshHalfTable {
+  afterHalf: (inning: number, half: "top" | "bottom", margin: number) => number;
+}
+
+const freshHalfTables = new WeakMap<RunExpectancyMatrix, Map<number, FreshHalfTable>>();
+
+/**
+ * Memoized home win probability at the end of each half-inning by (inning, half, margin), so a
+ * game's worth of per-play lookups only walks the remaining innings once.
+ */
+function freshHalfTable(matrix: RunExpectancyMatrix, scheduledInnings: number): FreshHalfTable {
+  let byInnings = freshHalfTables.get(matrix);
+  if (!byInnings) {
+    byInnings = new Map();
+    freshHalfTables.set(matrix, byInnings);
+  }
+  const existing = byInnings.get(scheduledInnings);
+  if (existing) {
+    return existing;
+  }
+
+  const freshRuns = normalizeDistribution(matrix.inningRunDistribution);
+  const memo = new Map<string, number>();
+
+  const afterHalf = (inning: number, half: "top" | "bottom", margin: number): number => {
+    if (inning >= scheduledInnings && (half === "bottom" ? margin !== 0 : margin > 0)) {
+      return margin > 0 ? 1 : 0;
+    }
+    if (half === "bottom" && inning >= scheduledInnings + MAX_EXTRA_INNINGS) {
+      return 0.5;
+    }
+    if (Math.abs(margin) > MAX_TRACKED_MARGIN) {
+      return margin > 0 ? 1 : 0;
+    }
+
+    const nextInning = half === "top" ? inning : inning + 1;
+    const nextHalf = half === "top" ? "bottom" : "top";
+    const key = `${nextInning}|${nextHalf}|${margin}`;
+    const cached = memo.get(key);
+    if (cached !== undefined) {
+      return cached;
+    }
+
+    const sign = nextHalf === "top" ? -1 : 1;
+    const value = freshRuns.reduce(
+      (sum, probability, runs) => sum + probability * afterHalf(nextInning, nextHalf, margin + sign * runs),
+      0
+    );
+    memo.set(key, value);
+    return value;
+  };
+
+  const table = { afterHalf };
+  byInnings.set(scheduledInnings, table);
+  return table;
+}
+
+/** Returns null until the feed reports an inning, half and score. */
+export function computeLiveWinProbability(
+  situation: LiveSituation | null,
+  score: { awayScore: number | null; homeScore: number | null },
+  matrix?: RunExpectancyMatrix,
+  options?: WinProbabilityOptions
+): WinProbability | null {
+  if (!situation || situation.inning === null || situation.half === null) {
+    return null;
+  }
+  if (score.awayScore === null || score.homeScore === null) {
+    return null;
+  }
+
+  return computeWinProbability(
+    {
+      inning: situation.inning,
+      half: situation.half,
+      outs: situation.outs ?? 0,
+      // `bases.mask` is an icon enum on StatBroadcast and a bitmask on Sidearm; the decoded flags agree.
+      bases: { first: situation.bases.first, second: situation.bases.second, third: situation.bases.third },
+      awayScore: score.awayScore,
+      homeScore: score.homeScore,
+    },
+    matrix,
+    options
+  );
+}
+
+/**
+ * Leverage index: the expected win-probability swing of the next plate appearance in this state,
+ * relative to a tied, bases-empty plate appearance averaged over regulation (1.0 = typical).
+ */
+export function computeLeverageIndex(
+  state: WinProbabilityState,
+  matrix: RunExpectancyMatrix = DEFAULT_RUN_EXPECTANCY_MATRIX,
+  options?: WinProbabilityOptions
+): number {
+  const baseline = averageSwing(matrix, Math.max(1, options?.scheduledInnings ?? 9));
+  return baseline > 0 ? round(expectedSwing(state, matrix, options) / baseline) : 1;
+}
+
+/**
+ * Win expectancy before and after every play-by-play play, keyed by playId. Base-out states come
+ * from the play text; scoring-summary plays are not tracked and are absent from the map.
+ */
+export function computePlayWinExpectancy(
+  plays: BaseballUnifiedPlay[],
+  options?: WinProbabilityOptions & { matrix?: RunExpectancyMatrix }
+): Map<string, BaseballPlayWinExpectancy> {
+  const matrix = options?.matrix ?? DEFAULT_RUN_EXPECTANCY_MATRIX;
+  const playsById = new Map(plays.map((play) => [play.playId, play]));
+  const result = new Map<string, BaseballPlayWinExpectancy>();
+
+  for (const transition of trackBaseOutStates(plays)) {
+    const play = playsById.get(transition.playId);
+    const side = transition.battingSide;
+    if (!play || !side) {
+      continue;
+    }
+
+    const before: WinProbabilityState = {
+      inning: transition.inning,
+      half: transition.half,
+      outs: transition.before.outs,
+      bases: occupiedBases(transition.before.bases),
+      awayScore: transition.scoreBefore.away,
+      homeScore: transition.scoreBefore.home,
+    };
+    const after: WinProbabilityState = {
+      ...before,
+      outs: transition.after.outs,
+      bases: occupiedBases(transition.after.bases),
+      awayScore: before.awayScore + (side === "away" ? transition.runsScored : 0),
+      homeScore: before.homeScore + (side === "home" ? transition.runsScored : 0),
+    };
+
+    const homeBefore = computeWinProbability(before, matrix, options).home;
+    const homeAfter = computeWinProbability(after, matrix, options).home;
+    const wpa = round(homeAfter - homeBefore);
+    const battingWpa = side === "home" ? wpa : round(-wpa);
+
+    result.set(play.playId, {
+      homeBefore,
+      homeAfter,
+      wpa,
+      batterWpa: transition.isPlateAppearance && play.participants.batterId ? battingWpa : null,
+      pitcherWpa: play.participants.pitcherId ? round(-battingWpa) : null,
+      leverageIndex: computeLeverageIndex(before, matrix, options),
+    });
+  }
+
+  return result;
+}
+
+/** Softball plays seven innings; anything else this model understands is baseball. */
+export function scheduledInningsForSport(sport: string): number | null {
+  const normalized = sport.toLowerCase();
+  if (/^sb|softball/.test(normalized)) {
+    return 7;
+  }
+  return /^bs|baseball/.test(normalized) ? 9 : null;
+}
+
+/**
+ * Replays plays through the base-out tracker and reports the home win probability after each one,
+ * so the frontend can chart the game. Scores come from the feed when it reports them.
+ */
+export function buildWinProbabilityTimeline(
+  plays: WinProbabilityTimelineInput[],
+  matrix: RunExpectancyMatrix = DEFAULT_RUN_EXPECTANCY_MATRIX,
+  options?: WinProbabilityOptions
+): WinProbabilityTimelineEntry[] {
+  const unified = plays
+    .filter((play) => !play.isSubstitution && play.inning !== null && play.half !== null)
+    .map((play) => toUnifiedPlay(play));
+  const playsByKey = new Map(plays.map((play) => [play.key, play]));
+  const timeline: WinProbabilityTimelineEntry[] = [];
+  const score = { away: 0, home: 0 };
+  let previous = computeWinProbability(
+    { inning: 1, half: "top", outs: 0, bases: { first: false, second: false, third: false }, awayScore: 0, homeScore: 0 },
+    matrix,
+    options
+  ).home;
+
+  for (const transition of trackBaseOutStates(unified)) {
+    const play = playsByKey.get(transition.playId);
+    if (transition.battingSide) {
+      score[transition.battingSide] = transition.scoreBefore[transition.battingSide] + transition.runsScored;
+    }
+    score.away = play?.awayScore ?? score.away;
+    score.home = play?.homeScore ?? score.home;
+
+    const bases = transition.after.bases;
+    const probability = computeWinProbability(
+      {
+        inning: transition.inning,
+        half: transition.half,
+        outs: transition.after.outs,
+        bases: occupiedBases(bases),
+        awayScore: score.away,
+        homeScore: score.home,
+      },
+      matrix,
+      options
+    ).home;
+
+    timeline.push({
+      key: transition.playId,
+      inning: transition.inning,
+      half: transition.half,
+      outs: transition.after.outs,
+      bases: baseStateKey(bases),
+      awayScore: score.away,
+      homeScore: score.home,
+      homeWinProbability: probability,
+      delta: round(probability - previous),
+    });
+    previous = probability;
+  }
+
+  return timeline;
+}
+
+function expectedSwing(
+  state: WinProbabilityState,
+  matrix: RunExpectancyMatrix,
+  options: WinProbabilityOptions | undefined
+): number {
+  if (state.outs >= 3) {
+    return 0;
+  }
+  const current = computeWinProbability(state, matrix, options).home;
+  return PLATE_APPEARANCE_MIX.reduce((sum, entry) => {
+    const next = applyPlateAppearance(state, entry.outcome);
+    return sum + entry.probability * Math.abs(computeWinProbability(next, matrix, options).home - current);
+  }, 0);
+}
+
+const averageSwings = new WeakMap<RunExpectancyMatrix, Map<number, number>>();
+
+function averageSwing(matrix: RunExpectancyMatrix, scheduledInnings: number): number {
+  let byInnings = averageSwings.get(matrix);
+  if (!byInnings) {
+    byInnings = new Map();
+    averageSwings.set(matrix, byInnings);
+  }
+  const cached = byInnings.get(scheduledInnings);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  let total = 0;
+  let count = 0;
+  for (let inning = 1; inning <= scheduledInnings; inning += 1) {
+    for (const half of ["top", "bottom"] as const) {
+      for (let outs = 0; outs < 3; outs += 1) {
+        const state = { inning, half, outs, bases: { first: false, second: false, third: false }, awayScore: 0, homeScore: 0 };
+        total += expectedSwing(state, matrix, { scheduledInnings });
+        count += 1;
+      }
+    }
+  }
+  const average = count > 0 ? total / count : 0;
+  byInnings.set(scheduledInnings, average);
+  return average;
+}
+
+/** Station-to-station advancement: singles move runners two bases except from first, doubles score all but first. */
+function applyPlateAppearance(
+  state: WinProbabilityState,
+  outcome: (typeof PLATE_APPEARANCE_MIX)[number]["outcome"]
+): WinProbabilityState {
+  const { first, second, third } = state.bases;
+  const runnersOn = Number(first) + Number(second) + Number(third);
+  const withRuns = (runs: number, bases: WinProbabilityState["bases"]): WinProbabilityState => ({
+    ...state,
+    bases,
+    awayScore: state.awayScore + (state.half === "top" ? runs : 0),
+    homeScore: state.homeScore + (state.half === "bottom" ? runs : 0),
+  });
+
+  switch (outcome) {
+    case "out":
+      return { ...state, outs: state.outs + 1 };
+    case "walk":
+      return withRuns(first && second && third ? 1 : 0, {
+        first: true,
+        second: second || first,
+        third: third || (first && second),
+      });
+    case "single":
+      return withRuns(Number(second) + Number(third), { first: true, second: first, third: false });
+    case "double":
+      return withRuns(Number(second) + Number(third), { first: false, second: true, third: first });
+    case "triple":
+      return withRuns(runnersOn, { first: false, second: false, third: true });
+    case "home_run":
+      return withRuns(runnersOn + 1, { first: false, second: false, third: false });
+  }
+}
+
+function occupiedBases(bases: { first: string | null; second: string | null; third: string | null }) {
+  return { first: bases.first !== null, second: bases.second !== null, third: bases.third !== null };
+}
+
+function toUnifiedPlay(play: WinProbabilityTimelineInput): BaseballUnifiedPlay {
+  const parsed = parsePlayDescription(play.text);
+  return {
+    playId: play.key,
+    source: "play_by_play",
+    inning: play.inning,
+    half: play.half,
+    order: play.order,
+    battingSide: play.half === "top" ? "away" : play.half === "bottom" ? "home" : null,
+    battingTeam: null,
+    text: play.text,
+    participants: {
+      batterId: null,
+      batterName: play.batter ?? extractClauseSubject(play.text),
+      pitcherId: null,
+      pitcherName: null,
+    },
+    pitchContext: parsePitchContextFromText(play.text),
+    result: {
+      outcome: parsed.outcome,
+      tags: parsed.tags,
+      runsScored: 0,
+      isScoringPlay: false,
+      outsAfterPlay: play.outsAfterPlay,
+    },
+    scoring: { decisionRaw: null, decisionContext: null },
+    battedBall: { fielderCodes: [], fieldLocations: [], locationSource: "none", locationConfidence: 0 },
+    runnersBefore: null,
+    runnersAfter: null,
+    runnerMovements: [],
+    winExpectancy: null,
+  };
+}
+
+/** P(0 runs) = 1 - p; otherwise 1 + a geometric tail whose mean matches the cell's run expectancy. */
+function remainingRunsDistribution(runExpectancy: number, scoringProbability: number): number[] {
+  const probability = Math.max(0.001, Math.min(0.999, scoringProbability));
+  const meanWhenScoring = Math.max(1, runExpectancy / probability);
+  const ratio = (meanWhenScoring - 1) / meanWhenScoring;
+  const distribution = [1 - probability];
+  for (let runs = 1; runs <= MAX_RUNS_PER_HALF; runs += 1) {
+    distribution.push(probability * (1 - ratio) * ratio ** (runs - 1));
+  }
+  return normalizeDistribution(distribution);
+}
+
+function normalizeDistribution(distribution: number[]): number[] {
+  const total = distribution.reduce((sum, value) => sum + Math.max(0, value), 0);
+  return total > 0 ? distribution.map((value) => Math.max(0, value) / total) : [1];
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
@@ -7,9 +7,10 @@ import he from "he";
 import { tmpdir } from "os";
 import { join } from "path";
 import { promisify } from "util";
-import { getSidearmLiveGameStatus } from "./sidearm-live";
+import { liveStatsProviders } from "../pipelines/live-stats-provider";
 import { runWithConcurrency } from "../utils/async";
 import { TtlCache } from "../utils/cache";
+import { resolveTeamId } from "../utils/team-registry";
 import { cleanText, parseInteger } from "../utils/text";
 import type {
   D1ConferenceDirectoryEntry,
@@ -97,7 +98,7 @@ interface D1RawResponse {
 interface D1TeamLookup {
   byId: Map<number, D1TeamSeasonData>;
   bySlug: Map<string, D1TeamSeasonData>;
-  byName: Map<string, D1TeamSeasonData>;
+  byTeamId: Map<string, D1TeamSeasonData>;
 }
 
 interface ScheduleTileScore {
@@ -449,7 +450,7 @@ async function buildScoresFromScheduleTeams(
 
   const games = Array.from(byKey.values()).sort(compareScheduleDerivedGames);
   applyLoadedTeamRecordsToGames(games, teams, date);
-  await hydrateSidearmLiveStatuses(games);
+  await hydrateLiveStatuses(games);
 
   const payload: D1ScoresPayload = {
     date,
@@ -460,18 +461,18 @@ async function buildScoresFromScheduleTeams(
   return payload;
 }
 
-async function hydrateSidearmLiveStatuses(games: D1Game[]): Promise<void> {
-  const candidates = games.filter(
-    (game) =>
-      game.inProgress &&
-      game.statbroadcastId === null &&
-      typeof game.liveStatsUrl === "string" &&
-      /\/sidearmstats\//i.test(game.liveStatsUrl)
-  );
+async function hydrateLiveStatuses(games: D1Game[]): Promise<void> {
+  const candidates = games.flatMap((game) => {
+    if (!game.inProgress || game.statbroadcastId !== null || !game.liveStatsUrl) {
+      return [];
+    }
+    const resolved = liveStatsProviders.resolve({ liveStatsUrl: game.liveStatsUrl });
+    return resolved ? [{ game, ...resolved }] : [];
+  });
 
-  await runWithConcurrency(candidates, 4, async (game) => {
+  await runWithConcurrency(candidates, 4, async ({ game, provider, ref }) => {
     try {
-      const live = await getSidearmLiveGameStatus(game.liveStatsUrl ?? "");
+      const live = await provider.getStatus(ref);
       if (!live) {
         return;
       }
@@ -483,7 +484,7 @@ async function hydrateSidearmLiveStatuses(games: D1Game[]): Promise<void> {
       game.homeTeam.score = live.homeScore ?? game.homeTeam.score;
       game.location = game.location ?? live.location;
     } catch {
-      // Keep the D1-derived fallback status if Sidearm is unavailable.
+      // Keep the D1-derived fallback status if the live stats vendor is unavailable.
     }
   });
 }
@@ -608,7 +609,7 @@ function teamLookupKey(team: D1TeamSeasonData): string {
     return `slug:${team.slug}`;
   }
 
-  return `name:${normalizeTeamKey(team.name)}`;
+  return `name:${resolveD1TeamId(team.name)}`;
 }
 
 function buildScoresHeaders(date: string): Record<string, string> {
@@ -993,7 +994,7 @@ async function fetchDynamicTeamScheduleHtml(team: D1TeamSeasonData): Promise<str
 function buildTeamLookup(teams: D1TeamSeasonData[]): D1TeamLookup {
   const byId = new Map<number, D1TeamSeasonData>();
   const bySlug = new Map<string, D1TeamSeasonData>();
-  const byName = new Map<string, D1TeamSeasonData>();
+  const byTeamId = new Map<string, D1TeamSeasonData>();
 
   for (const team of teams) {
     if (team.id !== null && team.id !== undefined) {
@@ -1005,13 +1006,13 @@ function buildTeamLookup(teams: D1TeamSeasonData[]): D1TeamLookup {
       bySlug.set(slug, team);
     }
 
-    const normalizedName = normalizeTeamKey(team.name);
-    if (normalizedName) {
-      byName.set(normalizedName, team);
+    const teamId = resolveD1TeamId(team.name);
+    if (teamId) {
+      byTeamId.set(teamId, team);
     }
   }
 
-  return { byId, bySlug, byName };
+  return { byId, bySlug, byTeamId };
 }
 
 async function getScheduleLookupTeamsFromDirectory(date: string): Promise<D1TeamSeasonData[]> {
@@ -1142,8 +1143,8 @@ export function findD1TeamSeasonDataByKey(
     return bySlug;
   }
 
-  const lookupName = normalizeTeamKey(key);
-  return teams.find((team) => normalizeTeamKey(team.name) === lookupName) ?? null;
+  const lookupId = resolveTeamId(key);
+  return teams.find((team) => resolveD1TeamId(team.name) === lookupId) ?? null;
 }
 
 function normalizeTeamLookupCacheKey(value: string): string {
@@ -1158,7 +1159,7 @@ function normalizeTeamLookupCacheKey(value: string): string {
     return `slug:${urlSlug}`;
   }
 
-  return `name:${normalizeTeamKey(normalizedValue)}`;
+  return `name:${resolveTeamId(normalizedValue)}`;
 }
 
 function toScheduleLookupTeam(
@@ -1194,21 +1195,23 @@ function resolveCurrentTeamSide(
   homeName: string,
   roadName: string
 ): "home" | "road" | null {
-  const teamName = normalizeTeamKey(team.name);
-  if (teamName === normalizeTeamKey(homeName)) {
+  const teamId = resolveD1TeamId(team.name);
+  const homeId = resolveD1TeamId(homeName);
+  const roadId = resolveD1TeamId(roadName);
+  if (teamId === homeId) {
     return "home";
   }
 
-  if (teamName === normalizeTeamKey(roadName)) {
+  if (teamId === roadId) {
     return "road";
   }
 
   const teamSlug = cleanText(team.slug ?? "").toLowerCase();
   if (teamSlug) {
-    if (teamSlug === normalizeTeamKey(homeName).replace(/\s+/g, "")) {
+    if (teamSlug === homeId.replace(/-/g, "")) {
       return "home";
     }
-    if (teamSlug === normalizeTeamKey(roadName).replace(/\s+/g, "")) {
+    if (teamSlug === roadId.replace(/-/g, "")) {
       return "road";
     }
   }
@@ -1223,6 +1226,11 @@ function decodeScheduleName(value: string | undefined): string {
   return cleanText(decoded);
 }
 
+/** Registry id of a scraped D1 team name; names the registry does not know go to the unmatched report. */
+function resolveD1TeamId(value: string): string {
+  return resolveTeamId(cleanText(he.decode(value)), "d1");
+}
+
 function normalizeTeamKey(value: string): string {
   return cleanText(he.decode(value))
     .toLowerCase()
@@ -1396,8 +1404,8 @@ function findScheduleGameForDate(
     return null;
   }
 
-  const normalizedOpponent = normalizeTeamKey(opponentName);
-  const exactMatch = onDate.find((game) => normalizeTeamKey(game.opponentName ?? "") === normalizedOpponent);
+  const opponentId = resolveD1TeamId(opponentName);
+  const exactMatch = onDate.find((game) => resolveD1TeamId(game.opponentName ?? "") === opponentId);
   if (exactMatch) {
     return exactMatch;
   }
@@ -1587,8 +1595,7 @@ function findOpponentTeam(
     }
   }
 
-  const normalizedPartial = normalizeTeamKey(partial.name || fallbackName);
-  return lookup.byName.get(normalizedPartial) ?? null;
+  return lookup.byTeamId.get(resolveD1TeamId(partial.name || fallbackName)) ?? null;
 }
 
 function snapshotMatchesTeam(snapshot: TeamSnapshot, team: D1TeamSeasonData): boolean {
@@ -1601,8 +1608,8 @@ function snapshotMatchesTeam(snapshot: TeamSnapshot, team: D1TeamSeasonData): bo
     return true;
   }
 
-  const snapshotName = normalizeTeamKey(snapshot.name);
-  return snapshotName.length > 0 && snapshotName === normalizeTeamKey(team.name);
+  const snapshotId = resolveD1TeamId(snapshot.name);
+  return snapshotId.length > 0 && snapshotId === resolveD1TeamId(team.name);
 }
 
 function extractTeamScheduleLiveStatsUrl(tile: any): {
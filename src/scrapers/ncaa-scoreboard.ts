@@ -0,0 +1,230 @@
+import axios from "axios";
+import type { D1Game, D1ScoresPayload, LineScore, LineScoreRow, TeamSnapshot } from "../types";
+import { TtlCache } from "../utils/cache";
+import { parseEasternDateTime } from "../utils/date";
+import { getTeamRegistry } from "../utils/team-registry";
+import { cleanText, parseInteger } from "../utils/text";
+
+const NCAA_DATA_BASE_URL = "https://data.ncaa.com/casablanca";
+const NCAA_SITE_BASE_URL = "https://www.ncaa.com";
+const SCOREBOARD_CACHE_TTL_MS = 60_000;
+const GAME_CACHE_TTL_MS = 30_000;
+const scoreboardCache = new TtlCache<string, D1ScoresPayload>();
+const lineScoreCache = new TtlCache<string, LineScore | null>();
+
+interface NcaaTeamNames {
+  char6?: string | null;
+  short?: string | null;
+  seo?: string | null;
+  full?: string | null;
+}
+
+interface NcaaScoreboardTeam {
+  score?: string | number | null;
+  names?: NcaaTeamNames | null;
+  winner?: boolean | null;
+  description?: string | null;
+  rank?: string | number | null;
+  conferences?: Array<{ conferenceName?: string | null; conferenceSeo?: string | null }> | null;
+}
+
+interface NcaaScoreboardGame {
+  gameID?: string | number | null;
+  away?: NcaaScoreboardTeam | null;
+  home?: NcaaScoreboardTeam | null;
+  finalMessage?: string | null;
+  url?: string | null;
+  startTime?: string | null;
+  startTimeEpoch?: string | number | null;
+  gameState?: string | null;
+  currentPeriod?: string | null;
+}
+
+interface NcaaScoreboardResponse {
+  updated_at?: string | null;
+  games?: Array<{ game?: NcaaScoreboardGame | null }> | null;
+}
+
+interface NcaaLineScorePeriod {
+  per?: string | number | null;
+  home?: string | number | null;
+  visit?: string | number | null;
+}
+
+interface NcaaGameInfoResponse {
+  away?: NcaaScoreboardTeam | null;
+  home?: NcaaScoreboardTeam | null;
+  linescores?: NcaaLineScorePeriod[] | null;
+}
+
+/** NCAA.com scoreboard for one `YYYYMMDD` date, mapped onto the D1 scoreboard game shape. */
+export async function getNcaaScoreboard(date: string): Promise<D1ScoresPayload> {
+  const cached = scoreboardCache.get(date);
+  if (cached) {
+    return cached;
+  }
+
+  const datePath = `${date.slice(0, 4)}/${date.slice(4, 6)}/${date.slice(6, 8)}`;
+  const endpoint = `${NCAA_DATA_BASE_URL}/scoreboard/baseball/d1/${datePath}/scoreboard.json`;
+  const response = await axios.get<NcaaScoreboardResponse>(endpoint, { timeout: 20_000 });
+  const parsed = parseNcaaScoreboard(response.data, date);
+  scoreboardCache.set(date, parsed, SCOREBOARD_CACHE_TTL_MS);
+  return parsed;
+}
+
+/** Inning-by-inning line score from the NCAA.com game center; null when the game has none yet. */
+export async function getNcaaGameLineScore(gameId: string): Promise<LineScore | null> {
+  const cached = lineScoreCache.get(gameId);
+  if (cached !== undefined) {
+    return cached;
+  }
+
+  const response = await axios.get<NcaaGameInfoResponse>(`${NCAA_DATA_BASE_URL}/game/${gameId}/gameInfo.json`, {
+    timeout: 20_000,
+  });
+  const parsed = parseNcaaGameLineScore(response.data);
+  lineScoreCache.set(gameId, parsed, GAME_CACHE_TTL_MS);
+  return parsed;
+}
+
+export function parseNcaaScoreboard(payload: NcaaScoreboardResponse, date: string): D1ScoresPayload {
+  const games = (payload.games ?? [])
+    .map((entry) => (entry.game ? parseNcaaGame(entry.game) : null))
+    .filter((game): game is D1Game => game !== null);
+
+  return {
+    date,
+    sourceUpdatedAt: parseNcaaUpdatedAt(payload.updated_at),
+    games,
+  };
+}
+
+export function parseNcaaGameLineScore(payload: NcaaGameInfoResponse): LineScore | null {
+  const periods = payload.linescores ?? [];
+  const innings = periods.filter((period) => /^\d+$/.test(String(period.per ?? "").trim()));
+  if (innings.length === 0) {
+    return null;
+  }
+
+  const totalFor = (label: string, side: "visit" | "home"): number | null => {
+    const period = periods.find((entry) => cleanText(String(entry.per ?? "")).toUpperCase() === label);
+    return toScore(period?.[side]);
+  };
+
+  const buildRow = (team: NcaaScoreboardTeam | null | undefined, side: "visit" | "home"): LineScoreRow => {
+    const runs = totalFor("R", side) ?? toScore(team?.score);
+    const totals = { r: runs, h: totalFor("H", side), e: totalFor("E", side) };
+    return {
+      team: teamName(team) ?? (side === "visit" ? "Away" : "Home"),
+      innings: innings.map((period) => ({
+        inning: Number.parseInt(String(period.per), 10),
+        value: toScore(period[side]),
+      })),
+      totals,
+      columns: totals,
+    };
+  };
+
+  return {
+    headers: ["Team", ...innings.map((period) => String(period.per)), "R", "H", "E"],
+    rows: [buildRow(payload.away, "visit"), buildRow(payload.home, "home")],
+  };
+}
+
+function parseNcaaGame(game: NcaaScoreboardGame): D1Game | null {
+  const gameId = cleanText(String(game.gameID ?? ""));
+  const roadTeam = buildTeamSnapshot(game.away);
+  const homeTeam = buildTeamSnapshot(game.home);
+  if (!gameId || !roadTeam || !homeTeam) {
+    return null;
+  }
+
+  const state = cleanText(game.gameState ?? "").toLowerCase();
+  const epoch = parseInteger(String(game.startTimeEpoch ?? ""));
+  const conferences = [game.away, game.home].flatMap((team) => team?.conferences ?? []);
+  const gameCenterUrl = `${NCAA_SITE_BASE_URL}${cleanText(game.url ?? "") || `/game/${gameId}`}`;
+
+  return {
+    key: `ncaa-${gameId}`,
+    conferenceIds: unique(conferences.map((conference) => cleanText(conference.conferenceSeo ?? ""))),
+    conferenceNames: unique(conferences.map((conference) => cleanText(conference.conferenceName ?? ""))),
+    statusText: buildStatusText(game, state),
+    matchupTimeEpoch: epoch,
+    matchupTimeIso: epoch !== null ? new Date(epoch * 1000).toISOString() : null,
+    inProgress: state === "live",
+    isOver: state === "final",
+    location: null,
+    roadTeam,
+    homeTeam,
+    links: [{ label: "NCAA Game Center", url: gameCenterUrl }],
+    liveStatsUrl: null,
+    statbroadcastId: null,
+    statbroadcastQuery: {},
+  };
+}
+
+function buildTeamSnapshot(team: NcaaScoreboardTeam | null | undefined): TeamSnapshot | null {
+  const name = teamName(team);
+  if (!team || !name) {
+    return null;
+  }
+
+  const seo = cleanText(team.names?.seo ?? "");
+  const record = cleanText(team.description ?? "").match(/\((\d+-\d+(?:-\d+)?)\)/)?.[1] ?? null;
+  const rank = parseInteger(String(team.rank ?? ""));
+  const registryTeam = getTeamRegistry().resolve(name, "ncaa-scoreboard");
+
+  // NCAA ids are not D1Baseball ids, so the snapshot stays id-less and merges by name.
+  return {
+    id: null,
+    name,
+    record,
+    rank: rank !== null && rank > 0 ? rank : null,
+    score: toScore(team.score),
+    logoUrl:
+      registryTeam?.logoUrl ?? (seo ? `${NCAA_SITE_BASE_URL}/sites/default/files/images/logos/schools/bgl/${seo}.svg` : null),
+    teamUrl: seo ? `${NCAA_SITE_BASE_URL}/schools/${seo}` : null,
+    searchTokens: name
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, " ")
+      .split(" ")
+      .filter((token) => token.length > 0),
+  };
+}
+
+function buildStatusText(game: NcaaScoreboardGame, state: string): string {
+  if (state === "final") {
+    const extra = cleanText(game.finalMessage ?? "").match(/\((\d+)\)/)?.[1];
+    return extra ? `Final/${extra}` : "Final";
+  }
+
+  if (state === "live") {
+    const period = cleanText(game.currentPeriod ?? "").replace(/^bottom\b/i, "Bot");
+    return period.replace(/(\d+)(?:st|nd|rd|th)\b/i, "$1") || "Live";
+  }
+
+  return cleanText(game.startTime ?? "") || cleanText(game.finalMessage ?? "") || "Scheduled";
+}
+
+function teamName(team: NcaaScoreboardTeam | null | undefined): string | null {
+  return cleanText(team?.names?.short ?? "") || cleanText(team?.names?.full ?? "") || null;
+}
+
+/** `updated_at` is "MM-DD-YYYY HH:mm:ss" in US Eastern time. */
+function parseNcaaUpdatedAt(value: string | null | undefined): string | null {
+  const match = cleanText(value ?? "").match(/^(\d{2})-(\d{2})-(\d{4}) (\d{2}):(\d{2}):(\d{2})$/);
+  if (!match) {
+    return null;
+  }
+
+  const [, month, day, year, hour, minute, second] = match;
+  return parseEasternDateTime(`${year}-${month}-${day}T${hour}:${minute}:${second}`)?.toISOString() ?? null;
+}
+
+function toScore(value: string | number | null | undefined): number | null {
+  return parseInteger(value === null || value === undefined ? null : String(value));
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values.filter((value) => value.length > 0)));
+}
@@ -0,0 +1,489 @@
+import crypto from "crypto";
+import axios from "axios";
+import { load } from "cheerio";
+import type { Element } from "domhandler";
+import {
+  buildLiveDashboardPlays,
+  estimateOutsRecordedOnPlay,
+  type LiveDashboardPlay,
+  type LivePlayEvent,
+} from "../pipelines/live-play-feed";
+import { parseSubstitutionText } from "../scorekeeping/lineup-timeline";
+import type {
+  LineScore,
+  LineScoreRow,
+  LiveSituation,
+  StatBroadcastEventMeta,
+  StatBroadcastLiveSummary,
+  StatsSection,
+  StatsTable,
+  StatsTableRow,
+} from "../types";
+import { getTeamRegistry, resolveTeamId } from "../utils/team-registry";
+import { cleanText, parseInteger } from "../utils/text";
+
+export interface PrestoSportsPages {
+  boxHtml: string;
+  /** The `?view=plays` page; null when it could not be loaded. */
+  playsHtml: string | null;
+}
+
+export interface PrestoSportsLiveDashboard {
+  summary: StatBroadcastLiveSummary;
+  events: LivePlayEvent[];
+  plays: LiveDashboardPlay[];
+  playsSections: StatsSection[];
+  lineupsSections: StatsSection[];
+  boxSections: StatsSection[];
+}
+
+export interface PrestoSportsLiveGameStatus {
+  statusText: string;
+  inProgress: boolean;
+  isOver: boolean;
+  roadScore: number | null;
+  homeScore: number | null;
+  location: string | null;
+}
+
+interface PrestoTeamLine {
+  name: string;
+  innings: Array<number | null>;
+  runs: number | null;
+  hits: number | null;
+  errors: number | null;
+}
+
+/** PrestoSports box scores live at `/sports/<sport>/<season>/boxscores/<game>.xml`. */
+export function isPrestoSportsBoxScoreUrl(liveStatsUrl: string): boolean {
+  return /\/boxscores\/[^/?#]+\.xml(?:[?#]|$)/i.test(liveStatsUrl.trim());
+}
+
+/** A game is in progress once plays, an inning status ("Bot 3") or line score runs show up. */
+export function buildPrestoSportsLiveGameStatus(dashboard: PrestoSportsLiveDashboard): PrestoSportsLiveGameStatus {
+  const { summary } = dashboard;
+  const isOver = summary.event.completed;
+  const started =
+    dashboard.events.length > 0 ||
+    /^(top|bot|mid|end)\s+\d+/i.test(summary.statusText ?? "") ||
+    (summary.lineScore?.rows ?? []).some((row) => row.innings.some((cell) => cell.value !== null));
+  return {
+    statusText: summary.statusText ?? (isOver ? "Final" : "Live"),
+    inProgress: !isOver && started,
+    isOver,
+    roadScore: summary.visitorScore,
+    homeScore: summary.homeScore,
+    location: summary.event.location,
+  };
+}
+
+/** Fetches on every call; live callers share one copy through `pollPrestoSportsDashboard`. */
+export async function getPrestoSportsLiveDashboard(liveStatsUrl: string): Promise<PrestoSportsLiveDashboard | null> {
+  const boxUrl = normalizeBoxScoreUrl(liveStatsUrl);
+  if (!boxUrl) {
+    return null;
+  }
+
+  const boxHtml = await fetchPrestoSportsPage(boxUrl);
+  if (!boxHtml) {
+    return null;
+  }
+
+  let playsHtml: string | null = null;
+  try {
+    playsHtml = await fetchPrestoSportsPage(`${boxUrl}?view=plays`);
+  } catch {
+    // The box score still carries the score and lineups; plays retry on the next poll.
+  }
+
+  return parsePrestoSportsLiveDashboard({ boxHtml, playsHtml }, boxUrl);
+}
+
+export function parsePrestoSportsLiveDashboard(
+  pages: PrestoSportsPages,
+  liveStatsUrl: string,
+  fetchedAt = new Date().toISOString()
+): PrestoSportsLiveDashboard | null {
+  const $ = load(pages.boxHtml);
+  const lines = parseLineScoreLines($);
+  if (lines.length < 2) {
+    return null;
+  }
+
+  const [away, home] = lines;
+  [away, home].forEach((line) => getTeamRegistry().resolve(line.name, "prestosports"));
+  const events = pages.playsHtml ? parsePrestoSportsPlays(pages.playsHtml) : [];
+  const statusText = parseStatusText($);
+  const completed = /^final/i.test(statusText ?? "");
+  const info = parseGameInfo($);
+  const id = hashStringToPositiveInt(liveStatsUrl);
+
+  const event: StatBroadcastEventMeta = {
+    id,
+    title: `${away.name} at ${home.name}`,
+    sport: "bsgame",
+    xmlFile: `prestosports:${liveStatsUrl}`,
+    date: info.get("date") ?? null,
+    time: info.get("start") ?? null,
+    venue: info.get("site") ?? null,
+    location: info.get("site") ?? null,
+    homeName: home.name,
+    visitorName: away.name,
+    completed,
+  };
+
+  const summary: StatBroadcastLiveSummary = {
+    id,
+    event,
+    statusText,
+    visitorTeam: away.name,
+    homeTeam: home.name,
+    visitorScore: away.runs,
+    homeScore: home.runs,
+    lineScore: buildLineScore(lines),
+    situation: null,
+    thisInning: null,
+    fetchedAt,
+  };
+
+  const plays = buildLiveDashboardPlays(events, summary);
+  summary.situation = completed ? null : buildSituation(statusText, plays);
+
+  const boxTables = listBoxTables($, away.name, home.name);
+  return {
+    summary,
+    events,
+    plays,
+    playsSections: [],
+    lineupsSections: boxTables
+      .filter((table) => table.kind === "Batting")
+      .map((table) => buildLineupSection($, table.node, table.team)),
+    boxSections: boxTables.map((table) => ({
+      title: `${table.team} ${table.kind}`,
+      tables: [parseStatsTable($, table.node)],
+    })),
+  };
+}
+
+/**
+ * Half-inning tables are captioned "Yale - Top of 1st"; inning summary rows are skipped. Presto does not
+ * print the out count, so each play carries the outs before it as counted from the narratives.
+ */
+export function parsePrestoSportsPlays(playsHtml: string): LivePlayEvent[] {
+  const $ = load(playsHtml);
+  const events: LivePlayEvent[] = [];
+  const occurrences = new Map<string, number>();
+
+  $("table").each((_, tableNode) => {
+    const table = $(tableNode);
+    const heading = cleanText(table.find("caption").first().text()) || cleanText(table.prevAll("h2, h3, h4").first().text());
+    const halfMatch = heading.match(/\b(top|bottom|bot)\b(?:\s+of)?(?:\s+the)?\s+(\d+)/i);
+    if (!halfMatch) {
+      return;
+    }
+
+    const half = halfMatch[1].toLowerCase() === "top" ? "top" : "bottom";
+    const inning = Number.parseInt(halfMatch[2], 10);
+    let outs = 0;
+
+    table.find("tbody tr").each((__, rowNode) => {
+      const row = $(rowNode);
+      if (/\b(totals|summary)\b/i.test(row.attr("class") ?? "")) {
+        return;
+      }
+
+      const textCell = row.find(".text").first();
+      const text = cleanText((textCell.length > 0 ? textCell : row.find("th, td").first()).text());
+      if (!text || /^(inning summary|runs?\s*:)/i.test(text)) {
+        return;
+      }
+
+      const isSubstitution = parseSubstitutionText(text) !== null;
+      const outsBefore = outs;
+      outs = isSubstitution ? outs : Math.min(3, outs + estimateOutsRecordedOnPlay(text));
+      const signature = `${inning}|${half}|${text}`;
+      const occurrence = (occurrences.get(signature) ?? 0) + 1;
+      occurrences.set(signature, occurrence);
+
+      events.push({
+        key: crypto.createHash("sha1").update(`prestosports|${signature}|${occurrence}`).digest("hex"),
+        order: events.length + 1,
+        inning,
+        half,
+        isSubstitution,
+        text,
+        scoringDecision: null,
+        batter: null,
+        pitcher: null,
+        outs: outsBefore,
+        sectionTitle: "Play-by-Play",
+      });
+    });
+  });
+
+  return events;
+}
+
+async function fetchPrestoSportsPage(url: string): Promise<string | null> {
+  const response = await axios.get<string>(url, {
+    timeout: 20_000,
+    responseType: "text",
+    transformResponse: [(value) => value],
+    validateStatus: (status) => status >= 200 && status < 500,
+  });
+
+  return response.status >= 400 ? null : String(response.data ?? "");
+}
+
+function parseLineScoreLines($: ReturnType<typeof load>): PrestoTeamLine[] {
+  const table = $(".linescore table, table.linescore").first();
+  if (table.length === 0) {
+    return [];
+  }
+
+  const headers = table
+    .find("thead th")
+    .map((_, node) => cleanText($(node).text()).toLowerCase())
+    .get();
+
+  return table
+    .find("tbody tr")
+    .map((_, rowNode) => {
+      const cells = $(rowNode)
+        .find("th, td")
+        .map((__, cellNode) => cleanText($(cellNode).find(".team-name").first().text() || $(cellNode).text()))
+        .get();
+      const name = cells[0];
+      if (!name) {
+        return null;
+      }
+
+      const valueFor = (header: string): number | null => {
+        const index = headers.indexOf(header);
+        return index >= 0 ? parseInteger(cells[index]) : null;
+      };
+      const line: PrestoTeamLine = {
+        name,
+        innings: headers.flatMap((header, index) => (/^\d+$/.test(header) ? [parseInteger(cells[index])] : [])),
+        runs: valueFor("r"),
+        hits: valueFor("h"),
+        errors: valueFor("e"),
+      };
+      return line;
+    })
+    .get()
+    .filter((line): line is PrestoTeamLine => line !== null);
+}
+
+function buildLineScore(lines: PrestoTeamLine[]): LineScore {
+  const inningCount = Math.max(...lines.map((line) => line.innings.length));
+  const rows: LineScoreRow[] = lines.map((line) => {
+    const totals = { r: line.runs, h: line.hits, e: line.errors, lob: null };
+    return {
+      team: line.name,
+      innings: Array.from({ length: inningCount }, (_, index) => ({
+        inning: index + 1,
+        value: line.innings[index] ?? null,
+      })),
+      totals,
+      columns: totals,
+    };
+  });
+
+  return {
+    headers: ["Team", ...Array.from({ length: inningCount }, (_, index) => String(index + 1)), "R", "H", "E"],
+    rows,
+  };
+}
+
+function parseStatusText($: ReturnType<typeof load>): string | null {
+  const raw = cleanText($(".game-status, .status").first().text());
+  if (!raw) {
+    return null;
+  }
+
+  const live = raw.match(/\b(top|bot|bottom|mid|middle|end)\w*\s+(?:of\s+(?:the\s+)?)?(\d+)/i);
+  if (!live) {
+    return raw;
+  }
+
+  const label = live[1].toLowerCase().startsWith("bot") ? "Bot" : live[1].toLowerCase().startsWith("mid") ? "Mid" : capitalize(live[1]);
+  return `${label} ${live[2]}`;
+}
+
+/** Reads the `<dl>` under `.game-info` ("Date", "Site", "Start", ...) keyed by lowercased label. */
+function parseGameInfo($: ReturnType<typeof load>): Map<string, string> {
+  const info = new Map<string, string>();
+  $(".game-info dt").each((_, node) => {
+    const label = cleanText($(node).text()).replace(/:$/, "").toLowerCase();
+    const value = cleanText($(node).next("dd").text());
+    if (label && value) {
+      info.set(label, value);
+    }
+  });
+  return info;
+}
+
+function buildSituation(statusText: string | null, plays: LiveDashboardPlay[]): LiveSituation | null {
+  const match = (statusText ?? "").match(/^(Top|Bot) (\d+)$/);
+  if (!match) {
+    return null;
+  }
+
+  const half = match[1] === "Top" ? "top" : "bottom";
+  const inning = Number.parseInt(match[2], 10);
+  const lastPlay = [...plays].reverse().find((play) => play.inning === inning && play.half === half);
+  const outs = lastPlay?.outsAfterPlay ?? 0;
+
+  return {
+    inningText: statusText,
+    half,
+    inning,
+    count: { balls: null, strikes: null },
+    outs: outs >= 3 ? null : outs,
+    // The static box score does not publish runners, so the bases stay unknown.
+    bases: { first: false, second: false, third: false, mask: null },
+    battingTeam: half === "top" ? "away" : "home",
+    batter: { name: null, ab: null, hits: null, summary: null },
+    pitcher: { name: null, pitchCount: null },
+  };
+}
+
+/** Batting and pitching tables, assigned to a team by caption or else by page order (away first). */
+function listBoxTables(
+  $: ReturnType<typeof load>,
+  awayName: string,
+  homeName: string
+): Array<{ team: string; kind: "Batting" | "Pitching"; node: Element }> {
+  const tables: Array<{ team: string; kind: "Batting" | "Pitching"; node: Element }> = [];
+
+  $("table").each((_, node) => {
+    const headers = $(node)
+      .find("thead th")
+      .map((__, headerNode) => cleanText($(headerNode).text()))
+      .get();
+    const kind = headers.includes("AB") ? "Batting" : headers.includes("IP") ? "Pitching" : null;
+    if (!kind) {
+      return;
+    }
+
+    const caption = cleanText($(node).find("caption").first().text());
+    const seen = tables.filter((table) => table.kind === kind).length;
+    tables.push({ team: matchTeamName(caption, awayName, homeName) ?? (seen === 0 ? awayName : homeName), kind, node });
+  });
+
+  return tables;
+}
+
+/** Starters take spots 1-9 in order; rows with Presto's `sub` class are substitutes without a spot. */
+function buildLineupSection($: ReturnType<typeof load>, tableNode: Element, team: string): StatsSection {
+  const table = parseStatsTable($, tableNode);
+  const rowNodes = $(tableNode).find("tbody tr").toArray();
+  let spot = 0;
+
+  const rows: StatsTableRow[] = table.rows.flatMap((row, index) => {
+    const player = String(row.cells[0] ?? "");
+    if (!player || /^totals?$/i.test(player)) {
+      return [];
+    }
+
+    const isSubstitute = /\bsub\b/i.test($(rowNodes[index]).attr("class") ?? "");
+    spot += isSubstitute ? 0 : 1;
+    const parsed = parsePlayerCell(player);
+    const ab = typeof row.values.ab === "number" ? row.values.ab : null;
+    const hits = typeof row.values.h === "number" ? row.values.h : null;
+    const today = ab !== null && hits !== null ? `${hits}-${ab}` : null;
+    const lineupSpot = isSubstitute ? null : spot;
+    return [
+      {
+        cells: [lineupSpot, parsed.name, parsed.position, today, null],
+        values: { spot: lineupSpot, "# player": parsed.name, pos: parsed.position, today, avg: null },
+      },
+    ];
+  });
+
+  return {
+    title: `${team} Lineup`,
+    tables: [{ headers: ["Spot", "# Player", "Pos", "Today", "Avg"], rows }],
+  };
+}
+
+function parseStatsTable($: ReturnType<typeof load>, tableNode: Element): StatsTable {
+  const table = $(tableNode);
+  const headers = table
+    .find("thead th")
+    .map((_, node) => cleanText($(node).text()))
+    .get();
+
+  const rows = table
+    .find("tbody tr")
+    .map((_, rowNode) => {
+      const row = $(rowNode);
+      const cells = row
+        .find("th, td")
+        .map((__, cellNode) => {
+          const text = cleanText($(cellNode).text());
+          return /^-?\d+$/.test(text) ? Number.parseInt(text, 10) : text || null;
+        })
+        .get();
+      const values: Record<string, string | number | null> = {};
+      headers.forEach((header, index) => {
+        values[header.toLowerCase().replace(/[^a-z0-9]+/g, "_") || `col_${index + 1}`] = cells[index] ?? null;
+      });
+      return { cells, values };
+    })
+    .get();
+
+  return { headers, rows };
+}
+
+/** "Miller, Bryce c" -> { name: "Bryce Miller", position: "c" }. */
+function parsePlayerCell(value: string): { name: string; position: string | null } {
+  const match = value.match(/^(.*?)\s+((?:p|c|1b|2b|3b|ss|lf|cf|rf|dh|ph|pr)(?:\/(?:p|c|1b|2b|3b|ss|lf|cf|rf|dh|ph|pr))*)$/i);
+  const rawName = cleanText(match?.[1] ?? value);
+  const [last, first] = rawName.split(",").map((part) => cleanText(part));
+  return {
+    name: first ? `${first} ${last}` : rawName,
+    position: match?.[2].toLowerCase() ?? null,
+  };
+}
+
+/** A caption naming the same registry team wins, else the longest name in it ("Texas A&M Batting" is not "Texas"). */
+function matchTeamName(caption: string, awayName: string, homeName: string): string | null {
+  const normalized = caption.toLowerCase();
+  if (!normalized) {
+    return null;
+  }
+
+  const names = [awayName, homeName];
+  const exact = names.find((name) => resolveTeamId(name) === resolveTeamId(caption));
+  if (exact) {
+    return exact;
+  }
+  return (
+    names
+      .filter((name) => normalized.includes(name.toLowerCase()))
+      .sort((a, b) => b.length - a.length)[0] ?? null
+  );
+}
+
+function normalizeBoxScoreUrl(liveStatsUrl: string): string | null {
+  try {
+    const url = new URL(liveStatsUrl.trim());
+    url.search = "";
+    url.hash = "";
+    return url.toString();
+  } catch {
+    return null;
+  }
+}
+
+function hashStringToPositiveInt(value: string): number {
+  const digest = crypto.createHash("md5").update(value).digest("hex").slice(0, 8);
+  const parsed = Number.parseInt(digest, 16);
+  return Math.max(1, parsed & 0x7fffffff);
+}
+
+function capitalize(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+}
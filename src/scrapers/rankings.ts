@@ -2,7 +2,7 @@ import axios from "axios";
 import { load } from "cheerio";
 import { TtlCache } from "../utils/cache";
 import { cleanText, parseInteger } from "../utils/text";
-import { getBrandingLogoUrl } from "../utils/team-branding";
+import { getTeamRegistry, type RegistryTeam } from "../utils/team-registry";
 import type { RankingsEntry, RankingsFeed, RankingsSource } from "../types";
 
 const RANKINGS_CACHE_TTL_MS = 15 * 60_000;
@@ -71,40 +71,48 @@ export async function getRankingsFeed(source: RankingsSource): Promise<RankingsF
 export function parseNCAAD1RankingsHtml(rawHtml: string): { updatedAt: string | null; entries: RankingsEntry[] } {
   return parseNCAAHtml(rawHtml, {
     source: "d1",
-    mapRow: (cells) => ({
-      rank: parseInteger(cells[0]) ?? 0,
-      teamName: cells[1] ?? "",
-      shortName: cells[1] ?? null,
-      record: cells[2] ?? null,
-      previousRank: normalizeNullableText(cells[3]),
-      conference: null,
-      points: null,
-      firstPlaceVotes: null,
-      change: null,
-      highLow: null,
-      logoUrl: resolveRankingLogoUrl(cells[1], null),
-      teamUrl: null,
-    }),
+    mapRow: (cells) => {
+      const team = resolveRankingTeam(cells[1], null, "d1");
+      return {
+        rank: parseInteger(cells[0]) ?? 0,
+        teamName: cells[1] ?? "",
+        shortName: cells[1] ?? null,
+        teamId: team?.id ?? null,
+        record: cells[2] ?? null,
+        previousRank: normalizeNullableText(cells[3]),
+        conference: null,
+        points: null,
+        firstPlaceVotes: null,
+        change: null,
+        highLow: null,
+        logoUrl: team?.logoUrl ?? null,
+        teamUrl: null,
+      };
+    },
   });
 }
 
 export function parseNCAARpiHtml(rawHtml: string): { updatedAt: string | null; entries: RankingsEntry[] } {
   return parseNCAAHtml(rawHtml, {
     source: "rpi",
-    mapRow: (cells) => ({
-      rank: parseInteger(cells[0]) ?? 0,
-      teamName: cells[1] ?? "",
-      shortName: cells[1] ?? null,
-      record: cells[2] ?? null,
-      previousRank: normalizeNullableText(cells[8]),
-      conference: normalizeNullableText(cells[3]),
-      points: null,
-      firstPlaceVotes: null,
-      change: null,
-      highLow: null,
-      logoUrl: resolveRankingLogoUrl(cells[1], null),
-      teamUrl: null,
-    }),
+    mapRow: (cells) => {
+      const team = resolveRankingTeam(cells[1], null, "rpi");
+      return {
+        rank: parseInteger(cells[0]) ?? 0,
+        teamName: cells[1] ?? "",
+        shortName: cells[1] ?? null,
+        teamId: team?.id ?? null,
+        record: cells[2] ?? null,
+        previousRank: normalizeNullableText(cells[8]),
+        conference: normalizeNullableText(cells[3]),
+        points: null,
+        firstPlaceVotes: null,
+        change: null,
+        highLow: null,
+        logoUrl: team?.logoUrl ?? null,
+        teamUrl: null,
+      };
+    },
   });
 }
 
@@ -131,11 +139,13 @@ export function parseBaseballAmericaRankingsHtml(rawHtml: string): { updatedAt:
 
     const teamCell = $(row).find("td").eq(1);
     const teamName = cleanText(teamCell.find("a").first().text()) || cleanText(teamCell.text());
+    const team = resolveRankingTeam(teamName, null, "baseball-america");
 
     entries.push({
       rank,
       teamName,
       shortName: teamName || null,
+      teamId: team?.id ?? null,
       record: normalizeNullableText(cells[3]),
       previousRank: normalizeNullableText(cells[2]),
       conference: null,
@@ -143,7 +153,7 @@ export function parseBaseballAmericaRankingsHtml(rawHtml: string): { updatedAt:
       firstPlaceVotes: null,
       change: null,
       highLow: null,
-      logoUrl: resolveRankingLogoUrl(teamName, null),
+      logoUrl: team?.logoUrl ?? null,
       teamUrl: null,
     });
   }
@@ -181,12 +191,14 @@ export function parseUsaTodayCoachesPollHtml(rawHtml: string): { updatedAt: stri
     const teamName =
       cleanText(teamCell.find("span.QA1t2T__QA1t2T").first().text()) || cleanText(teamCell.text());
     const shortName = cleanText(teamCell.find("span.yNdnxn__yNdnxn").first().text()) || teamName;
-    const logoUrl = cleanLogoUrl(teamCell.find("img").first().attr("src")) ?? resolveRankingLogoUrl(teamName, shortName);
+    const team = resolveRankingTeam(teamName, shortName, "usa-today");
+    const logoUrl = cleanLogoUrl(teamCell.find("img").first().attr("src")) ?? team?.logoUrl ?? null;
 
     entries.push({
       rank,
       teamName,
       shortName: shortName || null,
+      teamId: team?.id ?? null,
       record: normalizeNullableText(cells.eq(2).text()),
       previousRank: normalizeNullableText(cells.eq(5).text()),
       conference: null,
@@ -286,13 +298,18 @@ function normalizeNullableText(value: string | null | undefined): string | null
   return clean;
 }
 
-function resolveRankingLogoUrl(teamName: string | null | undefined, alternateName: string | null | undefined): string | null {
-  const primary = getBrandingLogoUrl(cleanText(teamName));
-  if (primary) {
-    return primary;
+function resolveRankingTeam(
+  teamName: string | null | undefined,
+  alternateName: string | null | undefined,
+  source: RankingsSource
+): RegistryTeam | null {
+  const registry = getTeamRegistry();
+  const alternate = cleanText(alternateName);
+  if (!alternate) {
+    return registry.resolve(cleanText(teamName), `rankings:${source}`);
   }
 
-  return getBrandingLogoUrl(cleanText(alternateName));
+  return registry.find(cleanText(teamName)) ?? registry.resolve(alternate, `rankings:${source}`);
 }
 
 function cleanLogoUrl(value: string | null | undefined): string | null {
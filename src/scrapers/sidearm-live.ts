@@ -12,6 +12,7 @@ import type {
   StatsTableRow,
 } from "../types";
 import { TtlCache } from "../utils/cache";
+import { getTeamRegistry } from "../utils/team-registry";
 import { cleanText, parseInteger } from "../utils/text";
 
 const SIDARM_STATS_BASE_URL = "https://sidearmstats.com";
@@ -180,6 +181,7 @@ export interface SidearmDashboardPlay {
 
 export interface SidearmLiveDashboard {
   summary: StatBroadcastLiveSummary;
+  events: LivePlayEvent[];
   plays: SidearmDashboardPlay[];
   playsSections: StatsSection[];
   lineupsSections: StatsSection[];
@@ -299,9 +301,11 @@ export function parseSidearmLiveDashboard(
     return null;
   }
 
+  const parsed = parseSidearmPlays(payload);
   return {
     summary,
-    plays: buildSidearmDashboardPlays(payload, summary),
+    events: parsed.map((entry) => entry.event),
+    plays: buildSidearmDashboardPlays(parsed, summary),
     playsSections: [],
     lineupsSections: buildSidearmLineupSections(payload),
   };
@@ -386,6 +390,8 @@ function buildSidearmSummary(
 
   const visitorTeam = cleanText(game.VisitingTeam?.Name ?? "") || "Away";
   const homeTeam = cleanText(game.HomeTeam?.Name ?? "") || "Home";
+  const registry = getTeamRegistry();
+  [game.VisitingTeam?.Name, game.HomeTeam?.Name].forEach((name) => registry.resolve(name, "sidearm"));
   const id = hashStringToPositiveInt(liveStatsUrl);
   const sport = extractSportFromLiveStatsUrl(liveStatsUrl) ?? (cleanText(game.GlobalSportShortname ?? "") || "baseball");
 
@@ -649,15 +655,17 @@ function buildSidearmLineupSection(
   };
 }
 
-function buildSidearmDashboardPlays(
-  payload: SidearmGameResponse,
-  summary: StatBroadcastLiveSummary
-): SidearmDashboardPlay[] {
+function parseSidearmPlays(payload: SidearmGameResponse): SidearmPlayProjection[] {
   const plays = Array.isArray(payload.Plays) ? payload.Plays : [];
-  const parsed = plays
+  return plays
     .map((play, index) => parseSidearmPlay(play, index))
     .filter((entry): entry is SidearmPlayProjection => Boolean(entry));
+}
 
+function buildSidearmDashboardPlays(
+  parsed: SidearmPlayProjection[],
+  summary: StatBroadcastLiveSummary
+): SidearmDashboardPlay[] {
   if (parsed.length === 0) {
     return [];
   }
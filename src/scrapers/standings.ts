@@ -3,7 +3,7 @@ import { load } from "cheerio";
 import he from "he";
 import { TtlCache } from "../utils/cache";
 import { cleanText, parseInteger } from "../utils/text";
-import { getBrandingLogoUrl } from "../utils/team-branding";
+import { getTeamRegistry } from "../utils/team-registry";
 import type {
   ConferenceStandingsConference,
   ConferenceStandingsEntry,
@@ -144,7 +144,8 @@ export function parseConferenceStandingsHtml(rawHtml: string): {
 
     const teamUrl = toAbsoluteUrl(teamAnchor.attr("href"), D1_CONFERENCES_ENDPOINT);
     const imageUrl = toAbsoluteUrl(teamCell.find("img").first().attr("src"), D1_CONFERENCES_ENDPOINT);
-    const logoUrl = getBrandingLogoUrl(teamName) ?? imageUrl;
+    const team = getTeamRegistry().resolve(teamName, "standings");
+    const logoUrl = team?.logoUrl ?? imageUrl;
 
     const valueAt = (index: number): string | null =>
       index >= 0 && cells[index] ? cleanStandingValue($(cells[index]).text()) : null;
@@ -153,6 +154,7 @@ export function parseConferenceStandingsHtml(rawHtml: string): {
       position: entries.length + 1,
       teamName,
       shortName: teamName,
+      teamId: team?.id ?? null,
       conferenceRecord: valueAt(recordIndex),
       conferenceWinPct: valueAt(winPctIndex),
       gamesBack: valueAt(gamesBackIndex),
@@ -220,7 +220,7 @@ function cleanPdfText(value: string): string {
   return value.replace(/\u00a0/g, " ");
 }
 
-function buildArticleSeed(
+export function buildArticleSeed(
   finalGame: StatBroadcastFinalGame,
   baseballScorekeeping: BaseballScorekeepingData | null
 ) {
@@ -239,6 +239,8 @@ function buildArticleSeed(
     play: normalizeNamesInText(play.play),
   }));
 
+  const turningPoints = buildTurningPoints(baseballScorekeeping);
+
   const pbpHighlights = finalGame.playByPlayByInning
     .flatMap((inning) =>
       inning.events
@@ -291,12 +293,45 @@ function buildArticleSeed(
               },
             },
           },
+    turningPoints,
     scoringHighlights,
     notes: finalGame.notesDocs.notes.slice(0, 20),
     playByPlayHighlights: pbpHighlights,
   };
 }
 
+/**
+ * Highest-leverage plays first, so recaps can lead with them. Ties go to the bigger WPA swing; plays
+ * that did not move win expectancy (substitutions, pinch runners) are skipped.
+ */
+function buildTurningPoints(baseballScorekeeping: BaseballScorekeepingData | null, limit = 5) {
+  if (!baseballScorekeeping) {
+    return [];
+  }
+
+  return baseballScorekeeping.plays
+    .filter((play) => play.winExpectancy !== null && play.winExpectancy.wpa !== 0)
+    .sort(
+      (a, b) =>
+        (b.winExpectancy?.leverageIndex ?? 0) - (a.winExpectancy?.leverageIndex ?? 0) ||
+        Math.abs(b.winExpectancy?.wpa ?? 0) - Math.abs(a.winExpectancy?.wpa ?? 0)
+    )
+    .slice(0, limit)
+    .map((play) => ({
+      inning: play.inning,
+      half: play.half,
+      team: play.battingTeam,
+      batter: play.participants.batterName,
+      pitcher: play.participants.pitcherName,
+      play: normalizeNamesInText(play.text),
+      leverageIndex: play.winExpectancy?.leverageIndex ?? null,
+      battingTeamWpa:
+        play.winExpectancy === null ? null : play.battingSide === "away" ? -play.winExpectancy.wpa : play.winExpectancy.wpa,
+      homeWinProbabilityBefore: play.winExpectancy?.homeBefore ?? null,
+      homeWinProbabilityAfter: play.winExpectancy?.homeAfter ?? null,
+    }));
+}
+
 function normalizeNamesInText(value: string | null): string | null {
   const text = value === null ? null : String(value);
   if (text === null) {
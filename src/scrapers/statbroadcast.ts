@@ -864,7 +864,7 @@ function determineFinalStatus(
   return "unknown";
 }
 
-function parseLineups(
+export function parseLineups(
   sections: StatsSection[],
   summary: StatBroadcastLiveSummary
 ): { away: FinalLineupEntry[]; home: FinalLineupEntry[] } {
@@ -0,0 +1,360 @@
+import fs from "fs/promises";
+import path from "path";
+import { buildBaseballScorekeepingData, type BaseballScorekeepingData } from "../scorekeeping/baseball";
+import { describeDiscrepancy, reconcileBoxScore } from "../scorekeeping/box-score-reconciliation";
+import { getFinalGame } from "../scrapers/statbroadcast";
+import { getStatBroadcastPdfJson, type StatBroadcastPdfJsonPayload } from "../scrapers/statbroadcast-pdf";
+import type { StatBroadcastFinalGame } from "../types";
+
+export const DEFAULT_ARCHIVE_DIR = path.resolve(process.cwd(), "data", "archive");
+
+export type ArchivedPdfJson = Omit<StatBroadcastPdfJsonPayload, "finalGame" | "baseballScorekeeping">;
+
+export interface GameArchiveIndexEntry {
+  id: number;
+  season: string;
+  date: string | null;
+  dateText: string | null;
+  title: string;
+  sport: string;
+  visitorTeam: string;
+  homeTeam: string;
+  visitorScore: number | null;
+  homeScore: number | null;
+  winner: "visitor" | "home" | null;
+  venue: string | null;
+  location: string | null;
+  hasScorekeeping: boolean;
+  hasPdfJson: boolean;
+  archivedAt: string;
+  file: string;
+}
+
+export interface ArchivedGame {
+  archiveVersion: 1;
+  id: number;
+  season: string;
+  archivedAt: string;
+  entry: GameArchiveIndexEntry;
+  finalGame: StatBroadcastFinalGame;
+  baseballScorekeeping: BaseballScorekeepingData | null;
+  pdfJson: ArchivedPdfJson | null;
+  warnings: string[];
+}
+
+export interface GameArchiveIndex {
+  updatedAt: string;
+  total: number;
+  games: GameArchiveIndexEntry[];
+}
+
+export interface GameArchiveQuery {
+  season?: string | null;
+  team?: string | null;
+  from?: string | null;
+  to?: string | null;
+  q?: string | null;
+  limit?: number | null;
+}
+
+export interface GameArchiveOptions {
+  rootDir?: string;
+  loadFinalGame?: (id: number) => Promise<StatBroadcastFinalGame>;
+  loadPdfJson?: (id: number) => Promise<StatBroadcastPdfJsonPayload>;
+}
+
+const INDEX_FILE = "index.json";
+
+export class GameArchive {
+  readonly rootDir: string;
+  private readonly loadFinalGame: (id: number) => Promise<StatBroadcastFinalGame>;
+  private readonly loadPdfJson: (id: number) => Promise<StatBroadcastPdfJsonPayload>;
+  private readonly pending = new Map<number, Promise<ArchivedGame | null>>();
+  private writeChain: Promise<unknown> = Promise.resolve();
+  private indexCache: { mtimeMs: number | null; index: GameArchiveIndex } | null = null;
+  private readonly gameCache = new Map<number, { mtimeMs: number; game: ArchivedGame }>();
+
+  constructor(options: GameArchiveOptions = {}) {
+    this.rootDir = options.rootDir ?? DEFAULT_ARCHIVE_DIR;
+    this.loadFinalGame = options.loadFinalGame ?? getFinalGame;
+    this.loadPdfJson = options.loadPdfJson ?? ((id) => getStatBroadcastPdfJson(id));
+  }
+
+  /**
+   * Fetches and stores a game once it is final. Returns null when the game is not final yet;
+   * games already on disk are returned without touching the network unless `force` is set.
+   */
+  archiveGame(id: number, options?: { force?: boolean }): Promise<ArchivedGame | null> {
+    const existing = this.pending.get(id);
+    if (existing) {
+      return existing;
+    }
+
+    const task = this.runArchive(id, options?.force === true).finally(() => {
+      this.pending.delete(id);
+    });
+    this.pending.set(id, task);
+    return task;
+  }
+
+  /** Re-reads the index whenever its mtime changes, so games archived by the CLI show up in a running server. */
+  async readIndex(): Promise<GameArchiveIndex> {
+    const indexPath = path.join(this.rootDir, INDEX_FILE);
+    const mtimeMs = await readMtimeMs(indexPath);
+    if (this.indexCache && this.indexCache.mtimeMs === mtimeMs) {
+      return this.indexCache.index;
+    }
+
+    let index: GameArchiveIndex = { updatedAt: new Date(0).toISOString(), total: 0, games: [] };
+    try {
+      index = JSON.parse(await fs.readFile(indexPath, "utf8")) as GameArchiveIndex;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+    }
+
+    this.indexCache = { mtimeMs, index };
+    return index;
+  }
+
+  async hasGame(id: number): Promise<boolean> {
+    return (await this.readIndex()).games.some((game) => game.id === id);
+  }
+
+  async search(query: GameArchiveQuery = {}): Promise<GameArchiveIndexEntry[]> {
+    const index = await this.readIndex();
+    const team = normalizeSearchText(query.team);
+    const text = normalizeSearchText(query.q);
+
+    const matches = index.games.filter((entry) => {
+      if (query.season && entry.season !== query.season) {
+        return false;
+      }
+      if (query.from && (!entry.date || entry.date < query.from)) {
+        return false;
+      }
+      if (query.to && (!entry.date || entry.date > query.to)) {
+        return false;
+      }
+      if (team && ![entry.visitorTeam, entry.homeTeam].some((name) => normalizeSearchText(name).includes(team))) {
+        return false;
+      }
+      if (text) {
+        const haystack = normalizeSearchText(
+          [entry.title, entry.visitorTeam, entry.homeTeam, entry.venue, entry.location].filter(Boolean).join(" ")
+        );
+        if (!haystack.includes(text)) {
+          return false;
+        }
+      }
+      return true;
+    });
+
+    return query.limit ? matches.slice(0, query.limit) : matches;
+  }
+
+  async readGame(id: number): Promise<ArchivedGame | null> {
+    const index = await this.readIndex();
+    const entry = index.games.find((game) => game.id === id);
+    if (!entry) {
+      return null;
+    }
+
+    // Parsed games are cached by file mtime, like the index, so season-wide routes do not re-parse every file.
+    const gamePath = path.join(this.rootDir, entry.file);
+    const mtimeMs = await readMtimeMs(gamePath);
+    if (mtimeMs === null) {
+      this.gameCache.delete(id);
+      return null;
+    }
+    const cached = this.gameCache.get(id);
+    if (cached && cached.mtimeMs === mtimeMs) {
+      return cached.game;
+    }
+
+    try {
+      const game = JSON.parse(await fs.readFile(gamePath, "utf8")) as ArchivedGame;
+      this.gameCache.set(id, { mtimeMs, game });
+      return game;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        this.gameCache.delete(id);
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  async readGames(query: GameArchiveQuery = {}): Promise<ArchivedGame[]> {
+    const entries = await this.search(query);
+    const games: ArchivedGame[] = [];
+    for (const entry of entries) {
+      const game = await this.readGame(entry.id);
+      if (game) {
+        games.push(game);
+      }
+    }
+    return games;
+  }
+
+  private async runArchive(id: number, force: boolean): Promise<ArchivedGame | null> {
+    if (!force) {
+      const stored = await this.readGame(id);
+      if (stored) {
+        return stored;
+      }
+    }
+
+    const finalGame = await this.loadFinalGame(id);
+    if (finalGame.status !== "final") {
+      return null;
+    }
+
+    const warnings: string[] = [];
+    const isBaseball = /^bs/i.test(finalGame.event.sport);
+    let baseballScorekeeping: BaseballScorekeepingData | null = null;
+    let pdfJson: ArchivedPdfJson | null = null;
+
+    if (isBaseball) {
+      try {
+        baseballScorekeeping = buildBaseballScorekeepingData(finalGame);
+        const reconciliation = reconcileBoxScore(baseballScorekeeping);
+        warnings.push(
+          ...reconciliation.discrepancies.map((discrepancy) => `Box score mismatch: ${describeDiscrepancy(discrepancy)}`)
+        );
+      } catch (error) {
+        warnings.push(`Scorekeeping build failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+
+      try {
+        const { finalGame: _finalGame, baseballScorekeeping: _scorekeeping, ...rest } = await this.loadPdfJson(id);
+        pdfJson = rest;
+      } catch (error) {
+        warnings.push(`PDF JSON fetch failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    const archivedAt = new Date().toISOString();
+    const entry = buildArchiveIndexEntry(finalGame, {
+      archivedAt,
+      hasScorekeeping: baseballScorekeeping !== null,
+      hasPdfJson: pdfJson !== null,
+    });
+    const record: ArchivedGame = {
+      archiveVersion: 1,
+      id,
+      season: entry.season,
+      archivedAt,
+      entry,
+      finalGame,
+      baseballScorekeeping,
+      pdfJson,
+      warnings,
+    };
+
+    await this.enqueueWrite(async () => {
+      const gamePath = path.join(this.rootDir, entry.file);
+      await writeJsonAtomic(gamePath, record);
+      this.gameCache.set(id, { mtimeMs: (await readMtimeMs(gamePath)) ?? 0, game: record });
+      const index = await this.readIndex();
+      const games = index.games.filter((game) => game.id !== id);
+      games.push(entry);
+      games.sort(compareIndexEntries);
+      const nextIndex: GameArchiveIndex = { updatedAt: archivedAt, total: games.length, games };
+      const indexPath = path.join(this.rootDir, INDEX_FILE);
+      await writeJsonAtomic(indexPath, nextIndex);
+      this.indexCache = { mtimeMs: await readMtimeMs(indexPath), index: nextIndex };
+    });
+
+    return record;
+  }
+
+  private enqueueWrite(task: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(task, task);
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+}
+
+export function buildArchiveIndexEntry(
+  finalGame: StatBroadcastFinalGame,
+  meta: { archivedAt: string; hasScorekeeping: boolean; hasPdfJson: boolean }
+): GameArchiveIndexEntry {
+  const date = parseArchiveDate(finalGame.event.date);
+  const season = date?.slice(0, 4) ?? meta.archivedAt.slice(0, 4);
+
+  return {
+    id: finalGame.id,
+    season,
+    date,
+    dateText: finalGame.event.date,
+    title: finalGame.event.title,
+    sport: finalGame.event.sport,
+    visitorTeam: finalGame.finalScore.visitorTeam,
+    homeTeam: finalGame.finalScore.homeTeam,
+    visitorScore: finalGame.finalScore.visitorScore,
+    homeScore: finalGame.finalScore.homeScore,
+    winner: finalGame.finalScore.winner,
+    venue: finalGame.event.venue,
+    location: finalGame.event.location,
+    hasScorekeeping: meta.hasScorekeeping,
+    hasPdfJson: meta.hasPdfJson,
+    archivedAt: meta.archivedAt,
+    file: path.posix.join(season, `${finalGame.id}.json`),
+  };
+}
+
+export function parseArchiveDate(value: string | null): string | null {
+  const raw = String(value ?? "").trim();
+  if (!raw) {
+    return null;
+  }
+
+  const iso = raw.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) {
+    return `${iso[1]}-${iso[2]}-${iso[3]}`;
+  }
+
+  const slashed = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (slashed) {
+    return `${slashed[3]}-${slashed[1].padStart(2, "0")}-${slashed[2].padStart(2, "0")}`;
+  }
+
+  const parsed = Date.parse(`${raw} 12:00 UTC`);
+  if (!Number.isFinite(parsed)) {
+    return null;
+  }
+
+  return new Date(parsed).toISOString().slice(0, 10);
+}
+
+function compareIndexEntries(a: GameArchiveIndexEntry, b: GameArchiveIndexEntry): number {
+  const byDate = (b.date ?? "").localeCompare(a.date ?? "");
+  return byDate !== 0 ? byDate : b.id - a.id;
+}
+
+function normalizeSearchText(value: string | null | undefined): string {
+  return String(value ?? "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .trim();
+}
+
+async function readMtimeMs(filePath: string): Promise<number | null> {
+  try {
+    return (await fs.stat(filePath)).mtimeMs;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return null;
+    }
+    throw error;
+  }
+}
+
+async function writeJsonAtomic(filePath: string, payload: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+  await fs.rename(tmpPath, filePath);
+}
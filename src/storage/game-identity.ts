@@ -0,0 +1,381 @@
+import fs from "fs/promises";
+import path from "path";
+import { liveStatsProviders } from "../pipelines/live-stats-provider";
+import type { D1Game, D1TeamScheduleGame } from "../types";
+import { normalizeTeamName, resolveTeamId } from "../utils/team-registry";
+
+export const DEFAULT_GAME_IDENTITY_FILE = path.resolve(process.cwd(), "data", "identity", "games.json");
+
+/** Start times further apart than this are treated as different games (doubleheaders, makeups). */
+const START_TIME_TOLERANCE_SECONDS = 3 * 60 * 60;
+const LIVE_STATS_LINK_SOURCES: GameSourceKind[] = ["sidearm", "prestosports"];
+
+export type GameSourceKind =
+  | "d1"
+  | "ncaa"
+  | "statbroadcast"
+  | "sidearm"
+  | "prestosports"
+  | "schedule-file"
+  | "d1-team-schedule";
+
+export interface GameSourceLink {
+  source: GameSourceKind;
+  /** Identifier within the source: a D1 game key, statbroadcast id, live stats URL, or `<file>#<row id>`. */
+  id: string;
+  url: string | null;
+}
+
+/** One source's view of a game. Team order only matters when the source knows who is home. */
+export interface GameObservation {
+  date: string;
+  awayTeam: string;
+  homeTeam: string;
+  startTimeEpoch: number | null;
+  links: GameSourceLink[];
+}
+
+export interface CanonicalGameRecord {
+  canonicalId: string;
+  date: string;
+  awayTeam: string;
+  homeTeam: string;
+  /** 1 for the first game between the two teams on `date`, 2 for the second game of a doubleheader. */
+  gameNumber: number;
+  startTimeEpoch: number | null;
+  links: GameSourceLink[];
+  firstSeenAt: string;
+  updatedAt: string;
+}
+
+export interface GameIdentityIndex {
+  updatedAt: string;
+  total: number;
+  games: CanonicalGameRecord[];
+}
+
+export interface GameIdentityServiceOptions {
+  filePath?: string;
+}
+
+export class GameIdentityService {
+  readonly filePath: string;
+  private writeChain: Promise<unknown> = Promise.resolve();
+  private cache: { index: GameIdentityIndex; lookup: GameLookup } | null = null;
+
+  constructor(options: GameIdentityServiceOptions = {}) {
+    this.filePath = options.filePath ?? DEFAULT_GAME_IDENTITY_FILE;
+  }
+
+  async readIndex(): Promise<GameIdentityIndex> {
+    return (await this.load()).index;
+  }
+
+  async get(canonicalId: string): Promise<CanonicalGameRecord | null> {
+    return (await this.load()).lookup.get(canonicalId);
+  }
+
+  async findByLink(source: GameSourceKind, id: string): Promise<CanonicalGameRecord | null> {
+    return (await this.load()).lookup.findByLinks([{ source, id }]);
+  }
+
+  /** Links every observation to a canonical game, creating new ones as needed; persists once, and only on change. */
+  async observe(observations: GameObservation[]): Promise<CanonicalGameRecord[]> {
+    const usable = observations.filter(
+      (observation) => observation.links.length > 0 && teamKey(observation.awayTeam) && teamKey(observation.homeTeam)
+    );
+    if (usable.length === 0) {
+      return [];
+    }
+
+    let resolved: CanonicalGameRecord[] = [];
+    await this.enqueueWrite(async () => {
+      const { lookup } = await this.load();
+      const now = new Date().toISOString();
+      let changed = false;
+      resolved = usable.map((observation) => {
+        const result = linkObservation(lookup, observation, now);
+        changed = changed || result.changed;
+        return result.game;
+      });
+      if (!changed) {
+        return;
+      }
+
+      const games = lookup.list().sort(compareRecords);
+      const nextIndex: GameIdentityIndex = { updatedAt: now, total: games.length, games };
+      try {
+        await writeJsonAtomic(this.filePath, nextIndex);
+      } catch (error) {
+        // The lookup already holds the unsaved links; drop it so the next call starts from disk.
+        this.cache = null;
+        throw error;
+      }
+      this.cache = { index: nextIndex, lookup };
+    });
+
+    return resolved;
+  }
+
+  private async load(): Promise<{ index: GameIdentityIndex; lookup: GameLookup }> {
+    if (this.cache) {
+      return this.cache;
+    }
+
+    let index: GameIdentityIndex;
+    try {
+      const raw = await fs.readFile(this.filePath, "utf8");
+      index = JSON.parse(raw) as GameIdentityIndex;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      index = { updatedAt: new Date(0).toISOString(), total: 0, games: [] };
+    }
+
+    this.cache = { index, lookup: new GameLookup(index.games) };
+    return this.cache;
+  }
+
+  private enqueueWrite(task: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(task, task);
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+}
+
+/** Canonical games keyed by id, by source link and by date plus team pair. */
+class GameLookup {
+  private readonly byId = new Map<string, CanonicalGameRecord>();
+  private readonly byLink = new Map<string, string>();
+  private readonly byMatchup = new Map<string, string[]>();
+
+  constructor(games: CanonicalGameRecord[]) {
+    games.forEach((game) => this.put(game));
+  }
+
+  get(canonicalId: string): CanonicalGameRecord | null {
+    return this.byId.get(canonicalId) ?? null;
+  }
+
+  list(): CanonicalGameRecord[] {
+    return Array.from(this.byId.values());
+  }
+
+  findByLinks(links: Array<Pick<GameSourceLink, "source" | "id">>): CanonicalGameRecord | null {
+    for (const link of links) {
+      const canonicalId = this.byLink.get(linkKey(link));
+      if (canonicalId) {
+        return this.get(canonicalId);
+      }
+    }
+    return null;
+  }
+
+  sameMatchup(date: string, awayTeam: string, homeTeam: string): CanonicalGameRecord[] {
+    const ids = this.byMatchup.get(matchupKey(date, awayTeam, homeTeam)) ?? [];
+    return ids.map((id) => this.byId.get(id)).filter((game): game is CanonicalGameRecord => game !== undefined);
+  }
+
+  put(game: CanonicalGameRecord): void {
+    this.byId.set(game.canonicalId, game);
+    game.links.forEach((link) => this.byLink.set(linkKey(link), game.canonicalId));
+
+    const key = matchupKey(game.date, game.awayTeam, game.homeTeam);
+    const ids = this.byMatchup.get(key) ?? [];
+    if (!ids.includes(game.canonicalId)) {
+      this.byMatchup.set(key, [...ids, game.canonicalId]);
+    }
+  }
+}
+
+export function buildD1GameObservation(game: D1Game, scoreDate: string): GameObservation {
+  const links: GameSourceLink[] = [];
+  const ncaaId = game.key.match(/^ncaa-(\d+)$/)?.[1];
+  if (ncaaId) {
+    links.push({ source: "ncaa", id: ncaaId, url: game.links[0]?.url ?? null });
+  } else {
+    links.push({ source: "d1", id: game.key, url: null });
+  }
+
+  const live = liveStatsProviders.resolve({ statbroadcastId: game.statbroadcastId, liveStatsUrl: game.liveStatsUrl });
+  if (game.statbroadcastId !== null) {
+    links.push({ source: "statbroadcast", id: String(game.statbroadcastId), url: game.liveStatsUrl });
+  }
+  const liveSource = LIVE_STATS_LINK_SOURCES.find((source) => source === live?.ref.provider);
+  if (liveSource && live?.ref.liveStatsUrl) {
+    links.push({ source: liveSource, id: live.ref.liveStatsUrl.toLowerCase(), url: live.ref.liveStatsUrl });
+  }
+
+  return {
+    date: toIsoDate(scoreDate),
+    awayTeam: game.roadTeam.name,
+    homeTeam: game.homeTeam.name,
+    startTimeEpoch: game.matchupTimeEpoch,
+    links,
+  };
+}
+
+export function buildScheduleFileObservation(
+  fileName: string,
+  game: { date: string | null; gameId: number; awayTeam: string; homeTeam: string; startTimeEpoch: number | null }
+): GameObservation | null {
+  if (!game.date) {
+    return null;
+  }
+
+  return {
+    date: game.date,
+    awayTeam: game.awayTeam,
+    homeTeam: game.homeTeam,
+    startTimeEpoch: game.startTimeEpoch,
+    links: [
+      { source: "schedule-file", id: `${fileName}#${game.gameId}`, url: null },
+      { source: "statbroadcast", id: String(game.gameId), url: null },
+    ],
+  };
+}
+
+/** D1 team schedules only list the opponent; `@` means the team was away, `vs` a neutral site. */
+export function buildTeamScheduleObservation(
+  teamName: string,
+  scheduleTeamSlug: string | null,
+  game: D1TeamScheduleGame,
+  dateIso: string | null
+): GameObservation | null {
+  if (!dateIso || !game.scheduleId || !game.opponentName) {
+    return null;
+  }
+
+  const isAway = game.locationType === "@";
+  const scheduleOwner = scheduleTeamSlug ?? teamKey(teamName);
+  return {
+    date: dateIso,
+    awayTeam: isAway ? teamName : game.opponentName,
+    homeTeam: isAway ? game.opponentName : teamName,
+    startTimeEpoch: null,
+    links: [{ source: "d1-team-schedule", id: `${scheduleOwner}:${game.scheduleId}`, url: game.resultUrl }],
+  };
+}
+
+function linkObservation(
+  lookup: GameLookup,
+  observation: GameObservation,
+  now: string
+): { game: CanonicalGameRecord; changed: boolean } {
+  const existing = lookup.findByLinks(observation.links) ?? findCandidate(lookup, observation);
+  if (existing) {
+    const merged = mergeObservation(existing, observation, now);
+    if (!merged) {
+      return { game: existing, changed: false };
+    }
+    lookup.put(merged);
+    return { game: merged, changed: true };
+  }
+
+  const gameNumber = lookup.sameMatchup(observation.date, observation.awayTeam, observation.homeTeam).length + 1;
+  const created: CanonicalGameRecord = {
+    canonicalId: buildCanonicalId(observation, gameNumber),
+    date: observation.date,
+    awayTeam: observation.awayTeam,
+    homeTeam: observation.homeTeam,
+    gameNumber,
+    startTimeEpoch: observation.startTimeEpoch,
+    links: dedupeLinks(observation.links),
+    firstSeenAt: now,
+    updatedAt: now,
+  };
+  lookup.put(created);
+  return { game: created, changed: true };
+}
+
+/**
+ * Same date and the same two teams (either order, since neutral-site listings disagree on home),
+ * skipping games that already hold a different id from one of the observation's sources.
+ */
+function findCandidate(lookup: GameLookup, observation: GameObservation): CanonicalGameRecord | null {
+  const observedSources = new Map(observation.links.map((link) => [link.source, link.id]));
+  let best: CanonicalGameRecord | null = null;
+  let bestDistance = Number.POSITIVE_INFINITY;
+
+  for (const game of lookup.sameMatchup(observation.date, observation.awayTeam, observation.homeTeam)) {
+    if (game.links.some((link) => observedSources.has(link.source) && observedSources.get(link.source) !== link.id)) {
+      continue;
+    }
+
+    const distance =
+      game.startTimeEpoch !== null && observation.startTimeEpoch !== null
+        ? Math.abs(game.startTimeEpoch - observation.startTimeEpoch)
+        : START_TIME_TOLERANCE_SECONDS;
+    if (distance <= START_TIME_TOLERANCE_SECONDS && distance < bestDistance) {
+      best = game;
+      bestDistance = distance;
+    }
+  }
+
+  return best;
+}
+
+/** Null when the observation adds no link, link URL or start time to the game. */
+function mergeObservation(
+  game: CanonicalGameRecord,
+  observation: GameObservation,
+  now: string
+): CanonicalGameRecord | null {
+  const links = dedupeLinks([...game.links, ...observation.links]);
+  const startTimeEpoch = game.startTimeEpoch ?? observation.startTimeEpoch;
+  const unchanged =
+    startTimeEpoch === game.startTimeEpoch &&
+    links.length === game.links.length &&
+    links.every((link, index) => link.url === game.links[index].url);
+  return unchanged ? null : { ...game, startTimeEpoch, links, updatedAt: now };
+}
+
+function dedupeLinks(links: GameSourceLink[]): GameSourceLink[] {
+  const byKey = new Map<string, GameSourceLink>();
+  for (const link of links) {
+    const key = linkKey(link);
+    const existing = byKey.get(key);
+    byKey.set(key, existing ? { ...existing, url: existing.url ?? link.url } : link);
+  }
+  return Array.from(byKey.values());
+}
+
+function buildCanonicalId(observation: GameObservation, gameNumber: number): string {
+  const matchup = `${teamSlug(observation.awayTeam)}-at-${teamSlug(observation.homeTeam)}`;
+  const base = `${observation.date.replace(/-/g, "")}-${matchup}`;
+  return gameNumber > 1 ? `${base}-g${gameNumber}` : base;
+}
+
+function linkKey(link: Pick<GameSourceLink, "source" | "id">): string {
+  return `${link.source}:${link.id}`;
+}
+
+/** Registry ids fold aliases like "Ole Miss" and "Mississippi"; unknown teams fall back to their own slug. */
+function teamSlug(name: string): string {
+  return resolveTeamId(name);
+}
+
+function teamKey(name: string): string {
+  return normalizeTeamName(name) ? teamSlug(name) : "";
+}
+
+function matchupKey(date: string, first: string, second: string): string {
+  return `${date}|${[teamKey(first), teamKey(second)].sort().join("|")}`;
+}
+
+function toIsoDate(value: string): string {
+  return /^\d{8}$/.test(value) ? `${value.slice(0, 4)}-${value.slice(4, 6)}-${value.slice(6, 8)}` : value;
+}
+
+function compareRecords(a: CanonicalGameRecord, b: CanonicalGameRecord): number {
+  const byDate = a.date.localeCompare(b.date);
+  return byDate !== 0 ? byDate : a.canonicalId.localeCompare(b.canonicalId);
+}
+
+async function writeJsonAtomic(filePath: string, payload: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+  await fs.rename(tmpPath, filePath);
+}
@@ -0,0 +1,332 @@
+import fs from "fs/promises";
+import path from "path";
+import type { RankingsEntry, RankingsFeed, RankingsSource } from "../types";
+import { getTeamRegistry, normalizeTeamName, toTeamId } from "../utils/team-registry";
+
+export const DEFAULT_RANKINGS_HISTORY_DIR = path.resolve(process.cwd(), "data", "rankings-history");
+
+/** Polls averaged by the consensus view; RPI is a formula, not a poll. */
+export const CONSENSUS_RANKINGS_SOURCES: RankingsSource[] = ["d1", "baseball-america", "usa-today"];
+export const RANKINGS_HISTORY_SOURCES: RankingsSource[] = ["d1", "rpi", "baseball-america", "usa-today"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface RankingsSnapshotEntry {
+  rank: number;
+  /** Registry id, or a slug of the scraped name when the registry has no match. */
+  teamKey: string;
+  teamName: string;
+  record: string | null;
+}
+
+export interface RankingsSnapshot {
+  source: RankingsSource;
+  /** Monday (`YYYY-MM-DD`) of the poll's release week; history keeps one snapshot per week. */
+  pollWeek: string;
+  updatedAt: string | null;
+  capturedAt: string;
+  entries: RankingsSnapshotEntry[];
+}
+
+export interface RankingsHistoryFile {
+  source: RankingsSource;
+  snapshots: RankingsSnapshot[];
+}
+
+export interface RankingsMovementEntry extends RankingsSnapshotEntry {
+  /** Rank in the previous poll week; null when the team was unranked or this is the first week. */
+  previousRank: number | null;
+  /** Positive when the team moved up. Null for teams new to the poll. */
+  movement: number | null;
+  weeksRanked: number;
+}
+
+export interface TeamRankingsHistoryPoint {
+  pollWeek: string;
+  updatedAt: string | null;
+  capturedAt: string;
+  rank: number | null;
+  movement: number | null;
+}
+
+export interface TeamRankingsHistory {
+  source: RankingsSource;
+  teamKey: string;
+  teamName: string | null;
+  weeksRanked: number;
+  bestRank: number | null;
+  currentRank: number | null;
+  points: TeamRankingsHistoryPoint[];
+}
+
+export interface ConsensusRankingsEntry {
+  rank: number;
+  teamKey: string;
+  teamName: string;
+  averageRank: number;
+  pollsRanked: number;
+  ranks: Partial<Record<RankingsSource, number | null>>;
+}
+
+export interface RankingsHistoryStoreOptions {
+  rootDir?: string;
+}
+
+export class RankingsHistoryStore {
+  readonly rootDir: string;
+  private writeChain: Promise<unknown> = Promise.resolve();
+  private readonly cache = new Map<RankingsSource, RankingsHistoryFile>();
+
+  constructor(options: RankingsHistoryStoreOptions = {}) {
+    this.rootDir = options.rootDir ?? DEFAULT_RANKINGS_HISTORY_DIR;
+  }
+
+  async readHistory(source: RankingsSource): Promise<RankingsHistoryFile> {
+    const cached = this.cache.get(source);
+    if (cached) {
+      return cached;
+    }
+
+    let history: RankingsHistoryFile;
+    try {
+      const raw = await fs.readFile(this.historyPath(source), "utf8");
+      history = keyByPollWeek(JSON.parse(raw) as RankingsHistoryFile);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        throw error;
+      }
+      history = { source, snapshots: [] };
+    }
+
+    this.cache.set(source, history);
+    return history;
+  }
+
+  /**
+   * Stores the feed when it differs from the latest snapshot for its source; returns whether it was stored.
+   * A change within the same poll week (a correction or a new `updatedAt`) replaces that week's snapshot.
+   */
+  async record(feed: RankingsFeed, capturedAt = new Date().toISOString()): Promise<boolean> {
+    let added = false;
+    await this.enqueueWrite(async () => {
+      const history = await this.readHistory(feed.source);
+      const snapshot = buildRankingsSnapshot(feed, capturedAt);
+      const latest = history.snapshots[history.snapshots.length - 1];
+      const unchanged = latest && snapshotSignature(latest) === snapshotSignature(snapshot);
+      if (unchanged || (latest && snapshot.pollWeek < latest.pollWeek)) {
+        return;
+      }
+
+      const kept = latest?.pollWeek === snapshot.pollWeek ? history.snapshots.slice(0, -1) : history.snapshots;
+      const next: RankingsHistoryFile = { source: feed.source, snapshots: [...kept, snapshot] };
+      await writeJsonAtomic(this.historyPath(feed.source), next);
+      this.cache.set(feed.source, next);
+      added = true;
+    });
+    return added;
+  }
+
+  private historyPath(source: RankingsSource): string {
+    return path.join(this.rootDir, `${source}.json`);
+  }
+
+  private enqueueWrite(task: () => Promise<void>): Promise<void> {
+    const next = this.writeChain.then(task, task);
+    this.writeChain = next.catch(() => undefined);
+    return next;
+  }
+}
+
+export function buildRankingsSnapshot(feed: RankingsFeed, capturedAt: string): RankingsSnapshot {
+  return {
+    source: feed.source,
+    pollWeek: rankingsPollWeek(feed.updatedAt, capturedAt),
+    updatedAt: feed.updatedAt,
+    capturedAt,
+    entries: feed.entries.map((entry) => ({
+      rank: entry.rank,
+      teamKey: rankingsTeamKey(entry),
+      teamName: entry.teamName,
+      record: entry.record,
+    })),
+  };
+}
+
+/** The latest snapshot with movement against the one before it, ignoring scraped `previousRank`. */
+export function computeLatestMovement(snapshots: RankingsSnapshot[]): RankingsMovementEntry[] {
+  const latest = snapshots[snapshots.length - 1];
+  if (!latest) {
+    return [];
+  }
+
+  const previous = snapshots[snapshots.length - 2] ?? null;
+  const previousRanks = new Map(previous?.entries.map((entry) => [entry.teamKey, entry.rank]) ?? []);
+  const weeksRanked = countWeeksRanked(snapshots);
+
+  return latest.entries.map((entry) => {
+    const previousRank = previousRanks.get(entry.teamKey) ?? null;
+    return {
+      ...entry,
+      previousRank,
+      movement: previousRank !== null ? previousRank - entry.rank : null,
+      weeksRanked: weeksRanked.get(entry.teamKey) ?? 0,
+    };
+  });
+}
+
+export function buildTeamRankingsHistory(history: RankingsHistoryFile, team: string): TeamRankingsHistory {
+  const teamKey = matchTeamKey(history.snapshots, team);
+  let previousRank: number | null = null;
+  let teamName: string | null = null;
+
+  const points = history.snapshots.map((snapshot) => {
+    const entry = snapshot.entries.find((candidate) => candidate.teamKey === teamKey) ?? null;
+    const rank = entry?.rank ?? null;
+    teamName = entry?.teamName ?? teamName;
+    const point: TeamRankingsHistoryPoint = {
+      pollWeek: snapshot.pollWeek,
+      updatedAt: snapshot.updatedAt,
+      capturedAt: snapshot.capturedAt,
+      rank,
+      movement: rank !== null && previousRank !== null ? previousRank - rank : null,
+    };
+    previousRank = rank;
+    return point;
+  });
+
+  const ranks = points.map((point) => point.rank).filter((rank): rank is number => rank !== null);
+  return {
+    source: history.source,
+    teamKey,
+    teamName,
+    weeksRanked: new Set(points.filter((point) => point.rank !== null).map((point) => point.pollWeek)).size,
+    bestRank: ranks.length > 0 ? Math.min(...ranks) : null,
+    currentRank: points[points.length - 1]?.rank ?? null,
+    points,
+  };
+}
+
+/**
+ * Averages each team's rank across the given polls. A team missing from a poll counts as one
+ * spot below that poll's last rank, so a team ranked in one poll does not outrank a consensus pick.
+ */
+export function buildConsensusRankings(feeds: RankingsFeed[]): ConsensusRankingsEntry[] {
+  const teams = new Map<string, { teamName: string; ranks: Partial<Record<RankingsSource, number | null>> }>();
+  for (const feed of feeds) {
+    for (const entry of feed.entries) {
+      const key = rankingsTeamKey(entry);
+      const team = teams.get(key) ?? { teamName: entry.teamName, ranks: {} };
+      team.ranks[feed.source] = entry.rank;
+      teams.set(key, team);
+    }
+  }
+
+  const entries = Array.from(teams.entries()).map(([teamKey, team]) => {
+    let total = 0;
+    let pollsRanked = 0;
+    for (const feed of feeds) {
+      const rank = team.ranks[feed.source] ?? null;
+      team.ranks[feed.source] = rank;
+      if (rank !== null) {
+        pollsRanked += 1;
+      }
+      total += rank ?? unrankedValue(feed);
+    }
+    return {
+      rank: 0,
+      teamKey,
+      teamName: team.teamName,
+      averageRank: Math.round((total / Math.max(feeds.length, 1)) * 100) / 100,
+      pollsRanked,
+      ranks: team.ranks,
+    };
+  });
+
+  entries.sort(
+    (a, b) => a.averageRank - b.averageRank || b.pollsRanked - a.pollsRanked || a.teamName.localeCompare(b.teamName)
+  );
+  return entries.map((entry, index) => ({ ...entry, rank: index + 1 }));
+}
+
+function rankingsTeamKey(entry: Pick<RankingsEntry, "teamId" | "teamName">): string {
+  return entry.teamId ?? toTeamId(entry.teamName);
+}
+
+function unrankedValue(feed: RankingsFeed): number {
+  return feed.entries.reduce((max, entry) => Math.max(max, entry.rank), 0) + 1;
+}
+
+function countWeeksRanked(snapshots: RankingsSnapshot[]): Map<string, number> {
+  const weeks = new Map<string, Set<string>>();
+  for (const snapshot of snapshots) {
+    for (const entry of snapshot.entries) {
+      const teamWeeks = weeks.get(entry.teamKey) ?? new Set<string>();
+      teamWeeks.add(snapshot.pollWeek);
+      weeks.set(entry.teamKey, teamWeeks);
+    }
+  }
+  return new Map(Array.from(weeks.entries()).map(([teamKey, teamWeeks]) => [teamKey, teamWeeks.size]));
+}
+
+/** Monday of the week the poll was released, from its `updatedAt` when that parses, else from `capturedAt`. */
+export function rankingsPollWeek(updatedAt: string | null, capturedAt: string): string {
+  const date = toIsoDate(updatedAt) ?? capturedAt.slice(0, 10);
+  const dayMs = Date.parse(`${date}T00:00:00Z`);
+  const daysSinceMonday = (new Date(dayMs).getUTCDay() + 6) % 7;
+  return new Date(dayMs - daysSinceMonday * DAY_MS).toISOString().slice(0, 10);
+}
+
+/** Scrapers report dates like "March 9, 2026" or ISO timestamps. */
+function toIsoDate(value: string | null): string | null {
+  const iso = value?.match(/^\d{4}-\d{2}-\d{2}/)?.[0];
+  if (iso || !value) {
+    return iso ?? null;
+  }
+
+  const parsed = new Date(value);
+  if (Number.isNaN(parsed.getTime())) {
+    return null;
+  }
+  const pad = (part: number) => String(part).padStart(2, "0");
+  return `${parsed.getFullYear()}-${pad(parsed.getMonth() + 1)}-${pad(parsed.getDate())}`;
+}
+
+/** Files written before snapshots carried `pollWeek` may hold several per week; the last one wins. */
+function keyByPollWeek(history: RankingsHistoryFile): RankingsHistoryFile {
+  const byWeek = new Map<string, RankingsSnapshot>();
+  for (const snapshot of history.snapshots) {
+    const pollWeek = snapshot.pollWeek ?? rankingsPollWeek(snapshot.updatedAt, snapshot.capturedAt);
+    byWeek.set(pollWeek, { ...snapshot, pollWeek });
+  }
+  return { ...history, snapshots: Array.from(byWeek.values()) };
+}
+
+/** Accepts a team key or any name spelling seen in the snapshots. */
+function matchTeamKey(snapshots: RankingsSnapshot[], team: string): string {
+  const registryId = getTeamRegistry().find(team)?.id;
+  if (registryId) {
+    return registryId;
+  }
+
+  const normalized = normalizeTeamName(team);
+  for (const snapshot of snapshots) {
+    const match = snapshot.entries.find(
+      (entry) => entry.teamKey === team || normalizeTeamName(entry.teamName) === normalized
+    );
+    if (match) {
+      return match.teamKey;
+    }
+  }
+  return toTeamId(team);
+}
+
+function snapshotSignature(snapshot: RankingsSnapshot): string {
+  return JSON.stringify([snapshot.updatedAt, snapshot.entries.map((entry) => [entry.rank, entry.teamKey])]);
+}
+
+async function writeJsonAtomic(filePath: string, payload: unknown): Promise<void> {
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+  const tmpPath = `${filePath}.${process.pid}.tmp`;
+  await fs.writeFile(tmpPath, `${JSON.stringify(payload, null, 2)}\n`, "utf8");
+  await fs.rename(tmpPath, filePath);
+}
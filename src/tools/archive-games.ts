@@ -0,0 +1,114 @@
+import path from "path";
+import { extractStatBroadcastId } from "../scrapers/statbroadcast-pdf";
+import { GameArchive } from "../storage/game-archive";
+
+interface CliOptions {
+  inputs: string[];
+  rootDir: string | null;
+  force: boolean;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (options.inputs.length === 0) {
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  const archive = new GameArchive(options.rootDir ? { rootDir: options.rootDir } : {});
+  let failures = 0;
+
+  for (const input of options.inputs) {
+    const id = extractStatBroadcastId(input);
+    if (!id) {
+      failures += 1;
+      // eslint-disable-next-line no-console
+      console.error(`Skipping "${input}": not a StatBroadcast id or URL.`);
+      continue;
+    }
+
+    try {
+      const record = await archive.archiveGame(id, { force: options.force });
+      if (!record) {
+        // eslint-disable-next-line no-console
+        console.log(`${id}: not final yet, skipped`);
+        continue;
+      }
+
+      const { entry } = record;
+      // eslint-disable-next-line no-console
+      console.log(
+        `${id}: ${entry.visitorTeam} ${entry.visitorScore ?? "-"} at ${entry.homeTeam} ${entry.homeScore ?? "-"} -> ${path.join(archive.rootDir, entry.file)}`
+      );
+      record.warnings.forEach((warning) => {
+        // eslint-disable-next-line no-console
+        console.warn(`  warning: ${warning}`);
+      });
+    } catch (error) {
+      failures += 1;
+      // eslint-disable-next-line no-console
+      console.error(`${id}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (failures > 0) {
+    process.exitCode = 1;
+  }
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    inputs: [],
+    rootDir: null,
+    force: false,
+  };
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    const next = argv[index + 1];
+
+    if (arg === "--id" || arg === "--url" || arg === "--input") {
+      if (!next) {
+        throw new Error(`Missing value for ${arg}`);
+      }
+      options.inputs.push(...next.split(",").map((part) => part.trim()).filter(Boolean));
+      index += 1;
+      continue;
+    }
+
+    if (arg === "--dir") {
+      if (!next) {
+        throw new Error("Missing value for --dir");
+      }
+      options.rootDir = path.resolve(next);
+      index += 1;
+      continue;
+    }
+
+    if (arg === "--force") {
+      options.force = true;
+      continue;
+    }
+
+    if (arg === "--help" || arg === "-h") {
+      printUsage();
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+function printUsage(): void {
+  // eslint-disable-next-line no-console
+  console.log("Usage: npm run archive:games -- --id 635076[,635077] [--dir data/archive] [--force]");
+}
+
+void main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  // eslint-disable-next-line no-console
+  console.error(`archive:games failed: ${message}`);
+  process.exit(1);
+});
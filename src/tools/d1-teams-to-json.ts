@@ -1,6 +1,7 @@
 import fs from "fs/promises";
 import path from "path";
 import { getD1TeamsDatabase } from "../scrapers/d1";
+import { getTeamRegistry } from "../utils/team-registry";
 
 interface CliOptions {
   outPath: string | null;
@@ -34,6 +35,14 @@ async function main(): Promise<void> {
   console.log(`Wrote ${outPath}`);
   // eslint-disable-next-line no-console
   console.log(`Teams: ${payload.teams.length} | Conferences: ${payload.conferences.length}`);
+
+  const registry = getTeamRegistry();
+  registry.registerD1Teams(payload.teams);
+  const unmatched = await registry.writeUnmatchedReport();
+  if (unmatched.total > 0) {
+    // eslint-disable-next-line no-console
+    console.log(`Team registry: ${unmatched.total} unmatched names (see data/tmp/team-registry/unmatched.json)`);
+  }
   if (payload.errors.length > 0) {
     // eslint-disable-next-line no-console
     console.log(`Global warnings: ${payload.errors.length}`);
@@ -0,0 +1,152 @@
+import fs from "fs/promises";
+import path from "path";
+import { buildBaseballScorekeepingData } from "../scorekeeping/baseball";
+import { exportRetrosheetGame, formatRetrosheetEventFile, type RetrosheetGameExport } from "../scorekeeping/retrosheet";
+import { GameArchive, type ArchivedGame } from "../storage/game-archive";
+
+interface CliOptions {
+  season: string | null;
+  team: string | null;
+  rootDir: string | null;
+  outDir: string | null;
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2));
+
+  if (!options.season) {
+    printUsage();
+    process.exitCode = 1;
+    return;
+  }
+
+  const archive = new GameArchive(options.rootDir ? { rootDir: options.rootDir } : {});
+  const games = (await archive.readGames({ season: options.season, team: options.team }))
+    .filter((game) => /^bs/i.test(game.entry.sport))
+    .sort((a, b) => (a.entry.date ?? "").localeCompare(b.entry.date ?? "") || a.id - b.id);
+  if (games.length === 0) {
+    // eslint-disable-next-line no-console
+    console.log(`No archived baseball games for ${options.season}${options.team ? ` (${options.team})` : ""}.`);
+    return;
+  }
+
+  const outDir = options.outDir ?? path.resolve(process.cwd(), "data", "tmp", "retrosheet", options.season);
+  const byHomeTeam = new Map<string, RetrosheetGameExport[]>();
+  const gameNumbers = assignGameNumbers(games);
+  let unmapped = 0;
+
+  for (const game of games) {
+    const data = game.baseballScorekeeping ?? buildBaseballScorekeepingData(game.finalGame);
+    const exported = exportRetrosheetGame(data, {
+      date: game.entry.date,
+      gameNumber: gameNumbers.get(game.id) ?? 0,
+      lineups: game.finalGame.lineups,
+    });
+    byHomeTeam.set(exported.homeTeamCode, [...(byHomeTeam.get(exported.homeTeamCode) ?? []), exported]);
+
+    // eslint-disable-next-line no-console
+    console.log(`${game.id} -> ${exported.gameId}: ${exported.records.length} records`);
+    exported.unmappedPlays.forEach((play) => {
+      unmapped += 1;
+      // eslint-disable-next-line no-console
+      console.warn(`  unmapped ${play.playId} (${play.reason}): ${play.text}`);
+    });
+  }
+
+  await fs.mkdir(outDir, { recursive: true });
+  for (const [teamCode, exports] of byHomeTeam) {
+    const outPath = path.join(outDir, `${options.season}${teamCode}.EVN`);
+    await fs.writeFile(outPath, formatRetrosheetEventFile(exports), "utf8");
+    // eslint-disable-next-line no-console
+    console.log(`Wrote ${outPath}`);
+  }
+
+  // eslint-disable-next-line no-console
+  console.log(`Games: ${games.length} | Unmapped plays: ${unmapped}`);
+}
+
+/** Doubleheaders at the same park get game numbers 1 and 2; single games stay 0. */
+function assignGameNumbers(games: ArchivedGame[]): Map<number, number> {
+  const groups = new Map<string, number[]>();
+  for (const game of games) {
+    const key = `${game.entry.date}|${game.entry.homeTeam}`;
+    groups.set(key, [...(groups.get(key) ?? []), game.id]);
+  }
+
+  const numbers = new Map<number, number>();
+  for (const ids of groups.values()) {
+    ids.forEach((id, index) => numbers.set(id, ids.length > 1 ? index + 1 : 0));
+  }
+  return numbers;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = {
+    season: null,
+    team: null,
+    rootDir: null,
+    outDir: null,
+  };
+
+  for (let index = 0; index < argv.length; index += 1) {
+    const arg = argv[index];
+    const next = argv[index + 1];
+
+    if (arg === "--season") {
+      if (!next) {
+        throw new Error("Missing value for --season");
+      }
+      options.season = next;
+      index += 1;
+      continue;
+    }
+
+    if (arg === "--team") {
+      if (!next) {
+        throw new Error("Missing value for --team");
+      }
+      options.team = next;
+      index += 1;
+      continue;
+    }
+
+    if (arg === "--dir") {
+      if (!next) {
+        throw new Error("Missing value for --dir");
+      }
+      options.rootDir = path.resolve(next);
+      index += 1;
+      continue;
+    }
+
+    if (arg === "--out") {
+      if (!next) {
+        throw new Error("Missing value for --out");
+      }
+      options.outDir = path.resolve(next);
+      index += 1;
+      continue;
+    }
+
+    if (arg === "--help" || arg === "-h") {
+      printUsage();
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+function printUsage(): void {
+  // eslint-disable-next-line no-console
+  console.log(
+    'Usage: npm run retrosheet:export -- --season 2026 [--team "Southern Miss"] [--dir data/archive] [--out data/tmp/retrosheet/2026]'
+  );
+}
+
+void main().catch((error: unknown) => {
+  const message = error instanceof Error ? error.message : String(error);
+  // eslint-disable-next-line no-console
+  console.error(`retrosheet:export failed: ${message}`);
+  process.exit(1);
+});
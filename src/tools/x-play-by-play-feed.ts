@@ -9,12 +9,12 @@ import {
   extractParticipantNamesFromLineupStats,
   isFinalStatus,
 } from "../pipelines/live-play-feed";
-import { getFinalGame, getLiveStats, getLiveSummary } from "../scrapers/statbroadcast";
+import { liveStatsProviders, type ResolvedLiveGame } from "../pipelines/live-stats-provider";
 import { isSouthernMissGame } from "../utils/team-filter";
 import { loadDotEnv } from "../utils/env";
 
 interface CliOptions {
-  gameId: number;
+  game: ResolvedLiveGame;
   intervalMs: number;
   finalGraceMs: number;
   statePath: string;
@@ -29,7 +29,7 @@ interface CliOptions {
 
 interface FeedState {
   version: 1;
-  gameId: number;
+  gameKey: string;
   createdAt: string;
   updatedAt: string;
   bootstrapped: boolean;
@@ -46,7 +46,7 @@ let lineupWarningLogged = false;
 async function main(): Promise<void> {
   loadDotEnv();
   const options = parseArgs(process.argv.slice(2), process.env);
-  const state = await loadOrCreateState(options.statePath, options.gameId);
+  const state = await loadOrCreateState(options.statePath, options.game.ref.gameKey);
   const xClient = options.dryRun ? null : XClient.fromEnv(process.env);
 
   let shouldExit = false;
@@ -64,18 +64,19 @@ async function main(): Promise<void> {
 }
 
 async function runCycle(options: CliOptions, state: FeedState, xClient: XClient | null): Promise<boolean> {
-  const summary = await getLiveSummary(options.gameId);
+  const { provider, ref } = options.game;
+  const summary = await provider.getSummary(ref);
   if (!isSouthernMissGame(summary.visitorTeam, summary.homeTeam)) {
     throw new Error(
-      `Game ${options.gameId} is ${summary.visitorTeam} at ${summary.homeTeam}. This script is restricted to Southern Miss games.`
+      `Game ${ref.gameKey} is ${summary.visitorTeam} at ${summary.homeTeam}. This script is restricted to Southern Miss games.`
     );
   }
 
-  const [liveStats, participantNames] = await Promise.all([
-    getLiveStats(options.gameId, "plays"),
-    loadParticipantNames(options.gameId),
+  const [playByPlay, participantNames] = await Promise.all([
+    provider.getPlays(ref, summary),
+    loadParticipantNames(options.game),
   ]);
-  const plays = extractLivePlayEvents(liveStats);
+  const plays = playByPlay.events;
   const playStates = deriveLivePlayStates(plays, summary);
 
   const postedSet = new Set(state.postedPlayKeys);
@@ -92,7 +93,7 @@ async function runCycle(options: CliOptions, state: FeedState, xClient: XClient
       state.updatedAt = new Date().toISOString();
 
       // eslint-disable-next-line no-console
-      console.log(`[bootstrap] Seeded ${plays.length} existing plays for game ${options.gameId}.`);
+      console.log(`[bootstrap] Seeded ${plays.length} existing plays for game ${ref.gameKey}.`);
       return false;
     }
   }
@@ -140,7 +141,7 @@ async function runCycle(options: CliOptions, state: FeedState, xClient: XClient
       state.finalCandidateAt = new Date().toISOString();
       // eslint-disable-next-line no-console
       console.log(
-        `[final-candidate] Likely final play detected for game ${options.gameId}; waiting ${Math.floor(
+        `[final-candidate] Likely final play detected for game ${ref.gameKey}; waiting ${Math.floor(
           options.finalGraceMs / 1000
         )}s confirmation window.`
       );
@@ -160,7 +161,7 @@ async function runCycle(options: CliOptions, state: FeedState, xClient: XClient
     (isOfficialFinal || (isLikelyFinalFromPlays && graceSatisfied));
 
   if (shouldPostFinalNow) {
-    const pitcherDecisions = await resolveFinalPitcherDecisions(options.gameId);
+    const pitcherDecisions = await resolveFinalPitcherDecisions(options.game);
     const text = buildFinalTweetText({
       summary,
       pitcherDecisions,
@@ -192,15 +193,15 @@ async function runCycle(options: CliOptions, state: FeedState, xClient: XClient
   return shouldExitForFinal && (!options.postFinal || state.finalPosted) && !pendingPlays;
 }
 
-async function loadParticipantNames(gameId: number): Promise<string[]> {
+async function loadParticipantNames({ provider, ref }: ResolvedLiveGame): Promise<string[]> {
   try {
-    const lineupStats = await getLiveStats(gameId, "lineups");
-    return extractParticipantNamesFromLineupStats(lineupStats);
+    const sections = await provider.getLineups(ref);
+    return extractParticipantNamesFromLineupStats({ sections });
   } catch (error) {
     if (!lineupWarningLogged) {
       const message = error instanceof Error ? error.message : String(error);
       // eslint-disable-next-line no-console
-      console.warn(`[lineups] Failed to load lineup names for game ${gameId}; continuing without them (${message})`);
+      console.warn(`[lineups] Failed to load lineup names for game ${ref.gameKey}; continuing without them (${message})`);
       lineupWarningLogged = true;
     }
     return [];
@@ -231,20 +232,20 @@ async function sendTweet(
   return posted.id;
 }
 
-async function loadOrCreateState(statePath: string, gameId: number): Promise<FeedState> {
+async function loadOrCreateState(statePath: string, gameKey: string): Promise<FeedState> {
   try {
     const raw = await fs.readFile(statePath, "utf8");
-    const parsed = JSON.parse(raw) as FeedState;
+    const parsed = JSON.parse(raw) as FeedState & { gameId?: number };
+    // State files written before multi-provider support only stored the statbroadcast id.
+    const storedKey = parsed.gameKey ?? (parsed.gameId ? `statbroadcast:${parsed.gameId}` : null);
 
-    if (parsed.gameId !== gameId) {
-      throw new Error(
-        `State file ${statePath} is for game ${parsed.gameId}, but --id ${gameId} was requested.`
-      );
+    if (storedKey !== gameKey) {
+      throw new Error(`State file ${statePath} is for game ${storedKey}, but ${gameKey} was requested.`);
     }
 
     return {
       version: 1,
-      gameId,
+      gameKey,
       createdAt: parsed.createdAt ?? new Date().toISOString(),
       updatedAt: parsed.updatedAt ?? new Date().toISOString(),
       bootstrapped: Boolean(parsed.bootstrapped),
@@ -264,7 +265,7 @@ async function loadOrCreateState(statePath: string, gameId: number): Promise<Fee
   const now = new Date().toISOString();
   return {
     version: 1,
-    gameId,
+    gameKey,
     createdAt: now,
     updatedAt: now,
     bootstrapped: false,
@@ -337,22 +338,22 @@ function detectLikelyFinalFromPlays(
   return false;
 }
 
-async function resolveFinalPitcherDecisions(gameId: number): Promise<{
+async function resolveFinalPitcherDecisions({ provider, ref }: ResolvedLiveGame): Promise<{
   winning: string | null;
   save: string | null;
   losing: string | null;
 }> {
   try {
-    const finalGame = await getFinalGame(gameId);
+    const finalGame = await provider.getFinal(ref);
     return {
-      winning: toOptionalDecisionName(finalGame.pitcherDecisions.winning?.player),
-      save: toOptionalDecisionName(finalGame.pitcherDecisions.save?.player),
-      losing: toOptionalDecisionName(finalGame.pitcherDecisions.losing?.player),
+      winning: toOptionalDecisionName(finalGame?.pitcherDecisions.winning?.player),
+      save: toOptionalDecisionName(finalGame?.pitcherDecisions.save?.player),
+      losing: toOptionalDecisionName(finalGame?.pitcherDecisions.losing?.player),
     };
   } catch (error) {
     const message = error instanceof Error ? error.message : String(error);
     // eslint-disable-next-line no-console
-    console.warn(`[final] Could not load pitcher decisions for game ${gameId}: ${message}`);
+    console.warn(`[final] Could not load pitcher decisions for game ${ref.gameKey}: ${message}`);
     return {
       winning: null,
       save: null,
@@ -372,6 +373,7 @@ function toOptionalDecisionName(value: string | null | undefined): string | null
 
 function parseArgs(argv: string[], env: NodeJS.ProcessEnv): CliOptions {
   const idRaw = firstNonEmpty(env.X_FEED_GAME_ID);
+  const urlRaw = firstNonEmpty(env.X_FEED_LIVE_STATS_URL);
   const intervalRaw = firstNonEmpty(env.X_FEED_INTERVAL_SECONDS);
   const finalGraceRaw = firstNonEmpty(env.X_FEED_FINAL_GRACE_SECONDS);
   const bootstrapRaw = firstNonEmpty(env.X_FEED_BOOTSTRAP);
@@ -380,8 +382,13 @@ function parseArgs(argv: string[], env: NodeJS.ProcessEnv): CliOptions {
   const postFinalRaw = firstNonEmpty(env.X_FEED_POST_FINAL);
   const appendTagRaw = firstNonEmpty(env.X_FEED_APPEND_TAG);
 
-  const options: Omit<CliOptions, "gameId" | "statePath"> & { gameId: number | null; statePath: string | null } = {
+  const options: Omit<CliOptions, "game" | "statePath"> & {
+    gameId: number | null;
+    liveStatsUrl: string | null;
+    statePath: string | null;
+  } = {
     gameId: parsePositiveInteger(idRaw),
+    liveStatsUrl: urlRaw,
     intervalMs: Math.max(5_000, (parsePositiveInteger(intervalRaw) ?? 20) * 1000),
     finalGraceMs: Math.max(30_000, (parsePositiveInteger(finalGraceRaw) ?? 120) * 1000),
     statePath: null,
@@ -407,6 +414,15 @@ function parseArgs(argv: string[], env: NodeJS.ProcessEnv): CliOptions {
       continue;
     }
 
+    if (arg === "--url") {
+      if (!next) {
+        throw new Error("Missing value for --url");
+      }
+      options.liveStatsUrl = next.trim();
+      index += 1;
+      continue;
+    }
+
     if (arg === "--interval") {
       if (!next) {
         throw new Error("Missing value for --interval");
@@ -516,16 +532,23 @@ function parseArgs(argv: string[], env: NodeJS.ProcessEnv): CliOptions {
     throw new Error(`Unknown argument: ${arg}`);
   }
 
-  if (!options.gameId) {
-    throw new Error("Missing required --id <statbroadcast game id> (or X_FEED_GAME_ID env var).");
+  if (!options.gameId && !options.liveStatsUrl) {
+    throw new Error(
+      "Missing required --id <statbroadcast game id> or --url <live stats url> (or X_FEED_GAME_ID / X_FEED_LIVE_STATS_URL env vars)."
+    );
+  }
+
+  const game = liveStatsProviders.resolve({ statbroadcastId: options.gameId, liveStatsUrl: options.liveStatsUrl });
+  if (!game) {
+    throw new Error(`No live stats provider recognizes ${options.liveStatsUrl}.`);
   }
 
   const statePath =
     options.statePath ??
-    path.resolve(process.cwd(), "data", "tmp", "x-feed", `statbroadcast-${options.gameId}.json`);
+    path.resolve(process.cwd(), "data", "tmp", "x-feed", `${game.ref.gameKey.replace(/[^a-z0-9]+/gi, "-")}.json`);
 
   return {
-    gameId: options.gameId,
+    game,
     intervalMs: options.intervalMs,
     finalGraceMs: options.finalGraceMs,
     statePath,
@@ -574,7 +597,7 @@ function sleep(ms: number): Promise<void> {
 function printUsage(): void {
   // eslint-disable-next-line no-console
   console.log(
-    "Usage: npm run x:feed -- --id 636528 [--interval 20] [--final-grace 120] [--state data/tmp/x-feed/game.json] [--once] [--dry-run] [--bootstrap latest|all] [--thread-mode reply|none] [--max-posts 6] [--post-final|--no-post-final] [--tag '#NCAABaseball']"
+    "Usage: npm run x:feed -- --id 636528|--url <live stats url> [--interval 20] [--final-grace 120] [--state data/tmp/x-feed/game.json] [--once] [--dry-run] [--bootstrap latest|all] [--thread-mode reply|none] [--max-posts 6] [--post-final|--no-post-final] [--tag '#NCAABaseball']"
   );
 }
 
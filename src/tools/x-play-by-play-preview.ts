@@ -2,16 +2,15 @@ import {
   buildFinalTweetText,
   buildPlayTweetText,
   deriveLivePlayStates,
-  extractLivePlayEvents,
   extractParticipantNamesFromLineupStats,
   isFinalStatus,
 } from "../pipelines/live-play-feed";
-import { getLiveStats, getLiveSummary } from "../scrapers/statbroadcast";
+import { liveStatsProviders, type ResolvedLiveGame } from "../pipelines/live-stats-provider";
 import { isSouthernMissGame } from "../utils/team-filter";
 import { loadDotEnv } from "../utils/env";
 
 interface CliOptions {
-  gameId: number;
+  game: ResolvedLiveGame;
   appendTag: string | null;
   includeFinal: boolean;
   limit: number | null;
@@ -25,6 +24,7 @@ let lineupWarningLogged = false;
 async function main(): Promise<void> {
   loadDotEnv();
   const options = parseArgs(process.argv.slice(2), process.env);
+  const { provider, ref } = options.game;
   const seenPlayKeys = new Set<string>();
   let bootstrapped = false;
   let finalPosted = false;
@@ -32,7 +32,7 @@ async function main(): Promise<void> {
   let fatalError: Error | null = null;
 
   // eslint-disable-next-line no-console
-  console.log(`# Preview watcher started for game ${options.gameId}`);
+  console.log(`# Preview watcher started for game ${ref.gameKey}`);
   // eslint-disable-next-line no-console
   console.log(
     `# Mode: ${options.once ? "once" : "follow"} | Interval: ${Math.floor(options.intervalMs / 1000)}s | Bootstrap: ${options.bootstrapMode}`
@@ -40,18 +40,18 @@ async function main(): Promise<void> {
 
   do {
     try {
-      const summary = await getLiveSummary(options.gameId);
+      const summary = await provider.getSummary(ref);
       if (!isSouthernMissGame(summary.visitorTeam, summary.homeTeam)) {
         throw new Error(
-          `Game ${options.gameId} is ${summary.visitorTeam} at ${summary.homeTeam}. This script is restricted to Southern Miss games.`
+          `Game ${ref.gameKey} is ${summary.visitorTeam} at ${summary.homeTeam}. This script is restricted to Southern Miss games.`
         );
       }
 
-      const [liveStats, participantNames] = await Promise.all([
-        getLiveStats(options.gameId, "plays"),
-        loadParticipantNames(options.gameId),
+      const [playByPlay, participantNames] = await Promise.all([
+        provider.getPlays(ref, summary),
+        loadParticipantNames(options.game),
       ]);
-      const plays = extractLivePlayEvents(liveStats);
+      const plays = playByPlay.events;
       const playStates = deriveLivePlayStates(plays, summary);
 
       // eslint-disable-next-line no-console
@@ -130,15 +130,15 @@ async function main(): Promise<void> {
   }
 }
 
-async function loadParticipantNames(gameId: number): Promise<string[]> {
+async function loadParticipantNames({ provider, ref }: ResolvedLiveGame): Promise<string[]> {
   try {
-    const lineupStats = await getLiveStats(gameId, "lineups");
-    return extractParticipantNamesFromLineupStats(lineupStats);
+    const sections = await provider.getLineups(ref);
+    return extractParticipantNamesFromLineupStats({ sections });
   } catch (error) {
     if (!lineupWarningLogged) {
       const message = error instanceof Error ? error.message : String(error);
       // eslint-disable-next-line no-console
-      console.warn(`[lineups] Failed to load lineup names for game ${gameId}; continuing without them (${message})`);
+      console.warn(`[lineups] Failed to load lineup names for game ${ref.gameKey}; continuing without them (${message})`);
       lineupWarningLogged = true;
     }
     return [];
@@ -153,11 +153,13 @@ function sleep(ms: number): Promise<void> {
 
 function parseArgs(argv: string[], env: NodeJS.ProcessEnv): CliOptions {
   const idRaw = firstNonEmpty(env.X_PREVIEW_GAME_ID);
+  const urlRaw = firstNonEmpty(env.X_PREVIEW_LIVE_STATS_URL);
   const appendTagRaw = firstNonEmpty(env.X_FEED_APPEND_TAG);
   const intervalRaw = firstNonEmpty(env.X_PREVIEW_INTERVAL_SECONDS);
   const bootstrapRaw = firstNonEmpty(env.X_PREVIEW_BOOTSTRAP);
 
   let gameId = parsePositiveInteger(idRaw);
+  let liveStatsUrl = urlRaw;
   let appendTag = appendTagRaw;
   let includeFinal = true;
   let limit: number | null = null;
@@ -178,6 +180,15 @@ function parseArgs(argv: string[], env: NodeJS.ProcessEnv): CliOptions {
       continue;
     }
 
+    if (arg === "--url") {
+      if (!next) {
+        throw new Error("Missing value for --url");
+      }
+      liveStatsUrl = next.trim();
+      index += 1;
+      continue;
+    }
+
     if (arg === "--tag") {
       if (!next) {
         throw new Error("Missing value for --tag");
@@ -252,12 +263,19 @@ function parseArgs(argv: string[], env: NodeJS.ProcessEnv): CliOptions {
     throw new Error(`Unknown argument: ${arg}`);
   }
 
-  if (!gameId) {
-    throw new Error("Missing required --id <statbroadcast game id> (or X_PREVIEW_GAME_ID env var).");
+  if (!gameId && !liveStatsUrl) {
+    throw new Error(
+      "Missing required --id <statbroadcast game id> or --url <live stats url> (or X_PREVIEW_GAME_ID / X_PREVIEW_LIVE_STATS_URL env vars)."
+    );
+  }
+
+  const game = liveStatsProviders.resolve({ statbroadcastId: gameId, liveStatsUrl });
+  if (!game) {
+    throw new Error(`No live stats provider recognizes ${liveStatsUrl}.`);
   }
 
   return {
-    gameId,
+    game,
     appendTag: appendTag && appendTag.length > 0 ? appendTag : null,
     includeFinal,
     limit,
@@ -291,7 +309,7 @@ function parsePositiveInteger(value: string | null): number | null {
 function printUsage(): void {
   // eslint-disable-next-line no-console
   console.log(
-    "Usage: npm run x:preview -- --id 636528 [--interval 20] [--bootstrap latest|all] [--once] [--tag '#NCAABaseball'] [--limit 25] [--include-final|--no-final]"
+    "Usage: npm run x:preview -- --id 636528|--url <live stats url> [--interval 20] [--bootstrap latest|all] [--once] [--tag '#NCAABaseball'] [--limit 25] [--include-final|--no-final]"
   );
 }
 
@@ -57,6 +57,8 @@ export interface RankingsEntry {
   rank: number;
   teamName: string;
   shortName: string | null;
+  /** Team registry id; null when the name is not in the registry (see the unmatched report). */
+  teamId: string | null;
   record: string | null;
   previousRank: string | null;
   conference: string | null;
@@ -87,6 +89,7 @@ export interface ConferenceStandingsEntry {
   position: number;
   teamName: string;
   shortName: string | null;
+  teamId: string | null;
   conferenceRecord: string | null;
   conferenceWinPct: string | null;
   gamesBack: string | null;
@@ -452,5 +455,13 @@ export interface FrontendLiveSummary {
   lineScore: LineScore | null;
   situation: LiveSituation | null;
   thisInning: StatBroadcastLiveSummary["thisInning"];
+  winProbability: FrontendWinProbability | null;
   fetchedAt: string;
 }
+
+export interface FrontendWinProbability {
+  home: number;
+  away: number;
+  runExpectancy: number | null;
+  model: "default" | "archive";
+}
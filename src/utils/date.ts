@@ -17,6 +17,56 @@ export function normalizeScoreDate(input?: string): string {
   throw new Error("Invalid date format. Use YYYYMMDD or YYYY-MM-DD.");
 }
 
+export function shiftScoreDate(date: string, days: number): string {
+  const shifted = new Date(Date.UTC(Number(date.slice(0, 4)), Number(date.slice(4, 6)) - 1, Number(date.slice(6, 8))));
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10).replace(/-/g, "");
+}
+
+/** Inclusive list of `YYYYMMDD` dates from `from` to `to`. */
+export function listScoreDates(from: string, to: string): string[] {
+  const dates: string[] = [];
+  for (let date = from; date <= to; date = shiftScoreDate(date, 1)) {
+    dates.push(date);
+  }
+  return dates;
+}
+
+/** Reads a US Eastern wall-clock time (`YYYY-MM-DDTHH:mm:ss`) as an instant, in EST or EDT as of that date. */
+export function parseEasternDateTime(value: string): Date | null {
+  const asUtc = Date.parse(`${value}Z`);
+  if (Number.isNaN(asUtc)) {
+    return null;
+  }
+
+  // The offset at the UTC reading is off by an hour only on DST changeover days; recompute it at the first guess.
+  const guess = asUtc - easternOffsetMs(asUtc);
+  return new Date(asUtc - easternOffsetMs(guess));
+}
+
+function easternOffsetMs(instant: number): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: EASTERN_TZ,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(new Date(instant));
+
+  const wallClock = Date.UTC(
+    Number(findPart(parts, "year")),
+    Number(findPart(parts, "month")) - 1,
+    Number(findPart(parts, "day")),
+    Number(findPart(parts, "hour")),
+    Number(findPart(parts, "minute")),
+    Number(findPart(parts, "second"))
+  );
+  return wallClock - Math.floor(instant / 1000) * 1000;
+}
+
 function todayInEastern(): string {
   const parts = new Intl.DateTimeFormat("en-US", {
     timeZone: EASTERN_TZ,
@@ -1,4 +1,4 @@
-import type { D1Game, D1ScoresPayload, TeamSnapshot } from "../types";
+import type { D1Game, D1ScoresPayload, ScoreLink, TeamSnapshot } from "../types";
 
 export function mergePrimaryScoresIntoFallback(
   fallbackPayload: D1ScoresPayload,
@@ -25,7 +25,7 @@ export function mergePrimaryScoresIntoFallback(
         location: primaryGame.location ?? fallbackGame.location,
         roadTeam: mergeTeamSnapshot(fallbackGame.roadTeam, primaryGame.roadTeam),
         homeTeam: mergeTeamSnapshot(fallbackGame.homeTeam, primaryGame.homeTeam),
-        links: primaryGame.links.length > 0 ? primaryGame.links : fallbackGame.links,
+        links: mergeLinks(primaryGame.links, fallbackGame.links),
         liveStatsUrl: fallbackGame.liveStatsUrl ?? primaryGame.liveStatsUrl,
         statbroadcastId: fallbackGame.statbroadcastId ?? primaryGame.statbroadcastId,
         statbroadcastQuery:
@@ -126,6 +126,11 @@ function normalizeUrl(value: string | null | undefined): string | null {
   return clean || null;
 }
 
+function mergeLinks(primaryLinks: ScoreLink[], fallbackLinks: ScoreLink[]): ScoreLink[] {
+  const seen = new Set(primaryLinks.map((link) => normalizeUrl(link.url)));
+  return [...primaryLinks, ...fallbackLinks.filter((link) => !seen.has(normalizeUrl(link.url)))];
+}
+
 function mergeTeamSnapshot(fallbackTeam: TeamSnapshot, primaryTeam: TeamSnapshot): TeamSnapshot {
   return {
     ...fallbackTeam,
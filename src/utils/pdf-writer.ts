@@ -0,0 +1,80 @@
+export interface PdfPage {
+  width: number;
+  height: number;
+  /** Raw content stream operators; fonts are available as /F1 (Helvetica) and /F2 (Helvetica-Bold). */
+  content: string;
+}
+
+/**
+ * Minimal single-file PDF 1.4 writer for vector pages (lines, fills, standard-font text). No
+ * compression, images, or embedded fonts, which keeps the output readable and dependency-free.
+ */
+export function buildPdfDocument(pages: PdfPage[]): Buffer {
+  const objects: string[] = [];
+  const pageIds: number[] = [];
+  const firstPageId = 5;
+
+  objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+  objects[3] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+  objects[4] = "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+  pages.forEach((page, index) => {
+    const pageId = firstPageId + index * 2;
+    const contentId = pageId + 1;
+    const stream = Buffer.from(page.content, "latin1");
+    pageIds.push(pageId);
+    objects[pageId] = [
+      "<< /Type /Page /Parent 2 0 R",
+      `/MediaBox [0 0 ${formatPdfNumber(page.width)} ${formatPdfNumber(page.height)}]`,
+      "/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >>",
+      `/Contents ${contentId} 0 R >>`,
+    ].join(" ");
+    objects[contentId] = `<< /Length ${stream.length} >>\nstream\n${page.content}\nendstream`;
+  });
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map((id) => `${id} 0 R`).join(" ")}] /Count ${pageIds.length} >>`;
+
+  let body = "%PDF-1.4\n";
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id += 1) {
+    offsets[id] = Buffer.byteLength(body, "latin1");
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(body, "latin1");
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id += 1) {
+    body += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+  }
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(body, "latin1");
+}
+
+/** Escapes a string for a PDF literal; characters outside Latin-1 become `?`. */
+export function escapePdfText(value: string): string {
+  return value
+    .normalize("NFC")
+    .replace(/[^\x20-\xff]/g, "?")
+    .replace(/[\\()]/g, (char) => `\\${char}`);
+}
+
+/** Rough Helvetica advance width, good enough to center or right-align short labels. */
+export function estimateHelveticaWidth(value: string, size: number, bold = false): number {
+  let units = 0;
+  for (const char of value) {
+    if (/[0-9]/.test(char)) {
+      units += 556;
+    } else if (/[A-Z]/.test(char)) {
+      units += /[IJ]/.test(char) ? 300 : /[MW]/.test(char) ? 850 : 680;
+    } else if (/[a-z]/.test(char)) {
+      units += /[ijlft]/.test(char) ? 260 : /[mw]/.test(char) ? 800 : 540;
+    } else {
+      units += char === " " ? 278 : 333;
+    }
+  }
+  return (units / 1000) * size * (bold ? 1.06 : 1);
+}
+
+export function formatPdfNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
@@ -1,7 +1,9 @@
 import type { D1ScoresPayload } from "../types";
 
+export type ScoresFallbackSource = "teams-file" | "team-directory" | "ncaa";
+
 export interface ScoresFallbackCandidate {
-  source: "teams-file" | "team-directory";
+  source: ScoresFallbackSource;
   payload: D1ScoresPayload;
   freshnessTier: number;
   recordCoverage: number;
@@ -10,7 +12,7 @@ export interface ScoresFallbackCandidate {
 }
 
 export function buildScoresFallbackCandidate(input: {
-  source: "teams-file" | "team-directory";
+  source: ScoresFallbackSource;
   payload: D1ScoresPayload;
   fetchedAt?: string | null;
   requestedDate: string;
@@ -1,5 +1,8 @@
+import { getTeamRegistry } from "./team-registry";
 import { cleanText } from "./text";
 
+const SOUTHERN_MISS_TEAM_ID = "southern-miss";
+
 const SOUTHERN_MISS_ALIASES = new Set([
   "southern miss",
   "southern mississippi",
@@ -16,7 +19,7 @@ function isSouthernMissTeam(teamName: string): boolean {
     return false;
   }
 
-  if (SOUTHERN_MISS_ALIASES.has(normalized)) {
+  if (SOUTHERN_MISS_ALIASES.has(normalized) || getTeamRegistry().find(teamName)?.id === SOUTHERN_MISS_TEAM_ID) {
     return true;
   }
 
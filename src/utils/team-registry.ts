@@ -0,0 +1,338 @@
+import fs from "fs";
+import fsp from "fs/promises";
+import path from "path";
+
+export const DEFAULT_TEAM_BRANDING_FILE = path.resolve(__dirname, "../../data/branding/team-branding.json");
+export const DEFAULT_UNMATCHED_TEAMS_REPORT = path.resolve(process.cwd(), "data", "tmp", "team-registry", "unmatched.json");
+
+interface TeamBrandingPayload {
+  teams?: TeamBranding[];
+}
+
+interface TeamBranding {
+  school?: string;
+  displayName?: string;
+  shortDisplayName?: string;
+  abbreviation?: string | null;
+  division?: string | null;
+  colors?: {
+    primary?: string | null;
+    secondary?: string | null;
+  };
+  logo?: {
+    primary?: TeamBrandingLogoEntry | null;
+    dark?: TeamBrandingLogoEntry | null;
+  };
+  aliases?: string[];
+}
+
+interface TeamBrandingLogoEntry {
+  href?: string;
+}
+
+export interface RegistryTeam {
+  /** Stable slug of the normalized school name, e.g. `southern-miss` or `mississippi-st`. */
+  id: string;
+  name: string;
+  displayName: string | null;
+  abbreviation: string | null;
+  conference: string | null;
+  d1Id: number | null;
+  d1Slug: string | null;
+  colors: {
+    primary: string | null;
+    secondary: string | null;
+  };
+  logoUrl: string | null;
+  darkLogoUrl: string | null;
+  aliases: string[];
+}
+
+/** A D1 directory team, as found in `D1TeamSeasonData` or `D1TeamDirectoryEntry`. */
+export interface D1RegistryTeamInput {
+  id: number | null;
+  name: string;
+  slug: string | null;
+  conference?: { name: string } | null;
+}
+
+export interface UnmatchedTeamName {
+  name: string;
+  normalized: string;
+  sources: string[];
+  count: number;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+export interface UnmatchedTeamReport {
+  generatedAt: string;
+  total: number;
+  names: UnmatchedTeamName[];
+}
+
+const TEAM_NAME_ALIASES: Record<string, string> = {
+  albany: "ualbany",
+  "appalachian st": "app st",
+  "college of charleston": "charleston",
+  connecticut: "uconn",
+  "csu bakersfield": "cal st bakersfield",
+  hawaii: "hawai i",
+  "illinois chicago": "uic",
+  "la tech": "louisiana tech",
+  "new jersey tech": "njit",
+  "old dom": "old dominion",
+  "southeastern louisiana": "se louisiana",
+  "southern mississippi": "southern miss",
+  tarleton: "tarleton st",
+  "tennessee martin": "ut martin",
+  "usc upstate": "south carolina upstate",
+};
+
+const PLACEHOLDER_SCHOOLS = new Set(["tbd", "tba"]);
+
+let defaultRegistry: TeamRegistry | null = null;
+
+export class TeamRegistry {
+  private readonly teams = new Map<string, RegistryTeam>();
+  private readonly byName = new Map<string, RegistryTeam>();
+  private readonly unmatched = new Map<string, UnmatchedTeamName>();
+
+  constructor(teams: RegistryTeam[] = []) {
+    teams.forEach((team) => this.add(team));
+  }
+
+  static fromBranding(payload: TeamBrandingPayload): TeamRegistry {
+    const registry = new TeamRegistry();
+    const branding = Array.isArray(payload.teams) ? payload.teams : [];
+    const secondaryKeys: Array<[RegistryTeam, Array<string | null | undefined>]> = [];
+
+    for (const entry of branding) {
+      const team = buildBrandingTeam(entry);
+      if (!team) {
+        continue;
+      }
+      const stored = registry.add(team);
+      secondaryKeys.push([stored, [entry.shortDisplayName, entry.abbreviation, ...(entry.aliases ?? [])]]);
+    }
+
+    // Abbreviations and short names collide more often than school names, so they index second.
+    for (const [team, keys] of secondaryKeys) {
+      keys.forEach((key) => registry.index(team, key));
+    }
+
+    return registry;
+  }
+
+  list(): RegistryTeam[] {
+    return Array.from(this.teams.values());
+  }
+
+  get(id: string): RegistryTeam | null {
+    return this.teams.get(id) ?? null;
+  }
+
+  /** Looks a name up without recording a miss; use `resolve` from scrapers. */
+  find(name: string | null | undefined): RegistryTeam | null {
+    const normalized = normalizeTeamName(name);
+    return normalized ? this.byName.get(normalized) ?? null : null;
+  }
+
+  /** Looks a scraped name up and records it for the review report when no team matches. */
+  resolve(name: string | null | undefined, source: string): RegistryTeam | null {
+    const team = this.find(name);
+    if (!team) {
+      this.recordUnmatched(name, source);
+    }
+    return team;
+  }
+
+  /**
+   * Folds D1 directory teams in: matched teams gain their D1 id, slug and conference; D1 teams
+   * missing from branding still get a registry id and are listed in the unmatched report.
+   */
+  registerD1Teams(teams: D1RegistryTeamInput[]): void {
+    for (const input of teams) {
+      if (!toTeamId(input.name)) {
+        continue;
+      }
+
+      const existing = this.find(input.name) ?? this.find(input.slug);
+      if (!existing) {
+        this.recordUnmatched(input.name, "d1-directory");
+      }
+
+      const team = existing ?? this.add(buildBareTeam(input.name));
+      team.d1Id = team.d1Id ?? input.id;
+      team.d1Slug = team.d1Slug ?? input.slug;
+      team.conference = input.conference?.name ?? team.conference;
+      this.index(team, input.name);
+      this.index(team, input.slug);
+    }
+  }
+
+  unmatchedReport(): UnmatchedTeamReport {
+    const names = Array.from(this.unmatched.values()).sort(
+      (a, b) => b.count - a.count || a.normalized.localeCompare(b.normalized)
+    );
+    return { generatedAt: new Date().toISOString(), total: names.length, names };
+  }
+
+  async writeUnmatchedReport(filePath = DEFAULT_UNMATCHED_TEAMS_REPORT): Promise<UnmatchedTeamReport> {
+    const report = this.unmatchedReport();
+    await fsp.mkdir(path.dirname(filePath), { recursive: true });
+    await fsp.writeFile(filePath, `${JSON.stringify(report, null, 2)}\n`, "utf8");
+    return report;
+  }
+
+  private add(team: RegistryTeam): RegistryTeam {
+    const existing = this.teams.get(team.id);
+    if (existing) {
+      existing.aliases = unique([...existing.aliases, ...team.aliases]);
+      existing.logoUrl = existing.logoUrl ?? team.logoUrl;
+      existing.darkLogoUrl = existing.darkLogoUrl ?? team.darkLogoUrl;
+      existing.colors.primary = existing.colors.primary ?? team.colors.primary;
+      existing.colors.secondary = existing.colors.secondary ?? team.colors.secondary;
+      return existing;
+    }
+
+    this.teams.set(team.id, team);
+    this.index(team, team.name);
+    this.index(team, team.displayName);
+    return team;
+  }
+
+  private index(team: RegistryTeam, name: string | null | undefined): void {
+    const normalized = normalizeTeamName(name);
+    if (!normalized || this.byName.has(normalized)) {
+      return;
+    }
+    this.byName.set(normalized, team);
+    const clean = String(name ?? "").trim();
+    if (clean && !team.aliases.includes(clean)) {
+      team.aliases.push(clean);
+    }
+  }
+
+  private recordUnmatched(name: string | null | undefined, source: string): void {
+    const normalized = normalizeTeamName(name);
+    if (!normalized || PLACEHOLDER_SCHOOLS.has(normalized)) {
+      return;
+    }
+
+    const now = new Date().toISOString();
+    const existing = this.unmatched.get(normalized);
+    if (existing) {
+      existing.count += 1;
+      existing.lastSeenAt = now;
+      existing.sources = unique([...existing.sources, source]);
+      return;
+    }
+
+    this.unmatched.set(normalized, {
+      name: String(name).trim(),
+      normalized,
+      sources: [source],
+      count: 1,
+      firstSeenAt: now,
+      lastSeenAt: now,
+    });
+  }
+}
+
+/** Shared registry built from `data/branding/team-branding.json`; an unreadable file yields an empty registry. */
+export function getTeamRegistry(): TeamRegistry {
+  if (defaultRegistry === null) {
+    defaultRegistry = loadTeamRegistry(DEFAULT_TEAM_BRANDING_FILE);
+  }
+  return defaultRegistry;
+}
+
+export function loadTeamRegistry(filePath: string): TeamRegistry {
+  try {
+    const raw = fs.readFileSync(filePath, "utf8");
+    return TeamRegistry.fromBranding(JSON.parse(raw) as TeamBrandingPayload);
+  } catch {
+    return new TeamRegistry();
+  }
+}
+
+export function normalizeTeamName(value: string | null | undefined): string {
+  const input = String(value ?? "").trim();
+  if (!input) {
+    return "";
+  }
+
+  const normalized = input
+    .replace(/^#\d+\s+/u, "")
+    .replace(/([A-Za-z])&s\b/gu, "$1's")
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/gu, "")
+    .toLowerCase()
+    .replace(/&/g, " and ")
+    .replace(/[^\w\s]/g, " ")
+    .replace(/\buniversity\b/g, "u")
+    .replace(/\bstate\b/g, "st")
+    .replace(/\bsaint\b/g, "st")
+    .replace(/\bmount\b/g, "mt")
+    .replace(/\s+/g, " ")
+    .trim();
+
+  return TEAM_NAME_ALIASES[normalized] ?? normalized;
+}
+
+export function toTeamId(name: string | null | undefined): string {
+  return normalizeTeamName(name).replace(/\s+/g, "-");
+}
+
+/** Registry id for a name, else the name's own slug; pass the scrape `source` to list misses in the report. */
+export function resolveTeamId(name: string | null | undefined, source?: string): string {
+  const registry = getTeamRegistry();
+  return (source ? registry.resolve(name, source) : registry.find(name))?.id ?? toTeamId(name);
+}
+
+function buildBrandingTeam(entry: TeamBranding): RegistryTeam | null {
+  const school = String(entry.school ?? "").trim();
+  const id = toTeamId(school);
+  if (!id || PLACEHOLDER_SCHOOLS.has(normalizeTeamName(school))) {
+    return null;
+  }
+
+  return {
+    ...buildBareTeam(school),
+    displayName: cleanOptional(entry.displayName),
+    abbreviation: cleanOptional(entry.abbreviation),
+    conference: cleanOptional(entry.division),
+    colors: {
+      primary: cleanOptional(entry.colors?.primary),
+      secondary: cleanOptional(entry.colors?.secondary),
+    },
+    logoUrl: cleanOptional(entry.logo?.primary?.href) ?? cleanOptional(entry.logo?.dark?.href),
+    darkLogoUrl: cleanOptional(entry.logo?.dark?.href),
+  };
+}
+
+function buildBareTeam(name: string): RegistryTeam {
+  return {
+    id: toTeamId(name),
+    name: name.trim(),
+    displayName: null,
+    abbreviation: null,
+    conference: null,
+    d1Id: null,
+    d1Slug: null,
+    colors: { primary: null, secondary: null },
+    logoUrl: null,
+    darkLogoUrl: null,
+    aliases: [],
+  };
+}
+
+function cleanOptional(value: string | null | undefined): string | null {
+  const clean = String(value ?? "").trim();
+  return clean.length > 0 ? clean : null;
+}
+
+function unique(values: string[]): string[] {
+  return Array.from(new Set(values));
+}
@@ -0,0 +1,99 @@
+import { describe, expect, it } from "vitest";
+import type { BaseballUnifiedPlay } from "../src/scorekeeping/baseball";
+import { baseStateKey, extractClauseSubject, trackBaseOutStates } from "../src/scorekeeping/base-state";
+import { parsePitchContextFromText, parsePlayDescription } from "../src/scorekeeping/play-description";
+
+describe("trackBaseOutStates", () => {
+  it("replays a half inning from play text", () => {
+    const transitions = trackBaseOutStates(
+      buildHalf(1, "bottom", [
+        "Able,Al singled to left field (0-0).",
+        "Baker,Bo walked (3-1 BBKB); Able,Al advanced to second.",
+        "Cruz,Cy doubled to left center, 2 RBI (1-1 BK); Able,Al scored; Baker,Bo scored.",
+        "Dunn,Dee struck out swinging (1-2 KBS).",
+        "Eads,Ed grounded out to ss (0-1 K); Cruz,Cy advanced to third.",
+        "Ford,Fin homered to left field, 2 RBI (2-0 BB); Cruz,Cy scored.",
+        "Gray,Gus flied out to cf (0-0).",
+      ])
+    );
+
+    expect(transitions.map((entry) => `${baseStateKey(entry.before.bases)} ${entry.before.outs}`)).toEqual([
+      "___ 0",
+      "1__ 0",
+      "12_ 0",
+      "_2_ 0",
+      "_2_ 1",
+      "__3 2",
+      "___ 2",
+    ]);
+    expect(transitions.map((entry) => entry.runsScored)).toEqual([0, 0, 2, 0, 0, 2, 0]);
+    expect(transitions[6].after).toEqual({ outs: 3, bases: { first: null, second: null, third: null } });
+    expect(transitions[6].scoreBefore).toEqual({ away: 0, home: 4 });
+  });
+
+  it("forces unmentioned runners and tracks runner-only plays", () => {
+    const transitions = trackBaseOutStates(
+      buildHalf(2, "top", [
+        "Able,Al hit by pitch (0-1 K).",
+        "Baker,Bo walked (3-0 BBBB).",
+        "Able,Al stole third.",
+        "Cruz,Cy struck out looking (3-2 BKKBBK); Baker,Bo is out caught stealing, in a double play.",
+      ])
+    );
+
+    expect(transitions[1].movements).toContainEqual({ runner: "Able,Al", from: "first", to: "second" });
+    expect(baseStateKey(transitions[1].after.bases)).toBe("12_");
+    expect(transitions[2].isPlateAppearance).toBe(false);
+    expect(baseStateKey(transitions[2].after.bases)).toBe("1_3");
+    expect(transitions[3].outsOnPlay).toBe(2);
+    expect(baseStateKey(transitions[3].after.bases)).toBe("__3");
+  });
+
+  it("swaps in pinch runners", () => {
+    const transitions = trackBaseOutStates(
+      buildHalf(7, "top", ["Able,Al singled to center field (0-0).", "Speed,Sam pinch ran for Able,Al."])
+    );
+
+    expect(transitions[1].after.bases.first).toBe("Speed,Sam");
+    expect(transitions[1].isPlateAppearance).toBe(false);
+  });
+});
+
+describe("extractClauseSubject", () => {
+  it("reads the leading player name of a clause", () => {
+    expect(extractClauseSubject("De La Cruz,Juan advanced to second.")).toBe("De La Cruz,Juan");
+    expect(extractClauseSubject("scored on the play.")).toBeNull();
+  });
+});
+
+function buildHalf(inning: number, half: "top" | "bottom", texts: string[]): BaseballUnifiedPlay[] {
+  return texts.map((text, index) => {
+    const parsed = parsePlayDescription(text);
+    const batterName = extractClauseSubject(text);
+    return {
+      playId: `P-${inning}-${half}-${index + 1}`,
+      source: "play_by_play",
+      inning,
+      half,
+      order: index + 1,
+      battingSide: half === "top" ? "away" : "home",
+      battingTeam: half === "top" ? "Away" : "Home",
+      text,
+      participants: { batterId: null, batterName, pitcherId: null, pitcherName: null },
+      pitchContext: parsePitchContextFromText(text),
+      result: {
+        outcome: parsed.outcome,
+        tags: parsed.tags,
+        runsScored: 0,
+        isScoringPlay: false,
+        outsAfterPlay: null,
+      },
+      scoring: { decisionRaw: null, decisionContext: null },
+      battedBall: { fielderCodes: [], fieldLocations: [], locationSource: "none", locationConfidence: 0 },
+      runnersBefore: null,
+      runnersAfter: null,
+      runnerMovements: [],
+      winExpectancy: null,
+    };
+  });
+}
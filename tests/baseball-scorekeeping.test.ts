@@ -1,11 +1,13 @@
 import { describe, expect, it } from "vitest";
 import {
-  parsePitchContextFromText,
-  parsePlayDescription,
+  buildBaseballScorekeepingData,
   resolveScoringDecisionContext,
   parseScoringDecisionContext,
   normalizePlayerDisplayName,
 } from "../src/scorekeeping/baseball";
+import { parsePitchContextFromText, parsePlayDescription } from "../src/scorekeeping/play-description";
+import type { StatBroadcastFinalGame } from "../src/types";
+import { buildFinalGame, statsRow } from "./final-game-fixtures";
 
 describe("baseball scorekeeping play parser", () => {
   it("classifies common scoring outcomes", () => {
@@ -33,6 +35,10 @@ describe("baseball scorekeeping play parser", () => {
     expect(dp.tags).toContain("double_play");
     expect(dp.outcome).toBe("caught_stealing");
 
+    const gidp = parsePlayDescription("Clark,Camden grounded into double play ss to 2b to 1b (0-0).");
+    expect(gidp.outcome).toBe("ground_out");
+    expect(gidp.tags).toContain("double_play");
+
     const wildPitch = parsePlayDescription("Kelly,Rowan advanced to third base on a wild pitch.");
     expect(wildPitch.outcome).toBe("wild_pitch");
     expect(wildPitch.tags).toContain("wild_pitch");
@@ -118,3 +124,37 @@ describe("baseball scorekeeping play parser", () => {
     expect(normalizePlayerDisplayName(null)).toBeNull();
   });
 });
+
+describe("baseball scorekeeping runner tracking", () => {
+  it("attaches runners before/after and movements to each play", () => {
+    const data = buildBaseballScorekeepingData(
+      buildGame([
+        "Kelly,Rowan singled to left field (0-0).",
+        "Goldstein,Cade doubled to right field (1-0 B); Kelly,Rowan advanced to third.",
+        "Barrett,Drey singled to center field, 2 RBI (0-0); Goldstein,Cade scored; Kelly,Rowan scored.",
+        "Clark,Camden grounded into double play ss to 2b to 1b (0-0); Barrett,Drey out at second.",
+      ])
+    );
+    const [single, double, twoRunSingle, doublePlay] = data.plays;
+
+    expect(single.runnersBefore).toEqual({ outs: 0, first: null, second: null, third: null });
+    expect(double.runnersBefore?.first).toEqual({ name: "Rowan Kelly", playerId: "away:10:rowan-kelly" });
+    expect(double.runnersAfter).toMatchObject({ second: { name: "Cade Goldstein" }, third: { name: "Rowan Kelly" } });
+    expect(twoRunSingle.runnerMovements.map((movement) => [movement.runner.name, movement.from, movement.to])).toEqual([
+      ["Cade Goldstein", "second", "home"],
+      ["Rowan Kelly", "third", "home"],
+      ["Drey Barrett", "batter", "first"],
+    ]);
+    expect(doublePlay.runnersAfter).toEqual({ outs: 2, first: null, second: null, third: null });
+    expect(doublePlay.runnerMovements.filter((movement) => movement.to === "out")).toHaveLength(2);
+  });
+});
+
+function buildGame(plays: string[]): StatBroadcastFinalGame {
+  return buildFinalGame({
+    id: 801,
+    visitorScore: 2,
+    awayBatting: [statsRow({ col_2: "10", player: "Kelly,Rowan", pos: "cf" })],
+    halves: [{ inning: 1, pitcher: "Arm,Andy", plays }],
+  });
+}
@@ -0,0 +1,143 @@
+import { describe, expect, it } from "vitest";
+import { buildBaseballScorekeepingData } from "../src/scorekeeping/baseball";
+import { describeDiscrepancy, reconcileBoxScore } from "../src/scorekeeping/box-score-reconciliation";
+import type { StatBroadcastFinalGame, StatsTable } from "../src/types";
+import { buildFinalGame } from "./final-game-fixtures";
+
+const TOP_FIRST = [
+  { pitcher: "Smith,John", text: "Able,Al singled to left field (0-0)." },
+  { pitcher: "Smith,John", text: "Baker,Bo homered to left field, 2 RBI (1-0 B); Able,Al scored." },
+  { pitcher: "Smith,John", text: "Cruz,Cy struck out swinging (0-2 KS)." },
+  { pitcher: "Jones,Sam", text: "Dunn,Dee walked (3-0 BBBB)." },
+  { pitcher: "Jones,Sam", text: "Eads,Ed doubled to left field, RBI (0-0); Dunn,Dee scored." },
+  { pitcher: "Jones,Sam", text: "Ford,Fin flied out to cf (0-0)." },
+  { pitcher: "Jones,Sam", text: "Gray,Gus grounded out to 2b (0-0)." },
+];
+
+const BATTING = [
+  battingRow("Able,Al", 1, { ab: 1, r: 1, h: 1, rbi: 0, bb: 0, k: 0 }),
+  battingRow("Baker,Bo", 2, { ab: 1, r: 1, h: 1, rbi: 2, bb: 0, k: 0 }),
+  battingRow("Cruz,Cy", 3, { ab: 1, r: 0, h: 0, rbi: 0, bb: 0, k: 1 }),
+  battingRow("Dunn,Dee", 4, { ab: 0, r: 1, h: 0, rbi: 0, bb: 1, k: 0 }),
+  battingRow("Eads,Ed", 5, { ab: 1, r: 0, h: 1, rbi: 1, bb: 0, k: 0 }),
+  battingRow("Ford,Fin", 6, { ab: 1, r: 0, h: 0, rbi: 0, bb: 0, k: 0 }),
+  battingRow("Gray,Gus", 7, { ab: 1, r: 0, h: 0, rbi: 0, bb: 0, k: 0 }),
+];
+
+const PITCHING = [
+  pitchingRow(22, "Smith,John", "0.1", { h: 2, r: 2, er: 2, bb: 0, k: 1, bf: 3 }),
+  pitchingRow(40, "Jones,Sam", "0.2", { h: 1, r: 1, er: 1, bb: 1, k: 0, bf: 4 }),
+];
+
+describe("reconcileBoxScore", () => {
+  it("finds no discrepancies when the play-by-play matches the box score", () => {
+    const reconciliation = reconcileBoxScore(buildBaseballScorekeepingData(buildGame({ awayFirst: 3, batting: BATTING })));
+
+    expect(reconciliation.status).toBe("ok");
+    expect(reconciliation.checkedPlays).toBe(TOP_FIRST.length);
+    expect(reconciliation.discrepancies).toEqual([]);
+    expect(reconciliation.unresolvedRunners).toEqual([]);
+  });
+
+  it("reports the stat, values, and plays behind each mismatch", () => {
+    const batting = BATTING.map((row) =>
+      row.values.player === "Eads,Ed" ? battingRow("Eads,Ed", 5, { ab: 1, r: 0, h: 1, rbi: 0, bb: 0, k: 0 }) : row
+    );
+    const data = buildBaseballScorekeepingData(buildGame({ awayFirst: 4, batting }));
+    const eadsPlay = data.plays.find((play) => play.text.startsWith("Eads"));
+    const reconciliation = reconcileBoxScore(data);
+
+    expect(reconciliation.status).toBe("discrepancies");
+    expect(reconciliation.discrepancies).toEqual([
+      expect.objectContaining({
+        side: "away",
+        scope: "batting",
+        player: "Ed Eads",
+        stat: "rbi",
+        expected: 0,
+        parsed: 1,
+        playIds: [eadsPlay?.playId],
+      }),
+      expect.objectContaining({ scope: "line_score", inning: 1, stat: "runs", expected: 4, parsed: 3 }),
+    ]);
+    expect(describeDiscrepancy(reconciliation.discrepancies[1])).toBe("Troy inning 1 runs: box score 4, play-by-play 3");
+  });
+
+  it("charges inherited runners to the pitcher who allowed them", () => {
+    const pitching = [
+      pitchingRow(22, "Smith,John", "0.1", { h: 2, r: 3, er: 3, bb: 0, k: 1, bf: 3 }),
+      pitchingRow(40, "Jones,Sam", "0.2", { h: 1, r: 0, er: 0, bb: 1, k: 0, bf: 4 }),
+    ];
+    const reconciliation = reconcileBoxScore(
+      buildBaseballScorekeepingData(buildGame({ awayFirst: 3, batting: BATTING, pitching }))
+    );
+
+    expect(reconciliation.discrepancies.map((entry) => [entry.player, entry.stat, entry.expected, entry.parsed])).toEqual([
+      ["John Smith", "r", 3, 2],
+      ["Sam Jones", "r", 0, 1],
+    ]);
+  });
+});
+
+function battingRow(
+  player: string,
+  jersey: number,
+  line: { ab: number; r: number; h: number; rbi: number; bb: number; k: number }
+): StatsTable["rows"][number] {
+  const values = {
+    col_2: String(jersey),
+    player,
+    pos: "dh",
+    ab: String(line.ab),
+    r: String(line.r),
+    h: String(line.h),
+    rbi: String(line.rbi),
+    bb: String(line.bb),
+    k: String(line.k),
+  };
+  return { cells: Object.values(values), values };
+}
+
+function pitchingRow(
+  jersey: number,
+  player: string,
+  ip: string,
+  line: { h: number; r: number; er: number; bb: number; k: number; bf: number }
+): StatsTable["rows"][number] {
+  const cells = [
+    String(jersey),
+    player,
+    ip,
+    String(line.h),
+    String(line.r),
+    String(line.er),
+    String(line.bb),
+    String(line.k),
+    "0",
+    "0",
+    "0",
+    String(line.bf),
+  ];
+  return { cells, values: {} };
+}
+
+function buildGame(input: {
+  awayFirst: number;
+  batting: StatsTable["rows"];
+  pitching?: StatsTable["rows"];
+}): StatBroadcastFinalGame {
+  return buildFinalGame({
+    id: 701,
+    visitorScore: 3,
+    lineScore: {
+      headers: ["Team", "1", "R", "H", "E"],
+      rows: [
+        { team: "Troy", innings: [], totals: {}, columns: { inning_1: input.awayFirst, r: 3, h: 3, e: 0 } },
+        { team: "Southern Miss", innings: [], totals: {}, columns: { inning_1: 0, r: 0, h: 0, e: 0 } },
+      ],
+    },
+    awayBatting: input.batting,
+    homePitching: input.pitching ?? PITCHING,
+    halves: [{ inning: 1, plays: TOP_FIRST }],
+  });
+}
@@ -0,0 +1,128 @@
+import { describe, expect, it } from "vitest";
+import { projectBracket } from "../src/projections/bracket";
+import { distanceMiles, getConferenceLocation } from "../src/projections/conference-locations";
+import type { ComputedRpiTeam } from "../src/scorekeeping/rpi";
+
+const CONFERENCES = [
+  "SEC",
+  "ACC",
+  "Big West",
+  "Big Ten",
+  "SEC",
+  "ACC",
+  "Big West",
+  "Big Ten",
+  "SEC",
+  "ACC",
+  "Big 12",
+  "SEC",
+  "ACC",
+  "Big Ten",
+  "SEC",
+  "Big West",
+  "ACC",
+  "Summit League",
+  "Summit League",
+  "Independent",
+];
+
+function buildRatings(): ComputedRpiTeam[] {
+  return CONFERENCES.map((conference, index) => {
+    const rank = index + 1;
+    const rpi = Math.round((0.7 - index * 0.01) * 10000) / 10000;
+    return {
+      rank,
+      teamKey: `team-${rank}`,
+      teamName: `Team ${rank}`,
+      slug: null,
+      conference,
+      record: { wins: 30 - index, losses: 10 + index },
+      winPct: rpi,
+      opponentWinPct: 0.5,
+      opponentOpponentWinPct: 0.5,
+      rpi,
+      sos: 0.5,
+      sosRank: rank,
+      quadrants: {
+        quad1: { wins: 0, losses: 0 },
+        quad2: { wins: 0, losses: 0 },
+        quad3: { wins: 0, losses: 0 },
+        quad4: { wins: 0, losses: 0 },
+      },
+    };
+  });
+}
+
+describe("projectBracket", () => {
+  it("fills the field with automatic bids first and the best-rated at-large teams", () => {
+    const projection = projectBracket(buildRatings(), {
+      fieldSize: 16,
+      automaticBids: [{ conference: "Southeastern Conference", teamKey: "team-5" }],
+    });
+
+    expect(projection.fieldSize).toBe(16);
+    expect(projection.automaticBids.map((bid) => [bid.conference, bid.teamKey, bid.source])).toEqual([
+      ["ACC", "team-2", "rating"],
+      ["Big West", "team-3", "rating"],
+      ["Big Ten", "team-4", "rating"],
+      ["SEC", "team-5", "standings"],
+      ["Big 12", "team-11", "rating"],
+      ["Summit League", "team-18", "rating"],
+    ]);
+    expect(projection.lastFourIn.map((team) => team.teamKey)).toEqual(["team-12", "team-13", "team-14", "team-15"]);
+    expect(projection.firstFourOut.map((team) => team.teamKey)).toEqual(["team-16", "team-17", "team-19", "team-20"]);
+
+    const teams = projection.regionals.flatMap((regional) => regional.teams);
+    const summit = teams.find((team) => team.teamKey === "team-18");
+    expect(summit).toMatchObject({ seed: 4, overallSeed: 16, bid: "automatic" });
+  });
+
+  it("seeds hosts and national seeds and pairs regionals into supers", () => {
+    const projection = projectBracket(buildRatings(), { fieldSize: 16 });
+
+    expect(projection.regionals.map((regional) => [regional.hostTeamKey, regional.nationalSeed])).toEqual([
+      ["team-1", 1],
+      ["team-2", 2],
+      ["team-3", null],
+      ["team-4", null],
+    ]);
+    expect(projection.superRegionals).toEqual([
+      { number: 1, regionals: [1, 4] },
+      { number: 2, regionals: [2, 3] },
+    ]);
+    for (const regional of projection.regionals) {
+      expect(regional.teams.map((team) => team.seed)).toEqual([1, 2, 3, 4]);
+    }
+  });
+
+  it("keeps conference mates apart and sends teams to the nearest open host", () => {
+    const projection = projectBracket(buildRatings(), { fieldSize: 16 });
+    const regionalOf = (teamKey: string) =>
+      projection.regionals.find((regional) => regional.teams.some((team) => team.teamKey === teamKey))?.number;
+
+    // The SEC 2 seed cannot join the SEC host, so it goes to the closer ACC host rather than the Big Ten one.
+    expect(regionalOf("team-5")).toBe(2);
+    expect(regionalOf("team-6")).toBe(1);
+
+    const conflicts = projection.regionals.filter((regional) => {
+      const conferences = regional.teams.map((team) => team.conference);
+      return new Set(conferences).size !== conferences.length;
+    });
+    expect(conflicts.length).toBe(projection.constraintViolations.length);
+    // Five SEC teams cannot spread over four regionals; the overflow is reported rather than hidden.
+    expect(projection.constraintViolations).toEqual(["Team 12 shares the Team 2 Regional with another SEC team."]);
+  });
+});
+
+describe("conference locations", () => {
+  it("matches D1 and branding conference names", () => {
+    expect(getConferenceLocation("Southeastern Conference")).toEqual(getConferenceLocation("SEC"));
+    expect(getConferenceLocation("atlantic-coast-conference")).toEqual(getConferenceLocation("ACC"));
+    expect(getConferenceLocation("Conference USA")).toEqual(getConferenceLocation("C-USA"));
+    expect(getConferenceLocation("Independent")).toBeNull();
+
+    const sec = getConferenceLocation("SEC");
+    const bigWest = getConferenceLocation("Big West");
+    expect(sec && bigWest ? Math.round(distanceMiles(sec, bigWest) / 100) * 100 : null).toBe(1700);
+  });
+});
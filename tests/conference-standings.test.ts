@@ -0,0 +1,172 @@
+import { describe, expect, it } from "vitest";
+import {
+  computeConferenceStandings,
+  crossCheckStandings,
+  formatRecord,
+} from "../src/scorekeeping/conference-standings";
+import type { ConferenceStandingsEntry, D1TeamScheduleGame, D1TeamSeasonData } from "../src/types";
+import { buildTeamSeason } from "./d1-team-fixtures";
+
+function buildTeam(
+  name: string,
+  games: Array<[opponentName: string, result: "W" | "L", details?: Partial<D1TeamScheduleGame>]>
+): D1TeamSeasonData {
+  return buildTeamSeason(
+    name,
+    toSlug(name),
+    games.map(([opponentName, result, details]) => ({
+      opponentName,
+      opponentSlug: toSlug(opponentName),
+      outcome: result === "W" ? "win" : "loss",
+      ...details,
+    }))
+  );
+}
+
+function toSlug(name: string): string {
+  return name.toLowerCase().replace(/\s+/g, "-");
+}
+
+function buildConference(): D1TeamSeasonData[] {
+  return [
+    buildTeam("Team A", [
+      ["Team B", "W"],
+      ["Team B", "W"],
+      ["Team B", "L"],
+      ["Team C", "L"],
+      ["Team C", "W"],
+      ["Team C", "L"],
+    ]),
+    buildTeam("Team B", [
+      ["Team A", "L"],
+      ["Team A", "L"],
+      ["Team A", "W"],
+      ["Outsider", "W"],
+      ["Outsider", "W"],
+      ["Team D", "W"],
+      ["Team D", "W"],
+      ["Team D", "W"],
+    ]),
+    buildTeam("Team C", [
+      ["Team D", "W"],
+      ["Team D", "L"],
+      ["Team D", "W"],
+      ["Team A", "W"],
+      ["Team A", "L"],
+      ["Team A", "W"],
+    ]),
+    buildTeam("Team D", [
+      ["Team C", "L"],
+      ["Team C", "W"],
+      ["Team C", "L"],
+      ["Team B", "L"],
+      ["Team B", "L"],
+      ["Team B", "L"],
+    ]),
+  ];
+}
+
+describe("computeConferenceStandings", () => {
+  it("counts conference games only and reports games back, streaks and series", () => {
+    const standings = computeConferenceStandings(buildConference());
+
+    expect(
+      standings.map((entry) => [
+        entry.teamName,
+        `${entry.conferenceRecord.wins}-${entry.conferenceRecord.losses}`,
+        `${entry.overallRecord.wins}-${entry.overallRecord.losses}`,
+        entry.gamesBack,
+        entry.streak,
+      ])
+    ).toEqual([
+      ["Team C", "4-2", "4-2", 0, "W1"],
+      ["Team B", "4-2", "6-2", 0, "W6"],
+      ["Team A", "3-3", "3-3", 1, "L1"],
+      ["Team D", "1-5", "1-5", 3, "L4"],
+    ]);
+    expect(standings[2].series).toEqual({ won: 1, lost: 1, split: 0 });
+    expect(standings[3].series).toEqual({ won: 0, lost: 2, split: 0 });
+  });
+
+  it("skips unmarked midweek games and tournament games between members", () => {
+    const marked = computeConferenceStandings([
+      buildTeam("Team A", [
+        ["Team B", "W", { columns: { opponent: "* Team B" } }],
+        ["Team B", "L", { columns: { opponent: "* Team B" } }],
+        ["Team B", "W"],
+        ["Team B", "W", { notes: "Test Conference Tournament" }],
+      ]),
+      buildTeam("Team B", [
+        ["Team A", "L", { columns: { opponent: "* Team A" } }],
+        ["Team A", "W", { columns: { opponent: "* Team A" } }],
+        ["Team A", "L"],
+        ["Team A", "L", { notes: "Test Conference Tournament" }],
+      ]),
+    ]);
+    expect(marked.map((entry) => [entry.teamName, formatRecord(entry.conferenceRecord)])).toEqual([
+      ["Team A", "1-1"],
+      ["Team B", "1-1"],
+    ]);
+    expect(marked[0].overallRecord).toEqual({ wins: 3, losses: 1 });
+
+    const conference = [
+      buildTeam("Team C", [
+        ["Team D", "W", { dateUrl: "https://d1baseball.com/scores/?date=20260502" }],
+        ["Team D", "W", { dateUrl: "https://d1baseball.com/scores/?date=20260520" }],
+      ]),
+      buildTeam("Team D", [
+        ["Team C", "L", { dateUrl: "https://d1baseball.com/scores/?date=20260502" }],
+        ["Team C", "L", { dateUrl: "https://d1baseball.com/scores/?date=20260520" }],
+      ]),
+    ];
+    expect(computeConferenceStandings(conference)[0].conferenceRecord).toEqual({ wins: 2, losses: 0 });
+    expect(
+      computeConferenceStandings(conference, { tournamentStartDate: "2026-05-19" })[0].conferenceRecord
+    ).toEqual({ wins: 1, losses: 0 });
+  });
+
+  it("applies the configured tiebreakers in order", () => {
+    // B and C never met, so head-to-head is skipped and C's 2-1 record against A decides it.
+    const byDefault = computeConferenceStandings(buildConference());
+    expect(byDefault.slice(0, 2).map((entry) => [entry.teamName, entry.tiebreak])).toEqual([
+      ["Team C", "record-vs-top"],
+      ["Team B", "record-vs-top"],
+    ]);
+    expect(byDefault[2].tiebreak).toBeNull();
+
+    const byOverall = computeConferenceStandings(buildConference(), {
+      tiebreakers: ["head-to-head", "overall-win-pct"],
+    });
+    expect(byOverall.slice(0, 2).map((entry) => [entry.teamName, entry.tiebreak])).toEqual([
+      ["Team B", "overall-win-pct"],
+      ["Team C", "overall-win-pct"],
+    ]);
+
+    const unresolved = computeConferenceStandings(buildConference(), { tiebreakers: ["head-to-head"] });
+    expect(unresolved.slice(0, 2).map((entry) => [entry.teamName, entry.tiebreak])).toEqual([
+      ["Team B", "unresolved"],
+      ["Team C", "unresolved"],
+    ]);
+  });
+});
+
+describe("crossCheckStandings", () => {
+  it("reports record, position and membership differences against the scraped table", () => {
+    const scraped = (position: number, teamName: string, conferenceRecord: string, overallRecord: string) =>
+      ({ position, teamName, teamId: null, conferenceRecord, overallRecord }) as ConferenceStandingsEntry;
+
+    const mismatches = crossCheckStandings(computeConferenceStandings(buildConference()), [
+      scraped(1, "Team C", "4-2", "4-2"),
+      scraped(2, "Team B", "4-2", "6-2"),
+      scraped(3, "Team A", "3-4", "3-4"),
+      scraped(4, "Team E", "1-5", "2-5"),
+    ]);
+
+    expect(mismatches).toEqual([
+      { teamKey: "team-a", teamName: "Team A", field: "conferenceRecord", computed: "3-3", scraped: "3-4" },
+      { teamKey: "team-a", teamName: "Team A", field: "overallRecord", computed: "3-3", scraped: "3-4" },
+      { teamKey: "team-d", teamName: "Team D", field: "missing", computed: 4, scraped: null },
+      { teamKey: "team-e", teamName: "Team E", field: "missing", computed: null, scraped: 4 },
+    ]);
+  });
+});
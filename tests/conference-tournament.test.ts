@@ -0,0 +1,137 @@
+import { describe, expect, it } from "vitest";
+import {
+  buildTournamentGames,
+  resolveConferenceTournament,
+  toTournamentResults,
+  type TournamentResult,
+  type TournamentSeedInput,
+} from "../src/projections/conference-tournament";
+import {
+  CONFERENCE_TOURNAMENT_CONFIGS,
+  findConferenceTournamentConfig,
+} from "../src/projections/conference-tournament-formats";
+import type { D1Game } from "../src/types";
+
+function buildSeeds(count: number): TournamentSeedInput[] {
+  return Array.from({ length: count }, (_, index) => ({
+    seed: index + 1,
+    teamKey: `team-${index + 1}`,
+    teamName: `Team ${index + 1}`,
+  }));
+}
+
+function win(winnerSeed: number, loserSeed: number, startTimeEpoch: number): TournamentResult {
+  return {
+    teamKeys: [`team-${loserSeed}`, `team-${winnerSeed}`],
+    scores: [2, 5],
+    startTimeEpoch,
+  };
+}
+
+describe("buildTournamentGames", () => {
+  it("gives the top seeds byes and pairs the rest best against worst", () => {
+    const games = buildTournamentGames({
+      type: "single-elimination",
+      teams: 12,
+      entryRounds: [
+        [5, 6, 7, 8, 9, 10, 11, 12],
+        [1, 2, 3, 4],
+      ],
+    });
+
+    expect(games.map((game) => [game.id, game.round, ...game.slots.map((slot) => JSON.stringify(slot))])).toEqual([
+      ["G1", "Round 1", '{"type":"seed","seed":5}', '{"type":"seed","seed":12}'],
+      ["G2", "Round 1", '{"type":"seed","seed":6}', '{"type":"seed","seed":11}'],
+      ["G3", "Round 1", '{"type":"seed","seed":7}', '{"type":"seed","seed":10}'],
+      ["G4", "Round 1", '{"type":"seed","seed":8}', '{"type":"seed","seed":9}'],
+      ["G5", "Round 2", '{"type":"seed","seed":1}', '{"type":"winner","gameId":"G4"}'],
+      ["G6", "Round 2", '{"type":"seed","seed":4}', '{"type":"winner","gameId":"G1"}'],
+      ["G7", "Round 2", '{"type":"seed","seed":2}', '{"type":"winner","gameId":"G3"}'],
+      ["G8", "Round 2", '{"type":"seed","seed":3}', '{"type":"winner","gameId":"G2"}'],
+      ["G9", "Semifinals", '{"type":"winner","gameId":"G5"}', '{"type":"winner","gameId":"G6"}'],
+      ["G10", "Semifinals", '{"type":"winner","gameId":"G7"}', '{"type":"winner","gameId":"G8"}'],
+      ["G11", "Championship", '{"type":"winner","gameId":"G9"}', '{"type":"winner","gameId":"G10"}'],
+    ]);
+    expect(buildTournamentGames({ type: "single-elimination", teams: 12 })).toEqual(games);
+  });
+
+  it("rejects double elimination fields that are not a power of two", () => {
+    expect(() => buildTournamentGames({ type: "double-elimination", teams: 6 })).toThrow(/4, 8 or 16/);
+    expect(buildTournamentGames({ type: "double-elimination", teams: 8 })).toHaveLength(15);
+  });
+});
+
+describe("resolveConferenceTournament", () => {
+  it("sends winners-bracket losers to the losers bracket and plays the reset only when needed", () => {
+    const format = { type: "double-elimination", teams: 4 } as const;
+    const results = [win(1, 4, 1), win(3, 2, 2), win(1, 3, 3), win(4, 2, 4), win(3, 4, 5)];
+    const state = resolveConferenceTournament(format, buildSeeds(4), results);
+
+    expect(state.games.map((game) => [game.id, game.status, game.teams.map((team) => team?.seed ?? null)])).toEqual([
+      ["G1", "final", [1, 4]],
+      ["G2", "final", [2, 3]],
+      ["G3", "final", [1, 3]],
+      ["G4", "final", [4, 2]],
+      ["G5", "final", [4, 3]],
+      ["G6", "scheduled", [1, 3]],
+      ["G7", "pending", [null, null]],
+    ]);
+    expect(state.teams.map((team) => [team.seed, team.status, team.losses, team.pathToTitle])).toEqual([
+      [1, "alive", 0, ["G6"]],
+      [2, "eliminated", 2, []],
+      [3, "alive", 1, ["G6", "G7"]],
+      [4, "eliminated", 2, []],
+    ]);
+    expect(state.champion).toBeNull();
+
+    const reset = resolveConferenceTournament(format, buildSeeds(4), [...results, win(3, 1, 6)]);
+    expect(reset.games[6]).toMatchObject({ status: "scheduled", ifNecessary: true });
+    expect(reset.games[6].teams.map((team) => team?.seed)).toEqual([3, 1]);
+
+    const done = resolveConferenceTournament(format, buildSeeds(4), [...results, win(1, 3, 6)]);
+    expect(done.games[6].status).toBe("not-needed");
+    expect(done.champion?.seed).toBe(1);
+    expect(done.teams.map((team) => team.status)).toEqual(["champion", "eliminated", "eliminated", "eliminated"]);
+  });
+
+  it("advances pool winners and projects unplayed games for the better seed", () => {
+    const format = { type: "pool-play", pools: [[1, 4, 5], [2, 3, 6]] } as const;
+    const results = [win(4, 1, 1), win(4, 5, 2), win(1, 5, 3), win(2, 3, 4)];
+    const state = resolveConferenceTournament(format, buildSeeds(6), results);
+    const championship = state.games.find((game) => game.round === "Championship");
+
+    expect(championship?.sources).toEqual(["Pool A winner", "Pool B winner"]);
+    expect(championship?.teams.map((team) => team?.seed ?? null)).toEqual([4, null]);
+    expect(championship?.projected.map((team) => team?.seed ?? null)).toEqual([4, 2]);
+
+    const bySeed = new Map(state.teams.map((team) => [team.seed, team]));
+    expect(bySeed.get(1)?.status).toBe("eliminated");
+    expect(bySeed.get(5)?.status).toBe("eliminated");
+    expect(bySeed.get(4)).toMatchObject({ status: "alive", nextGameId: "G7", pathToTitle: ["G7"] });
+    expect(bySeed.get(6)).toMatchObject({ status: "alive", nextGameId: "G5", pathToTitle: ["G5", "G6", "G7"] });
+  });
+
+  it("matches scoreboard games to seeds by team name", () => {
+    const game = {
+      isOver: true,
+      matchupTimeEpoch: 100,
+      roadTeam: { name: "Southern Miss", score: 3 },
+      homeTeam: { name: "Team 2", score: 4 },
+    } as unknown as D1Game;
+
+    expect(toTournamentResults([game, { ...game, isOver: false }])).toEqual([
+      { teamKeys: ["southern-miss", "team-2"], scores: [3, 4], startTimeEpoch: 100 },
+    ]);
+    expect(findConferenceTournamentConfig("SEC")?.conferenceId).toBe("southeastern-conference");
+    expect(findConferenceTournamentConfig("sun-belt-conference")?.format.type).toBe("double-elimination");
+    expect(findConferenceTournamentConfig("Patriot League")).toBeNull();
+  });
+
+  it("configures a start date and a valid bracket for every conference", () => {
+    for (const config of CONFERENCE_TOURNAMENT_CONFIGS) {
+      expect(config.startDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      expect(buildTournamentGames(config.format).length).toBeGreaterThan(0);
+    }
+    expect(findConferenceTournamentConfig("mountain west")?.format.type).toBe("pool-play");
+  });
+});
@@ -0,0 +1,38 @@
+import type { D1TeamScheduleGame, D1TeamSeasonData } from "../src/types";
+
+/** A complete D1 team season; each schedule entry only needs the fields a test cares about. */
+export function buildTeamSeason(
+  name: string,
+  slug: string,
+  schedule: Array<Partial<D1TeamScheduleGame>>
+): D1TeamSeasonData {
+  return {
+    id: null,
+    name,
+    slug,
+    season: "2026",
+    conference: { id: 1, name: "Test Conference", slug: "test", url: "https://d1baseball.com/conference/test/" },
+    logoUrl: null,
+    teamUrl: `https://d1baseball.com/team/${slug}/`,
+    scheduleUrl: `https://d1baseball.com/team/${slug}/schedule/`,
+    statsUrl: `https://d1baseball.com/team/${slug}/stats/`,
+    schedule: schedule.map((game, index) => ({
+      scheduleId: `${slug}-${index}`,
+      dateLabel: null,
+      dateUrl: null,
+      locationType: null,
+      opponentName: null,
+      opponentSlug: null,
+      opponentUrl: null,
+      opponentLogoUrl: null,
+      resultText: null,
+      resultUrl: null,
+      outcome: "unknown",
+      notes: null,
+      columns: {},
+      ...game,
+    })),
+    statsTables: [],
+    errors: [],
+  };
+}
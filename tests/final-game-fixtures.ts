@@ -0,0 +1,132 @@
+import type { FinalInningPlayByPlay, LineScore, StatBroadcastFinalGame, StatsTable } from "../src/types";
+
+export interface FixturePlay {
+  text: string;
+  /** Defaults to the first word of `text`; null for plays without a batter (substitutions, mound visits). */
+  batter?: string | null;
+  pitcher?: string;
+}
+
+export interface FixtureHalf {
+  inning: number;
+  half?: "top" | "bottom";
+  /** Pitcher for every play in the half unless a play names its own. */
+  pitcher?: string;
+  plays: Array<string | FixturePlay>;
+}
+
+export interface FinalGameFixture {
+  id?: number;
+  date?: string | null;
+  visitorTeam?: string;
+  homeTeam?: string;
+  visitorScore?: number;
+  homeScore?: number;
+  venue?: string | null;
+  location?: string | null;
+  lineScore?: LineScore | null;
+  awayBatting?: StatsTable["rows"];
+  homeBatting?: StatsTable["rows"];
+  awayPitching?: StatsTable["rows"];
+  homePitching?: StatsTable["rows"];
+  halves?: FixtureHalf[];
+  fetchedAt?: string;
+}
+
+const DEFAULT_PITCHERS = { top: "Pitcher,Pete", bottom: "Arm,Andy" } as const;
+
+/** A final StatBroadcast game, Troy at Southern Miss by default; tests override only what they check. */
+export function buildFinalGame(input: FinalGameFixture = {}): StatBroadcastFinalGame {
+  const id = input.id ?? 201;
+  const visitorTeam = input.visitorTeam ?? "Troy";
+  const homeTeam = input.homeTeam ?? "Southern Miss";
+  const visitorScore = input.visitorScore ?? 1;
+  const homeScore = input.homeScore ?? 0;
+  const fetchedAt = input.fetchedAt ?? "2026-03-01T23:00:00.000Z";
+  const event = {
+    id,
+    title: `${visitorTeam} at ${homeTeam}`,
+    sport: "bsgame",
+    xmlFile: "test.xml",
+    date: input.date === undefined ? "March 1, 2026" : input.date,
+    time: null,
+    venue: input.venue ?? null,
+    location: input.location ?? null,
+    homeName: homeTeam,
+    visitorName: visitorTeam,
+    completed: true,
+  };
+  const table = (rows: StatsTable["rows"] | undefined): StatsTable | null => (rows ? { headers: [], rows } : null);
+
+  return {
+    id,
+    event,
+    status: "final",
+    summary: {
+      id,
+      event,
+      statusText: "Final",
+      visitorTeam,
+      homeTeam,
+      visitorScore,
+      homeScore,
+      lineScore: input.lineScore ?? null,
+      situation: null,
+      thisInning: null,
+      fetchedAt,
+    },
+    finalScore: {
+      visitorTeam,
+      homeTeam,
+      visitorScore,
+      homeScore,
+      winner: visitorScore > homeScore ? "visitor" : "home",
+    },
+    pitcherDecisions: { winning: null, losing: null, save: null },
+    lineups: { away: [], home: [] },
+    visitorStats: { sections: [], boxScore: table(input.awayBatting), pitching: table(input.awayPitching) },
+    homeStats: { sections: [], boxScore: table(input.homeBatting), pitching: table(input.homePitching) },
+    scoringPlays: [],
+    playByPlayByInning: (input.halves ?? []).map(buildInning),
+    notesDocs: { sections: [], gameInformation: {}, notes: [], documents: [] },
+    fetchedAt,
+  };
+}
+
+/** A box score row whose cells are its values in order, e.g. `{ col_2: "10", player: "Kelly,Rowan" }`. */
+export function statsRow(values: Record<string, string>): StatsTable["rows"][number] {
+  return { cells: Object.values(values), values };
+}
+
+function buildInning(input: FixtureHalf): FinalInningPlayByPlay {
+  const half = input.half ?? "top";
+  return {
+    inning: input.inning,
+    title: `Inning ${input.inning}`,
+    events: [
+      {
+        type: "half",
+        half,
+        text: `${half} of inning ${input.inning}`,
+        action: null,
+        scoringDecision: null,
+        batter: null,
+        pitcher: null,
+        outs: null,
+      },
+      ...input.plays.map((entry) => {
+        const play = typeof entry === "string" ? { text: entry } : entry;
+        return {
+          type: "play" as const,
+          half,
+          text: play.text,
+          action: null,
+          scoringDecision: null,
+          batter: play.batter === undefined ? play.text.split(" ")[0] : play.batter,
+          pitcher: play.pitcher ?? input.pitcher ?? DEFAULT_PITCHERS[half],
+          outs: null,
+        };
+      }),
+    ],
+  };
+}
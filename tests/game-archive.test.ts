@@ -0,0 +1,191 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GameArchive, parseArchiveDate } from "../src/storage/game-archive";
+import type { StatBroadcastPdfJsonPayload } from "../src/scrapers/statbroadcast-pdf";
+import type { StatBroadcastFinalGame } from "../src/types";
+import { buildFinalGame } from "./final-game-fixtures";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("GameArchive", () => {
+  it("writes final games under the season folder and indexes them", async () => {
+    const rootDir = await createTempDir();
+    const loadFinalGame = vi.fn(async (id: number) => buildArchiveGame(id, { date: "February 13, 2026" }));
+    const loadPdfJson = vi.fn(async (id: number) => buildPdfJson(id));
+    const archive = new GameArchive({ rootDir, loadFinalGame, loadPdfJson });
+
+    const record = await archive.archiveGame(635076);
+
+    expect(record?.entry).toMatchObject({
+      id: 635076,
+      season: "2026",
+      date: "2026-02-13",
+      visitorTeam: "Wake Forest",
+      homeTeam: "Houston",
+      visitorScore: 2,
+      homeScore: 6,
+      winner: "home",
+      venue: "Schroeder Park",
+      hasScorekeeping: true,
+      hasPdfJson: true,
+      file: "2026/635076.json",
+    });
+
+    const stored = JSON.parse(await fs.readFile(path.join(rootDir, "2026", "635076.json"), "utf8"));
+    expect(stored.finalGame.id).toBe(635076);
+    expect(stored.baseballScorekeeping.game.id).toBe(635076);
+    expect(stored.pdfJson.pdf.sha256).toBe("abc123");
+    expect(stored.pdfJson).not.toHaveProperty("finalGame");
+
+    const index = JSON.parse(await fs.readFile(path.join(rootDir, "index.json"), "utf8"));
+    expect(index.total).toBe(1);
+    expect(index.games[0].id).toBe(635076);
+  });
+
+  it("serves archived games from disk without refetching", async () => {
+    const rootDir = await createTempDir();
+    const loadFinalGame = vi.fn(async (id: number) => buildArchiveGame(id, { date: "02/14/2026" }));
+    const writer = new GameArchive({ rootDir, loadFinalGame, loadPdfJson: async (id) => buildPdfJson(id) });
+    await writer.archiveGame(1);
+    await writer.archiveGame(1);
+    expect(loadFinalGame).toHaveBeenCalledTimes(1);
+
+    const offline = vi.fn(async (): Promise<StatBroadcastFinalGame> => {
+      throw new Error("network disabled");
+    });
+    const reader = new GameArchive({ rootDir, loadFinalGame: offline });
+
+    expect((await reader.readGame(1))?.finalGame.finalScore.homeScore).toBe(6);
+    expect(await reader.readGame(2)).toBeNull();
+    expect(offline).not.toHaveBeenCalled();
+  });
+
+  it("reuses parsed games until their file changes", async () => {
+    const rootDir = await createTempDir();
+    const loadFinalGame = async (id: number) => buildArchiveGame(id, { date: "02/14/2026" });
+    await new GameArchive({ rootDir, loadFinalGame, loadPdfJson: async (id) => buildPdfJson(id) }).archiveGame(1);
+    const reader = new GameArchive({ rootDir });
+
+    expect(await reader.hasGame(1)).toBe(true);
+    expect(await reader.hasGame(2)).toBe(false);
+    const first = await reader.readGame(1);
+    expect(await reader.readGame(1)).toBe(first);
+
+    const filePath = path.join(rootDir, "2026", "1.json");
+    const changed = JSON.parse(await fs.readFile(filePath, "utf8"));
+    changed.warnings = ["edited"];
+    await fs.writeFile(filePath, JSON.stringify(changed), "utf8");
+    await fs.utimes(filePath, new Date(), new Date(Date.now() + 60_000));
+
+    expect((await reader.readGame(1))?.warnings).toEqual(["edited"]);
+  });
+
+  it("picks up games another process added to the index", async () => {
+    const rootDir = await createTempDir();
+    const loadPdfJson = async (id: number) => buildPdfJson(id);
+    const loadFinalGame = async (id: number) => buildArchiveGame(id, { date: "02/14/2026" });
+    const server = new GameArchive({ rootDir, loadFinalGame, loadPdfJson });
+    await server.archiveGame(1);
+    expect((await server.search()).map((entry) => entry.id)).toEqual([1]);
+
+    await new GameArchive({ rootDir, loadFinalGame, loadPdfJson }).archiveGame(2);
+
+    expect((await server.search()).map((entry) => entry.id)).toEqual([2, 1]);
+    expect((await server.readGame(2))?.id).toBe(2);
+  });
+
+  it("skips games that are not final", async () => {
+    const rootDir = await createTempDir();
+    const archive = new GameArchive({
+      rootDir,
+      loadFinalGame: async (id) => ({ ...buildArchiveGame(id, { date: null }), status: "not_final" }),
+      loadPdfJson: async (id) => buildPdfJson(id),
+    });
+
+    expect(await archive.archiveGame(9)).toBeNull();
+    expect((await archive.readIndex()).games).toEqual([]);
+  });
+
+  it("searches the index by season, team, date range and text", async () => {
+    const rootDir = await createTempDir();
+    const dates: Record<number, string> = { 1: "2025-03-01", 2: "2026-02-20", 3: "2026-03-05" };
+    const archive = new GameArchive({
+      rootDir,
+      loadFinalGame: async (id) =>
+        buildArchiveGame(id, { date: dates[id], homeTeam: id === 3 ? "Southern Miss" : "Houston" }),
+      loadPdfJson: async () => {
+        throw new Error("pdf unavailable");
+      },
+    });
+    await Promise.all([archive.archiveGame(1), archive.archiveGame(2), archive.archiveGame(3)]);
+
+    expect((await archive.search()).map((entry) => entry.id)).toEqual([3, 2, 1]);
+    expect((await archive.search({ season: "2026" })).map((entry) => entry.id)).toEqual([3, 2]);
+    expect((await archive.search({ team: "southern miss" })).map((entry) => entry.id)).toEqual([3]);
+    expect((await archive.search({ from: "2026-02-01", to: "2026-02-28" })).map((entry) => entry.id)).toEqual([2]);
+    expect((await archive.search({ q: "schroeder" })).length).toBe(3);
+    expect((await archive.readGame(2))?.warnings).toEqual(["PDF JSON fetch failed: pdf unavailable"]);
+  });
+});
+
+describe("parseArchiveDate", () => {
+  it("normalizes StatBroadcast date formats", () => {
+    expect(parseArchiveDate("February 13, 2026")).toBe("2026-02-13");
+    expect(parseArchiveDate("3/7/2026")).toBe("2026-03-07");
+    expect(parseArchiveDate("2026-04-01")).toBe("2026-04-01");
+    expect(parseArchiveDate("TBA")).toBeNull();
+    expect(parseArchiveDate(null)).toBeNull();
+  });
+});
+
+async function createTempDir(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "game-archive-"));
+  tempDirs.push(dir);
+  return dir;
+}
+
+function buildArchiveGame(
+  id: number,
+  input: { date: string | null; homeTeam?: string }
+): StatBroadcastFinalGame {
+  return buildFinalGame({
+    id,
+    date: input.date,
+    visitorTeam: "Wake Forest",
+    homeTeam: input.homeTeam ?? "Houston",
+    visitorScore: 2,
+    homeScore: 6,
+    venue: "Schroeder Park",
+    location: "Houston, Texas",
+    fetchedAt: "2026-02-13T23:00:00.000Z",
+  });
+}
+
+function buildPdfJson(id: number): StatBroadcastPdfJsonPayload {
+  return {
+    id,
+    source: {
+      broadcastUrl: `https://stats.statbroadcast.com/broadcast/?id=${id}`,
+      pdfUrl: "https://stats.statbroadcast.com/output/print.php",
+      xsl: "baseball/sb.bsgame.print.book.xsl",
+      downloadedAt: "2026-02-13T23:05:00.000Z",
+    },
+    pdf: {
+      bytes: 1024,
+      sha256: "abc123",
+      pageCount: 4,
+      includesRawText: false,
+      pages: null,
+      fullText: null,
+    },
+    baseballScorekeeping: null,
+    articleSeed: null,
+    finalGame: buildArchiveGame(id, { date: null }),
+  };
+}
@@ -0,0 +1,197 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  buildD1GameObservation,
+  buildScheduleFileObservation,
+  buildTeamScheduleObservation,
+  GameIdentityService,
+} from "../src/storage/game-identity";
+import type { D1Game, D1TeamScheduleGame } from "../src/types";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+describe("GameIdentityService", () => {
+  it("links a D1 game, its schedule file row and a team schedule row to one canonical id", async () => {
+    const service = new GameIdentityService({ filePath: await createTempFile() });
+
+    const [fromScores] = await service.observe([
+      buildD1GameObservation(
+        buildD1Game({ key: "d1-777", roadTeam: "Oregon State", homeTeam: "Southern Miss", statbroadcastId: 651250 }),
+        "20260221"
+      ),
+    ]);
+    const [fromFile] = await service.observe([
+      buildScheduleFileObservation("southern-miss-2026.json", {
+        date: "2026-02-21",
+        gameId: 651250,
+        awayTeam: "Oregon St.",
+        homeTeam: "Southern Miss",
+        startTimeEpoch: 1771696800,
+      }),
+    ].filter(isPresent));
+    const [fromTeamSchedule] = await service.observe([
+      buildTeamScheduleObservation(
+        "Southern Miss",
+        "smiss",
+        buildScheduleRow({ scheduleId: "s-1", opponentName: "Oregon State", locationType: null }),
+        "2026-02-21"
+      ),
+    ].filter(isPresent));
+
+    expect(fromScores.canonicalId).toBe("20260221-oregon-st-at-southern-miss");
+    expect(fromFile.canonicalId).toBe(fromScores.canonicalId);
+    expect(fromTeamSchedule.canonicalId).toBe(fromScores.canonicalId);
+    expect(fromTeamSchedule.links.map((link) => `${link.source}:${link.id}`)).toEqual([
+      "d1:d1-777",
+      "statbroadcast:651250",
+      "schedule-file:southern-miss-2026.json#651250",
+      "d1-team-schedule:smiss:s-1",
+    ]);
+  });
+
+  it("keeps doubleheader games apart by source id and start time", async () => {
+    const service = new GameIdentityService({ filePath: await createTempFile() });
+
+    const games = await service.observe([
+      buildD1GameObservation(buildD1Game({ key: "a", statbroadcastId: 1, matchupTimeEpoch: 1772380800 }), "20260301"),
+      buildD1GameObservation(buildD1Game({ key: "b", statbroadcastId: 2, matchupTimeEpoch: 1772398800 }), "20260301"),
+    ]);
+    const [teamRowOne, teamRowTwo] = await service.observe(
+      [buildTulaneAtRiceRow("g1"), buildTulaneAtRiceRow("g2")].filter(isPresent)
+    );
+
+    expect(games.map((game) => [game.canonicalId, game.gameNumber])).toEqual([
+      ["20260301-tulane-at-rice", 1],
+      ["20260301-tulane-at-rice-g2", 2],
+    ]);
+    expect(teamRowOne.canonicalId).toBe("20260301-tulane-at-rice");
+    expect(teamRowTwo.canonicalId).toBe("20260301-tulane-at-rice-g2");
+  });
+
+  it("skips the write when an observation adds nothing new", async () => {
+    const filePath = await createTempFile();
+    const service = new GameIdentityService({ filePath });
+    const observation = buildD1GameObservation(buildD1Game({ key: "d1-900", statbroadcastId: 900 }), "20260301");
+    await service.observe([observation]);
+    await fs.rm(filePath);
+
+    const [again] = await service.observe([observation]);
+    await expect(fs.access(filePath)).rejects.toThrow();
+    const [withStartTime] = await service.observe([{ ...observation, startTimeEpoch: 1772380800 }]);
+
+    expect(again.canonicalId).toBe("20260301-tulane-at-rice");
+    expect(withStartTime.startTimeEpoch).toBe(1772380800);
+    expect(JSON.parse(await fs.readFile(filePath, "utf8"))).toMatchObject({
+      total: 1,
+      games: [{ canonicalId: "20260301-tulane-at-rice", startTimeEpoch: 1772380800 }],
+    });
+  });
+
+  it("links live stats urls and persists the mapping to disk", async () => {
+    const filePath = await createTempFile();
+    const writer = new GameIdentityService({ filePath });
+    const [created] = await writer.observe([
+      buildD1GameObservation(
+        buildD1Game({
+          key: "ncaa-6312345",
+          liveStatsUrl: "https://goldeneaglesports.com/sidearmstats/baseball/summary",
+          links: [{ label: "NCAA Game Center", url: "https://www.ncaa.com/game/6312345" }],
+        }),
+        "20260301"
+      ),
+    ]);
+
+    const reader = new GameIdentityService({ filePath });
+
+    expect(await reader.get(created.canonicalId)).toMatchObject({
+      links: [
+        { source: "ncaa", id: "6312345", url: "https://www.ncaa.com/game/6312345" },
+        { source: "sidearm", id: "https://goldeneaglesports.com/sidearmstats/baseball/summary" },
+      ],
+    });
+    expect((await reader.findByLink("ncaa", "6312345"))?.canonicalId).toBe(created.canonicalId);
+    expect(await reader.get("20260301-nobody-at-nowhere")).toBeNull();
+  });
+});
+
+async function createTempFile(): Promise<string> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "game-identity-"));
+  tempDirs.push(dir);
+  return path.join(dir, "games.json");
+}
+
+function isPresent<T>(value: T | null): value is T {
+  return value !== null;
+}
+
+function buildTulaneAtRiceRow(scheduleId: string) {
+  const row = buildScheduleRow({ scheduleId, opponentName: "Rice", locationType: "@" });
+  return buildTeamScheduleObservation("Tulane", "tulane", row, "2026-03-01");
+}
+
+function buildD1Game(overrides: {
+  key: string;
+  roadTeam?: string;
+  homeTeam?: string;
+  statbroadcastId?: number | null;
+  liveStatsUrl?: string | null;
+  matchupTimeEpoch?: number | null;
+  links?: D1Game["links"];
+}): D1Game {
+  const team = (name: string) => ({
+    id: null,
+    name,
+    record: null,
+    rank: null,
+    score: null,
+    logoUrl: null,
+    teamUrl: null,
+    searchTokens: [],
+  });
+
+  return {
+    key: overrides.key,
+    conferenceIds: [],
+    conferenceNames: [],
+    statusText: "7:00 PM",
+    matchupTimeEpoch: overrides.matchupTimeEpoch ?? null,
+    matchupTimeIso: null,
+    inProgress: false,
+    isOver: false,
+    location: null,
+    roadTeam: team(overrides.roadTeam ?? "Tulane"),
+    homeTeam: team(overrides.homeTeam ?? "Rice"),
+    links: overrides.links ?? [],
+    liveStatsUrl: overrides.liveStatsUrl ?? null,
+    statbroadcastId: overrides.statbroadcastId ?? null,
+    statbroadcastQuery: {},
+  };
+}
+
+function buildScheduleRow(overrides: {
+  scheduleId: string;
+  opponentName: string;
+  locationType: string | null;
+}): D1TeamScheduleGame {
+  return {
+    scheduleId: overrides.scheduleId,
+    dateLabel: null,
+    dateUrl: null,
+    locationType: overrides.locationType,
+    opponentName: overrides.opponentName,
+    opponentSlug: null,
+    opponentUrl: null,
+    opponentLogoUrl: null,
+    resultText: null,
+    resultUrl: null,
+    outcome: "unknown",
+    notes: null,
+    columns: {},
+  };
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from "vitest";
+import { buildLineupTimeline, parseSubstitutionText } from "../src/scorekeeping/lineup-timeline";
+import type { FinalLineupEntry } from "../src/types";
+
+describe("lineup timeline", () => {
+  it("parses substitution narratives into structured events", () => {
+    expect(parseSubstitutionText("M. Price pinch hit for Pierzynski.")).toEqual({
+      kind: "pinch_hitter",
+      entering: "M. Price",
+      replaced: "Pierzynski",
+      position: "ph",
+    });
+    expect(parseSubstitutionText("I. Warrick pinch ran for W. Helms.")?.kind).toBe("pinch_runner");
+    expect(parseSubstitutionText("Marsh to p for Buczkowski.")).toMatchObject({ kind: "pitching_change", position: "p" });
+    expect(parseSubstitutionText("Price to lf.")).toEqual({
+      kind: "defensive_switch",
+      entering: "Price",
+      replaced: null,
+      position: "lf",
+    });
+    expect(parseSubstitutionText("Kelly,Rowan advanced to 2b.")).toBeNull();
+    expect(parseSubstitutionText("Kelly,Rowan singled to left field.")).toBeNull();
+  });
+
+  it("tracks lineup spots and positions inning by inning", () => {
+    const timeline = buildLineupTimeline(
+      [
+        { order: 1, inning: 1, half: "top", text: "Pierzynski,Al singled to center field." },
+        { order: 2, inning: 2, half: "top", text: "M. Price pinch hit for Pierzynski." },
+        { order: 3, inning: 2, half: "top", text: "Price,Mike flied out to cf." },
+        { order: 4, inning: 2, half: "bottom", text: "Price to lf." },
+        { order: 5, inning: 2, half: "bottom", text: "Marsh to p for Buczkowski." },
+        { order: 6, inning: 3, half: "top", text: "Lopez,Juan grounded out to ss." },
+      ],
+      {
+        away: [
+          lineupEntry(1, "lf", "Pierzynski,Al"),
+          lineupEntry(2, "c", "Lopez,Juan"),
+          lineupEntry(null, "p", "Buczkowski,Ben"),
+        ],
+        home: [lineupEntry(1, "ss", "Holt,Hal"), lineupEntry(null, "p", "Starter,Sam")],
+      }
+    );
+
+    expect(timeline.substitutions.map((event) => [event.kind, event.side, event.spot, event.inning])).toEqual([
+      ["pinch_hitter", "away", 1, 2],
+      ["defensive_switch", "away", 1, 2],
+      ["pitching_change", "away", null, 2],
+    ]);
+    expect(timeline.current.away.positions).toMatchObject({ lf: "M. Price", c: "Juan Lopez", p: "Marsh" });
+    expect(timeline.current.away.lineup[0]).toEqual({ spot: 1, player: "M. Price", position: "lf" });
+    expect(timeline.innings.map((inning) => inning.inning)).toEqual([1, 2, 3]);
+    expect(timeline.innings[1].away.positions.lf).toEqual(["Al Pierzynski", "M. Price"]);
+    expect(timeline.innings[1].away.positions.p).toEqual(["Ben Buczkowski", "Marsh"]);
+    expect(timeline.innings[1].away.spots[0]).toEqual({ spot: 1, players: ["Al Pierzynski", "M. Price"] });
+    expect(timeline.innings[2].away.positions.p).toEqual(["Marsh"]);
+    expect(timeline.current.home.positions.ss).toBe("Hal Holt");
+  });
+});
+
+function lineupEntry(spot: number | null, position: string, player: string): FinalLineupEntry {
+  return { spot, position, player, bats: null, today: null, avg: null };
+}
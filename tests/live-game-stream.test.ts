@@ -0,0 +1,170 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  diffLiveGameSnapshots,
+  formatServerSentEvent,
+  LiveGameStreamHub,
+  type LiveGameSnapshot,
+  type LiveStreamEvent,
+} from "../src/pipelines/live-game-stream";
+import type { LiveDashboardPlay } from "../src/pipelines/live-play-feed";
+import type { StatBroadcastLiveSummary } from "../src/types";
+
+describe("live game stream diffing", () => {
+  it("emits new plays, score and situation changes in order", () => {
+    const previous = buildSnapshot({ visitorScore: 1, homeScore: 0, outs: 1, plays: [buildPlay("a", 1)] });
+    const next = buildSnapshot({
+      visitorScore: 2,
+      homeScore: 0,
+      outs: 2,
+      plays: [buildPlay("a", 1), buildPlay("b", 2), buildPlay("c", 3)],
+    });
+
+    const events = diffLiveGameSnapshots("statbroadcast:1", previous, next);
+
+    expect(events.map((event) => event.type)).toEqual(["play", "play", "score", "situation"]);
+    expect(events[0].data).toMatchObject({ key: "b" });
+    expect(events[2].data).toMatchObject({ visitorScore: 2, homeScore: 0 });
+  });
+
+  it("emits nothing when the snapshot is unchanged", () => {
+    const snapshot = buildSnapshot({ visitorScore: 3, homeScore: 3, outs: 0, plays: [buildPlay("a", 1)] });
+    expect(diffLiveGameSnapshots("statbroadcast:1", snapshot, buildSnapshot({
+      visitorScore: 3,
+      homeScore: 3,
+      outs: 0,
+      plays: [buildPlay("a", 1)],
+    }))).toEqual([]);
+  });
+
+  it("emits a final event once when the game completes", () => {
+    const previous = buildSnapshot({ visitorScore: 4, homeScore: 5, outs: 2, plays: [] });
+    const next = buildSnapshot({ visitorScore: 4, homeScore: 5, outs: 2, plays: [], statusText: "Final" });
+
+    const events = diffLiveGameSnapshots("statbroadcast:1", previous, next);
+    const final = events.find((event) => event.type === "final");
+
+    expect(final?.data).toMatchObject({ winner: "home", visitorScore: 4, homeScore: 5 });
+    expect(diffLiveGameSnapshots("statbroadcast:1", next, next).some((event) => event.type === "final")).toBe(false);
+  });
+
+  it("formats events as server-sent event frames", () => {
+    const frame = formatServerSentEvent({
+      type: "play",
+      gameKey: "statbroadcast:1",
+      data: buildPlay("a", 1),
+    });
+
+    expect(frame.startsWith("event: play\ndata: {")).toBe(true);
+    expect(frame.endsWith("\n\n")).toBe(true);
+  });
+});
+
+describe("LiveGameStreamHub", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("polls once per game for many subscribers and stops when they leave", async () => {
+    vi.useFakeTimers();
+    const snapshots = [
+      buildSnapshot({ visitorScore: 0, homeScore: 0, outs: 0, plays: [] }),
+      buildSnapshot({ visitorScore: 1, homeScore: 0, outs: 0, plays: [buildPlay("a", 1)] }),
+    ];
+    const loadSnapshot = vi.fn(async () => snapshots[Math.min(loadSnapshot.mock.calls.length - 1, 1)]);
+    const hub = new LiveGameStreamHub({ loadSnapshot, intervalMs: 1_000 });
+    const first: LiveStreamEvent[] = [];
+    const second: LiveStreamEvent[] = [];
+
+    const unsubscribeFirst = hub.subscribe({ provider: "statbroadcast", statbroadcastId: 7 }, (event) => first.push(event));
+    const unsubscribeSecond = hub.subscribe({ provider: "statbroadcast", statbroadcastId: 7 }, (event) => second.push(event));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(loadSnapshot).toHaveBeenCalledTimes(1);
+    expect(first.map((event) => event.type)).toEqual(["score", "situation"]);
+    expect(second.map((event) => event.type)).toEqual(["score", "situation"]);
+
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(loadSnapshot).toHaveBeenCalledTimes(2);
+    expect(first.map((event) => event.type)).toEqual(["score", "situation", "play", "score"]);
+
+    unsubscribeFirst();
+    unsubscribeSecond();
+    expect(hub.activeGameKeys()).toEqual([]);
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(loadSnapshot).toHaveBeenCalledTimes(2);
+  });
+});
+
+function buildSnapshot(input: {
+  visitorScore: number;
+  homeScore: number;
+  outs: number;
+  plays: LiveDashboardPlay[];
+  statusText?: string;
+}): LiveGameSnapshot {
+  return {
+    summary: buildSummary(input),
+    plays: input.plays,
+  };
+}
+
+function buildSummary(input: {
+  visitorScore: number;
+  homeScore: number;
+  outs: number;
+  statusText?: string;
+}): StatBroadcastLiveSummary {
+  return {
+    id: 1,
+    event: {
+      id: 1,
+      title: "Away at Home",
+      sport: "bsgame",
+      xmlFile: "test.xml",
+      date: null,
+      time: null,
+      venue: null,
+      location: null,
+      homeName: "Home",
+      visitorName: "Away",
+      completed: false,
+    },
+    statusText: input.statusText ?? "Top 3rd",
+    visitorTeam: "Away",
+    homeTeam: "Home",
+    visitorScore: input.visitorScore,
+    homeScore: input.homeScore,
+    lineScore: null,
+    situation: {
+      inningText: "Top 3rd",
+      half: "top",
+      inning: 3,
+      count: { balls: 0, strikes: 0 },
+      outs: input.outs,
+      bases: { first: false, second: false, third: false, mask: 0 },
+      battingTeam: "away",
+      batter: { name: null, ab: null, hits: null, summary: null },
+      pitcher: { name: null, pitchCount: null },
+    },
+    thisInning: null,
+    fetchedAt: "2026-03-01T18:00:00.000Z",
+  };
+}
+
+function buildPlay(key: string, order: number): LiveDashboardPlay {
+  return {
+    key,
+    order,
+    inning: 3,
+    half: "top",
+    text: `Play ${key}`,
+    batter: null,
+    pitcher: null,
+    scoringDecision: null,
+    isSubstitution: false,
+    outsAfterPlay: 0,
+    awayScore: 0,
+    homeScore: 0,
+  };
+}
@@ -0,0 +1,125 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { LiveGameStreamHub, type LiveStreamEvent } from "../src/pipelines/live-game-stream";
+import {
+  liveStatsProviders,
+  LiveStatsProviderRegistry,
+  sidearmLiveStatsProvider,
+  statBroadcastLiveStatsProvider,
+  type LiveStatsProvider,
+} from "../src/pipelines/live-stats-provider";
+import type { StatBroadcastLiveSummary } from "../src/types";
+
+describe("live stats provider registry", () => {
+  it("resolves statbroadcast ids and broadcast urls", () => {
+    expect(liveStatsProviders.resolve({ statbroadcastId: 636528 })?.ref).toEqual({
+      provider: "statbroadcast",
+      gameKey: "statbroadcast:636528",
+      statbroadcastId: 636528,
+      liveStatsUrl: null,
+    });
+    expect(
+      liveStatsProviders.resolve({ liveStatsUrl: "https://stats.statbroadcast.com/broadcast/?id=636528" })?.ref.gameKey
+    ).toBe("statbroadcast:636528");
+  });
+
+  it("resolves Sidearm urls from a D1 game", () => {
+    const resolved = liveStatsProviders.resolve({
+      statbroadcastId: null,
+      liveStatsUrl: "https://southernmiss.com/sidearmstats/baseball/summary ",
+    });
+
+    expect(resolved?.provider.id).toBe("sidearm");
+    expect(resolved?.ref).toMatchObject({
+      gameKey: "sidearm:https://southernmiss.com/sidearmstats/baseball/summary",
+      liveStatsUrl: "https://southernmiss.com/sidearmstats/baseball/summary",
+    });
+  });
+
+  it("returns null for unknown urls or a provider that does not match", () => {
+    expect(liveStatsProviders.resolve({ liveStatsUrl: "https://example.com/live?id=12" })).toBeNull();
+    expect(liveStatsProviders.resolve({ provider: "sidearm", statbroadcastId: 12 })).toBeNull();
+    expect(liveStatsProviders.resolve({ provider: "unknown", statbroadcastId: 12 })).toBeNull();
+  });
+
+  it("rejects duplicate provider ids", () => {
+    const registry = new LiveStatsProviderRegistry([statBroadcastLiveStatsProvider]);
+    registry.register(sidearmLiveStatsProvider);
+
+    expect(registry.list()).toEqual(["statbroadcast", "sidearm"]);
+    expect(() => registry.register(sidearmLiveStatsProvider)).toThrow(/already registered/);
+  });
+});
+
+describe("LiveGameStreamHub with a registered provider", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("streams a new vendor without a custom snapshot loader", async () => {
+    vi.useFakeTimers();
+    const provider = buildFakeProvider();
+    const hub = new LiveGameStreamHub({
+      providers: new LiveStatsProviderRegistry([statBroadcastLiveStatsProvider, provider]),
+      intervalMs: 1_000,
+    });
+    const events: LiveStreamEvent[] = [];
+
+    const unsubscribe = hub.subscribe({ liveStatsUrl: "https://fake.example/game/9" }, (event) => events.push(event));
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(hub.activeGameKeys()).toEqual(["fake:9"]);
+    expect(provider.getSummary).toHaveBeenCalledTimes(1);
+    expect(events.map((event) => event.type)).toEqual(["score", "situation", "final"]);
+    expect(events[0]).toMatchObject({ gameKey: "fake:9", data: { visitorScore: 2, homeScore: 5 } });
+
+    unsubscribe();
+  });
+});
+
+function buildFakeProvider() {
+  const provider = {
+    id: "fake",
+    resolve: (locator) => {
+      const match = locator.liveStatsUrl?.match(/^https:\/\/fake\.example\/game\/(\d+)$/);
+      return match
+        ? { provider: "fake", gameKey: `fake:${match[1]}`, statbroadcastId: null, liveStatsUrl: match[0] }
+        : null;
+    },
+    getSummary: vi.fn(async () => buildSummary()),
+    getPlays: vi.fn(async () => ({ events: [], plays: [], sections: [] })),
+    getBox: vi.fn(async () => ({ away: [], home: [] })),
+    getLineups: vi.fn(async () => []),
+    getView: vi.fn(async () => null),
+    getFinal: vi.fn(async () => null),
+    getStatus: vi.fn(async () => null),
+  } satisfies LiveStatsProvider;
+  return provider;
+}
+
+function buildSummary(): StatBroadcastLiveSummary {
+  return {
+    id: 9,
+    event: {
+      id: 9,
+      title: "Away at Home",
+      sport: "bsgame",
+      xmlFile: "fake.xml",
+      date: null,
+      time: null,
+      venue: null,
+      location: null,
+      homeName: "Home",
+      visitorName: "Away",
+      completed: true,
+    },
+    statusText: "Final",
+    visitorTeam: "Away",
+    homeTeam: "Home",
+    visitorScore: 2,
+    homeScore: 5,
+    lineScore: null,
+    situation: null,
+    thisInning: null,
+    fetchedAt: "2026-03-01T18:00:00.000Z",
+  };
+}
@@ -0,0 +1,122 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { parseNcaaGameLineScore, parseNcaaScoreboard } from "../src/scrapers/ncaa-scoreboard";
+import { mergePrimaryScoresIntoFallback } from "../src/utils/merge-primary-scores";
+import { buildScoresFallbackCandidate } from "../src/utils/scores-fallback";
+import type { D1ScoresPayload } from "../src/types";
+
+const SCOREBOARD_JSON = readFixture("scoreboard-20260314.json");
+const GAME_INFO_JSON = readFixture("game-info-6312345.json");
+
+describe("parseNcaaScoreboard", () => {
+  it("maps NCAA.com scoreboard games onto D1 scoreboard games", () => {
+    const payload = parseNcaaScoreboard(SCOREBOARD_JSON, "20260314");
+
+    expect(payload.date).toBe("20260314");
+    expect(payload.sourceUpdatedAt).toBe("2026-03-14T20:42:10.000Z");
+    expect(payload.games.map((game) => game.key)).toEqual(["ncaa-6312345", "ncaa-6312346", "ncaa-6312347"]);
+    expect(payload.games[0]).toMatchObject({
+      conferenceIds: ["sun-belt"],
+      conferenceNames: ["Sun Belt"],
+      statusText: "Bot 6",
+      matchupTimeEpoch: 1773511200,
+      matchupTimeIso: "2026-03-14T18:00:00.000Z",
+      inProgress: true,
+      isOver: false,
+      roadTeam: { id: null, name: "Southern Miss", record: "14-4", rank: 18, score: 3 },
+      homeTeam: { id: null, name: "Troy", record: "12-6", rank: null, score: 5 },
+      links: [{ label: "NCAA Game Center", url: "https://www.ncaa.com/game/6312345" }],
+      liveStatsUrl: null,
+      statbroadcastId: null,
+    });
+  });
+
+  it("reads the update time as EST outside daylight saving time", () => {
+    const payload = parseNcaaScoreboard({ ...SCOREBOARD_JSON, updated_at: "02-20-2026 19:05:00" }, "20260220");
+
+    expect(payload.sourceUpdatedAt).toBe("2026-02-21T00:05:00.000Z");
+  });
+
+  it("reports extra innings on finals and start times on scheduled games", () => {
+    const [, final, scheduled] = parseNcaaScoreboard(SCOREBOARD_JSON, "20260314").games;
+
+    expect(final).toMatchObject({ statusText: "Final/11", isOver: true, conferenceIds: ["sec"] });
+    expect(scheduled).toMatchObject({
+      statusText: "06:30PM ET",
+      inProgress: false,
+      isOver: false,
+      roadTeam: { score: null, rank: null },
+      conferenceIds: [],
+    });
+  });
+
+  it("is accepted as a scores fallback candidate", () => {
+    const candidate = buildScoresFallbackCandidate({
+      source: "ncaa",
+      payload: parseNcaaScoreboard(SCOREBOARD_JSON, "20260314"),
+      requestedDate: "20260314",
+    });
+
+    expect(candidate).toMatchObject({ source: "ncaa", freshnessTier: 1, recordCount: 6, recordCoverage: 1 });
+  });
+});
+
+describe("merging NCAA.com scores into a schedule fallback", () => {
+  it("takes live status and scores by team name while keeping fallback links", () => {
+    const ncaa = parseNcaaScoreboard(SCOREBOARD_JSON, "20260314");
+    const fallback: D1ScoresPayload = {
+      date: "20260314",
+      sourceUpdatedAt: null,
+      games: [
+        {
+          ...ncaa.games[0],
+          key: "usm-troy",
+          statusText: "2:00 PM",
+          inProgress: false,
+          roadTeam: { ...ncaa.games[0].roadTeam, id: 118, score: null, teamUrl: null },
+          homeTeam: { ...ncaa.games[0].homeTeam, id: 212, score: null, teamUrl: null },
+          links: [{ label: "Box Score", url: "https://southernmiss.com/boxscore.aspx?id=1" }],
+        },
+      ],
+    };
+
+    const merged = mergePrimaryScoresIntoFallback(fallback, ncaa);
+
+    expect(merged.sourceUpdatedAt).toBe(ncaa.sourceUpdatedAt);
+    expect(merged.games[0]).toMatchObject({
+      key: "usm-troy",
+      statusText: "Bot 6",
+      inProgress: true,
+      roadTeam: { id: 118, score: 3 },
+      homeTeam: { id: 212, score: 5 },
+    });
+    expect(merged.games[0].links.map((link) => link.label)).toEqual(["NCAA Game Center", "Box Score"]);
+  });
+});
+
+describe("parseNcaaGameLineScore", () => {
+  it("builds a line score from game center periods", () => {
+    const lineScore = parseNcaaGameLineScore(GAME_INFO_JSON);
+
+    expect(lineScore?.headers).toEqual(["Team", "1", "2", "3", "4", "R", "H", "E"]);
+    expect(lineScore?.rows.map((row) => row.team)).toEqual(["Southern Miss", "Troy"]);
+    expect(lineScore?.rows[0].innings).toEqual([
+      { inning: 1, value: 2 },
+      { inning: 2, value: 0 },
+      { inning: 3, value: 1 },
+      { inning: 4, value: 0 },
+    ]);
+    expect(lineScore?.rows[1].innings[3]).toEqual({ inning: 4, value: null });
+    expect(lineScore?.rows[1].totals).toEqual({ r: 5, h: 8, e: 1 });
+  });
+
+  it("returns null before the first pitch", () => {
+    expect(parseNcaaGameLineScore({ ...GAME_INFO_JSON, linescores: [] })).toBeNull();
+  });
+});
+
+/** Scoreboard and game center responses in the data.ncaa.com casablanca format for Saturday, March 14, 2026. */
+function readFixture(name: string) {
+  return JSON.parse(fs.readFileSync(path.join(__dirname, "fixtures", "ncaa", name), "utf8"));
+}
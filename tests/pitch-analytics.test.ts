@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { buildBaseballScorekeepingData } from "../src/scorekeeping/baseball";
+import { computePitchAnalytics } from "../src/scorekeeping/pitch-analytics";
+import type { StatBroadcastFinalGame } from "../src/types";
+import { buildFinalGame, type FixtureHalf } from "./final-game-fixtures";
+
+const gameOne = buildBaseballScorekeepingData(
+  buildGame(401, [
+    {
+      inning: 1,
+      pitcher: "Arm,Andy",
+      plays: [
+        "Able,Al struck out swinging (1-2 KBSS).",
+        "Baker,Bo singled to left field (0-0).",
+        "Baker,Bo stole second (1-0 B).",
+        "Cruz,Cy walked (3-0 BBBB).",
+        "Dunn,Dee grounded out to ss (0-2 KSF).",
+      ],
+    },
+    {
+      inning: 2,
+      pitcher: "Arm,Andy",
+      plays: ["Able,Al flied out to cf (1-1 BS)."],
+    },
+  ])
+);
+
+const gameTwo = buildBaseballScorekeepingData(
+  buildGame(402, [{ inning: 1, pitcher: "Arm,Andy", plays: ["Able,Al homered to left field (0-1 K)."] }])
+);
+
+const gameThree = buildBaseballScorekeepingData(
+  buildGame(403, [{ inning: 1, pitcher: "Arm,Andy", plays: ["Baker,Bo grounded out to ss (0-0)."] }], "Southern Mississippi")
+);
+
+describe("computePitchAnalytics", () => {
+  it("builds pitcher rates from one game's pitch sequences", () => {
+    const analytics = computePitchAnalytics([gameOne], { team: "Southern Miss" });
+    const pitcher = analytics.pitchers[0];
+
+    expect(pitcher.name).toBe("Andy Arm");
+    expect(pitcher.line).toMatchObject({
+      plateAppearances: 5,
+      pitches: 16,
+      strikes: 10,
+      balls: 6,
+      calledStrikes: 2,
+      swingingStrikes: 4,
+      fouls: 1,
+      inPlay: 3,
+      swings: 8,
+      firstPitchStrikes: 3,
+      reachedOhTwo: 1,
+      reachedThreeOh: 1,
+      strikePct: 0.625,
+      firstPitchStrikePct: 0.6,
+      whiffRate: 0.5,
+      pitchesPerPlateAppearance: 3.2,
+    });
+    expect(pitcher.pitchesByInning).toEqual({ "1": 13, "2": 3 });
+    expect(computePitchAnalytics([gameOne], { team: "Southern" }).pitchers).toEqual([]);
+  });
+
+  it("keeps one pitcher record across team name spellings", () => {
+    const analytics = computePitchAnalytics([gameOne, gameThree], { team: "Southern Miss" });
+
+    expect(analytics.pitchers.map((pitcher) => [pitcher.seasonPlayerId, pitcher.games])).toEqual([
+      ["southern-miss:na:andy-arm", 2],
+    ]);
+  });
+
+  it("merges pitches seen across archived games", () => {
+    const analytics = computePitchAnalytics([gameOne, gameTwo], { player: "able" });
+
+    expect(analytics.gameIds).toEqual([401, 402]);
+    expect(analytics.pitchers).toEqual([]);
+    expect(analytics.batters).toHaveLength(1);
+    expect(analytics.batters[0]).toMatchObject({ name: "Al Able", games: 2 });
+    expect(analytics.batters[0].line).toMatchObject({ plateAppearances: 3, pitches: 9, pitchesPerPlateAppearance: 3 });
+  });
+});
+
+function buildGame(id: number, halves: FixtureHalf[], homeTeam?: string): StatBroadcastFinalGame {
+  return buildFinalGame({ id, homeTeam, visitorScore: 0, homeScore: 1, halves });
+}
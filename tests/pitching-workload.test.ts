@@ -0,0 +1,146 @@
+import { describe, expect, it } from "vitest";
+import { buildBaseballScorekeepingData } from "../src/scorekeeping/baseball";
+import { buildPitchingWorkload, requiredRestDays } from "../src/scorekeeping/pitching-workload";
+import type { StatBroadcastFinalGame, StatsTable } from "../src/types";
+import { buildFinalGame } from "./final-game-fixtures";
+
+const weekend = [
+  {
+    date: "2026-03-06",
+    scorekeeping: buildBaseballScorekeepingData(
+      buildGame(501, [pitchingRow(22, "Smith,John", "W, 1-0", "6.0", 25, 98), pitchingRow(40, "Jones,Sam", null, "1.0", 5, 22)])
+    ),
+  },
+  {
+    date: "2026-03-07",
+    scorekeeping: buildBaseballScorekeepingData(
+      buildGame(502, [pitchingRow(18, "Brown,Tim", null, "5.1", 22, 80), pitchingRow(40, "Jones,Sam", "S, 1", "1.0", 4, 18)])
+    ),
+  },
+  {
+    date: "2026-03-08",
+    scorekeeping: buildBaseballScorekeepingData(
+      buildGame(503, [pitchingRow(30, "Green,Lee", null, "7.0", 27, 91), pitchingRow(40, "Jones,Sam", null, "0.2", 3, null)])
+    ),
+  },
+  {
+    date: "2026-03-13",
+    scorekeeping: buildBaseballScorekeepingData(buildGame(504, [pitchingRow(22, "Smith,John", null, "7.0", 26, 101)])),
+  },
+];
+
+describe("buildPitchingWorkload", () => {
+  it("rolls pitch counts up to the as-of date", () => {
+    const workload = buildPitchingWorkload(weekend, { team: "Southern Miss", asOf: "2026-03-08" });
+    const jones = workload.pitchers.find((pitcher) => pitcher.name === "Sam Jones");
+
+    expect(workload.games).toBe(3);
+    expect(workload.pitchers.map((pitcher) => pitcher.name)).toEqual(["Lee Green", "Sam Jones", "Tim Brown", "John Smith"]);
+    expect(jones).toMatchObject({
+      seasonPlayerId: "southern-miss:40:sam-jones",
+      appearances: 3,
+      starts: 0,
+      ip: "2.2",
+      pitches: 52,
+      pitchesLast3Days: 52,
+      lastOutingDate: "2026-03-08",
+      lastOutingPitches: 12,
+    });
+    expect(jones?.log[2]).toMatchObject({ gameId: 503, opponent: "Troy", pitches: 12, pitchesEstimated: true });
+    expect(workload.pitchers.find((pitcher) => pitcher.name === "John Smith")).toMatchObject({ starts: 1, pitches: 98 });
+  });
+
+  it("only counts games played by exactly the requested team", () => {
+    const workload = buildPitchingWorkload(weekend, { team: "Southern", asOf: "2026-03-08" });
+
+    expect(workload.games).toBe(0);
+    expect(workload.pitchers).toEqual([]);
+  });
+
+  it("measures rest against the as-of date and keys pitchers by team registry id", () => {
+    const renamed = [
+      ...weekend,
+      {
+        date: "2026-03-14",
+        scorekeeping: buildBaseballScorekeepingData(
+          buildFinalGame({
+            id: 505,
+            homeTeam: "Southern Mississippi",
+            homePitching: [pitchingRow(40, "Jones,Sam", null, "1.0", 4, 15)],
+          })
+        ),
+      },
+    ];
+    const workload = buildPitchingWorkload(renamed, {
+      team: "Southern Mississippi",
+      asOf: "2026-03-14",
+      availabilityDate: "2026-03-16",
+    });
+    const jones = workload.pitchers.find((pitcher) => pitcher.name === "Sam Jones");
+
+    expect(workload.teamKey).toBe("southern-miss");
+    expect(workload.games).toBe(5);
+    expect(jones).toMatchObject({
+      seasonPlayerId: "southern-miss:40:sam-jones",
+      appearances: 4,
+      lastOutingDate: "2026-03-14",
+      daysSinceLastOuting: 0,
+    });
+  });
+
+  it("projects availability from rest needed after each outing", () => {
+    const monday = buildPitchingWorkload(weekend, { team: "southern-miss", asOf: "2026-03-08", availabilityDate: "2026-03-09" });
+    const tuesday = buildPitchingWorkload(weekend, { team: "southern-miss", asOf: "2026-03-08", availabilityDate: "2026-03-10" });
+    const status = (payload: typeof monday) =>
+      Object.fromEntries(payload.pitchers.map((pitcher) => [pitcher.name, pitcher.availability]));
+
+    expect(status(monday)).toEqual({
+      "Lee Green": "unavailable",
+      "Sam Jones": "unavailable",
+      "Tim Brown": "unavailable",
+      "John Smith": "unavailable",
+    });
+    expect(monday.pitchers.find((pitcher) => pitcher.name === "Sam Jones")?.availabilityNote).toBe(
+      "Pitched the previous two days."
+    );
+    expect(status(tuesday)).toEqual({
+      "Lee Green": "unavailable",
+      "Sam Jones": "available",
+      "Tim Brown": "unavailable",
+      "John Smith": "available",
+    });
+    expect(requiredRestDays(30)).toBe(0);
+    expect(requiredRestDays(105)).toBe(4);
+  });
+});
+
+function pitchingRow(
+  jersey: number,
+  player: string,
+  decision: string | null,
+  ip: string,
+  battersFaced: number,
+  pitches: number | null
+): StatsTable["rows"][number] {
+  const cells = [
+    String(jersey),
+    player,
+    ...(decision ? [decision] : []),
+    ip,
+    "0",
+    "0",
+    "0",
+    "0",
+    "0",
+    "0",
+    "0",
+    "0",
+    String(battersFaced),
+    ...(pitches !== null ? [String(pitches), String(Math.round(pitches * 0.6))] : []),
+  ];
+  return { cells, values: {} };
+}
+
+function buildGame(id: number, homePitching: StatsTable["rows"]): StatBroadcastFinalGame {
+  return buildFinalGame({ id, date: "March 6, 2026", visitorScore: 1, homeScore: 2, homePitching });
+}
@@ -0,0 +1,134 @@
+import fs from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import { liveStatsProviders } from "../src/pipelines/live-stats-provider";
+import {
+  buildPrestoSportsLiveGameStatus,
+  isPrestoSportsBoxScoreUrl,
+  parsePrestoSportsLiveDashboard,
+  parsePrestoSportsPlays,
+} from "../src/scrapers/prestosports-live";
+import { parseLineups } from "../src/scrapers/statbroadcast";
+
+const BOX_URL = "https://gobulldogs.com/sports/bsb/2025-26/boxscores/20260318_x7k2.xml";
+
+const BOX_HTML = readFixture("20260318_x7k2-box.html");
+const PLAYS_HTML = readFixture("20260318_x7k2-plays.html");
+
+describe("isPrestoSportsBoxScoreUrl", () => {
+  it("matches PrestoSports box score paths only", () => {
+    expect(isPrestoSportsBoxScoreUrl(BOX_URL)).toBe(true);
+    expect(isPrestoSportsBoxScoreUrl(`${BOX_URL}?view=plays`)).toBe(true);
+    expect(isPrestoSportsBoxScoreUrl("https://gobobcats.com/sidearmstats/baseball/summary")).toBe(false);
+  });
+
+  it("is registered as a live stats provider", () => {
+    const resolved = liveStatsProviders.resolve({ statbroadcastId: null, liveStatsUrl: `${BOX_URL}?view=plays` });
+
+    expect(resolved?.provider.id).toBe("prestosports");
+    expect(resolved?.ref).toMatchObject({ gameKey: `prestosports:${BOX_URL}`, liveStatsUrl: BOX_URL });
+  });
+});
+
+describe("parsePrestoSportsPlays", () => {
+  it("reads half innings from captions or headings and skips inning summaries", () => {
+    const events = parsePrestoSportsPlays(PLAYS_HTML);
+
+    expect(events.map((event) => [event.inning, event.half, event.text])).toEqual([
+      [1, "top", "Miller hit by pitch (0-0)."],
+      [1, "top", "Larsen doubled to left center, RBI; Miller scored."],
+      [1, "bottom", "Williamson singled to center field."],
+      [3, "bottom", "Smith to p for Rusinak."],
+      [3, "bottom", "Williamson struck out swinging."],
+    ]);
+    expect(events.map((event) => event.order)).toEqual([1, 2, 3, 4, 5]);
+    expect(events[3].isSubstitution).toBe(true);
+    expect(new Set(events.map((event) => event.key)).size).toBe(5);
+  });
+});
+
+describe("parsePrestoSportsLiveDashboard", () => {
+  it("maps a PrestoSports box score into the shared dashboard shape", () => {
+    const parsed = parsePrestoSportsLiveDashboard(
+      { boxHtml: BOX_HTML, playsHtml: PLAYS_HTML },
+      BOX_URL,
+      "2026-03-18T19:00:00.000Z"
+    );
+
+    expect(parsed?.summary).toMatchObject({
+      statusText: "Bot 3",
+      visitorTeam: "Yale",
+      homeTeam: "Quinnipiac",
+      visitorScore: 2,
+      homeScore: 0,
+      event: {
+        title: "Yale at Quinnipiac",
+        date: "3/18/2026",
+        time: "2:00 PM",
+        location: "Hamden, Conn. (QU Baseball Field)",
+        completed: false,
+      },
+      situation: { inning: 3, half: "bottom", battingTeam: "home", outs: 1 },
+    });
+    expect(parsed?.summary.lineScore?.rows[1].innings.map((cell) => cell.value)).toEqual([0, 0, null]);
+    expect(parsed?.summary.lineScore?.rows[0].totals).toMatchObject({ r: 2, h: 4, e: 0 });
+
+    expect(parsed?.plays.map((play) => [play.key, play.awayScore, play.homeScore])).toEqual(
+      parsed?.events.map((event) => [event.key, expect.any(Number), expect.any(Number)])
+    );
+    expect(parsed?.boxSections.map((section) => section.title)).toEqual([
+      "Yale Batting",
+      "Quinnipiac Batting",
+      "Quinnipiac Pitching",
+    ]);
+  });
+
+  it("builds lineup sections that the shared lineup parser understands", () => {
+    const parsed = parsePrestoSportsLiveDashboard({ boxHtml: BOX_HTML, playsHtml: null }, BOX_URL);
+    if (!parsed) {
+      throw new Error("Expected a dashboard.");
+    }
+
+    expect(parsed.events).toEqual([]);
+    expect(parseLineups(parsed.lineupsSections, parsed.summary).away).toEqual([
+      { spot: 1, position: "c", player: "Bryce Miller", bats: null, today: "1-2", avg: null },
+      { spot: 2, position: "cf", player: "Garrett Larsen", bats: null, today: "0-1", avg: null },
+      { spot: null, position: "pr/lf", player: "Matt Price", bats: null, today: "0-0", avg: null },
+    ]);
+  });
+
+  it("assigns box tables to the exact team when one name contains the other", () => {
+    const boxHtml = BOX_HTML.replaceAll("Quinnipiac", "Texas A&amp;M").replaceAll("Yale", "Texas");
+    const parsed = parsePrestoSportsLiveDashboard({ boxHtml, playsHtml: null }, BOX_URL);
+
+    expect(parsed?.boxSections.map((section) => section.title)).toEqual([
+      "Texas Batting",
+      "Texas A&M Batting",
+      "Texas A&M Pitching",
+    ]);
+  });
+
+  it("reports a game in progress from its status even when plays could not be loaded", () => {
+    const parsed = parsePrestoSportsLiveDashboard({ boxHtml: BOX_HTML, playsHtml: null }, BOX_URL);
+    if (!parsed) {
+      throw new Error("Expected a dashboard.");
+    }
+
+    expect(buildPrestoSportsLiveGameStatus(parsed)).toMatchObject({
+      statusText: "Bot 3",
+      inProgress: true,
+      isOver: false,
+      roadScore: 2,
+      homeScore: 0,
+    });
+  });
+
+  it("returns null when the page has no line score", () => {
+    expect(parsePrestoSportsLiveDashboard({ boxHtml: "<html></html>", playsHtml: null }, BOX_URL)).toBeNull();
+  });
+});
+
+/** Box score and `?view=plays` pages for the game at BOX_URL during the bottom of the 3rd. */
+function readFixture(name: string): string {
+  return fs.readFileSync(path.join(__dirname, "fixtures", "prestosports", name), "utf8");
+}
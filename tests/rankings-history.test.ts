@@ -0,0 +1,122 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+  buildConsensusRankings,
+  buildTeamRankingsHistory,
+  computeLatestMovement,
+  RankingsHistoryStore,
+  rankingsPollWeek,
+} from "../src/storage/rankings-history";
+import type { RankingsFeed, RankingsSource } from "../src/types";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+async function createStore(): Promise<RankingsHistoryStore> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), "rankings-history-"));
+  tempDirs.push(dir);
+  return new RankingsHistoryStore({ rootDir: dir });
+}
+
+function buildFeed(source: RankingsSource, updatedAt: string, teams: string[]): RankingsFeed {
+  return {
+    source,
+    sourceLabel: source,
+    sourceUrl: `https://example.com/${source}`,
+    updatedAt,
+    entries: teams.map((teamName, index) => ({
+      rank: index + 1,
+      teamName,
+      shortName: null,
+      teamId: null,
+      record: null,
+      previousRank: null,
+      conference: null,
+      points: null,
+      firstPlaceVotes: null,
+      change: null,
+      highLow: null,
+      logoUrl: null,
+      teamUrl: null,
+    })),
+  };
+}
+
+describe("RankingsHistoryStore", () => {
+  it("stores each distinct poll once and persists it to disk", async () => {
+    const store = await createStore();
+    const week1 = buildFeed("d1", "2026-03-02", ["Alpha Tech", "Bravo State", "Charlie"]);
+
+    expect(await store.record(week1, "2026-03-02T12:00:00.000Z")).toBe(true);
+    expect(await store.record(week1, "2026-03-02T18:00:00.000Z")).toBe(false);
+    expect(await store.record(buildFeed("d1", "2026-03-09", ["Bravo State", "Alpha Tech"]))).toBe(true);
+
+    const reloaded = new RankingsHistoryStore({ rootDir: store.rootDir });
+    const history = await reloaded.readHistory("d1");
+    expect(history.snapshots.map((snapshot) => snapshot.updatedAt)).toEqual(["2026-03-02", "2026-03-09"]);
+    expect(history.snapshots[0].capturedAt).toBe("2026-03-02T12:00:00.000Z");
+    expect(history.snapshots[1].entries[0]).toMatchObject({ rank: 1, teamKey: "bravo-st", teamName: "Bravo State" });
+  });
+
+  it("computes week-over-week movement and weeks ranked", async () => {
+    const store = await createStore();
+    await store.record(buildFeed("usa-today", "2026-03-02", ["Alpha Tech", "Bravo State", "Charlie"]));
+    await store.record(buildFeed("usa-today", "2026-03-09", ["Bravo State", "Delta", "Alpha Tech"]));
+    const history = await store.readHistory("usa-today");
+
+    expect(computeLatestMovement(history.snapshots)).toEqual([
+      expect.objectContaining({ teamKey: "bravo-st", previousRank: 2, movement: 1, weeksRanked: 2 }),
+      expect.objectContaining({ teamKey: "delta", previousRank: null, movement: null, weeksRanked: 1 }),
+      expect.objectContaining({ teamKey: "alpha-tech", previousRank: 1, movement: -2, weeksRanked: 2 }),
+    ]);
+
+    const charlie = buildTeamRankingsHistory(history, "charlie");
+    expect(charlie).toMatchObject({ teamKey: "charlie", teamName: "Charlie", weeksRanked: 1, currentRank: null });
+    expect(charlie.points.map((point) => point.rank)).toEqual([3, null]);
+
+    const bravo = buildTeamRankingsHistory(history, "Bravo St.");
+    expect(bravo).toMatchObject({ teamKey: "bravo-st", bestRank: 1, currentRank: 1 });
+    expect(bravo.points.map((point) => point.movement)).toEqual([null, 1]);
+  });
+
+  it("keeps one snapshot per poll week so corrections do not count as another week", async () => {
+    const store = await createStore();
+    await store.record(buildFeed("d1", "March 2, 2026", ["Alpha Tech", "Bravo State"]));
+    expect(await store.record(buildFeed("d1", "March 4, 2026", ["Bravo State", "Alpha Tech"]))).toBe(true);
+    await store.record(buildFeed("d1", "March 9, 2026", ["Bravo State", "Alpha Tech"]));
+    const history = await store.readHistory("d1");
+
+    expect(history.snapshots.map((snapshot) => [snapshot.pollWeek, snapshot.updatedAt])).toEqual([
+      ["2026-03-02", "March 4, 2026"],
+      ["2026-03-09", "March 9, 2026"],
+    ]);
+    expect(computeLatestMovement(history.snapshots)).toEqual([
+      expect.objectContaining({ teamKey: "bravo-st", previousRank: 1, movement: 0, weeksRanked: 2 }),
+      expect.objectContaining({ teamKey: "alpha-tech", previousRank: 2, movement: 0, weeksRanked: 2 }),
+    ]);
+    expect(rankingsPollWeek(null, "2026-03-12T15:00:00.000Z")).toBe("2026-03-09");
+  });
+});
+
+describe("buildConsensusRankings", () => {
+  it("averages the polls and counts unranked teams below each poll's last spot", () => {
+    const entries = buildConsensusRankings([
+      buildFeed("d1", "2026-03-09", ["Alpha Tech", "Bravo State", "Charlie"]),
+      buildFeed("baseball-america", "2026-03-09", ["Bravo State", "Alpha Tech", "Delta"]),
+      buildFeed("usa-today", "2026-03-09", ["Alpha Tech", "Bravo State"]),
+    ]);
+
+    expect(entries.map((entry) => [entry.rank, entry.teamKey, entry.averageRank, entry.pollsRanked])).toEqual([
+      [1, "alpha-tech", 1.33, 3],
+      [2, "bravo-st", 1.67, 3],
+      [3, "charlie", 3.33, 1],
+      [4, "delta", 3.33, 1],
+    ]);
+    expect(entries[3].ranks).toEqual({ d1: null, "baseball-america": 3, "usa-today": null });
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { buildBaseballScorekeepingData } from "../src/scorekeeping/baseball";
+import { exportRetrosheetGame, formatRetrosheetEventFile, retrosheetTeamCode } from "../src/scorekeeping/retrosheet";
+import type { StatBroadcastFinalGame } from "../src/types";
+import { buildFinalGame } from "./final-game-fixtures";
+
+describe("retrosheet export", () => {
+  it("writes id/info/start/play/sub records with runner advances", () => {
+    const data = buildBaseballScorekeepingData(
+      buildGame([
+        "Kelly,Rowan singled to left field (1-1 BKX).",
+        "Goldstein,Cade doubled to right field (0-0 X); Kelly,Rowan advanced to third.",
+        "Speed,Sam pinch ran for Goldstein,Cade.",
+        "Barrett,Drey walked (3-0 BBIB).",
+        "Clark,Camden grounded out to ss (0-1 KX); Kelly,Rowan scored; Speed,Sam advanced to third; Barrett,Drey advanced to second.",
+      ])
+    );
+    const exported = exportRetrosheetGame(data, {
+      date: "2026-03-01",
+      homeTeamCode: "USM",
+      lineups: {
+        away: [
+          { spot: 1, position: "cf", player: "Kelly,Rowan", bats: null, today: null, avg: null },
+          { spot: 2, position: "dh", player: "Goldstein,Cade", bats: null, today: null, avg: null },
+          { spot: 3, position: "ss", player: "Barrett,Drey", bats: null, today: null, avg: null },
+          { spot: 4, position: "1b", player: "Clark,Camden", bats: null, today: null, avg: null },
+          { spot: null, position: "p", player: "Hurler,Hank", bats: null, today: null, avg: null },
+        ],
+        home: [],
+      },
+    });
+
+    expect(exported.gameId).toBe("USM202603010");
+    expect(exported.records.slice(0, 4)).toEqual(["id,USM202603010", "version,2", "info,visteam,TRO", "info,hometeam,USM"]);
+    expect(exported.records).toContain("info,date,2026/03/01");
+    expect(exported.records).toContain("info,usedh,true");
+    expect(exported.records).toContain('start,kellr001,"Rowan Kelly",0,1,8');
+    expect(exported.records).toContain('start,hurlh001,"Hank Hurler",0,0,1');
+    expect(exported.records).toContain('start,arm-a001,"Andy Arm",1,0,1');
+    expect(exported.records.filter((record) => record.startsWith("play,"))).toEqual([
+      "play,1,0,kellr001,11,BCX,S7",
+      "play,1,0,goldc001,00,X,D9.1-3",
+      "play,1,0,barrd001,30,BBIB,W",
+      "play,1,0,clarc001,01,CX,63/G.3-H;2-3;1-2",
+    ]);
+    expect(exported.records).toContain('sub,spees001,"Sam Speed",0,2,12');
+    expect(exported.unmappedPlays).toEqual([]);
+    expect(formatRetrosheetEventFile([exported]).endsWith("63/G.3-H;2-3;1-2\n")).toBe(true);
+  });
+
+  it("reports plays it cannot map instead of dropping them", () => {
+    const data = buildBaseballScorekeepingData(
+      buildGame(["Kelly,Rowan flied out (0-0).", "Mound visit."])
+    );
+    const exported = exportRetrosheetGame(data, { date: "2026-03-01" });
+
+    expect(exported.records.filter((record) => record.startsWith("play,"))).toEqual(["play,1,0,kellr001,00,,99"]);
+    expect(exported.unmappedPlays.map((play) => [play.playId, play.reason])).toEqual([
+      ["P-1-top-1", "no fielder recorded for fly out"],
+      ["P-1-top-2", "unrecognized play text"],
+    ]);
+  });
+
+  it("derives three-letter team codes", () => {
+    expect(retrosheetTeamCode("USM")).toBe("USM");
+    expect(retrosheetTeamCode("Southern Miss")).toBe("SMI");
+    expect(retrosheetTeamCode("Troy")).toBe("TRO");
+    expect(retrosheetTeamCode("Texas A&M Corpus Christi")).toBe("TAM");
+  });
+});
+
+function buildGame(plays: string[]): StatBroadcastFinalGame {
+  return buildFinalGame({
+    id: 803,
+    halves: [
+      {
+        inning: 1,
+        pitcher: "Arm,Andy",
+        plays: plays.map((text) => ({ text, batter: / pinch ran for |^Mound/.test(text) ? null : undefined })),
+      },
+    ],
+  });
+}
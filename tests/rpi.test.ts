@@ -0,0 +1,107 @@
+import { describe, expect, it } from "vitest";
+import { computeRpi, diffRpiRankings } from "../src/scorekeeping/rpi";
+import type { D1ScheduleOutcome, D1TeamSeasonData, D1TeamsDatabasePayload, RankingsFeed } from "../src/types";
+import { buildTeamSeason } from "./d1-team-fixtures";
+
+function buildTeam(
+  name: string,
+  slug: string,
+  games: Array<[locationType: string | null, opponentName: string, opponentSlug: string | null, D1ScheduleOutcome]>
+): D1TeamSeasonData {
+  return buildTeamSeason(
+    name,
+    slug,
+    games.map(([locationType, opponentName, opponentSlug, outcome]) => ({
+      locationType,
+      opponentName,
+      opponentSlug,
+      outcome,
+    }))
+  );
+}
+
+function buildPayload(): D1TeamsDatabasePayload {
+  return {
+    fetchedAt: "2026-04-01T12:00:00.000Z",
+    sourceUrl: "https://d1baseball.com/teams/",
+    season: "2026",
+    conferences: [],
+    errors: [],
+    teams: [
+      buildTeam("Alpha Tech", "alphatech", [
+        [null, "Bravo State", "bravost", "win"],
+        ["@", "Charlie", "charlie", "win"],
+        [null, "Nowhere College", null, "win"],
+        [null, "Bravo State", "bravost", "unknown"],
+      ]),
+      buildTeam("Bravo State", "bravost", [
+        ["@", "Alpha Tech", "alphatech", "loss"],
+        [null, "Charlie", null, "win"],
+      ]),
+      buildTeam("Charlie", "charlie", [
+        [null, "Alpha Tech", "alphatech", "loss"],
+        ["@", "Bravo State", "bravost", "loss"],
+      ]),
+    ],
+  };
+}
+
+describe("computeRpi", () => {
+  it("weights home and road results and excludes head-to-head games from opponent win%", () => {
+    const teams = computeRpi(buildPayload());
+
+    expect(teams.map((team) => [team.rank, team.teamKey, team.rpi])).toEqual([
+      [1, "alpha-tech", 0.625],
+      [2, "bravo-st", 0.5],
+      [3, "charlie", 0.375],
+    ]);
+    expect(teams[0]).toMatchObject({
+      record: { wins: 2, losses: 0 },
+      winPct: 1,
+      opponentWinPct: 0.5,
+      opponentOpponentWinPct: 0.5,
+      sos: 0.5,
+    });
+    // A road loss counts 0.7 and a home win 0.7, so Bravo's 1-1 stays at .500.
+    expect(teams[1].winPct).toBe(0.5);
+    expect(teams[2].record).toEqual({ wins: 0, losses: 2 });
+    expect(teams[0].quadrants.quad1).toEqual({ wins: 2, losses: 0 });
+  });
+});
+
+describe("diffRpiRankings", () => {
+  it("pairs computed and official ranks by team id", () => {
+    const official: RankingsFeed = {
+      source: "rpi",
+      sourceLabel: "RPI",
+      sourceUrl: "https://www.ncaa.com/rankings/baseball/d1/rpi",
+      updatedAt: null,
+      entries: [
+        ["Bravo State", "bravo-st"],
+        ["Alpha Tech", null],
+        ["Delta", null],
+      ].map(([teamName, teamId], index) => ({
+        rank: index + 1,
+        teamName: teamName as string,
+        shortName: null,
+        teamId,
+        record: null,
+        previousRank: null,
+        conference: null,
+        points: null,
+        firstPlaceVotes: null,
+        change: null,
+        highLow: null,
+        logoUrl: null,
+        teamUrl: null,
+      })),
+    };
+
+    expect(diffRpiRankings(computeRpi(buildPayload()), official)).toEqual([
+      { teamKey: "bravo-st", teamName: "Bravo State", computedRank: 2, officialRank: 1, rankDelta: -1 },
+      { teamKey: "alpha-tech", teamName: "Alpha Tech", computedRank: 1, officialRank: 2, rankDelta: 1 },
+      { teamKey: "delta", teamName: "Delta", computedRank: null, officialRank: 3, rankDelta: null },
+      { teamKey: "charlie", teamName: "Charlie", computedRank: 3, officialRank: null, rankDelta: null },
+    ]);
+  });
+});
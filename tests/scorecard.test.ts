@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { buildBaseballScorekeepingData } from "../src/scorekeeping/baseball";
+import { buildScorecardPage, renderScorecardPdf, renderScorecardSvg } from "../src/scorekeeping/scorecard";
+import type { StatBroadcastFinalGame } from "../src/types";
+import { buildFinalGame, statsRow } from "./final-game-fixtures";
+
+describe("scorecard export", () => {
+  const data = buildBaseballScorekeepingData(
+    buildGame([
+      "Kelly,Rowan singled to left field (0-0).",
+      "Goldstein,Cade doubled to right field (1-0 B); Kelly,Rowan advanced to third.",
+      "Barrett,Drey struck out looking (1-2 KBK).",
+      "Clark,Camden singled to center field, 2 RBI (0-0); Goldstein,Cade scored; Kelly,Rowan scored.",
+      "Stone,Eli grounded into double play to shortstop (0-0); Clark,Camden out at second.",
+    ])
+  );
+
+  it("lays out one cell per plate appearance with bases reached and outs", () => {
+    const page = buildScorecardPage(data, "away");
+    const byName = new Map(page.rows.map((row) => [row.name, row.appearances]));
+
+    expect(page.rows[0]).toMatchObject({ name: "Rowan Kelly", jersey: 10, position: "cf" });
+    expect(byName.get("Rowan Kelly")).toMatchObject([{ inning: 1, notation: "1B", basesReached: 4, scored: true }]);
+    expect(byName.get("Drey Barrett")).toMatchObject([{ notation: "KL", basesReached: 0, outNumber: 1, pitches: 3 }]);
+    expect(byName.get("Camden Clark")).toMatchObject([{ notation: "1B", basesReached: 1, outNumber: 2 }]);
+    expect(byName.get("Eli Stone")).toMatchObject([{ notation: "G6 DP", outNumber: 3 }]);
+    expect(page.totals).toEqual([{ inning: 1, runs: 2, hits: 3, leftOnBase: 0 }]);
+    expect(page.columns[0]).toEqual({ inning: 1, slot: 0 });
+  });
+
+  it("renders SVG and a one-page-per-team PDF", () => {
+    const pages = [buildScorecardPage(data, "away"), buildScorecardPage(data, "home")];
+    const svg = renderScorecardSvg(pages);
+    const pdf = renderScorecardPdf(pages).toString("latin1");
+
+    expect(svg.startsWith("<svg")).toBe(true);
+    expect(svg).toContain("Troy batting vs Southern Miss");
+    expect(svg).toContain(">G6 DP</text>");
+    expect(pdf.startsWith("%PDF-1.4")).toBe(true);
+    expect(pdf).toContain("/Count 2");
+    expect(pdf).toContain("(Rowan Kelly) Tj");
+    expect(pdf.trimEnd().endsWith("%%EOF")).toBe(true);
+  });
+});
+
+function buildGame(plays: string[]): StatBroadcastFinalGame {
+  return buildFinalGame({
+    id: 802,
+    visitorScore: 2,
+    awayBatting: [statsRow({ col_2: "10", player: "Kelly,Rowan", pos: "cf" })],
+    halves: [{ inning: 1, pitcher: "Arm,Andy", plays }],
+  });
+}
@@ -0,0 +1,199 @@
+import { describe, expect, it } from "vitest";
+import { buildBaseballScorekeepingData } from "../src/scorekeeping/baseball";
+import {
+  aggregateSeasonPlayerStats,
+  formatOutsAsInnings,
+  inningsToOuts,
+} from "../src/scorekeeping/season-stats";
+import type { StatsTable } from "../src/types";
+import { buildFinalGame } from "./final-game-fixtures";
+
+describe("innings arithmetic", () => {
+  it("treats the decimal as thirds of an inning", () => {
+    expect(inningsToOuts(5.2)).toBe(17);
+    expect(inningsToOuts("3.1")).toBe(10);
+    expect(inningsToOuts(null)).toBe(0);
+    expect(formatOutsAsInnings(17 + 10)).toBe("9.0");
+    expect(formatOutsAsInnings(inningsToOuts(0.1) + inningsToOuts(0.1))).toBe("0.2");
+  });
+});
+
+describe("aggregateSeasonPlayerStats", () => {
+  const gameOne = buildBaseballScorekeepingData(
+    buildFinalGame({
+      id: 101,
+      date: "February 14, 2026",
+      visitorTeam: "Troy",
+      homeTeam: "Southern Miss",
+      visitorScore: 2,
+      homeScore: 5,
+      homeBatting: [battingRow("Goldstein,Cade", 7, "cf", { ab: 4, r: 1, h: 2, rbi: 2, bb: 1, k: 0 })],
+      homePitching: [pitchingRow(22, "Smith,John", "W, 1-0", "5.2", { h: 4, r: 2, er: 2, bb: 1, k: 6 })],
+      halves: [
+        {
+          inning: 1,
+          half: "bottom",
+          plays: [{ batter: "Goldstein,Cade", pitcher: "Other,Guy", text: "Goldstein,Cade doubled to left field (1-0 B)." }],
+        },
+        {
+          inning: 3,
+          half: "bottom",
+          plays: [{ batter: "Goldstein,Cade", pitcher: "Other,Guy", text: "Goldstein,Cade homered to right field, 2 RBI (0-0)." }],
+        },
+      ],
+    })
+  );
+
+  const gameTwo = buildBaseballScorekeepingData(
+    buildFinalGame({
+      id: 102,
+      date: "February 15, 2026",
+      visitorTeam: "Southern Miss",
+      homeTeam: "Tulane",
+      visitorScore: 1,
+      homeScore: 3,
+      awayBatting: [battingRow("Goldstein,Cade", 7, "cf", { ab: 3, r: 0, h: 1, rbi: 1, bb: 0, k: 1 })],
+      awayPitching: [pitchingRow(22, "Smith,John", "L, 1-1", "3.1", { h: 5, r: 3, er: 1, bb: 2, k: 3 })],
+      halves: [
+        {
+          inning: 2,
+          half: "top",
+          plays: [
+            { batter: "Goldstein,Cade", pitcher: "Arm,Big", text: "Goldstein,Cade hit by pitch (0-1 K)." },
+          ],
+        },
+        {
+          inning: 5,
+          half: "top",
+          plays: [
+            { batter: "Goldstein,Cade", pitcher: "Arm,Big", text: "Goldstein,Cade flied out to cf, SF, RBI (1-1 BK)." },
+          ],
+        },
+      ],
+    })
+  );
+
+  it("merges home and away appearances into one season line", () => {
+    const stats = aggregateSeasonPlayerStats([gameTwo, gameOne], { team: "Southern Miss" });
+    const hitter = stats.players["southern-miss:7:cade-goldstein"];
+
+    expect(stats.gameIds).toEqual([101, 102]);
+    expect(hitter.playerIds).toEqual(["home:7:cade-goldstein", "away:7:cade-goldstein"]);
+    expect(hitter.batting).toMatchObject({
+      games: 2,
+      ab: 7,
+      h: 3,
+      doubles: 1,
+      hr: 1,
+      bb: 1,
+      hbp: 1,
+      sf: 1,
+      tb: 7,
+      avg: 0.429,
+      obp: 0.5,
+      slg: 1,
+      ops: 1.5,
+    });
+    expect(hitter.gameLog.map((entry) => [entry.gameId, entry.opponent, entry.result])).toEqual([
+      [101, "Troy", "W"],
+      [102, "Tulane", "L"],
+    ]);
+  });
+
+  it("keys players by registry id across team name spellings", () => {
+    const gameThree = buildBaseballScorekeepingData(
+      buildFinalGame({
+        id: 103,
+        date: "February 16, 2026",
+        visitorTeam: "Southern Mississippi",
+        homeTeam: "Tulane",
+        awayBatting: [battingRow("Goldstein,Cade", 7, "cf", { ab: 1, r: 0, h: 0, rbi: 0, bb: 0, k: 0 })],
+        halves: [
+          {
+            inning: 1,
+            plays: [
+              { batter: "Goldstein,Cade", pitcher: "Arm,Big", text: "Goldstein,Cade grounded out to p, Sacrifice bunt (0-0)." },
+            ],
+          },
+        ],
+      })
+    );
+    const stats = aggregateSeasonPlayerStats([gameOne, gameTwo, gameThree], { team: "Southern Miss" });
+
+    expect(Object.keys(stats.players).filter((key) => key.endsWith(":7:cade-goldstein"))).toEqual([
+      "southern-miss:7:cade-goldstein",
+    ]);
+    expect(stats.players["southern-miss:7:cade-goldstein"].batting).toMatchObject({ games: 3, sh: 1 });
+  });
+
+  it("adds innings in thirds and derives pitching rates", () => {
+    const stats = aggregateSeasonPlayerStats([gameOne, gameTwo], { team: "southern-miss" });
+    const pitcher = stats.players["southern-miss:22:john-smith"];
+
+    expect(pitcher.pitching).toMatchObject({
+      games: 2,
+      starts: 2,
+      wins: 1,
+      losses: 1,
+      outs: 27,
+      ip: "9.0",
+      er: 3,
+      era: 3,
+      whip: 1.33,
+      k9: 9,
+      bb9: 3,
+    });
+    expect(pitcher.gameLog[0].pitching?.ip).toBe("5.2");
+  });
+
+  it("skips other teams when a team filter is given", () => {
+    const stats = aggregateSeasonPlayerStats([gameOne, gameTwo], { team: "Troy" });
+    expect(Object.keys(stats.players).every((key) => key.startsWith("troy:"))).toBe(true);
+    expect(aggregateSeasonPlayerStats([gameOne, gameTwo], { team: "Southern" }).players).toEqual({});
+  });
+});
+
+function battingRow(
+  player: string,
+  jersey: number,
+  position: string,
+  line: { ab: number; r: number; h: number; rbi: number; bb: number; k: number }
+): StatsTable["rows"][number] {
+  const values = {
+    col_2: String(jersey),
+    player,
+    pos: position,
+    ab: String(line.ab),
+    r: String(line.r),
+    h: String(line.h),
+    rbi: String(line.rbi),
+    bb: String(line.bb),
+    k: String(line.k),
+  };
+  return { cells: Object.values(values), values };
+}
+
+function pitchingRow(
+  jersey: number,
+  player: string,
+  decision: string | null,
+  ip: string,
+  line: { h: number; r: number; er: number; bb: number; k: number }
+): StatsTable["rows"][number] {
+  const cells = [
+    String(jersey),
+    player,
+    ...(decision ? [decision] : []),
+    ip,
+    String(line.h),
+    String(line.r),
+    String(line.er),
+    String(line.bb),
+    String(line.k),
+    "0",
+    "0",
+    "0",
+    "20",
+  ];
+  return { cells, values: {} };
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from "vitest";
+import { buildBaseballScorekeepingData } from "../src/scorekeeping/baseball";
+import { computeSplits } from "../src/scorekeeping/splits";
+import type { StatBroadcastFinalGame } from "../src/types";
+import { buildFinalGame, type FixtureHalf } from "./final-game-fixtures";
+
+const game = buildBaseballScorekeepingData(
+  buildGame([
+    {
+      inning: 1,
+      half: "top",
+      plays: [
+        "Able,Al singled to left field (0-0).",
+        "Baker,Bo doubled to right field (1-1 BK); Able,Al advanced to third.",
+        "Cruz,Cy struck out swinging (1-2 KBS).",
+        "Dunn,Dee singled to center field, 2 RBI (0-1 F); Able,Al scored; Baker,Bo scored.",
+        "Eads,Ed grounded out to ss (0-0).",
+        "Ford,Fin walked (3-0 BBBB).",
+        "Gray,Gus flied out to cf (0-0).",
+      ],
+    },
+    {
+      inning: 8,
+      half: "bottom",
+      plays: ["Home,Hal homered to left field (2-1 BKB).", "Ike,Ian struck out looking (0-2 KKK)."],
+    },
+  ])
+);
+
+describe("computeSplits", () => {
+  it("breaks team offense into situational splits", () => {
+    const splits = computeSplits([game], { team: "Troy" });
+    const troy = splits.teams[0].splits;
+
+    expect(splits.teams.map((team) => team.team)).toEqual(["Troy"]);
+    expect(troy.overall).toMatchObject({ pa: 7, ab: 6, h: 3, doubles: 1, bb: 1, k: 1, avg: 0.5 });
+    expect(troy.risp).toMatchObject({ pa: 3, ab: 3, h: 1, k: 1, avg: 0.333 });
+    expect(troy.twoOuts).toMatchObject({ pa: 2, ab: 1, bb: 1, h: 0 });
+    expect(troy.firstPitchSwinging).toMatchObject({ pa: 4, h: 2, avg: 0.5 });
+    expect(troy.byCount["0-0"]).toMatchObject({ pa: 3, h: 1 });
+    expect(troy.byInning["1-3"].pa).toBe(7);
+    expect(troy.lateAndClose.pa).toBe(0);
+    expect(computeSplits([game], { team: "Southern" }).teams).toEqual([]);
+  });
+
+  it("flags late-and-close plate appearances", () => {
+    const splits = computeSplits([game], { team: "Southern Miss" });
+    const home = splits.teams[0].splits;
+
+    expect(home.lateAndClose).toMatchObject({ pa: 2, h: 1, hr: 1, k: 1 });
+    expect(home.byInning["7-9"].pa).toBe(2);
+  });
+
+  it("merges a team's games across name spellings and reads sac bunts in any case", () => {
+    const away = buildBaseballScorekeepingData(
+      buildFinalGame({
+        id: 202,
+        visitorTeam: "Southern Mississippi",
+        homeTeam: "Tulane",
+        halves: [{ inning: 2, plays: ["Home,Hal grounded out to p, Sacrifice Bunt (0-0)."] }],
+      })
+    );
+    const splits = computeSplits([game, away], { team: "Southern Miss" });
+
+    expect(splits.teams.map((team) => team.teamKey)).toEqual(["southern-miss"]);
+    expect(splits.players.map((player) => player.seasonPlayerId)).toEqual([
+      "southern-miss:na:hal-home",
+      "southern-miss:na:ian-ike",
+    ]);
+    expect(splits.players[0].splits.overall).toMatchObject({ pa: 2, sh: 1 });
+    expect(splits.teams[0].splits.overall).toMatchObject({ pa: 3, sh: 1 });
+  });
+
+  it("filters players and supports the pitching perspective", () => {
+    const batting = computeSplits([game], { player: "dunn" });
+    expect(batting.players.map((player) => player.seasonPlayerId)).toEqual(["troy:na:dee-dunn"]);
+    expect(batting.players[0].splits.risp).toMatchObject({ pa: 1, h: 1 });
+
+    const pitching = computeSplits([game], { team: "Southern Miss", role: "pitching" });
+    expect(pitching.teams[0].splits.overall.pa).toBe(7);
+    expect(pitching.players[0].name).toBe("Pete Pitcher");
+  });
+});
+
+function buildGame(halves: FixtureHalf[]): StatBroadcastFinalGame {
+  return buildFinalGame({ visitorScore: 2, homeScore: 1, halves });
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import { buildBaseballScorekeepingData } from "../src/scorekeeping/baseball";
+import { computeSprayChart, renderSprayChartSvg } from "../src/scorekeeping/spray-chart";
+import type { StatBroadcastFinalGame } from "../src/types";
+import { buildFinalGame } from "./final-game-fixtures";
+
+const gameOne = buildBaseballScorekeepingData(
+  buildGame(601, "Arm,Andy", [
+    "Able,Al singled to left field (0-0).",
+    "Baker,Bo flied out to cf (1-0 B).",
+    "Cruz,Cy struck out swinging (1-2 KBSS).",
+    "Able,Al grounded out to ss (0-1 K).",
+  ])
+);
+
+const gameTwo = buildBaseballScorekeepingData(
+  buildGame(602, "Other,Ollie", ["Able,Al homered to left field (0-0).", "Baker,Bo reached on an error (0-0)."])
+);
+
+describe("computeSprayChart", () => {
+  it("zones balls in play by the fielder who made the play", () => {
+    const spray = computeSprayChart([gameOne, gameTwo], { team: "Troy" });
+    const able = spray.batters.find((batter) => batter.name === "Al Able");
+
+    expect(spray.teams).toHaveLength(1);
+    expect(spray.teams[0].chart).toMatchObject({ ballsInPlay: 5, unlocated: 1 });
+    expect(able?.chart.zones.LF).toMatchObject({ total: 2, hits: 2, outs: 0, byOutcome: { single: 1, home_run: 1 } });
+    expect(able?.chart.zones.SS).toMatchObject({ total: 1, outs: 1, byOutcome: { ground_out: 1 } });
+    expect(able?.battedBalls.map((ball) => ball.zone)).toEqual(["LF", "SS", "LF"]);
+    expect(computeSprayChart([gameOne, gameTwo], { team: "Tro" }).teams).toEqual([]);
+  });
+
+  it("keeps one team and batter chart across team name spellings", () => {
+    const games = ["Southern Miss", "Southern Mississippi"].map((visitorTeam, index) =>
+      buildBaseballScorekeepingData(
+        buildFinalGame({
+          id: 603 + index,
+          visitorTeam,
+          homeTeam: "Troy",
+          halves: [{ inning: 1, plays: ["Able,Al doubled to right field (0-0)."] }],
+        })
+      )
+    );
+    const spray = computeSprayChart(games, { team: "Southern Miss" });
+
+    expect(spray.teams).toHaveLength(1);
+    expect(spray.teams[0].chart.ballsInPlay).toBe(2);
+    expect(spray.batters.map((batter) => batter.seasonPlayerId)).toEqual(["southern-miss:na:al-able"]);
+  });
+
+  it("limits the team chart to balls in play against one pitcher", () => {
+    const spray = computeSprayChart([gameOne, gameTwo], { team: "Troy", pitcher: "arm" });
+
+    expect(spray.teams[0].chart.ballsInPlay).toBe(3);
+    expect(spray.teams[0].chart.zones.CF.outs).toBe(1);
+    expect(spray.teams[0].chart.byOutcome).toEqual({ single: 1, fly_out: 1, ground_out: 1 });
+  });
+});
+
+describe("renderSprayChartSvg", () => {
+  it("draws a bubble for each zone with batted balls", () => {
+    const spray = computeSprayChart([gameOne], { batter: "able" });
+    const svg = renderSprayChartSvg(spray.batters[0].chart, { title: "Al Able <Troy>" });
+
+    expect(svg.startsWith("<svg")).toBe(true);
+    expect(svg.match(/class="zone"/g)).toHaveLength(2);
+    expect(svg).toContain('data-zone="SS"');
+    expect(svg).toContain("Al Able &#60;Troy&#62;");
+  });
+});
+
+function buildGame(id: number, pitcher: string, plays: string[]): StatBroadcastFinalGame {
+  return buildFinalGame({ id, halves: [{ inning: 1, pitcher, plays }] });
+}
@@ -1,9 +1,13 @@
 import { describe, expect, it } from "vitest";
+import { buildBaseballScorekeepingData } from "../src/scorekeeping/baseball";
 import {
   DEFAULT_BASEBALL_PRINT_XSL,
+  buildArticleSeed,
   buildStatBroadcastPrintPdfUrl,
   extractStatBroadcastId,
 } from "../src/scrapers/statbroadcast-pdf";
+import type { StatBroadcastFinalGame } from "../src/types";
+import { buildFinalGame, type FixtureHalf } from "./final-game-fixtures";
 
 describe("statbroadcast pdf helpers", () => {
   it("extracts ids from raw number input and broadcast urls", () => {
@@ -25,3 +29,48 @@ describe("statbroadcast pdf helpers", () => {
     expect(url.searchParams.get("prompt")).toBe("0");
   });
 });
+
+describe("buildArticleSeed", () => {
+  it("leads with the highest-leverage plays", () => {
+    const finalGame = buildGame([
+      { inning: 1, half: "top", plays: ["Able,Al homered to left field, RBI (0-0)."] },
+      { inning: 1, half: "bottom", plays: ["Baker,Bo grounded out to ss (0-0)."] },
+      {
+        inning: 9,
+        half: "bottom",
+        plays: [
+          "Cruz,Cy singled to center field (1-1 BK).",
+          "Dunn,Dee struck out swinging (0-2 KS).",
+          "Eads,Ed homered to right field, 2 RBI (2-1 BKB); Cruz,Cy scored.",
+        ],
+      },
+    ]);
+
+    const seed = buildArticleSeed(finalGame, buildBaseballScorekeepingData(finalGame));
+
+    // Dunn's strikeout came with the tying run on and nobody out yet, so it outranks the walk-off swing.
+    expect(seed.turningPoints.map((point) => point.batter)).toEqual([
+      "Dee Dunn",
+      "Ed Eads",
+      "Cy Cruz",
+      "Bo Baker",
+      "Al Able",
+    ]);
+    const leverage = seed.turningPoints.map((point) => point.leverageIndex ?? 0);
+    expect(leverage).toEqual([...leverage].sort((a, b) => b - a));
+    expect(seed.turningPoints[1]).toMatchObject({
+      inning: 9,
+      half: "bottom",
+      team: "Southern Miss",
+      batter: "Ed Eads",
+      play: "Ed Eads homered to right field, 2 RBI (2-1 BKB); Cy Cruz scored.",
+      homeWinProbabilityAfter: 1,
+    });
+    expect(seed.turningPoints[1].battingTeamWpa).toBeGreaterThan(0.5);
+    expect(seed.turningPoints[1].leverageIndex).toBeGreaterThan(2);
+  });
+});
+
+function buildGame(halves: FixtureHalf[]): StatBroadcastFinalGame {
+  return buildFinalGame({ id: 301, date: "March 3, 2026", visitorScore: 1, homeScore: 2, halves });
+}
@@ -0,0 +1,125 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import { afterEach, describe, expect, it } from "vitest";
+import { getTeamRegistry, resolveTeamId, TeamRegistry } from "../src/utils/team-registry";
+
+const tempDirs: string[] = [];
+
+afterEach(async () => {
+  await Promise.all(tempDirs.splice(0).map((dir) => fs.rm(dir, { recursive: true, force: true })));
+});
+
+function buildRegistry(): TeamRegistry {
+  return TeamRegistry.fromBranding({
+    teams: [
+      {
+        school: "Mississippi State",
+        displayName: "Mississippi State Bulldogs",
+        shortDisplayName: "Mississippi St",
+        abbreviation: "MSST",
+        division: "SEC",
+        colors: { primary: "#5D1725", secondary: "#FFFFFF" },
+        logo: { primary: { href: "https://example.com/msst.png" }, dark: null },
+        aliases: ["Miss. State", "MSST"],
+      },
+      {
+        school: "Ole Miss",
+        displayName: "Ole Miss Rebels",
+        abbreviation: "MISS",
+        division: "SEC",
+        aliases: ["Mississippi", "Ole Miss Rebels"],
+      },
+      {
+        school: "Boise State",
+        abbreviation: "BSU",
+        aliases: ["Boise St"],
+      },
+      {
+        school: "Boise State",
+        abbreviation: "BOIS",
+        logo: { primary: { href: "https://example.com/boise.png" } },
+        aliases: ["BOIS"],
+      },
+      { school: "TBD", aliases: ["TBD"] },
+    ],
+  });
+}
+
+describe("TeamRegistry", () => {
+  it("gives each school one stable id reachable from every alias", () => {
+    const registry = buildRegistry();
+
+    expect(registry.find("Mississippi State")?.id).toBe("mississippi-st");
+    expect(registry.find("#4 Miss. State")?.id).toBe("mississippi-st");
+    expect(registry.find("MSST")).toMatchObject({
+      id: "mississippi-st",
+      conference: "SEC",
+      colors: { primary: "#5D1725", secondary: "#FFFFFF" },
+      logoUrl: "https://example.com/msst.png",
+    });
+    expect(registry.find("Mississippi")?.id).toBe("ole-miss");
+    expect(registry.find("TBD")).toBeNull();
+  });
+
+  it("merges duplicate branding rows for the same school", () => {
+    const registry = buildRegistry();
+    const boise = registry.get("boise-st");
+
+    expect(registry.list().filter((team) => team.id === "boise-st")).toHaveLength(1);
+    expect(boise?.logoUrl).toBe("https://example.com/boise.png");
+    expect(registry.find("BOIS")).toBe(boise);
+    expect(registry.find("BSU")).toBe(boise);
+  });
+
+  it("folds in D1 directory ids and conferences and reports names it cannot match", async () => {
+    const registry = buildRegistry();
+    registry.registerD1Teams([
+      { id: 212, name: "Mississippi State", slug: "missst", conference: { name: "Southeastern Conference" } },
+      { id: 988, name: "Gulf Coast Tech", slug: "gctech", conference: { name: "Independents" } },
+    ]);
+
+    expect(registry.find("missst")).toMatchObject({
+      id: "mississippi-st",
+      d1Id: 212,
+      conference: "Southeastern Conference",
+    });
+    expect(registry.find("Gulf Coast Tech")).toMatchObject({ id: "gulf-coast-tech", d1Id: 988, d1Slug: "gctech" });
+
+    expect(registry.resolve("Miss. State", "standings")?.id).toBe("mississippi-st");
+    expect(registry.resolve("North Pole A&M", "rankings:d1")).toBeNull();
+    expect(registry.resolve("north pole a&m", "standings")).toBeNull();
+    expect(registry.resolve("TBA", "standings")).toBeNull();
+
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), "team-registry-"));
+    tempDirs.push(dir);
+    const filePath = path.join(dir, "unmatched.json");
+    await registry.writeUnmatchedReport(filePath);
+    const report = JSON.parse(await fs.readFile(filePath, "utf8"));
+
+    expect(report.total).toBe(2);
+    expect(report.names).toEqual([
+      expect.objectContaining({ normalized: "north pole a and m", count: 2, sources: ["rankings:d1", "standings"] }),
+      expect.objectContaining({ name: "Gulf Coast Tech", count: 1, sources: ["d1-directory"] }),
+    ]);
+  });
+
+  it("loads the shared branding file", () => {
+    const registry = getTeamRegistry();
+
+    expect(registry.find("Southern Miss")?.id).toBe("southern-miss");
+    expect(registry.find("USM")?.id).toBe("southern-miss");
+    expect(registry.find("Southern Miss Golden Eagles")?.logoUrl).toBeTruthy();
+  });
+
+  it("resolves lookup ids through the shared registry and reports scraped misses", () => {
+    const reported = () => getTeamRegistry().unmatchedReport().names.map((entry) => entry.name);
+
+    expect(resolveTeamId("Southern Mississippi")).toBe("southern-miss");
+    expect(resolveTeamId("La Tech")).toBe("louisiana-tech");
+    expect(resolveTeamId("Gulf Coast Tech")).toBe("gulf-coast-tech");
+    expect(reported()).not.toContain("Gulf Coast Tech");
+    expect(resolveTeamId("Gulf Coast Tech", "sidearm")).toBe("gulf-coast-tech");
+    expect(reported()).toContain("Gulf Coast Tech");
+  });
+});
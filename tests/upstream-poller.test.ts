@@ -0,0 +1,138 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { classifySummaryPhase, UpstreamPoller, type PollPhase } from "../src/pipelines/upstream-poller";
+import type { StatBroadcastLiveSummary } from "../src/types";
+
+describe("UpstreamPoller", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("shares one in-flight fetch across concurrent callers", async () => {
+    const poller = new UpstreamPoller();
+    let resolveLoad: (value: { phase: PollPhase }) => void = () => undefined;
+    const load = vi.fn(
+      () =>
+        new Promise<{ phase: PollPhase }>((resolve) => {
+          resolveLoad = resolve;
+        })
+    );
+    const target = { key: "game:1", gameKey: "game:1", load, phaseOf: (value: { phase: PollPhase }) => value.phase };
+
+    const pending = [poller.get(target), poller.get(target), poller.get(target)];
+    resolveLoad({ phase: "live" });
+    const values = await Promise.all(pending);
+
+    expect(load).toHaveBeenCalledTimes(1);
+    expect(values.every((value) => value === values[0])).toBe(true);
+    poller.stop();
+  });
+
+  it("serves cached values until the phase interval elapses", async () => {
+    vi.useFakeTimers();
+    const poller = new UpstreamPoller({ intervals: { live: 1_000, final: 10_000 } });
+    let phase: PollPhase = "live";
+    const load = vi.fn(async () => ({ phase }));
+    const target = { key: "game:2", gameKey: "game:2", load, phaseOf: (value: { phase: PollPhase }) => value.phase };
+
+    await poller.get(target);
+    await poller.get(target);
+    expect(load).toHaveBeenCalledTimes(1);
+
+    phase = "final";
+    await vi.advanceTimersByTimeAsync(1_000);
+    expect(load).toHaveBeenCalledTimes(2);
+    expect(poller.status()[0]).toMatchObject({ phase: "final", intervalMs: 10_000 });
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    await poller.get(target);
+    expect(load).toHaveBeenCalledTimes(2);
+    poller.stop();
+  });
+
+  it("stops polling games nobody has requested recently", async () => {
+    vi.useFakeTimers();
+    const poller = new UpstreamPoller({ intervals: { live: 1_000 }, idleTimeoutMs: 2_500 });
+    const load = vi.fn(async () => ({ phase: "live" as PollPhase }));
+    const target = { key: "game:3", gameKey: "game:3", load, phaseOf: (value: { phase: PollPhase }) => value.phase };
+
+    await poller.get(target);
+    await vi.advanceTimersByTimeAsync(2_000);
+    expect(load).toHaveBeenCalledTimes(3);
+    expect(poller.watchedGameKeys()).toEqual(["game:3"]);
+
+    await vi.advanceTimersByTimeAsync(5_000);
+    expect(load).toHaveBeenCalledTimes(3);
+    expect(poller.watchedGameKeys()).toEqual([]);
+  });
+
+  it("keeps polling while a watcher is attached", async () => {
+    vi.useFakeTimers();
+    const poller = new UpstreamPoller({ intervals: { live: 1_000 }, idleTimeoutMs: 500 });
+    let count = 0;
+    const load = vi.fn(async () => ({ phase: "live" as PollPhase, count: ++count }));
+    const seen: number[] = [];
+    const target = {
+      key: "game:4",
+      gameKey: "game:4",
+      load,
+      phaseOf: (value: { phase: PollPhase }) => value.phase,
+    };
+
+    const unwatch = poller.watch(target, (value) => seen.push(value.count));
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(seen).toEqual([1, 2, 3, 4]);
+
+    unwatch();
+    await vi.advanceTimersByTimeAsync(3_000);
+    expect(load).toHaveBeenCalledTimes(4);
+    expect(poller.status()).toEqual([]);
+  });
+});
+
+describe("classifySummaryPhase", () => {
+  it("classifies pregame, live and final summaries", () => {
+    expect(classifySummaryPhase(buildSummary({ statusText: "6:30 PM", inning: null }))).toBe("pregame");
+    expect(classifySummaryPhase(buildSummary({ statusText: "Bot 4th", inning: 4 }))).toBe("live");
+    expect(classifySummaryPhase(buildSummary({ statusText: "Final", inning: 9 }))).toBe("final");
+  });
+});
+
+function buildSummary(input: { statusText: string; inning: number | null }): StatBroadcastLiveSummary {
+  return {
+    id: 1,
+    event: {
+      id: 1,
+      title: "Away at Home",
+      sport: "bsgame",
+      xmlFile: "test.xml",
+      date: null,
+      time: null,
+      venue: null,
+      location: null,
+      homeName: "Home",
+      visitorName: "Away",
+      completed: false,
+    },
+    statusText: input.statusText,
+    visitorTeam: "Away",
+    homeTeam: "Home",
+    visitorScore: 0,
+    homeScore: 0,
+    lineScore: null,
+    situation: input.inning === null
+      ? null
+      : {
+          inningText: input.statusText,
+          half: "bottom",
+          inning: input.inning,
+          count: { balls: 0, strikes: 0 },
+          outs: 0,
+          bases: { first: false, second: false, third: false, mask: 0 },
+          battingTeam: "home",
+          batter: { name: null, ab: null, hits: null, summary: null },
+          pitcher: { name: null, pitchCount: null },
+        },
+    thisInning: null,
+    fetchedAt: "2026-03-01T18:00:00.000Z",
+  };
+}
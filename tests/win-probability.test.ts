@@ -0,0 +1,223 @@
+import { describe, expect, it } from "vitest";
+import type { BaseballScorekeepingData } from "../src/scorekeeping/baseball";
+import { extractClauseSubject } from "../src/scorekeeping/base-state";
+import { parsePitchContextFromText, parsePlayDescription } from "../src/scorekeeping/play-description";
+import {
+  buildRunExpectancyMatrix,
+  DEFAULT_RUN_EXPECTANCY_MATRIX,
+  lookupRunExpectancy,
+} from "../src/scorekeeping/run-expectancy";
+import {
+  buildWinProbabilityTimeline,
+  computeLeverageIndex,
+  computeLiveWinProbability,
+  computePlayWinExpectancy,
+  computeWinProbability,
+} from "../src/scorekeeping/win-probability";
+import type { LiveSituation } from "../src/types";
+
+const EMPTY = { first: false, second: false, third: false };
+
+describe("buildRunExpectancyMatrix", () => {
+  it("counts runs to the end of completed half-innings", () => {
+    const game = buildGame([
+      [
+        "Able,Al singled to left field (0-0).",
+        "Baker,Bo homered to left field, 2 RBI (1-0 B); Able,Al scored.",
+        "Cruz,Cy struck out swinging (0-2 KS).",
+        "Dunn,Dee grounded out to ss (0-0).",
+        "Eads,Ed flied out to cf (0-0).",
+      ],
+      ["Ford,Fin singled to center field (0-0).", "Gray,Gus walked (3-0 BBBB)."],
+    ]);
+
+    const matrix = buildRunExpectancyMatrix([game], { priorWeight: 0 });
+
+    expect(matrix.source).toBe("archive");
+    expect(matrix.halfInnings).toBe(1);
+    expect(matrix.cells["___ 0"]).toMatchObject({ samples: 2, runExpectancy: 1, scoringProbability: 0.5 });
+    expect(matrix.cells["1__ 0"]).toMatchObject({ samples: 1, runExpectancy: 2 });
+    expect(matrix.cells["___ 2"]).toMatchObject({ samples: 1, runExpectancy: 0 });
+    expect(matrix.inningRunDistribution[2]).toBe(1);
+  });
+
+  it("falls back to the default college table without samples", () => {
+    const matrix = buildRunExpectancyMatrix([]);
+    expect(matrix.source).toBe("default");
+    expect(lookupRunExpectancy(matrix, { first: true, second: false, third: true }, 1)?.runExpectancy).toBe(1.2);
+    expect(lookupRunExpectancy(matrix, EMPTY, 3)).toBeNull();
+  });
+});
+
+describe("computeWinProbability", () => {
+  it("gives the home team a small edge at first pitch", () => {
+    const probability = computeWinProbability({ inning: 1, half: "top", outs: 0, bases: EMPTY, awayScore: 0, homeScore: 0 });
+    expect(probability.home).toBeGreaterThan(0.5);
+    expect(probability.home).toBeLessThan(0.55);
+    expect(probability.home + probability.away).toBeCloseTo(1, 3);
+    expect(probability.runExpectancy).toBe(DEFAULT_RUN_EXPECTANCY_MATRIX.cells["___ 0"].runExpectancy);
+  });
+
+  it("ends the game on the scheduled innings", () => {
+    expect(
+      computeWinProbability({ inning: 9, half: "bottom", outs: 1, bases: EMPTY, awayScore: 2, homeScore: 3 }).home
+    ).toBe(1);
+    expect(
+      computeWinProbability({ inning: 9, half: "top", outs: 2, bases: EMPTY, awayScore: 0, homeScore: 4 }).home
+    ).toBeGreaterThan(0.99);
+
+    const tiedAfterTopSeventh = computeWinProbability(
+      { inning: 7, half: "top", outs: 3, bases: EMPTY, awayScore: 2, homeScore: 2 },
+      DEFAULT_RUN_EXPECTANCY_MATRIX,
+      { scheduledInnings: 7 }
+    );
+    expect(tiedAfterTopSeventh.home).toBeGreaterThan(0.6);
+    expect(tiedAfterTopSeventh.runExpectancy).toBeNull();
+  });
+
+  it("values base runners", () => {
+    const state = { inning: 8, half: "bottom" as const, outs: 1, awayScore: 4, homeScore: 3 };
+    const empty = computeWinProbability({ ...state, bases: EMPTY }).home;
+    const loaded = computeWinProbability({ ...state, bases: { first: true, second: true, third: true } }).home;
+    expect(loaded).toBeGreaterThan(empty + 0.1);
+  });
+});
+
+describe("computeLeverageIndex", () => {
+  it("rises in late, close, high-traffic spots", () => {
+    const early = computeLeverageIndex({ inning: 1, half: "top", outs: 0, bases: EMPTY, awayScore: 0, homeScore: 0 });
+    const late = computeLeverageIndex({
+      inning: 9,
+      half: "bottom",
+      outs: 2,
+      bases: { first: true, second: true, third: true },
+      awayScore: 3,
+      homeScore: 2,
+    });
+    const blowout = computeLeverageIndex({ inning: 9, half: "top", outs: 0, bases: EMPTY, awayScore: 0, homeScore: 8 });
+
+    expect(early).toBeGreaterThan(0.5);
+    expect(early).toBeLessThan(1.2);
+    expect(late).toBeGreaterThan(5);
+    expect(blowout).toBeLessThan(0.2);
+  });
+});
+
+describe("computePlayWinExpectancy", () => {
+  it("credits batters and pitchers from their own side", () => {
+    const game = buildGame([["Able,Al homered to left field (0-0)."], ["Baker,Bo struck out swinging (0-2 KS)."]]);
+    game.plays.forEach((play) => {
+      play.participants.batterId = `${play.battingSide}:na:batter`;
+      play.participants.pitcherId = `${play.battingSide === "away" ? "home" : "away"}:na:pitcher`;
+    });
+
+    const byPlay = computePlayWinExpectancy(game.plays);
+    const homer = byPlay.get("P-0-1");
+    const strikeout = byPlay.get("P-1-1");
+
+    expect(homer?.homeAfter).toBeLessThan(homer?.homeBefore ?? 0);
+    expect(homer?.batterWpa).toBeGreaterThan(0);
+    expect(homer?.pitcherWpa).toBe(-(homer?.batterWpa ?? 0));
+    expect(strikeout?.batterWpa).toBeLessThan(0);
+    expect(strikeout?.leverageIndex).toBeGreaterThan(0);
+  });
+});
+
+describe("computeLiveWinProbability", () => {
+  it("needs an inning, half, and score", () => {
+    const situation: LiveSituation = {
+      inningText: "Bot 6th",
+      half: "bottom",
+      inning: 6,
+      count: { balls: 1, strikes: 2 },
+      outs: 2,
+      bases: { first: false, second: true, third: false, mask: 2 },
+      battingTeam: "home",
+      batter: { name: null, ab: null, hits: null, summary: null },
+      pitcher: { name: null, pitchCount: null },
+    };
+
+    expect(computeLiveWinProbability(null, { awayScore: 1, homeScore: 1 })).toBeNull();
+    expect(computeLiveWinProbability(situation, { awayScore: null, homeScore: 1 })).toBeNull();
+    expect(computeLiveWinProbability(situation, { awayScore: 1, homeScore: 1 })?.runExpectancy).toBe(0.35);
+  });
+});
+
+describe("buildWinProbabilityTimeline", () => {
+  it("charts the home win probability after each play", () => {
+    const timeline = buildWinProbabilityTimeline([
+      livePlay(1, 1, "top", "Able,Al doubled to left field (0-0).", { outs: 0, away: 0, home: 0 }),
+      livePlay(2, 1, "top", "Baker,Bo singled to right field, RBI (1-1 BK); Able,Al scored.", { outs: 0, away: 1, home: 0 }),
+      livePlay(3, 1, "top", "Pitching change: Arm,Andy for Pitcher,Pete.", { outs: 0, away: 1, home: 0 }, true),
+      livePlay(4, 1, "top", "Cruz,Cy grounded into double play ss to 2b to 1b (0-0); Baker,Bo out at second.", {
+        outs: 2,
+        away: 1,
+        home: 0,
+      }),
+    ]);
+
+    expect(timeline.map((entry) => entry.key)).toEqual(["p1", "p2", "p4"]);
+    expect(timeline.map((entry) => entry.bases)).toEqual(["_2_", "1__", "___"]);
+    expect(timeline[0].delta).toBeLessThan(0);
+    expect(timeline[1].awayScore).toBe(1);
+    expect(timeline[1].homeWinProbability).toBeLessThan(timeline[0].homeWinProbability);
+    expect(timeline[2].delta).toBeGreaterThan(0);
+  });
+});
+
+function livePlay(
+  order: number,
+  inning: number,
+  half: "top" | "bottom",
+  text: string,
+  after: { outs: number; away: number; home: number },
+  isSubstitution = false
+) {
+  return {
+    key: `p${order}`,
+    order,
+    inning,
+    half,
+    text,
+    batter: null,
+    isSubstitution,
+    outsAfterPlay: after.outs,
+    awayScore: after.away,
+    homeScore: after.home,
+  };
+}
+
+function buildGame(halves: string[][]): BaseballScorekeepingData {
+  const plays = halves.flatMap((texts, halfIndex) =>
+    texts.map((text, index) => {
+      const parsed = parsePlayDescription(text);
+      const half = halfIndex % 2 === 0 ? ("top" as const) : ("bottom" as const);
+      return {
+        playId: `P-${halfIndex}-${index + 1}`,
+        source: "play_by_play" as const,
+        inning: Math.floor(halfIndex / 2) + 1,
+        half,
+        order: index + 1,
+        battingSide: half === "top" ? ("away" as const) : ("home" as const),
+        battingTeam: null,
+        text,
+        participants: {
+          batterId: null as string | null,
+          batterName: extractClauseSubject(text),
+          pitcherId: null as string | null,
+          pitcherName: null,
+        },
+        pitchContext: parsePitchContextFromText(text),
+        result: { outcome: parsed.outcome, tags: parsed.tags, runsScored: 0, isScoringPlay: false, outsAfterPlay: null },
+        scoring: { decisionRaw: null, decisionContext: null },
+        battedBall: { fielderCodes: [], fieldLocations: [], locationSource: "none" as const, locationConfidence: 0 },
+        runnersBefore: null,
+        runnersAfter: null,
+        runnerMovements: [],
+        winExpectancy: null,
+      };
+    })
+  );
+
+  return { plays } as unknown as BaseballScorekeepingData;
+}